@@ -0,0 +1,418 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Stack,
+  Card,
+  Text,
+  Group,
+  Table,
+  Badge,
+  Button,
+  ActionIcon,
+  Tooltip,
+  Modal,
+  ScrollArea,
+  SimpleGrid,
+  TextInput,
+  Alert,
+  Select,
+} from "@mantine/core";
+import {
+  IconArrowLeft,
+  IconPrinter,
+  IconEdit,
+  IconCash,
+  IconAlertCircle,
+  IconUser,
+} from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import CustomerFormModal from "@/components/CustomerFormModal";
+import MoneyInput from "@/components/MoneyInput";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import {
+  getCustomer,
+  getCustomerStatement,
+  getCustomerAging,
+  recordCustomerPayment,
+} from "@/lib/customersDB";
+import {
+  CustomerDoc,
+  CustomerPaymentDoc,
+  CustomerStatementLine,
+} from "@/types/customers";
+import { formatMoney, createMoney, CurrencyCode, Money } from "@/types/money";
+
+interface Props {
+  id: string;
+}
+
+export default function CustomerStatement({ id }: Props) {
+  const router = useRouter();
+  const { currentUser, shop } = useAuth();
+  const [customer, setCustomer] = useState<CustomerDoc | null>(null);
+  const [lines, setLines] = useState<CustomerStatementLine[]>([]);
+  const [balance, setBalance] = useState(0);
+  const [currency, setCurrency] = useState<CurrencyCode>("USD");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState<Money>(createMoney(0));
+  const [paymentMethod, setPaymentMethod] =
+    useState<CustomerPaymentDoc["paymentMethod"]>("cash");
+  const [paymentReference, setPaymentReference] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadStatement = useCallback(async () => {
+    try {
+      setLoading(true);
+      const found = await getCustomer(id);
+      if (!found) {
+        setError("Customer not found");
+        return;
+      }
+      const statement = await getCustomerStatement(id, shop?.shopId);
+      setCustomer(found);
+      setLines(statement.lines);
+      setBalance(statement.balance);
+      setCurrency(statement.currency);
+    } catch (err) {
+      console.error("Error loading customer statement:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load statement"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [id, shop?.shopId]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const display = (amount: number) =>
+    formatMoney(createMoney(amount, currency));
+
+  const handleRecordPayment = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await recordCustomerPayment({
+        customerId: id,
+        amount: paymentAmount,
+        paymentMethod,
+        reference: paymentReference.trim(),
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+      });
+      setPaymentOpen(false);
+      setPaymentAmount(createMoney(0, currency));
+      setPaymentReference("");
+      await loadStatement();
+    } catch (err) {
+      console.error("Error recording payment:", err);
+      setError(
+        `Failed to record payment: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !customer) {
+    return <LoadingSpinner />;
+  }
+
+  if (!customer) {
+    return (
+      <Stack>
+        <Button
+          variant="subtle"
+          leftSection={<IconArrowLeft size={16} />}
+          onClick={() => router.back()}
+        >
+          Back
+        </Button>
+        <Alert color="red" title="Error">
+          {error || "Customer not found"}
+        </Alert>
+      </Stack>
+    );
+  }
+
+  const aging = getCustomerAging(lines);
+
+  return (
+    <Stack gap="lg">
+      {/* Header */}
+      <Group justify="space-between" className="no-print">
+        <Button
+          variant="subtle"
+          leftSection={<IconArrowLeft size={16} />}
+          onClick={() => router.back()}
+        >
+          Back
+        </Button>
+        <Group>
+          {hasPermission(currentUser, Permission.EDIT_SALES) && (
+            <Tooltip label="Edit Customer">
+              <ActionIcon
+                variant="light"
+                size="lg"
+                onClick={() => setEditOpen(true)}
+              >
+                <IconEdit size={20} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          <Tooltip label="Print Statement">
+            <ActionIcon
+              variant="light"
+              size="lg"
+              onClick={() => window.print()}
+            >
+              <IconPrinter size={20} />
+            </ActionIcon>
+          </Tooltip>
+          {hasPermission(currentUser, Permission.CREATE_SALES) &&
+            balance > 0 && (
+              <Button
+                leftSection={<IconCash size={16} />}
+                onClick={() => {
+                  setPaymentAmount(createMoney(balance, currency));
+                  setPaymentOpen(true);
+                }}
+              >
+                Record Payment
+              </Button>
+            )}
+        </Group>
+      </Group>
+
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          title="Error"
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+          className="no-print"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {/* Title */}
+      <Group align="center">
+        <IconUser size={32} />
+        <Stack gap={0}>
+          <Title order={2}>{customer.name}</Title>
+          <Text c="dimmed" size="sm">
+            Statement as at {new Date().toLocaleDateString()}
+          </Text>
+        </Stack>
+      </Group>
+
+      {/* Summary Card */}
+      <Card withBorder shadow="sm">
+        <Group justify="space-between" wrap="wrap">
+          {customer.phoneNumber && (
+            <Stack gap="xs">
+              <Text size="sm" c="dimmed">
+                Phone
+              </Text>
+              <Text fw={500}>{customer.phoneNumber}</Text>
+            </Stack>
+          )}
+          {customer.address && (
+            <Stack gap="xs">
+              <Text size="sm" c="dimmed">
+                Address
+              </Text>
+              <Text fw={500}>{customer.address}</Text>
+            </Stack>
+          )}
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Credit Limit
+            </Text>
+            <Text fw={500}>
+              {customer.creditLimit
+                ? formatMoney(customer.creditLimit)
+                : "No limit"}
+            </Text>
+          </Stack>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Balance Due
+            </Text>
+            <Text fw={700} c={balance > 0 ? "orange" : "green"}>
+              {display(balance)}
+            </Text>
+          </Stack>
+        </Group>
+      </Card>
+
+      {/* Aging */}
+      <Card withBorder shadow="sm">
+        <Title order={4} mb="md">
+          Aging
+        </Title>
+        <SimpleGrid cols={{ base: 2, sm: 4 }}>
+          {[
+            { label: "Current (0-30 days)", value: aging.current },
+            { label: "31-60 days", value: aging.days31to60 },
+            { label: "61-90 days", value: aging.days61to90 },
+            { label: "Over 90 days", value: aging.over90 },
+          ].map((bucket) => (
+            <Stack gap={2} key={bucket.label}>
+              <Text size="sm" c="dimmed">
+                {bucket.label}
+              </Text>
+              <Text fw={600} c={bucket.value > 0 ? undefined : "dimmed"}>
+                {display(bucket.value)}
+              </Text>
+            </Stack>
+          ))}
+        </SimpleGrid>
+      </Card>
+
+      {/* Statement lines */}
+      <Card withBorder shadow="sm">
+        <Title order={4} mb="md">
+          Statement
+        </Title>
+        {lines.length === 0 ? (
+          <Text c="dimmed">No credit sales or payments yet.</Text>
+        ) : (
+          <ScrollArea>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Date</Table.Th>
+                  <Table.Th>Description</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Charges</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Credits</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Balance</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {lines.map((line) => (
+                  <Table.Tr key={line.reference}>
+                    <Table.Td>
+                      {new Date(line.timestamp).toLocaleDateString()}
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap="xs">
+                        <Badge
+                          size="xs"
+                          color={
+                            line.kind === "sale"
+                              ? "blue"
+                              : line.kind === "payment"
+                              ? "green"
+                              : "orange"
+                          }
+                        >
+                          {line.kind}
+                        </Badge>
+                        <Text size="sm">{line.description}</Text>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {line.debit > 0 ? display(line.debit) : ""}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {line.credit > 0 ? display(line.credit) : ""}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(line.balance)}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+      </Card>
+
+      {/* Record payment */}
+      <Modal
+        opened={paymentOpen}
+        onClose={() => setPaymentOpen(false)}
+        title="Record Payment"
+        centered
+      >
+        <Stack>
+          <Text size="sm" c="dimmed">
+            Outstanding balance: {display(balance)}
+          </Text>
+          <MoneyInput
+            label="Amount Received"
+            value={paymentAmount}
+            onChange={(value) =>
+              setPaymentAmount(
+                typeof value === "number"
+                  ? { ...paymentAmount, amount: value }
+                  : value
+              )
+            }
+            variant="light"
+          />
+          <Select
+            label="Received Into"
+            value={paymentMethod}
+            onChange={(value) =>
+              value &&
+              setPaymentMethod(value as CustomerPaymentDoc["paymentMethod"])
+            }
+            data={[
+              { value: "cash", label: "Cash" },
+              { value: "bank", label: "Bank" },
+              { value: "mobile_money", label: "Mobile Money" },
+            ]}
+          />
+          <TextInput
+            label="Reference"
+            placeholder="e.g. receipt or transfer number"
+            value={paymentReference}
+            onChange={(e) => setPaymentReference(e.currentTarget.value)}
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setPaymentOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRecordPayment}
+              loading={saving}
+              disabled={paymentAmount.amount <= 0}
+            >
+              Record Payment
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
+      <CustomerFormModal
+        opened={editOpen}
+        onClose={() => setEditOpen(false)}
+        customer={customer}
+        onSaved={(saved) => setCustomer(saved)}
+      />
+
+      <style jsx global>{`
+        @media print {
+          .no-print {
+            display: none !important;
+          }
+        }
+      `}</style>
+    </Stack>
+  );
+}
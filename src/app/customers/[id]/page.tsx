@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import CustomerStatement from "./CustomerStatement";
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  return {
+    title: `Customer Statement #${id}`,
+    description: `Account statement for customer ${id}`,
+  };
+}
+
+export default async function CustomerStatementPage({ params }: Props) {
+  const { id } = await params;
+  return <CustomerStatement id={id} />;
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  ActionIcon,
+  Box,
+  TextInput,
+  Loader,
+  Alert,
+} from "@mantine/core";
+import {
+  IconPlus,
+  IconEye,
+  IconSearch,
+  IconAlertCircle,
+} from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import CustomerFormModal from "@/components/CustomerFormModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMoneyContext } from "@/contexts/MoneyContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getCustomers, getCustomerStatement } from "@/lib/customersDB";
+import { CustomerDoc } from "@/types/customers";
+import { formatMoney, createMoney, CurrencyCode } from "@/types/money";
+
+export default function CustomersPage() {
+  const router = useRouter();
+  const { currentUser, shop } = useAuth();
+  const { baseCurrency } = useMoneyContext();
+  const [customers, setCustomers] = useState<
+    Array<CustomerDoc & { balance: number; currency: CurrencyCode }>
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+
+  const loadCustomers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const list = await getCustomers(shop?.shopId);
+      const withBalances = await Promise.all(
+        list.map(async (customer) => {
+          const { balance, currency } = await getCustomerStatement(
+            customer._id,
+            shop?.shopId
+          );
+          return { ...customer, balance, currency };
+        })
+      );
+      setCustomers(withBalances);
+    } catch (err) {
+      console.error("Error loading customers:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load customers"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [loadCustomers]);
+
+  const filtered = customers.filter((customer) => {
+    const term = search.trim().toLowerCase();
+    return (
+      !term ||
+      customer.name.toLowerCase().includes(term) ||
+      customer.phoneNumber?.toLowerCase().includes(term)
+    );
+  });
+
+  const totalOwed = customers.reduce(
+    (sum, customer) => sum + Math.max(0, customer.balance),
+    0
+  );
+
+  return (
+    <>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Customers</Title>
+            {hasPermission(currentUser, Permission.EDIT_SALES) && (
+              <CollapsibleFab
+                icon={<IconPlus size={16} />}
+                text="New Customer"
+                onClick={() => setFormOpen(true)}
+                color="blue"
+              />
+            )}
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Customer accounts, credit balances and statements
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <Card withBorder>
+          <Group justify="space-between">
+            <Text c="dimmed">Total owed by customers</Text>
+            <Text fw={700} size="lg">
+              {formatMoney(createMoney(totalOwed, baseCurrency))}
+            </Text>
+          </Group>
+        </Card>
+
+        <TextInput
+          placeholder="Search by name or phone"
+          leftSection={<IconSearch size={16} />}
+          value={search}
+          onChange={(e) => setSearch(e.currentTarget.value)}
+        />
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : filtered.length === 0 ? (
+          <Text ta="center" c="dimmed" py="xl">
+            No customers found.
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {filtered.map((customer) => (
+              <Card key={customer._id} withBorder shadow="sm">
+                <Group justify="space-between" wrap="nowrap">
+                  <Stack gap={2}>
+                    <Text fw={600}>{customer.name}</Text>
+                    {customer.phoneNumber && (
+                      <Text size="sm" c="dimmed">
+                        {customer.phoneNumber}
+                      </Text>
+                    )}
+                    {customer.creditLimit && (
+                      <Text size="xs" c="dimmed">
+                        Limit: {formatMoney(customer.creditLimit)}
+                      </Text>
+                    )}
+                  </Stack>
+                  <Group gap="xs" wrap="nowrap">
+                    <Badge
+                      color={customer.balance > 0 ? "orange" : "green"}
+                      size="lg"
+                    >
+                      {formatMoney(
+                        createMoney(customer.balance, customer.currency)
+                      )}
+                    </Badge>
+                    <ActionIcon
+                      variant="light"
+                      onClick={() => router.push(`/customers/${customer._id}`)}
+                    >
+                      <IconEye size={16} />
+                    </ActionIcon>
+                  </Group>
+                </Group>
+              </Card>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      <CustomerFormModal
+        opened={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => loadCustomers()}
+      />
+    </>
+  );
+}
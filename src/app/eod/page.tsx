@@ -25,6 +25,8 @@ import ProtectedRoute from "@/components/ProtectedRoute";
 import MoneyInput from "@/components/MoneyInput";
 import { getTodayEODSummary, completeEOD } from "@/lib/eod";
 import { getTodayDate, formatDateForDisplay } from "@/lib/tradingDay";
+import { getStaleHeldSales } from "@/lib/heldSales";
+import { HeldSaleDoc } from "@/types/heldSales";
 import { VarianceExplanation, VarianceExplanationType } from "@/types/eod";
 import { Money, createMoney, formatMoney } from "@/types/money";
 import { useMoneyContext } from "@/contexts/MoneyContext";
@@ -75,6 +77,9 @@ export default function EODPage() {
   // Notes
   const [notes, setNotes] = useState("");
 
+  // Carts parked before today that were never completed
+  const [staleHeldSales, setStaleHeldSales] = useState<HeldSaleDoc[]>([]);
+
   // Previous Day Status
   const [previousDayStatus, setPreviousDayStatus] = useState<{
     completed: boolean;
@@ -108,6 +113,9 @@ export default function EODPage() {
           shop.shopId
         );
         setDate(summary.date);
+        setStaleHeldSales(
+          await getStaleHeldSales(summary.date, shop.shopId)
+        );
         setOpeningBalance(summary.openingBalance);
         setCashSales(summary.cashSales);
         setCashPurchases(summary.cashPurchases);
@@ -309,6 +317,40 @@ export default function EODPage() {
           </Alert>
         )}
 
+        {/* Stale Held Sales Warning */}
+        {staleHeldSales.length > 0 && (
+          <Alert
+            icon={<IconAlertCircle size={16} />}
+            title="Held Sales From Earlier Days"
+            color="yellow"
+            mb="md"
+          >
+            <Text size="sm">
+              {staleHeldSales.length} cart
+              {staleHeldSales.length > 1 ? "s are" : " is"} still on hold from
+              before today. Complete or discard{" "}
+              {staleHeldSales.length > 1 ? "them" : "it"} on the New Sale page.
+            </Text>
+            {staleHeldSales.map((heldSale) => (
+              <Text size="sm" key={heldSale._id}>
+                • {heldSale.label || heldSale.customerName || "Unnamed cart"}
+                {" — "}
+                {new Date(heldSale.createdAt).toLocaleString()},{" "}
+                {formatMoney(heldSale.totalAmount)}
+              </Text>
+            ))}
+            <Button
+              size="xs"
+              variant="light"
+              color="yellow"
+              mt="xs"
+              onClick={() => router.push("/sales/new")}
+            >
+              Open Held Sales
+            </Button>
+          </Alert>
+        )}
+
         {/* Success Message */}
         {success && (
           <Alert
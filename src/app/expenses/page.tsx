@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  Box,
+  Loader,
+  Alert,
+  Button,
+  Modal,
+  Image,
+} from "@mantine/core";
+import { IconPlus, IconAlertCircle, IconReceipt } from "@tabler/icons-react";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import ExpenseModal from "@/components/ExpenseModal";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDateFilter } from "@/contexts/DateFilterContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import {
+  getExpenses,
+  getExpenseReceipt,
+  EXPENSE_CATEGORY_LABELS,
+} from "@/lib/expenses";
+import { ExpenseDoc } from "@/types/expenses";
+import { formatMoney } from "@/types/money";
+
+const PAYMENT_METHOD_LABELS: Record<ExpenseDoc["paymentMethod"], string> = {
+  cash: "Cash",
+  bank: "Bank",
+  mobile_money: "Mobile Money",
+};
+
+export default function ExpensesPage() {
+  const { currentUser, shop } = useAuth();
+  const { dateRangeInfo } = useDateFilter();
+  const [expenses, setExpenses] = useState<ExpenseDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [receiptUrl, setReceiptUrl] = useState<string | null>(null);
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      setLoading(true);
+      setExpenses(
+        await getExpenses(
+          dateRangeInfo.startDate.toISOString(),
+          dateRangeInfo.endDate.toISOString(),
+          shop?.shopId
+        )
+      );
+    } catch (err) {
+      console.error("Error loading expenses:", err);
+      setError(err instanceof Error ? err.message : "Failed to load expenses");
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, dateRangeInfo.startDate, dateRangeInfo.endDate]);
+
+  useEffect(() => {
+    loadExpenses();
+  }, [loadExpenses]);
+
+  const showReceipt = async (expense: ExpenseDoc) => {
+    try {
+      const receipt = await getExpenseReceipt(expense._id);
+      if (receipt) {
+        setReceiptUrl(URL.createObjectURL(receipt));
+      }
+    } catch (err) {
+      console.error("Error loading receipt:", err);
+      setError("Failed to load the receipt photo");
+    }
+  };
+
+  const closeReceipt = () => {
+    if (receiptUrl) {
+      URL.revokeObjectURL(receiptUrl);
+    }
+    setReceiptUrl(null);
+  };
+
+  // Check permissions
+  if (!currentUser || !hasPermission(currentUser, Permission.VIEW_EXPENSES)) {
+    return (
+      <ProtectedRoute requireAuth={true}>
+        <Stack gap="md" p="md">
+          <Text ta="center" c="dimmed" size="lg">
+            You don&apos;t have permission to view expenses.
+          </Text>
+        </Stack>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute requireAuth={true}>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Expenses</Title>
+            {hasPermission(currentUser, Permission.CREATE_EXPENSES) && (
+              <CollapsibleFab
+                icon={<IconPlus size={16} />}
+                text="Record Expense"
+                onClick={() => setFormOpen(true)}
+              />
+            )}
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Rent, utilities, airtime, wages and other running costs for{" "}
+            {dateRangeInfo.label.toLowerCase()}
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : expenses.length === 0 ? (
+          <Text ta="center" c="dimmed" py="xl">
+            No expenses recorded in this period.
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {expenses.map((expense) => (
+              <Card key={expense._id} withBorder shadow="sm">
+                <Group justify="space-between" wrap="nowrap">
+                  <Stack gap={2}>
+                    <Text fw={600}>{expense.description}</Text>
+                    <Text size="sm" c="dimmed">
+                      {new Date(expense.timestamp).toLocaleString()}
+                      {" · "}
+                      {PAYMENT_METHOD_LABELS[expense.paymentMethod]}
+                      {expense.createdByName
+                        ? ` · ${expense.createdByName}`
+                        : ""}
+                    </Text>
+                    {(expense.payee || expense.reference) && (
+                      <Text size="sm">
+                        {[expense.payee, expense.reference]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </Text>
+                    )}
+                    {expense.hasReceipt && (
+                      <Button
+                        variant="subtle"
+                        size="compact-sm"
+                        leftSection={<IconReceipt size={14} />}
+                        onClick={() => showReceipt(expense)}
+                        style={{ alignSelf: "flex-start" }}
+                      >
+                        Receipt
+                      </Button>
+                    )}
+                  </Stack>
+                  <Group gap="xs" wrap="nowrap">
+                    <Badge variant="light">
+                      {EXPENSE_CATEGORY_LABELS[expense.category]}
+                    </Badge>
+                    <Badge color="red" variant="light" size="lg">
+                      {formatMoney(expense.amount)}
+                    </Badge>
+                  </Group>
+                </Group>
+              </Card>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      <ExpenseModal
+        opened={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => loadExpenses()}
+      />
+
+      <Modal
+        opened={!!receiptUrl}
+        onClose={closeReceipt}
+        title="Receipt"
+        centered
+        size="lg"
+      >
+        {receiptUrl && <Image src={receiptUrl} alt="Expense receipt" />}
+      </Modal>
+    </ProtectedRoute>
+  );
+}
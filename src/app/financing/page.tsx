@@ -0,0 +1,383 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  Box,
+  Loader,
+  Alert,
+  Button,
+  Modal,
+  Select,
+  Table,
+  Tabs,
+} from "@mantine/core";
+import { IconPlus, IconAlertCircle, IconCash } from "@tabler/icons-react";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import OwnerTransactionModal from "@/components/OwnerTransactionModal";
+import LoanModal from "@/components/LoanModal";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDateFilter } from "@/contexts/DateFilterContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getProductsDB } from "@/lib/databases";
+import { addShopIdFilter } from "@/lib/queryHelpers";
+import { isBundle } from "@/lib/bundles";
+import {
+  getOwnerTransactions,
+  getLoans,
+  getLoanBalance,
+  recordLoanRepayment,
+  OWNER_TRANSACTION_LABELS,
+} from "@/lib/financing";
+import { ProductDoc } from "@/types";
+import {
+  FinancingPaymentMethod,
+  LoanDoc,
+  OwnerTransactionDoc,
+} from "@/types/financing";
+import { formatMoney } from "@/types/money";
+
+const PAYMENT_METHOD_LABELS: Record<
+  OwnerTransactionDoc["paymentMethod"],
+  string
+> = {
+  cash: "Cash",
+  bank: "Bank",
+  mobile_money: "Mobile Money",
+  stock: "Stock",
+};
+
+export default function FinancingPage() {
+  const { currentUser, shop } = useAuth();
+  const { dateRangeInfo } = useDateFilter();
+  const [tab, setTab] = useState<string | null>("owner");
+  const [transactions, setTransactions] = useState<OwnerTransactionDoc[]>([]);
+  const [loans, setLoans] = useState<LoanDoc[]>([]);
+  const [products, setProducts] = useState<ProductDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ownerFormOpen, setOwnerFormOpen] = useState(false);
+  const [loanFormOpen, setLoanFormOpen] = useState(false);
+  const [repaying, setRepaying] = useState<LoanDoc | null>(null);
+  const [repayMethod, setRepayMethod] =
+    useState<FinancingPaymentMethod>("cash");
+  const [savingRepayment, setSavingRepayment] = useState(false);
+
+  const loadFinancing = useCallback(async () => {
+    try {
+      setLoading(true);
+      const productsDB = await getProductsDB();
+      const [list, loanList, productsResult] = await Promise.all([
+        getOwnerTransactions(
+          dateRangeInfo.startDate.toISOString(),
+          dateRangeInfo.endDate.toISOString(),
+          shop?.shopId
+        ),
+        getLoans(shop?.shopId),
+        productsDB.find({
+          selector: addShopIdFilter({ type: "product" }, shop?.shopId),
+        }),
+      ]);
+      setTransactions(list);
+      setLoans(loanList);
+      setProducts(
+        (productsResult.docs as ProductDoc[])
+          .filter((product) => !isBundle(product))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      console.error("Error loading financing:", err);
+      setError(err instanceof Error ? err.message : "Failed to load financing");
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, dateRangeInfo.startDate, dateRangeInfo.endDate]);
+
+  useEffect(() => {
+    loadFinancing();
+  }, [loadFinancing]);
+
+  const handleRepay = async () => {
+    if (!repaying) return;
+
+    setSavingRepayment(true);
+    setError(null);
+    try {
+      await recordLoanRepayment({
+        loanId: repaying._id,
+        paymentMethod: repayMethod,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      setRepaying(null);
+      await loadFinancing();
+    } catch (err) {
+      console.error("Error recording repayment:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setRepaying(null);
+    } finally {
+      setSavingRepayment(false);
+    }
+  };
+
+  // Check permissions
+  if (
+    !currentUser ||
+    !hasPermission(currentUser, Permission.MANAGE_FINANCING)
+  ) {
+    return (
+      <ProtectedRoute requireAuth={true}>
+        <Stack gap="md" p="md">
+          <Text ta="center" c="dimmed" size="lg">
+            You don&apos;t have permission to view financing.
+          </Text>
+        </Stack>
+      </ProtectedRoute>
+    );
+  }
+
+  const nextInstallment = repaying?.schedule.find(
+    (installment) => !installment.repaymentId
+  );
+
+  const renderLoan = (loan: LoanDoc) => (
+    <Card key={loan._id} withBorder shadow="sm">
+      <Group justify="space-between" wrap="nowrap" mb="xs">
+        <Stack gap={2}>
+          <Text fw={600}>{loan.lender}</Text>
+          <Text size="sm" c="dimmed">
+            {new Date(loan.timestamp).toLocaleDateString()}
+            {" · "}
+            {formatMoney(loan.principal)} at {loan.monthlyInterestRate}% a
+            month
+            {loan.reference ? ` · Ref ${loan.reference}` : ""}
+          </Text>
+          {loan.description && <Text size="sm">{loan.description}</Text>}
+        </Stack>
+        <Stack gap={4} align="flex-end">
+          <Badge color={loan.status === "repaid" ? "green" : "blue"}>
+            {loan.status}
+          </Badge>
+          <Text size="sm">{formatMoney(getLoanBalance(loan))} owed</Text>
+        </Stack>
+      </Group>
+      <Table>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Due</Table.Th>
+            <Table.Th style={{ textAlign: "right" }}>Principal</Table.Th>
+            <Table.Th style={{ textAlign: "right" }}>Interest</Table.Th>
+            <Table.Th>Paid</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {loan.schedule.map((installment, index) => (
+            <Table.Tr key={index}>
+              <Table.Td>
+                {new Date(
+                  `${installment.dueDate}T00:00:00`
+                ).toLocaleDateString()}
+              </Table.Td>
+              <Table.Td style={{ textAlign: "right" }}>
+                {formatMoney(installment.principal)}
+              </Table.Td>
+              <Table.Td style={{ textAlign: "right" }}>
+                {formatMoney(installment.interest)}
+              </Table.Td>
+              <Table.Td>
+                {installment.paidAt
+                  ? new Date(installment.paidAt).toLocaleDateString()
+                  : ""}
+              </Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      {loan.status === "active" && (
+        <Group justify="flex-end" mt="sm">
+          <Button
+            variant="light"
+            leftSection={<IconCash size={16} />}
+            onClick={() => {
+              setRepayMethod("cash");
+              setRepaying(loan);
+            }}
+          >
+            Pay Next Installment
+          </Button>
+        </Group>
+      )}
+    </Card>
+  );
+
+  return (
+    <ProtectedRoute requireAuth={true}>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Financing</Title>
+            <CollapsibleFab
+              icon={<IconPlus size={16} />}
+              text={tab === "loans" ? "Record Loan" : "Drawing or Capital"}
+              onClick={() =>
+                tab === "loans" ? setLoanFormOpen(true) : setOwnerFormOpen(true)
+              }
+            />
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Money and stock the owner takes out or puts in, and loans the shop
+            is paying back
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <Tabs value={tab} onChange={setTab}>
+          <Tabs.List>
+            <Tabs.Tab value="owner">Owner</Tabs.Tab>
+            <Tabs.Tab value="loans">Loans</Tabs.Tab>
+          </Tabs.List>
+
+          {loading ? (
+            <Group justify="center" py="xl">
+              <Loader />
+            </Group>
+          ) : (
+            <>
+              <Tabs.Panel value="owner" pt="md">
+                {transactions.length === 0 ? (
+                  <Text ta="center" c="dimmed" py="xl">
+                    No drawings or capital for{" "}
+                    {dateRangeInfo.label.toLowerCase()}.
+                  </Text>
+                ) : (
+                  <Stack gap="sm">
+                    {transactions.map((transaction) => (
+                      <Card key={transaction._id} withBorder shadow="sm">
+                        <Group justify="space-between" wrap="nowrap">
+                          <Stack gap={2}>
+                            <Text fw={600}>{transaction.description}</Text>
+                            <Text size="sm" c="dimmed">
+                              {new Date(transaction.timestamp).toLocaleString()}
+                              {" · "}
+                              {PAYMENT_METHOD_LABELS[transaction.paymentMethod]}
+                              {transaction.createdByName
+                                ? ` · ${transaction.createdByName}`
+                                : ""}
+                            </Text>
+                            {transaction.productName && (
+                              <Text size="sm">
+                                {transaction.quantity} x{" "}
+                                {transaction.productName}
+                              </Text>
+                            )}
+                          </Stack>
+                          <Group gap="xs" wrap="nowrap">
+                            <Badge variant="light">
+                              {OWNER_TRANSACTION_LABELS[transaction.kind]}
+                            </Badge>
+                            <Badge
+                              color={
+                                transaction.kind === "drawing" ? "red" : "green"
+                              }
+                              variant="light"
+                              size="lg"
+                            >
+                              {formatMoney(transaction.amount)}
+                            </Badge>
+                          </Group>
+                        </Group>
+                      </Card>
+                    ))}
+                  </Stack>
+                )}
+              </Tabs.Panel>
+
+              <Tabs.Panel value="loans" pt="md">
+                {loans.length === 0 ? (
+                  <Text ta="center" c="dimmed" py="xl">
+                    No loans recorded.
+                  </Text>
+                ) : (
+                  <Stack gap="sm">{loans.map(renderLoan)}</Stack>
+                )}
+              </Tabs.Panel>
+            </>
+          )}
+        </Tabs>
+      </Stack>
+
+      <OwnerTransactionModal
+        opened={ownerFormOpen}
+        products={products}
+        onClose={() => setOwnerFormOpen(false)}
+        onSaved={() => loadFinancing()}
+      />
+
+      <LoanModal
+        opened={loanFormOpen}
+        onClose={() => setLoanFormOpen(false)}
+        onSaved={() => loadFinancing()}
+      />
+
+      <Modal
+        opened={!!repaying}
+        onClose={() => setRepaying(null)}
+        title={repaying ? `Repay ${repaying.lender}` : ""}
+        centered
+      >
+        {repaying && nextInstallment && (
+          <Stack>
+            <Text size="sm">
+              Installment due{" "}
+              {new Date(
+                `${nextInstallment.dueDate}T00:00:00`
+              ).toLocaleDateString()}
+              : {formatMoney(nextInstallment.principal)} principal and{" "}
+              {formatMoney(nextInstallment.interest)} interest
+            </Text>
+            <Select
+              label="Paid From"
+              description="Cash comes out of your till at end of day"
+              value={repayMethod}
+              onChange={(value) =>
+                value && setRepayMethod(value as FinancingPaymentMethod)
+              }
+              data={[
+                { value: "cash", label: "Cash" },
+                { value: "bank", label: "Bank" },
+                { value: "mobile_money", label: "Mobile Money" },
+              ]}
+              allowDeselect={false}
+            />
+            <Group justify="flex-end">
+              <Button variant="default" onClick={() => setRepaying(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRepay} loading={savingRepayment}>
+                Record Repayment
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  Box,
+  Loader,
+  Alert,
+} from "@mantine/core";
+import { IconPlus, IconAlertCircle } from "@tabler/icons-react";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import InventoryAdjustmentModal from "@/components/InventoryAdjustmentModal";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDateFilter } from "@/contexts/DateFilterContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getProductsDB } from "@/lib/databases";
+import { addShopIdFilter } from "@/lib/queryHelpers";
+import { isBundle } from "@/lib/bundles";
+import {
+  getInventoryAdjustments,
+  ADJUSTMENT_REASON_LABELS,
+} from "@/lib/inventoryAdjustments";
+import { ProductDoc } from "@/types";
+import { InventoryAdjustmentDoc } from "@/types/inventoryAdjustments";
+import { formatMoney } from "@/types/money";
+
+const REASON_COLORS: Record<InventoryAdjustmentDoc["reason"], string> = {
+  damaged: "orange",
+  expired: "yellow",
+  stolen: "red",
+  own_use: "blue",
+  sample: "grape",
+};
+
+export default function InventoryAdjustmentsPage() {
+  const { currentUser, shop } = useAuth();
+  const { dateRangeInfo } = useDateFilter();
+  const [adjustments, setAdjustments] = useState<InventoryAdjustmentDoc[]>(
+    []
+  );
+  const [products, setProducts] = useState<ProductDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const loadAdjustments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const productsDB = await getProductsDB();
+      const [list, productsResult] = await Promise.all([
+        getInventoryAdjustments(
+          dateRangeInfo.startDate.toISOString(),
+          dateRangeInfo.endDate.toISOString(),
+          shop?.shopId
+        ),
+        productsDB.find({
+          selector: addShopIdFilter({ type: "product" }, shop?.shopId),
+        }),
+      ]);
+      setAdjustments(list);
+      setProducts(
+        (productsResult.docs as ProductDoc[])
+          .filter((product) => !isBundle(product))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      console.error("Error loading adjustments:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load adjustments"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, dateRangeInfo.startDate, dateRangeInfo.endDate]);
+
+  useEffect(() => {
+    loadAdjustments();
+  }, [loadAdjustments]);
+
+  // Check permissions
+  if (!currentUser || !hasPermission(currentUser, Permission.EDIT_PRODUCTS)) {
+    return (
+      <ProtectedRoute requireAuth={true}>
+        <Stack gap="md" p="md">
+          <Text ta="center" c="dimmed" size="lg">
+            You don&apos;t have permission to write off stock.
+          </Text>
+        </Stack>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute requireAuth={true}>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Stock Write-offs</Title>
+            <CollapsibleFab
+              icon={<IconPlus size={16} />}
+              text="Write Off Stock"
+              onClick={() => setFormOpen(true)}
+              color="red"
+            />
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Damaged, expired, stolen and given-away stock for{" "}
+            {dateRangeInfo.label.toLowerCase()}
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : adjustments.length === 0 ? (
+          <Text ta="center" c="dimmed" py="xl">
+            No stock written off in this period.
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {adjustments.map((adjustment) => (
+              <Card key={adjustment._id} withBorder shadow="sm">
+                <Group justify="space-between" wrap="nowrap">
+                  <Stack gap={2}>
+                    <Text fw={600}>
+                      {adjustment.quantity} × {adjustment.productName}
+                    </Text>
+                    <Text size="sm" c="dimmed">
+                      {new Date(adjustment.timestamp).toLocaleString()}
+                      {adjustment.createdByName
+                        ? ` · ${adjustment.createdByName}`
+                        : ""}
+                    </Text>
+                    {adjustment.notes && (
+                      <Text size="sm">{adjustment.notes}</Text>
+                    )}
+                  </Stack>
+                  <Group gap="xs" wrap="nowrap">
+                    <Badge color={REASON_COLORS[adjustment.reason]}>
+                      {ADJUSTMENT_REASON_LABELS[adjustment.reason]}
+                    </Badge>
+                    <Badge color="red" variant="light" size="lg">
+                      {formatMoney(adjustment.value)}
+                    </Badge>
+                  </Group>
+                </Group>
+              </Card>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      <InventoryAdjustmentModal
+        opened={formOpen}
+        onClose={() => setFormOpen(false)}
+        products={products}
+        onSaved={() => loadAdjustments()}
+      />
+    </ProtectedRoute>
+  );
+}
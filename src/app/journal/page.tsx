@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  Box,
+  Loader,
+  Alert,
+  Button,
+  Table,
+} from "@mantine/core";
+import {
+  IconPlus,
+  IconAlertCircle,
+  IconCheck,
+  IconX,
+} from "@tabler/icons-react";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import JournalEntryModal from "@/components/JournalEntryModal";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDateFilter } from "@/contexts/DateFilterContext";
+import { hasPermission, hasAnyPermission, Permission } from "@/lib/permissions";
+import {
+  getJournalEntries,
+  getPendingJournalEntries,
+  getJournalApprovalThreshold,
+  approveJournalEntry,
+  rejectJournalEntry,
+  DEFAULT_JOURNAL_APPROVAL_THRESHOLD,
+} from "@/lib/journalEntries";
+import { getAccountMap } from "@/lib/chartOfAccounts";
+import { ChartAccountDoc, LedgerEntryDoc } from "@/types/accounting";
+import { formatMoney } from "@/types/money";
+
+const STATUS_COLORS: Record<LedgerEntryDoc["status"], string> = {
+  pending: "yellow",
+  posted: "green",
+  failed: "red",
+  rejected: "gray",
+};
+
+export default function JournalPage() {
+  const { currentUser, shop } = useAuth();
+  const { dateRangeInfo } = useDateFilter();
+  const [entries, setEntries] = useState<LedgerEntryDoc[]>([]);
+  const [pending, setPending] = useState<LedgerEntryDoc[]>([]);
+  const [chart, setChart] = useState<Map<string, ChartAccountDoc>>(new Map());
+  const [threshold, setThreshold] = useState(
+    DEFAULT_JOURNAL_APPROVAL_THRESHOLD
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [list, pendingList, approvalThreshold, accounts] =
+        await Promise.all([
+          getJournalEntries(
+            dateRangeInfo.startDate.toISOString(),
+            dateRangeInfo.endDate.toISOString(),
+            shop?.shopId
+          ),
+          getPendingJournalEntries(shop?.shopId),
+          getJournalApprovalThreshold(shop?.shopId),
+          getAccountMap(shop?.shopId),
+        ]);
+      setEntries(list.filter((entry) => entry.status !== "pending"));
+      setPending(pendingList);
+      setThreshold(approvalThreshold);
+      setChart(accounts);
+    } catch (err) {
+      console.error("Error loading journal entries:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load journal entries"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, dateRangeInfo.startDate, dateRangeInfo.endDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleDecision = async (entry: LedgerEntryDoc, approve: boolean) => {
+    if (!currentUser) return;
+
+    setActingOn(entry._id);
+    setError(null);
+    try {
+      if (approve) {
+        await approveJournalEntry(
+          entry._id,
+          currentUser.userId,
+          currentUser.name
+        );
+      } else {
+        await rejectJournalEntry(
+          entry._id,
+          currentUser.userId,
+          currentUser.name
+        );
+      }
+      await loadEntries();
+    } catch (err) {
+      console.error("Error updating journal entry:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  // Check permissions
+  if (
+    !currentUser ||
+    !hasAnyPermission(currentUser, [
+      Permission.CREATE_JOURNAL_ENTRIES,
+      Permission.APPROVE_JOURNAL_ENTRIES,
+    ])
+  ) {
+    return (
+      <ProtectedRoute requireAuth={true}>
+        <Stack gap="md" p="md">
+          <Text ta="center" c="dimmed" size="lg">
+            You don&apos;t have permission to view journal entries.
+          </Text>
+        </Stack>
+      </ProtectedRoute>
+    );
+  }
+
+  const canApprove = hasPermission(
+    currentUser,
+    Permission.APPROVE_JOURNAL_ENTRIES
+  );
+
+  const renderEntry = (entry: LedgerEntryDoc) => (
+    <Card key={entry._id} withBorder shadow="sm">
+      <Group justify="space-between" wrap="nowrap" mb="xs">
+        <Stack gap={2}>
+          <Text fw={600}>{entry.memo || entry.description}</Text>
+          <Text size="sm" c="dimmed">
+            {new Date(entry.timestamp).toLocaleDateString()}
+            {entry.reference ? ` · Ref ${entry.reference}` : ""}
+            {entry.createdByName ? ` · ${entry.createdByName}` : ""}
+            {entry.approvedByName
+              ? ` · ${
+                  entry.status === "rejected" ? "Rejected" : "Approved"
+                } by ${entry.approvedByName}`
+              : ""}
+          </Text>
+        </Stack>
+        <Badge color={STATUS_COLORS[entry.status]}>{entry.status}</Badge>
+      </Group>
+      <Table>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Account</Table.Th>
+            <Table.Th>Description</Table.Th>
+            <Table.Th style={{ textAlign: "right" }}>Debit</Table.Th>
+            <Table.Th style={{ textAlign: "right" }}>Credit</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {entry.lines.map((line, index) => (
+            <Table.Tr key={index}>
+              <Table.Td>
+                {line.accountCode} {chart.get(line.accountCode)?.name}
+              </Table.Td>
+              <Table.Td>{line.description}</Table.Td>
+              <Table.Td style={{ textAlign: "right" }}>
+                {line.debit.amount ? formatMoney(line.debit) : ""}
+              </Table.Td>
+              <Table.Td style={{ textAlign: "right" }}>
+                {line.credit.amount ? formatMoney(line.credit) : ""}
+              </Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      {entry.status === "pending" &&
+        canApprove &&
+        entry.createdBy !== currentUser.userId && (
+          <Group justify="flex-end" mt="sm">
+            <Button
+              variant="default"
+              leftSection={<IconX size={16} />}
+              onClick={() => handleDecision(entry, false)}
+              loading={actingOn === entry._id}
+            >
+              Reject
+            </Button>
+            <Button
+              color="green"
+              leftSection={<IconCheck size={16} />}
+              onClick={() => handleDecision(entry, true)}
+              loading={actingOn === entry._id}
+            >
+              Approve
+            </Button>
+          </Group>
+        )}
+    </Card>
+  );
+
+  return (
+    <ProtectedRoute requireAuth={true}>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Journal Entries</Title>
+            {hasPermission(currentUser, Permission.CREATE_JOURNAL_ENTRIES) && (
+              <CollapsibleFab
+                icon={<IconPlus size={16} />}
+                text="New Entry"
+                onClick={() => setFormOpen(true)}
+              />
+            )}
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Manual corrections and entries for{" "}
+            {dateRangeInfo.label.toLowerCase()}. Entries over{" "}
+            {threshold.toLocaleString()} need a second approver.
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : (
+          <>
+            {pending.length > 0 && (
+              <Stack gap="sm">
+                <Title order={4}>Awaiting Approval</Title>
+                {pending.map(renderEntry)}
+              </Stack>
+            )}
+            {entries.length === 0 ? (
+              <Text ta="center" c="dimmed" py="xl">
+                No journal entries in this period.
+              </Text>
+            ) : (
+              <Stack gap="sm">{entries.map(renderEntry)}</Stack>
+            )}
+          </>
+        )}
+      </Stack>
+
+      <JournalEntryModal
+        opened={formOpen}
+        threshold={threshold}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => loadEntries()}
+      />
+    </ProtectedRoute>
+  );
+}
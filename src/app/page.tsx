@@ -8,6 +8,8 @@ import { hasPermission, Permission } from "@/lib/permissions";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import OnboardingWizard from "@/components/OnboardingWizard";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import ExpiringStockPanel from "@/components/ExpiringStockPanel";
+import LowStockPanel from "@/components/LowStockPanel";
 import {
   Button,
   Card,
@@ -198,7 +200,9 @@ export default function Home() {
         ),
       });
 
-      const filteredSales = result.docs as SaleDoc[];
+      const filteredSales = (result.docs as SaleDoc[]).filter(
+        (sale) => !sale.voided
+      );
 
       setSalesCount(filteredSales.length);
 
@@ -1029,6 +1033,13 @@ export default function Home() {
                 </Stack>
               </Card>
 
+              {hasPermission(currentUser, Permission.VIEW_PRODUCTS) && (
+                <>
+                  <LowStockPanel />
+                  <ExpiringStockPanel />
+                </>
+              )}
+
               {/* Add hover styles */}
               <style jsx>{`
                 .hover-card {
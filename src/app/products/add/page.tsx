@@ -6,12 +6,14 @@ import {
   Button,
   Group,
   TextInput,
+  NumberInput,
   Paper,
   Stack,
   Text,
   Box,
   Divider,
   Alert,
+  Switch,
 } from "@mantine/core";
 import { BASE_CURRENCY } from "@/types/money";
 import MoneyInput from "@/components/MoneyInput";
@@ -46,6 +48,10 @@ export default function AddProductPage() {
       name: "",
       price: 0,
       barcode: "",
+      unit: "",
+      fractional: false,
+      reorderLevel: "" as number | string,
+      reorderQuantity: "" as number | string,
     },
     validate: {
       name: (value: string) =>
@@ -81,6 +87,14 @@ export default function AddProductPage() {
         name: values.name,
         price: moneyValue,
         barcode: values.barcode || undefined, // Don't store empty strings
+        unit: values.unit.trim() || undefined,
+        fractional: values.fractional || undefined,
+        reorderLevel:
+          values.reorderLevel === "" ? undefined : Number(values.reorderLevel),
+        reorderQuantity:
+          values.reorderQuantity === ""
+            ? undefined
+            : Number(values.reorderQuantity),
         shopId: shop?.shopId,
         createdBy: currentUser?.userId,
         createdAt: now,
@@ -225,6 +239,49 @@ export default function AddProductPage() {
               />
             )}
 
+            <Divider
+              label="Units (Optional)"
+              labelPosition="center"
+              size="md"
+            />
+
+            <TextInput
+              label="Base Unit"
+              description="What stock is counted and sold in, e.g. kg or loaf. Packs it is bought in can be added from the product list"
+              placeholder="unit"
+              size="lg"
+              {...form.getInputProps("unit")}
+            />
+            <Switch
+              label="Sold by weight or measure"
+              description="Allow part units at the till, e.g. 0.75 kg"
+              size="md"
+              {...form.getInputProps("fractional", { type: "checkbox" })}
+            />
+
+            <Divider
+              label="Reordering (Optional)"
+              labelPosition="center"
+              size="md"
+            />
+
+            <Group grow>
+              <NumberInput
+                label="Reorder Level"
+                description="Warn when stock falls to this"
+                min={0}
+                size="lg"
+                {...form.getInputProps("reorderLevel")}
+              />
+              <NumberInput
+                label="Reorder Quantity"
+                description="Usual quantity to buy"
+                min={1}
+                size="lg"
+                {...form.getInputProps("reorderQuantity")}
+              />
+            </Group>
+
             <Divider my="md" />
 
             <Group>
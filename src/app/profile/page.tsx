@@ -15,6 +15,7 @@ import {
   Tooltip,
   Divider,
   Badge,
+  PasswordInput,
 } from "@mantine/core";
 import {
   IconCopy,
@@ -37,10 +38,16 @@ import {
   type Feature,
 } from "@/lib/features";
 import { LicenseData } from "@/lib/licenseKey";
+import { setApprovalPin } from "@/lib/auth";
+import { hasPermission, Permission } from "@/lib/permissions";
 
 export default function ProfilePage() {
-  const { currentUser, shop } = useAuth();
+  const { currentUser, shop, refreshUser } = useAuth();
   const [licenseKey, setLicenseKey] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [pinSaving, setPinSaving] = useState(false);
+  const [pinSaved, setPinSaved] = useState(false);
+  const [pinError, setPinError] = useState<string | null>(null);
   const [licenseCopied, setLicenseCopied] = useState(false);
   const [licenseDetails, setLicenseDetails] = useState<LicenseData | null>(null);
 
@@ -82,6 +89,23 @@ export default function ProfilePage() {
     }
   };
 
+  const savePin = async () => {
+    if (!currentUser) return;
+    setPinSaving(true);
+    setPinError(null);
+    setPinSaved(false);
+    try {
+      await setApprovalPin(currentUser.userId, pin);
+      await refreshUser();
+      setPin("");
+      setPinSaved(true);
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : "Failed to save PIN");
+    } finally {
+      setPinSaving(false);
+    }
+  };
+
   return (
     <ProtectedRoute requireAuth={true}>
       <Container size="md" py="xl">
@@ -134,6 +158,44 @@ export default function ProfilePage() {
             </Stack>
           </Paper>
 
+          {/* Approval PIN */}
+          {hasPermission(currentUser, Permission.APPROVE_BELOW_COST_SALES) && (
+            <Paper shadow="sm" p="md" withBorder>
+              <Stack gap="sm">
+                <Title order={4}>Approval PIN</Title>
+                <Text size="sm" c="dimmed">
+                  Enter this PIN at another user&apos;s till to approve a sale
+                  below cost.{" "}
+                  {currentUser?.approvalPinHash
+                    ? "A PIN is set; saving replaces it."
+                    : "No PIN is set yet."}
+                </Text>
+                <PasswordInput
+                  label="New PIN"
+                  description="4 to 8 digits"
+                  value={pin}
+                  onChange={(e) => {
+                    setPin(e.currentTarget.value);
+                    setPinSaved(false);
+                  }}
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  error={pinError}
+                />
+                <Group justify="flex-end">
+                  {pinSaved && (
+                    <Text size="sm" c="green">
+                      <IconCheck size={14} /> Saved
+                    </Text>
+                  )}
+                  <Button onClick={savePin} loading={pinSaving} disabled={!pin}>
+                    Save PIN
+                  </Button>
+                </Group>
+              </Stack>
+            </Paper>
+          )}
+
           {/* License Key Display */}
           <Paper shadow="sm" p="md" withBorder>
             <Stack gap="md">
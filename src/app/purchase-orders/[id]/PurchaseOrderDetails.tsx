@@ -0,0 +1,337 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Stack,
+  Card,
+  Text,
+  Group,
+  Table,
+  Badge,
+  Button,
+  Modal,
+  ScrollArea,
+  Alert,
+  Anchor,
+} from "@mantine/core";
+import {
+  IconArrowLeft,
+  IconAlertCircle,
+  IconSend,
+  IconTruckDelivery,
+  IconX,
+} from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import PurchaseOrderStatusBadge from "@/components/PurchaseOrderStatusBadge";
+import ReceiveDeliveryModal from "@/components/ReceiveDeliveryModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import {
+  getPurchaseOrder,
+  markPurchaseOrderSent,
+  closePurchaseOrder,
+} from "@/lib/purchaseOrders";
+import { PurchaseOrderDoc } from "@/types/purchaseOrders";
+import { formatMoney } from "@/types/money";
+
+interface Props {
+  id: string;
+}
+
+export default function PurchaseOrderDetails({ id }: Props) {
+  const router = useRouter();
+  const { currentUser } = useAuth();
+  const [order, setOrder] = useState<PurchaseOrderDoc | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const loadOrder = useCallback(async () => {
+    try {
+      setOrder(await getPurchaseOrder(id));
+    } catch (err) {
+      console.error("Error loading purchase order:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load purchase order"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  const runAction = async (action: () => Promise<PurchaseOrderDoc>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      setOrder(await action());
+    } catch (err) {
+      console.error("Error updating purchase order:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(false);
+      setCloseOpen(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading purchase order..." size="md" />;
+  }
+
+  if (!order) {
+    return (
+      <Stack gap="md">
+        <Button
+          variant="subtle"
+          leftSection={<IconArrowLeft size={16} />}
+          onClick={() => router.push("/purchase-orders")}
+        >
+          Back
+        </Button>
+        <Text ta="center" c="dimmed">
+          Purchase order not found.
+        </Text>
+      </Stack>
+    );
+  }
+
+  const canManage = hasPermission(currentUser, Permission.CREATE_PURCHASES);
+  const isOpen = ["draft", "sent", "partially_received"].includes(
+    order.status
+  );
+  const outstandingUnits = order.items.reduce(
+    (sum, item) => sum + Math.max(0, item.orderedQty - item.receivedQty),
+    0
+  );
+
+  return (
+    <Stack gap="lg">
+      <Group justify="space-between">
+        <Button
+          variant="subtle"
+          leftSection={<IconArrowLeft size={16} />}
+          onClick={() => router.push("/purchase-orders")}
+        >
+          Back
+        </Button>
+        {canManage && isOpen && (
+          <Group gap="xs">
+            {order.status === "draft" && (
+              <Button
+                leftSection={<IconSend size={16} />}
+                loading={working}
+                onClick={() =>
+                  runAction(() => markPurchaseOrderSent(order._id))
+                }
+              >
+                Mark as Sent
+              </Button>
+            )}
+            {order.status !== "draft" && (
+              <Button
+                leftSection={<IconTruckDelivery size={16} />}
+                onClick={() => setReceiveOpen(true)}
+              >
+                Receive Delivery
+              </Button>
+            )}
+            <Button
+              variant="light"
+              color="red"
+              leftSection={<IconX size={16} />}
+              onClick={() => setCloseOpen(true)}
+            >
+              Close Order
+            </Button>
+          </Group>
+        )}
+      </Group>
+
+      <Group align="center" justify="space-between">
+        <Title order={2}>
+          Purchase Order #{order._id.split("_").pop()}
+        </Title>
+        <PurchaseOrderStatusBadge status={order.status} size="lg" />
+      </Group>
+
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          title="Error"
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+
+      <Card withBorder shadow="sm">
+        <Group justify="space-between" wrap="wrap">
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Supplier
+            </Text>
+            <Text fw={500}>{order.supplier || "—"}</Text>
+          </Stack>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Ordered
+            </Text>
+            <Text fw={500}>{new Date(order.createdAt).toLocaleString()}</Text>
+          </Stack>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Order Value
+            </Text>
+            <Text fw={500}>{formatMoney(order.totalAmount)}</Text>
+          </Stack>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Still to Come
+            </Text>
+            <Text fw={500} c={outstandingUnits > 0 ? "orange" : "green"}>
+              {order.status === "closed" && outstandingUnits > 0
+                ? `${outstandingUnits} units (closed short)`
+                : `${outstandingUnits} units`}
+            </Text>
+          </Stack>
+        </Group>
+        {order.notes && (
+          <Text size="sm" mt="sm" style={{ whiteSpace: "pre-wrap" }}>
+            {order.notes}
+          </Text>
+        )}
+      </Card>
+
+      <Card withBorder shadow="sm">
+        <Title order={4} mb="md">
+          Ordered vs Delivered
+        </Title>
+        <ScrollArea>
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Product</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Unit Cost</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Ordered</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Received</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Difference</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {order.items.map((item) => {
+                const difference = item.receivedQty - item.orderedQty;
+                return (
+                  <Table.Tr key={item.productId}>
+                    <Table.Td>{item.productName}</Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {formatMoney(item.costPrice)}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {item.orderedQty}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {item.receivedQty}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {difference === 0 ? (
+                        "—"
+                      ) : (
+                        <Badge
+                          color={difference < 0 ? "orange" : "blue"}
+                          variant="light"
+                        >
+                          {difference > 0 ? `+${difference}` : difference}
+                        </Badge>
+                      )}
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Card>
+
+      <Card withBorder shadow="sm">
+        <Title order={4} mb="md">
+          Deliveries
+        </Title>
+        {order.deliveries.length === 0 ? (
+          <Text c="dimmed">Nothing received yet.</Text>
+        ) : (
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Date</Table.Th>
+                <Table.Th>Received By</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Value</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {order.deliveries.map((delivery) => (
+                <Table.Tr key={delivery.purchaseRunId}>
+                  <Table.Td>
+                    <Anchor
+                      onClick={() =>
+                        router.push(`/purchases/${delivery.purchaseRunId}`)
+                      }
+                    >
+                      {new Date(delivery.timestamp).toLocaleString()}
+                    </Anchor>
+                  </Table.Td>
+                  <Table.Td>{delivery.receivedByName || "—"}</Table.Td>
+                  <Table.Td style={{ textAlign: "right" }}>
+                    {formatMoney(delivery.totalAmount)}
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        )}
+      </Card>
+
+      <ReceiveDeliveryModal
+        order={order}
+        opened={receiveOpen}
+        onClose={() => setReceiveOpen(false)}
+        onReceived={() => loadOrder()}
+      />
+
+      <Modal
+        opened={closeOpen}
+        onClose={() => setCloseOpen(false)}
+        title="Close Order"
+        centered
+      >
+        <Stack>
+          <Text>
+            {outstandingUnits > 0
+              ? `${outstandingUnits} units have not arrived. Closing the order means they are no longer expected.`
+              : "Close this order?"}
+          </Text>
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setCloseOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              color="red"
+              loading={working}
+              onClick={() => runAction(() => closePurchaseOrder(order._id))}
+            >
+              Close Order
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Stack>
+  );
+}
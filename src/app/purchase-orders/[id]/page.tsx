@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import PurchaseOrderDetails from "./PurchaseOrderDetails";
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  return {
+    title: `Purchase Order #${id}`,
+    description: `Ordered and delivered quantities for purchase order ${id}`,
+  };
+}
+
+export default async function PurchaseOrderPage({ params }: Props) {
+  const { id } = await params;
+  return <PurchaseOrderDetails id={id} />;
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Box,
+  Loader,
+  Alert,
+  SegmentedControl,
+} from "@mantine/core";
+import { IconPlus, IconAlertCircle } from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import PurchaseOrderStatusBadge from "@/components/PurchaseOrderStatusBadge";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getPurchaseOrders } from "@/lib/purchaseOrders";
+import { PurchaseOrderDoc } from "@/types/purchaseOrders";
+import { formatMoney } from "@/types/money";
+
+const OPEN_STATUSES: PurchaseOrderDoc["status"][] = [
+  "draft",
+  "sent",
+  "partially_received",
+];
+
+export default function PurchaseOrdersPage() {
+  const router = useRouter();
+  const { currentUser, shop } = useAuth();
+  const [orders, setOrders] = useState<PurchaseOrderDoc[]>([]);
+  const [filter, setFilter] = useState("open");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      setOrders(await getPurchaseOrders(shop?.shopId));
+    } catch (err) {
+      console.error("Error loading purchase orders:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load purchase orders"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  // Check permissions
+  if (!currentUser || !hasPermission(currentUser, Permission.VIEW_PURCHASES)) {
+    return (
+      <ProtectedRoute requireAuth={true}>
+        <Stack gap="md" p="md">
+          <Text ta="center" c="dimmed" size="lg">
+            You don&apos;t have permission to view purchase orders.
+          </Text>
+        </Stack>
+      </ProtectedRoute>
+    );
+  }
+
+  const visible =
+    filter === "open"
+      ? orders.filter((order) => OPEN_STATUSES.includes(order.status))
+      : orders;
+
+  return (
+    <ProtectedRoute requireAuth={true}>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Purchase Orders</Title>
+            {hasPermission(currentUser, Permission.CREATE_PURCHASES) && (
+              <CollapsibleFab
+                icon={<IconPlus size={16} />}
+                text="New Order"
+                onClick={() => router.push("/purchases/new")}
+                color="blue"
+              />
+            )}
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Goods ordered from suppliers and what has arrived so far
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <SegmentedControl
+          value={filter}
+          onChange={setFilter}
+          data={[
+            { value: "open", label: "Open" },
+            { value: "all", label: "All" },
+          ]}
+        />
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : visible.length === 0 ? (
+          <Text ta="center" c="dimmed" py="xl">
+            {filter === "open"
+              ? "No open purchase orders."
+              : "No purchase orders yet."}
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {visible.map((order) => {
+              const ordered = order.items.reduce(
+                (sum, item) => sum + item.orderedQty,
+                0
+              );
+              const received = order.items.reduce(
+                (sum, item) => sum + item.receivedQty,
+                0
+              );
+              return (
+                <Card
+                  key={order._id}
+                  withBorder
+                  shadow="sm"
+                  style={{ cursor: "pointer" }}
+                  onClick={() => router.push(`/purchase-orders/${order._id}`)}
+                >
+                  <Group justify="space-between" wrap="nowrap">
+                    <Stack gap={2}>
+                      <Text fw={600}>
+                        {order.supplier || "No supplier"} ·{" "}
+                        {formatMoney(order.totalAmount)}
+                      </Text>
+                      <Text size="sm" c="dimmed">
+                        {new Date(order.createdAt).toLocaleDateString()} ·{" "}
+                        {received} of {ordered} received
+                        {order.expectedDate
+                          ? ` · expected ${order.expectedDate}`
+                          : ""}
+                      </Text>
+                    </Stack>
+                    <PurchaseOrderStatusBadge status={order.status} />
+                  </Group>
+                </Card>
+              );
+            })}
+          </Stack>
+        )}
+      </Stack>
+    </ProtectedRoute>
+  );
+}
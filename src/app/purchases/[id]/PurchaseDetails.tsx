@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Title,
   Stack,
@@ -26,15 +26,40 @@ import {
   IconNotes,
   IconChartBar,
   IconPrinter,
+  IconCash,
+  IconClipboardText,
+  IconPackageImport,
+  IconTruckReturn,
 } from "@tabler/icons-react";
 import { useRouter } from "next/navigation";
 import { PurchaseDoc } from "@/types";
+import { SupplierPaymentDoc } from "@/types/suppliers";
 import {
   formatMoney,
+  createMoney,
   CurrencyCode,
   CURRENCY_INFO,
   useMoneyOperations,
+  convertMoneyWithRates,
 } from "@/types/money";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMoneyContext } from "@/contexts/MoneyContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getPurchasePayments } from "@/lib/suppliersDB";
+import SupplierPaymentModal from "@/components/SupplierPaymentModal";
+import PurchaseOrderStatusBadge from "@/components/PurchaseOrderStatusBadge";
+import {
+  getPurchaseOrder,
+  getPurchaseOrderDiscrepancies,
+} from "@/lib/purchaseOrders";
+import { PurchaseOrderDoc } from "@/types/purchaseOrders";
+import SupplierReturnModal from "@/components/SupplierReturnModal";
+import { getSupplierReturns } from "@/lib/supplierReturns";
+import { SupplierReturnDoc } from "@/types/supplierReturns";
+import {
+  getLandedUnitCost,
+  LANDED_COST_BASIS_LABELS,
+} from "@/lib/landedCosts";
 
 interface PurchaseDetailsProps {
   purchase: PurchaseDoc;
@@ -54,6 +79,77 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
     useState<CurrencyCode>(purchase.totalAmount.currency);
 
   const { convertMoney, exchangeRates } = useMoneyOperations();
+  const { currentUser, shop } = useAuth();
+  const { baseCurrency } = useMoneyContext();
+  const [payments, setPayments] = useState<SupplierPaymentDoc[]>([]);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+
+  const isCreditPurchase = purchase?.paymentMethod === "credit";
+
+  const loadPayments = useCallback(async () => {
+    if (!purchase?._id || purchase.paymentMethod !== "credit") return;
+    try {
+      setPayments(await getPurchasePayments(purchase._id));
+    } catch (err) {
+      console.error("Error loading supplier payments:", err);
+    }
+  }, [purchase?._id, purchase?.paymentMethod]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  // Goods sent back to the supplier out of this purchase
+  const [supplierReturns, setSupplierReturns] = useState<SupplierReturnDoc[]>(
+    []
+  );
+  const [showReturnModal, setShowReturnModal] = useState(false);
+
+  const loadReturns = useCallback(async () => {
+    if (!purchase?.purchaseRunId) return;
+    try {
+      setSupplierReturns(
+        await getSupplierReturns(purchase.purchaseRunId, shop?.shopId)
+      );
+    } catch (err) {
+      console.error("Error loading supplier returns:", err);
+    }
+  }, [purchase?.purchaseRunId, shop?.shopId]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  // Deliveries received against an order show how they compare to it
+  const [order, setOrder] = useState<PurchaseOrderDoc | null>(null);
+  useEffect(() => {
+    if (!purchase?.purchaseOrderId) return;
+    getPurchaseOrder(purchase.purchaseOrderId)
+      .then(setOrder)
+      .catch((err) => console.error("Error loading purchase order:", err));
+  }, [purchase?.purchaseOrderId]);
+  const discrepancies = order ? getPurchaseOrderDiscrepancies(order) : [];
+  const deliveryNumber =
+    (order?.deliveries.findIndex(
+      (d) => d.purchaseRunId === purchase?.purchaseRunId
+    ) ?? -1) + 1;
+
+  // What is still owed on a credit purchase, in base currency
+  const toBase = (money: typeof purchase.totalAmount) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+  const amountPaid = payments.reduce(
+    (sum, payment) => sum + toBase(payment.amount),
+    0
+  );
+  const amountCredited = supplierReturns
+    .filter((supplierReturn) => supplierReturn.refundMethod === "credit")
+    .reduce(
+      (sum, supplierReturn) => sum + toBase(supplierReturn.totalValue),
+      0
+    );
+  const amountOutstanding = isCreditPurchase
+    ? Math.max(0, toBase(purchase.totalAmount) - amountPaid - amountCredited)
+    : 0;
 
   // Function to convert money to a specific currency
   const convertToDisplayCurrency = (money: typeof purchase.totalAmount) => {
@@ -208,6 +304,16 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
               maxDropdownHeight={400}
             />
           </Group>
+          {hasPermission(currentUser, Permission.CREATE_PURCHASES) && (
+            <Button
+              variant="light"
+              color="orange"
+              leftSection={<IconTruckReturn size={16} />}
+              onClick={() => setShowReturnModal(true)}
+            >
+              Return to Supplier
+            </Button>
+          )}
           <Tooltip label="Print Purchase Details">
             <ActionIcon
               variant="light"
@@ -271,6 +377,28 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
                 purchase.status.slice(1)}
             </Badge>
           </Stack>
+          {isCreditPurchase && (
+            <Stack gap="xs">
+              <Text size="sm" c="dimmed">
+                Due Date
+              </Text>
+              <Text fw={500}>
+                {new Date(
+                  purchase.dueDate || purchase.timestamp
+                ).toLocaleDateString()}
+              </Text>
+            </Stack>
+          )}
+          {isCreditPurchase && (
+            <Stack gap="xs">
+              <Text size="sm" c="dimmed">
+                Outstanding
+              </Text>
+              <Text fw={500} c={amountOutstanding > 0 ? "orange" : "green"}>
+                {formatMoney(createMoney(amountOutstanding, baseCurrency))}
+              </Text>
+            </Stack>
+          )}
         </Group>
       </Card>
 
@@ -295,6 +423,12 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
                       <Text fw={500}>{item.productName}</Text>
                       <Badge variant="light">Qty: {item.qty}</Badge>
                     </Group>
+                    {(item.batchNumber || item.expiryDate) && (
+                      <Text size="xs" c="dimmed">
+                        Batch {item.batchNumber || "—"} · Expires{" "}
+                        {item.expiryDate || "—"}
+                      </Text>
+                    )}
                     <Stack gap="xs" mt="sm">
                       <Group justify="space-between">
                         <Text size="sm" c="dimmed">
@@ -358,7 +492,15 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
                 <Table.Tbody>
                   {purchase.items.map((item, index) => (
                     <Table.Tr key={`${item.productId}_${index}`}>
-                      <Table.Td>{item.productName}</Table.Td>
+                      <Table.Td>
+                        {item.productName}
+                        {(item.batchNumber || item.expiryDate) && (
+                          <Text size="xs" c="dimmed">
+                            Batch {item.batchNumber || "—"} · Expires{" "}
+                            {item.expiryDate || "—"}
+                          </Text>
+                        )}
+                      </Table.Td>
                       <Table.Td>{item.qty}</Table.Td>
                       <Table.Td>
                         {displayAmount({
@@ -394,6 +536,215 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
           </Accordion.Panel>
         </Accordion.Item>
 
+        {/* Purchase Order Section */}
+        {order && (
+          <Accordion.Item value="order">
+            <Accordion.Control icon={<IconClipboardText size={rem(20)} />}>
+              <Group gap="xs">
+                Ordered vs Delivered
+                {discrepancies.length > 0 && (
+                  <Badge color="orange" variant="light">
+                    {discrepancies.length} discrepancies
+                  </Badge>
+                )}
+              </Group>
+            </Accordion.Control>
+            <Accordion.Panel>
+              <Stack gap="sm">
+                <Group justify="space-between">
+                  <Text size="sm">
+                    Delivery {deliveryNumber} of {order.deliveries.length}{" "}
+                    against this order
+                  </Text>
+                  <Group gap="xs">
+                    <PurchaseOrderStatusBadge status={order.status} />
+                    <Button
+                      size="xs"
+                      variant="light"
+                      onClick={() =>
+                        router.push(`/purchase-orders/${order._id}`)
+                      }
+                    >
+                      View Order
+                    </Button>
+                  </Group>
+                </Group>
+                {discrepancies.length === 0 ? (
+                  <Text c="dimmed">Everything ordered has been delivered.</Text>
+                ) : (
+                  <Table striped>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Product</Table.Th>
+                        <Table.Th>Ordered</Table.Th>
+                        <Table.Th>Delivered</Table.Th>
+                        <Table.Th>Short</Table.Th>
+                        <Table.Th>Over</Table.Th>
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {discrepancies.map((line) => (
+                        <Table.Tr key={line.productId}>
+                          <Table.Td>{line.productName}</Table.Td>
+                          <Table.Td>{line.orderedQty}</Table.Td>
+                          <Table.Td>{line.receivedQty}</Table.Td>
+                          <Table.Td>
+                            {line.shortQty > 0 ? (
+                              <Text c="orange" fw={500}>
+                                {line.shortQty}
+                              </Text>
+                            ) : (
+                              "—"
+                            )}
+                          </Table.Td>
+                          <Table.Td>
+                            {line.overQty > 0 ? (
+                              <Text c="blue" fw={500}>
+                                {line.overQty}
+                              </Text>
+                            ) : (
+                              "—"
+                            )}
+                          </Table.Td>
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                )}
+              </Stack>
+            </Accordion.Panel>
+          </Accordion.Item>
+        )}
+
+        {/* Landed Costs Section */}
+        {purchase.landedCosts && purchase.landedCosts.length > 0 && (
+          <Accordion.Item value="landed">
+            <Accordion.Control icon={<IconPackageImport size={rem(20)} />}>
+              Landed Costs
+              {purchase.landedCostBasis && (
+                <Text component="span" size="sm" c="dimmed" ml="xs">
+                  ({LANDED_COST_BASIS_LABELS[purchase.landedCostBasis]})
+                </Text>
+              )}
+            </Accordion.Control>
+            <Accordion.Panel>
+              <Stack gap="md">
+                <Table striped>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Cost</Table.Th>
+                      <Table.Th>Paid With</Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>Amount</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {purchase.landedCosts.map((cost, index) => (
+                      <Table.Tr key={index}>
+                        <Table.Td>{cost.description}</Table.Td>
+                        <Table.Td style={{ textTransform: "capitalize" }}>
+                          {cost.paymentMethod.replace("_", " ")}
+                        </Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {formatMoney(cost.amount)}
+                        </Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+                <Table>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Product</Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>
+                        Supplier Price
+                      </Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>
+                        Landed Share
+                      </Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>
+                        Unit Cost
+                      </Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {purchase.items.map((item, index) => (
+                      <Table.Tr key={`${item.productId}_${index}`}>
+                        <Table.Td>{item.productName}</Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {formatMoney(item.costPrice)}
+                        </Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {item.landedCost
+                            ? formatMoney(item.landedCost)
+                            : "—"}
+                        </Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {formatMoney(getLandedUnitCost(item))}
+                        </Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              </Stack>
+            </Accordion.Panel>
+          </Accordion.Item>
+        )}
+
+        {/* Supplier Returns Section */}
+        {supplierReturns.length > 0 && (
+          <Accordion.Item value="returns">
+            <Accordion.Control icon={<IconTruckReturn size={rem(20)} />}>
+              Returns to Supplier
+            </Accordion.Control>
+            <Accordion.Panel>
+              <Table striped>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Date</Table.Th>
+                    <Table.Th>Items</Table.Th>
+                    <Table.Th>Settled By</Table.Th>
+                    <Table.Th style={{ textAlign: "right" }}>Value</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {supplierReturns.map((supplierReturn) => (
+                    <Table.Tr key={supplierReturn._id}>
+                      <Table.Td>
+                        {new Date(
+                          supplierReturn.timestamp
+                        ).toLocaleDateString()}
+                      </Table.Td>
+                      <Table.Td>
+                        {supplierReturn.items
+                          .map(
+                            (item) => `${item.quantity} × ${item.productName}`
+                          )
+                          .join(", ")}
+                        {supplierReturn.reason && (
+                          <Text size="xs" c="dimmed">
+                            {supplierReturn.reason}
+                          </Text>
+                        )}
+                      </Table.Td>
+                      <Table.Td>
+                        {supplierReturn.refundMethod === "credit"
+                          ? "Credit note"
+                          : `${supplierReturn.refundMethod.replace(
+                              "_",
+                              " "
+                            )} refund`}
+                      </Table.Td>
+                      <Table.Td style={{ textAlign: "right" }}>
+                        {formatMoney(supplierReturn.totalValue)}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Accordion.Panel>
+          </Accordion.Item>
+        )}
+
         {/* Supplier Section */}
         {purchase.supplier && (
           <Accordion.Item value="supplier">
@@ -406,6 +757,58 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
           </Accordion.Item>
         )}
 
+        {/* Supplier Payments Section */}
+        {isCreditPurchase && (
+          <Accordion.Item value="payments">
+            <Accordion.Control icon={<IconCash size={rem(20)} />}>
+              Supplier Payments
+            </Accordion.Control>
+            <Accordion.Panel>
+              <Stack gap="sm">
+                {payments.length === 0 ? (
+                  <Text c="dimmed">No payments recorded yet.</Text>
+                ) : (
+                  <Table striped>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Date</Table.Th>
+                        <Table.Th>Paid From</Table.Th>
+                        <Table.Th>Reference</Table.Th>
+                        <Table.Th>Amount</Table.Th>
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {payments.map((payment) => (
+                        <Table.Tr key={payment._id}>
+                          <Table.Td>
+                            {new Date(payment.timestamp).toLocaleDateString()}
+                          </Table.Td>
+                          <Table.Td>
+                            {payment.paymentMethod.replace("_", " ")}
+                          </Table.Td>
+                          <Table.Td>{payment.reference || "-"}</Table.Td>
+                          <Table.Td>{formatMoney(payment.amount)}</Table.Td>
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                )}
+                {amountOutstanding > 0 &&
+                  hasPermission(currentUser, Permission.CREATE_PURCHASES) && (
+                    <Group justify="flex-end">
+                      <Button
+                        leftSection={<IconCash size={16} />}
+                        onClick={() => setShowPaymentModal(true)}
+                      >
+                        Pay Supplier
+                      </Button>
+                    </Group>
+                  )}
+              </Stack>
+            </Accordion.Panel>
+          </Accordion.Item>
+        )}
+
         {/* Notes Section */}
         {purchase.notes && (
           <Accordion.Item value="notes">
@@ -419,6 +822,23 @@ export default function PurchaseDetails({ purchase }: PurchaseDetailsProps) {
         )}
       </Accordion>
 
+      <SupplierPaymentModal
+        opened={showPaymentModal}
+        onClose={() => setShowPaymentModal(false)}
+        purchaseId={purchase._id}
+        supplierName={purchase.supplier}
+        outstanding={amountOutstanding}
+        currency={baseCurrency}
+        onPaid={() => loadPayments()}
+      />
+
+      <SupplierReturnModal
+        purchase={purchase}
+        opened={showReturnModal}
+        onClose={() => setShowReturnModal(false)}
+        onSaved={() => loadReturns()}
+      />
+
       {/* Print Modal */}
       <Modal
         opened={showPrintModal}
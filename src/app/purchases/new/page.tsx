@@ -20,6 +20,7 @@ import {
   Checkbox,
   Drawer,
   ScrollArea,
+  Select,
 } from "@mantine/core";
 import { useForm } from "@mantine/form";
 import {
@@ -32,12 +33,25 @@ import {
   IconX,
   IconReceipt,
   IconEdit,
+  IconBulb,
+  IconClipboardText,
 } from "@tabler/icons-react";
 import { useRouter } from "next/navigation";
-import { getPurchasesDB, getProductsDB } from "@/lib/databases";
-import { createPurchaseEntry, generateTrialBalance } from "@/lib/accounting";
-import { createInventoryLots } from "@/lib/inventory";
-import { ProductDoc, PurchaseItem, PaymentMethod } from "@/types";
+import { getProductsDB } from "@/lib/databases";
+import {
+  createPurchaseEntry,
+  createLandedCostEntry,
+  getSettlementBalances,
+} from "@/lib/accounting";
+import { apportionLandedCosts, getLandedUnitCost } from "@/lib/landedCosts";
+import { runTransaction } from "@/lib/transactions";
+import {
+  ProductDoc,
+  PurchaseItem,
+  PaymentMethod,
+  LandedCostBasis,
+  LandedCostLine,
+} from "@/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { addShopIdFilter } from "@/lib/queryHelpers";
 import {
@@ -50,10 +64,25 @@ import {
 } from "@/types/money";
 import MoneyInput from "@/components/MoneyInput";
 import { PaymentMethodSelect } from "@/components/PaymentMethodSelect";
-import { AccountCode } from "@/types/accounting";
 import { getShopSettings } from "@/lib/settingsDB";
-import { getLedgerDB } from "@/lib/databases";
-import { LedgerEntryDoc } from "@/types/accounting";
+import { getSuppliers, calculateDueDate } from "@/lib/suppliersDB";
+import { SupplierDoc } from "@/types/suppliers";
+import { SupplierReorderGroup } from "@/types/reorder";
+import SuggestedPurchaseModal from "@/components/SuggestedPurchaseModal";
+import LandedCostsEditor from "@/components/LandedCostsEditor";
+import { createPurchaseOrder } from "@/lib/purchaseOrders";
+import { isBundle } from "@/lib/bundles";
+import {
+  getBaseUnit,
+  formatQuantity,
+  formatPurchaseQuantity,
+  getMinQuantity,
+  roundQuantity,
+  toBaseUnits,
+  toPackPrice,
+  validateQuantity,
+} from "@/lib/units";
+import { useKeyboardWedgeScanner } from "@/hooks/useKeyboardWedgeScanner";
 import dynamic from "next/dynamic";
 
 const BarcodeScanner = dynamic(() => import("@/components/BarcodeScanner"), {
@@ -68,13 +97,20 @@ export default function NewPurchasePage() {
   const [success, setSuccess] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
   const [supplierName, setSupplierName] = useState("");
+  const [suppliers, setSuppliers] = useState<SupplierDoc[]>([]);
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [dueDate, setDueDate] = useState("");
   const [showScanner, setShowScanner] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [products, setProducts] = useState<ProductDoc[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<ProductDoc[]>([]);
   const [selectedProducts, setSelectedProducts] = useState<ProductDoc[]>([]);
   const [quantityDrawerOpen, setQuantityDrawerOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [cartItems, setCartItems] = useState<PurchaseItem[]>([]);
+  const [landedCosts, setLandedCosts] = useState<LandedCostLine[]>([]);
+  const [landedCostBasis, setLandedCostBasis] =
+    useState<LandedCostBasis>("value");
   const [showReceipt, setShowReceipt] = useState(false);
   const [receiptData, setReceiptData] = useState<{
     items: PurchaseItem[];
@@ -90,6 +126,8 @@ export default function NewPurchasePage() {
     quantity: number;
     costPrice: Money;
     sellingPrice: Money;
+    batchNumber: string;
+    expiryDate: string;
   } | null>(null);
   const [paymentMethodError, setPaymentMethodError] = useState<string | null>(
     null
@@ -122,8 +160,13 @@ export default function NewPurchasePage() {
         const result = await productsDB.find({
           selector: addShopIdFilter({ type: "product" }, shop.shopId),
         });
-        setProducts(result.docs as ProductDoc[]);
-        setFilteredProducts(result.docs as ProductDoc[]);
+        // Bundles are made up from their components, never bought
+        const buyable = (result.docs as ProductDoc[]).filter(
+          (product) => !isBundle(product)
+        );
+        setProducts(buyable);
+        setFilteredProducts(buyable);
+        setSuppliers(await getSuppliers(shop.shopId));
       } catch (err) {
         console.error("Error fetching data:", err);
         setError(
@@ -161,10 +204,16 @@ export default function NewPurchasePage() {
         quantity: number;
         costPrice: Money;
         sellingPrice: Money;
+        batchNumber: string;
+        expiryDate: string; // YYYY-MM-DD, empty when the goods don't expire
+        packUnit: string; // Unit quantity and cost are entered in
       }
     >
   >({});
 
+  const findPack = (product: ProductDoc, packUnit?: string) =>
+    product.packUnits?.find((pack) => pack.name === packUnit);
+
   const handleProductSelect = (product: ProductDoc, isSelected: boolean) => {
     if (isSelected) {
       setSelectedProducts([...selectedProducts, product]);
@@ -175,6 +224,9 @@ export default function NewPurchasePage() {
           quantity: 1,
           costPrice: product.costPrice || createMoney(0),
           sellingPrice: product.price, // Use current selling price as initial value
+          batchNumber: "",
+          expiryDate: "",
+          packUnit: getBaseUnit(product),
         },
       });
     } else {
@@ -223,10 +275,19 @@ export default function NewPurchasePage() {
     }
   };
 
+  // USB scanners in keyboard mode feed the same lookup as the camera
+  useKeyboardWedgeScanner(handleBarcodeScanned);
+
   const handleDetailsChange = (
     productId: string,
-    field: "quantity" | "costPrice" | "sellingPrice",
-    value: number | Money
+    field:
+      | "quantity"
+      | "costPrice"
+      | "sellingPrice"
+      | "batchNumber"
+      | "expiryDate"
+      | "packUnit",
+    value: number | Money | string
   ) => {
     setProductDetails({
       ...productDetails,
@@ -237,17 +298,47 @@ export default function NewPurchasePage() {
     });
   };
 
+  // Switching between a pack and the base unit re-prices the last cost
+  const handlePackUnitChange = (product: ProductDoc, packUnit: string) => {
+    const currentCost =
+      productDetails[product._id]?.costPrice || product.costPrice;
+    const previous = findPack(product, productDetails[product._id]?.packUnit);
+    setProductDetails({
+      ...productDetails,
+      [product._id]: {
+        ...productDetails[product._id],
+        packUnit,
+        costPrice: toPackPrice(
+          toBaseUnits(1, currentCost, previous).unitPrice,
+          findPack(product, packUnit)
+        ),
+      },
+    });
+  };
+
   const handleAddSelectedToCart = () => {
     if (selectedProducts.length === 0) return;
 
-    // Validate profitability before adding to cart
+    // Validate profitability before adding to cart, per base unit since
+    // selling prices are per base unit
     const unprofitableItems: string[] = [];
-    selectedProducts.forEach((product) => {
+    for (const product of selectedProducts) {
       const details = productDetails[product._id];
-      if (details.sellingPrice.amount <= details.costPrice.amount) {
+      const pack = findPack(product, details.packUnit);
+      const { quantity, unitPrice } = toBaseUnits(
+        details.quantity,
+        details.costPrice,
+        pack
+      );
+      const quantityError = validateQuantity(product, quantity);
+      if (quantityError) {
+        setError(quantityError);
+        return;
+      }
+      if (details.sellingPrice.amount <= unitPrice.amount) {
         unprofitableItems.push(product.name);
       }
-    });
+    }
 
     if (unprofitableItems.length > 0) {
       setError(
@@ -260,18 +351,25 @@ export default function NewPurchasePage() {
 
     const newItems: PurchaseItem[] = selectedProducts.map((product) => {
       const details = productDetails[product._id];
-      const quantity = details.quantity;
+
+      // Lots, stock and costs are kept in the product's base unit
+      const pack = findPack(product, details.packUnit);
+      const { quantity, unitPrice: costPrice } = toBaseUnits(
+        details.quantity,
+        details.costPrice,
+        pack
+      );
 
       // Calculate total for this item
       const itemTotal = {
         ...details.costPrice,
-        amount: details.costPrice.amount * quantity,
+        amount: details.costPrice.amount * details.quantity,
       };
 
       // Calculate expected profit per unit
       const expectedProfit = {
         ...details.sellingPrice,
-        amount: details.sellingPrice.amount - details.costPrice.amount,
+        amount: details.sellingPrice.amount - costPrice.amount,
       };
 
       return {
@@ -279,10 +377,16 @@ export default function NewPurchasePage() {
         productName: product.name,
         productCode: product.code,
         qty: quantity,
-        costPrice: details.costPrice,
+        costPrice,
         total: itemTotal,
         intendedSellingPrice: details.sellingPrice,
         expectedProfit: expectedProfit,
+        batchNumber: details.batchNumber.trim() || undefined,
+        expiryDate: details.expiryDate || undefined,
+        unit: product.unit,
+        packUnit: pack?.name,
+        packQty: pack ? details.quantity : undefined,
+        unitsPerPack: pack?.factor,
       };
     });
 
@@ -308,6 +412,8 @@ export default function NewPurchasePage() {
       quantity: item.qty,
       costPrice: item.costPrice,
       sellingPrice: item.intendedSellingPrice,
+      batchNumber: item.batchNumber || "",
+      expiryDate: item.expiryDate || "",
     });
     setEditingCartItemIndex(index);
   };
@@ -335,13 +441,31 @@ export default function NewPurchasePage() {
         editCartItemForm.costPrice.amount,
     };
 
+    const quantityError = validateQuantity(
+      {
+        name: item.productName,
+        fractional: products.find((p) => p._id === item.productId)
+          ?.fractional,
+      },
+      editCartItemForm.quantity
+    );
+    if (quantityError) {
+      setError(quantityError);
+      return;
+    }
+
     const updatedItem: PurchaseItem = {
       ...item,
       qty: editCartItemForm.quantity,
+      packQty: item.unitsPerPack
+        ? roundQuantity(editCartItemForm.quantity / item.unitsPerPack)
+        : undefined,
       costPrice: editCartItemForm.costPrice,
       intendedSellingPrice: editCartItemForm.sellingPrice,
       total: itemTotal,
       expectedProfit: expectedProfit,
+      batchNumber: editCartItemForm.batchNumber.trim() || undefined,
+      expiryDate: editCartItemForm.expiryDate || undefined,
     };
 
     const newCartItems = [...cartItems];
@@ -411,11 +535,6 @@ export default function NewPurchasePage() {
       }, {} as Record<CurrencyCode, number>);
       exchangeRates[baseCurrency] = 1;
 
-      const trialBalance = await generateTrialBalance(
-        new Date(0).toISOString(),
-        new Date().toISOString()
-      );
-
       // Convert total price to base currency
       const totalInBase = convertMoneyWithRates(
         totalPrice,
@@ -424,130 +543,15 @@ export default function NewPurchasePage() {
         baseCurrency
       );
 
-      let availableBalance: Money;
-
-      if (paymentMethod === "cash") {
-        const cashAccount = trialBalance.accounts[AccountCode.CASH];
-        availableBalance = cashAccount
-          ? cashAccount.netBalance
-          : createMoney(0, baseCurrency, 1);
-      } else if (paymentMethod === "bank") {
-        // Calculate bank balance from settings + transactions
-        let bankOpeningBalance = 0;
-        settings.accounts.forEach((account) => {
-          if (account.type === "bank") {
-            const accountBalance = convertMoneyWithRates(
-              {
-                amount: account.balance,
-                currency: account.currency as CurrencyCode,
-                exchangeRate:
-                  exchangeRates[account.currency as CurrencyCode] || 1,
-              },
-              baseCurrency,
-              exchangeRates[baseCurrency],
-              baseCurrency
-            );
-            bankOpeningBalance += accountBalance.amount;
-          }
-        });
-
-        const ledgerDB = await getLedgerDB();
-        const ledgerEntries = await ledgerDB.find({
-          selector: {
-            type: "ledger_entry",
-            "metadata.paymentMethod": "bank",
-          },
-        });
-
-        let bankNetChange = 0;
-        (ledgerEntries.docs as LedgerEntryDoc[]).forEach((entry) => {
-          const cashLine = entry.lines.find(
-            (line) =>
-              line.accountCode === AccountCode.CASH ||
-              line.accountCode === AccountCode.ACCOUNTS_RECEIVABLE
-          );
-          if (cashLine && entry.metadata?.paymentMethod === "bank") {
-            const debitAmount = convertMoneyWithRates(
-              cashLine.debit,
-              baseCurrency,
-              exchangeRates[baseCurrency],
-              baseCurrency
-            ).amount;
-            const creditAmount = convertMoneyWithRates(
-              cashLine.credit,
-              baseCurrency,
-              exchangeRates[baseCurrency],
-              baseCurrency
-            ).amount;
-            bankNetChange += debitAmount - creditAmount;
-          }
-        });
-
-        availableBalance = createMoney(
-          bankOpeningBalance + bankNetChange,
-          baseCurrency,
-          1
-        );
-      } else if (paymentMethod === "mobile_money") {
-        // Calculate mobile_money balance from settings + transactions
-        let mobileMoneyOpeningBalance = 0;
-        settings.accounts.forEach((account) => {
-          if (account.type === "mobile_money") {
-            const accountBalance = convertMoneyWithRates(
-              {
-                amount: account.balance,
-                currency: account.currency as CurrencyCode,
-                exchangeRate:
-                  exchangeRates[account.currency as CurrencyCode] || 1,
-              },
-              baseCurrency,
-              exchangeRates[baseCurrency],
-              baseCurrency
-            );
-            mobileMoneyOpeningBalance += accountBalance.amount;
-          }
-        });
-
-        const ledgerDB = await getLedgerDB();
-        const ledgerEntries = await ledgerDB.find({
-          selector: {
-            type: "ledger_entry",
-            "metadata.paymentMethod": "mobile_money",
-          },
-        });
-
-        let mobileMoneyNetChange = 0;
-        (ledgerEntries.docs as LedgerEntryDoc[]).forEach((entry) => {
-          const cashLine = entry.lines.find(
-            (line) =>
-              line.accountCode === AccountCode.CASH ||
-              line.accountCode === AccountCode.ACCOUNTS_RECEIVABLE
-          );
-          if (cashLine && entry.metadata?.paymentMethod === "mobile_money") {
-            const debitAmount = convertMoneyWithRates(
-              cashLine.debit,
-              baseCurrency,
-              exchangeRates[baseCurrency],
-              baseCurrency
-            ).amount;
-            const creditAmount = convertMoneyWithRates(
-              cashLine.credit,
-              baseCurrency,
-              exchangeRates[baseCurrency],
-              baseCurrency
-            ).amount;
-            mobileMoneyNetChange += debitAmount - creditAmount;
-          }
-        });
-
-        availableBalance = createMoney(
-          mobileMoneyOpeningBalance + mobileMoneyNetChange,
-          baseCurrency,
-          1
-        );
-      } else {
+      const balances = await getSettlementBalances(
+        new Date().toISOString(),
+        shop?.shopId
+      );
+      if (!(paymentMethod in balances)) {
         return true; // Unknown payment method, allow it
       }
+      const availableBalance: Money =
+        balances[paymentMethod as keyof typeof balances];
 
       return availableBalance.amount >= totalInBase.amount;
     } catch (err) {
@@ -556,6 +560,48 @@ export default function NewPurchasePage() {
     }
   };
 
+  // Due date (YYYY-MM-DD) from the supplier's payment terms, due today otherwise
+  const defaultDueDate = (supplier?: SupplierDoc) =>
+    calculateDueDate(
+      new Date().toISOString(),
+      supplier?.paymentTermsDays ?? 0
+    ).slice(0, 10);
+
+  // Fill the cart from a supplier's reorder suggestions, skipping products
+  // already in the cart
+  const handleUseSuggestion = (group: SupplierReorderGroup) => {
+    const newItems: PurchaseItem[] = group.items
+      .filter((item) => !cartItems.some((c) => c.productId === item.productId))
+      .map((item) => ({
+        productId: item.productId,
+        productName: item.productName,
+        productCode: item.productCode,
+        qty: item.suggestedQty,
+        costPrice: item.costPrice,
+        total: {
+          ...item.costPrice,
+          amount: item.costPrice.amount * item.suggestedQty,
+        },
+        intendedSellingPrice: item.sellingPrice,
+        expectedProfit: {
+          ...item.sellingPrice,
+          amount: item.sellingPrice.amount - item.costPrice.amount,
+        },
+      }));
+    setCartItems([...cartItems, ...newItems]);
+
+    const supplier = suppliers.find((s) => s._id === group.supplierId);
+    if (supplier) {
+      setSupplierId(supplier._id);
+      setSupplierName(supplier.name);
+      setDueDate(defaultDueDate(supplier));
+    } else if (group.supplierName) {
+      setSupplierId(null);
+      setSupplierName(group.supplierName);
+    }
+    setShowSuggestions(false);
+  };
+
   const handleSavePurchase = async () => {
     if (typeof window === "undefined") {
       setError("Purchases can only be recorded in the browser");
@@ -585,6 +631,11 @@ export default function NewPurchasePage() {
       return;
     }
 
+    if (paymentMethod === "credit" && !dueDate) {
+      setError("Please set a due date for this credit purchase");
+      return;
+    }
+
     // Validate sufficient funds for non-credit payments
     const hasFunds = await hasSufficientFunds();
     if (!hasFunds) {
@@ -610,59 +661,104 @@ export default function NewPurchasePage() {
       const now = new Date();
       const purchaseRunId = `purchase_${now.getTime()}`;
 
-      const purchasesDB = await getPurchasesDB();
+      // Share transport, duty and fees out into the items' unit costs
+      const settings = await getShopSettings(shop.shopId);
+      const purchaseLandedCosts = landedCosts
+        .filter((cost) => cost.amount.amount > 0)
+        .map((cost) => ({
+          ...cost,
+          description: cost.description.trim() || "Landed cost",
+        }));
+      const items =
+        purchaseLandedCosts.length > 0
+          ? apportionLandedCosts(
+              cartItems,
+              purchaseLandedCosts,
+              landedCostBasis,
+              (settings?.baseCurrency || BASE_CURRENCY) as CurrencyCode
+            )
+          : cartItems;
+
+      // Stage every write so a failure part-way leaves no trace
+      await runTransaction(
+        {
+          transactionType: "purchase",
+          transactionId: purchaseRunId,
+          shopId: shop.shopId,
+          createdBy: currentUser.userId,
+        },
+        async (tx) => {
+          // Update stock levels and product details
+          for (const item of items) {
+            if (products.some((p) => p._id === item.productId)) {
+              await tx.updateProduct(item.productId, item.qty, {
+                costPrice: getLandedUnitCost(item),
+                price: item.intendedSellingPrice,
+                purchaseDate: now.toISOString(),
+              });
+            }
+          }
 
-      // Update stock levels and product details
-      const productsDB = await getProductsDB();
-      for (const item of cartItems) {
-        const product = products.find((p) => p._id === item.productId);
-        if (product) {
-          await productsDB.put({
-            ...product,
-            stockQuantity: (product.stockQuantity || 0) + item.qty,
-            costPrice: item.costPrice,
-            price: item.intendedSellingPrice,
-            purchaseDate: now.toISOString(),
+          // Save the purchase
+          const purchaseDoc = {
+            _id: `${purchaseRunId}`,
+            type: "purchase",
+            purchaseRunId,
+            items,
+            totalAmount: totalPrice,
+            landedCosts:
+              purchaseLandedCosts.length > 0 ? purchaseLandedCosts : undefined,
+            landedCostBasis:
+              purchaseLandedCosts.length > 0 ? landedCostBasis : undefined,
+            timestamp: now.toISOString(),
+            paymentMethod: paymentMethod,
+            supplier: supplierName || undefined, // Use supplier to match type definition
+            supplierId: supplierId || undefined,
+            dueDate:
+              paymentMethod === "credit"
+                ? new Date(`${dueDate}T23:59:59`).toISOString()
+                : undefined,
+            status: "pending", // Will be synced later via WhatsApp
+            shopId: shop.shopId,
+            createdBy: currentUser.userId,
+            createdAt: now.toISOString(),
             updatedAt: now.toISOString(),
-          });
-        }
-      }
-
-      // Save the purchase
-      const purchaseDoc = {
-        _id: `${purchaseRunId}`,
-        type: "purchase",
-        purchaseRunId,
-        items: cartItems,
-        totalAmount: totalPrice,
-        timestamp: now.toISOString(),
-        paymentMethod: paymentMethod,
-        supplier: supplierName || undefined, // Use supplier to match type definition
-        status: "pending", // Will be synced later via WhatsApp
-        shopId: shop.shopId,
-        createdBy: currentUser.userId,
-        createdAt: now.toISOString(),
-        updatedAt: now.toISOString(),
-      };
-      await purchasesDB.put(purchaseDoc);
-
-      // Create inventory lots for FIFO tracking
-      await createInventoryLots(
-        purchaseRunId,
-        now.toISOString(),
-        cartItems,
-        supplierName || undefined,
-        shop.shopId
-      );
+          };
+          await tx.putDoc("purchases", purchaseDoc);
+
+          // Create inventory lots for FIFO tracking
+          await tx.createLots(
+            purchaseRunId,
+            now.toISOString(),
+            items,
+            supplierName || undefined,
+            shop.shopId,
+            supplierId || undefined
+          );
 
-      // Create ledger entry for the purchase
-      await createPurchaseEntry(
-        purchaseRunId,
-        totalPrice,
-        paymentMethod,
-        now.toISOString(),
-        shop.shopId,
-        currentUser.userId
+          // Create ledger entry for the purchase
+          await tx.postLedgerEntry(purchaseRunId, () =>
+            createPurchaseEntry(
+              purchaseRunId,
+              totalPrice,
+              paymentMethod,
+              now.toISOString(),
+              shop.shopId,
+              currentUser.userId
+            )
+          );
+          if (purchaseLandedCosts.length > 0) {
+            await tx.postLedgerEntry(purchaseRunId, () =>
+              createLandedCostEntry(
+                purchaseRunId,
+                purchaseLandedCosts,
+                now.toISOString(),
+                shop.shopId,
+                currentUser.userId
+              )
+            );
+          }
+        }
       );
 
       // Set receipt data for display
@@ -683,6 +779,9 @@ export default function NewPurchasePage() {
 
       // Clear cart
       setCartItems([]);
+      setLandedCosts([]);
+      setSupplierId(null);
+      setDueDate("");
       form.reset();
     } catch (err) {
       console.error("Error saving purchase:", err);
@@ -696,6 +795,46 @@ export default function NewPurchasePage() {
     }
   };
 
+  // Save the cart as a purchase order instead. Stock arrives (and is paid
+  // for) later, when deliveries are received against the order.
+  const handleSaveAsOrder = async () => {
+    if (cartItems.length === 0) {
+      setError("Please add at least one product to the cart");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const order = await createPurchaseOrder({
+        items: cartItems.map((item) => ({
+          productId: item.productId,
+          productName: item.productName,
+          productCode: item.productCode,
+          orderedQty: item.qty,
+          costPrice: item.costPrice,
+          intendedSellingPrice: item.intendedSellingPrice,
+        })),
+        supplier: supplierName || undefined,
+        supplierId: supplierId || undefined,
+        paymentMethod,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      router.push(`/purchase-orders/${order._id}`);
+    } catch (err) {
+      console.error("Error saving purchase order:", err);
+      setError(
+        `Failed to save order: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCloseReceipt = () => {
     setShowReceipt(false);
     setReceiptData(null);
@@ -719,17 +858,33 @@ export default function NewPurchasePage() {
       <Box mb="lg">
         <Group justify="space-between" align="center">
           <Title order={2}>New Purchase</Title>
-          <Button
-            variant="outline"
-            leftSection={<IconArrowLeft size={20} />}
-            onClick={() => router.push("/purchases")}
-            size="md"
-          >
-            Back
-          </Button>
+          <Group gap="xs">
+            <Button
+              variant="light"
+              leftSection={<IconBulb size={20} />}
+              onClick={() => setShowSuggestions(true)}
+              size="md"
+            >
+              Suggest
+            </Button>
+            <Button
+              variant="outline"
+              leftSection={<IconArrowLeft size={20} />}
+              onClick={() => router.push("/purchases")}
+              size="md"
+            >
+              Back
+            </Button>
+          </Group>
         </Group>
       </Box>
 
+      <SuggestedPurchaseModal
+        opened={showSuggestions}
+        onClose={() => setShowSuggestions(false)}
+        onUse={handleUseSuggestion}
+      />
+
       {error && (
         <Alert
           icon={<IconAlertCircle size="1.5rem" />}
@@ -788,11 +943,13 @@ export default function NewPurchasePage() {
                 </Group>
                 <Group justify="space-between" mb="xs">
                   <Text size="sm">Quantity:</Text>
-                  <Text fw={500}>{item.qty}</Text>
+                  <Text fw={500}>{formatPurchaseQuantity(item)}</Text>
                 </Group>
                 <Group justify="space-between" mb="xs">
                   <Text size="sm">Cost Price:</Text>
-                  <Text>{formatMoney(item.costPrice)}</Text>
+                  <Text>
+                    {formatMoney(item.costPrice)} per {getBaseUnit(item)}
+                  </Text>
                 </Group>
                 <Group justify="space-between" mb="xs">
                   <Text size="sm">Selling Price:</Text>
@@ -802,6 +959,20 @@ export default function NewPurchasePage() {
                   <Text size="sm">Expected Profit:</Text>
                   <Text c="green">{formatMoney(item.expectedProfit)}</Text>
                 </Group>
+                {(item.batchNumber || item.expiryDate) && (
+                  <Group justify="space-between" mb="xs">
+                    <Text size="sm">Batch / Expiry:</Text>
+                    <Text size="sm">
+                      {[
+                        item.batchNumber,
+                        item.expiryDate &&
+                          new Date(item.expiryDate).toLocaleDateString(),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </Text>
+                  </Group>
+                )}
                 <Group justify="space-between">
                   <Text size="sm">Total Cost:</Text>
                   <Text fw={700}>{formatMoney(item.total)}</Text>
@@ -810,17 +981,41 @@ export default function NewPurchasePage() {
             ))}
           </Stack>
 
-          <TextInput
-            label="Supplier Name"
-            placeholder="Enter supplier name"
-            value={supplierName}
-            onChange={(e) => setSupplierName(e.currentTarget.value)}
+          <Select
+            label="Supplier"
+            placeholder="Select from supplier directory"
+            data={suppliers.map((s) => ({ value: s._id, label: s.name }))}
+            value={supplierId}
+            onChange={(value) => {
+              const supplier = suppliers.find((s) => s._id === value);
+              setSupplierId(value);
+              setSupplierName(supplier?.name || "");
+              if (supplier) {
+                setDueDate(defaultDueDate(supplier));
+              }
+            }}
+            searchable
+            clearable
             mb="md"
           />
+          {!supplierId && (
+            <TextInput
+              label="Supplier Name"
+              placeholder="Or enter a supplier name"
+              value={supplierName}
+              onChange={(e) => setSupplierName(e.currentTarget.value)}
+              mb="md"
+            />
+          )}
           <PaymentMethodSelect
             value={paymentMethod}
             onChange={(method) => {
               setPaymentMethod(method);
+              if (method === "credit" && !dueDate) {
+                setDueDate(
+                  defaultDueDate(suppliers.find((s) => s._id === supplierId))
+                );
+              }
               // Clear error when payment method changes
               setPaymentMethodError(null);
               setError(null);
@@ -829,7 +1024,35 @@ export default function NewPurchasePage() {
             error={paymentMethodError || undefined}
           />
 
-          <Card withBorder p="md" mb="md">
+          {paymentMethod === "credit" && (
+            <TextInput
+              type="date"
+              label="Due Date"
+              description="When this purchase must be paid for"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.currentTarget.value)}
+              required
+              mb="md"
+            />
+          )}
+
+          <Divider label="Landed Costs" labelPosition="center" my="md" />
+          <LandedCostsEditor
+            items={cartItems}
+            landedCosts={landedCosts}
+            basis={landedCostBasis}
+            onLandedCostsChange={setLandedCosts}
+            onBasisChange={setLandedCostBasis}
+            onWeightChange={(index, weight) =>
+              setCartItems(
+                cartItems.map((item, i) =>
+                  i === index ? { ...item, weight } : item
+                )
+              )
+            }
+          />
+
+          <Card withBorder p="md" mb="md" mt="md">
             <Group justify="space-between">
               <Text fw={700} size="lg">
                 Total Cost:
@@ -852,6 +1075,17 @@ export default function NewPurchasePage() {
           >
             Complete Purchase
           </Button>
+          <Button
+            fullWidth
+            variant="light"
+            leftSection={<IconClipboardText size={20} />}
+            onClick={handleSaveAsOrder}
+            loading={loading}
+            size="lg"
+            mt="sm"
+          >
+            Save as Order (not yet delivered)
+          </Button>
         </Paper>
       )}
 
@@ -886,6 +1120,7 @@ export default function NewPurchasePage() {
 
         <TextInput
           placeholder="Search by name or code"
+          data-barcode-wedge
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.currentTarget.value)}
           size="lg"
@@ -930,7 +1165,11 @@ export default function NewPurchasePage() {
                       </Text>
                       <Text size="md">Code: {product.code}</Text>
                       <Text size="sm" c="dimmed">
-                        Current Stock: {product.stockQuantity || 0} units
+                        Current Stock:{" "}
+                        {formatQuantity(
+                          product.stockQuantity || 0,
+                          product.unit
+                        )}
                       </Text>
                       <Text size="sm" c="dimmed">
                         Last Cost Price:{" "}
@@ -986,12 +1225,41 @@ export default function NewPurchasePage() {
                     </Text>
                     <Text size="sm">Code: {product.code}</Text>
                     <Text size="sm" c="dimmed">
-                      Current Stock: {product.stockQuantity || 0} units
+                      Current Stock:{" "}
+                      {formatQuantity(product.stockQuantity || 0, product.unit)}
                     </Text>
                   </div>
                 </Group>
 
                 <Stack gap="md">
+                  {product.packUnits && product.packUnits.length > 0 && (
+                    <Select
+                      label="Bought By"
+                      data={[
+                        getBaseUnit(product),
+                        ...product.packUnits.map((pack) => ({
+                          value: pack.name,
+                          label: `${pack.name} (${formatQuantity(
+                            pack.factor,
+                            product.unit
+                          )})`,
+                        })),
+                      ]}
+                      value={
+                        productDetails[product._id]?.packUnit ||
+                        getBaseUnit(product)
+                      }
+                      onChange={(value) =>
+                        handlePackUnitChange(
+                          product,
+                          value || getBaseUnit(product)
+                        )
+                      }
+                      allowDeselect={false}
+                      size="md"
+                    />
+                  )}
+
                   <Group justify="space-between" align="center">
                     <Text fw={500}>Quantity:</Text>
                     <NumberInput
@@ -1003,7 +1271,7 @@ export default function NewPurchasePage() {
                           Number(value)
                         )
                       }
-                      min={1}
+                      min={getMinQuantity(product)}
                       size="md"
                       style={{ width: "120px" }}
                     />
@@ -1011,7 +1279,10 @@ export default function NewPurchasePage() {
 
                   <MoneyInput
                     label="Cost Price"
-                    description="Price you're paying per unit"
+                    description={`Price you're paying per ${
+                      productDetails[product._id]?.packUnit ||
+                      getBaseUnit(product)
+                    }`}
                     value={
                       productDetails[product._id]?.costPrice || createMoney(0)
                     }
@@ -1034,7 +1305,9 @@ export default function NewPurchasePage() {
 
                   <MoneyInput
                     label="Intended Selling Price"
-                    description="Price you plan to sell at"
+                    description={`Price you plan to sell at, per ${getBaseUnit(
+                      product
+                    )}`}
                     value={
                       productDetails[product._id]?.sellingPrice || product.price
                     }
@@ -1055,6 +1328,35 @@ export default function NewPurchasePage() {
                     size="md"
                   />
 
+                  <Group grow>
+                    <TextInput
+                      label="Batch No."
+                      placeholder="Optional"
+                      value={productDetails[product._id]?.batchNumber || ""}
+                      onChange={(e) =>
+                        handleDetailsChange(
+                          product._id,
+                          "batchNumber",
+                          e.currentTarget.value
+                        )
+                      }
+                      size="md"
+                    />
+                    <TextInput
+                      type="date"
+                      label="Expiry Date"
+                      value={productDetails[product._id]?.expiryDate || ""}
+                      onChange={(e) =>
+                        handleDetailsChange(
+                          product._id,
+                          "expiryDate",
+                          e.currentTarget.value
+                        )
+                      }
+                      size="md"
+                    />
+                  </Group>
+
                   {productDetails[product._id] && (
                     <>
                       <Group justify="space-between">
@@ -1070,13 +1372,22 @@ export default function NewPurchasePage() {
                       </Group>
 
                       <Group justify="space-between">
-                        <Text fw={500}>Expected Profit per Unit:</Text>
+                        <Text fw={500}>
+                          Expected Profit per {getBaseUnit(product)}:
+                        </Text>
                         <Text fw={700} c="green">
                           {formatMoney({
                             ...productDetails[product._id].sellingPrice,
                             amount:
                               productDetails[product._id].sellingPrice.amount -
-                              productDetails[product._id].costPrice.amount,
+                              toBaseUnits(
+                                1,
+                                productDetails[product._id].costPrice,
+                                findPack(
+                                  product,
+                                  productDetails[product._id].packUnit
+                                )
+                              ).unitPrice.amount,
                           })}
                         </Text>
                       </Group>
@@ -1133,7 +1444,9 @@ export default function NewPurchasePage() {
 
                 <Stack gap="md">
                   <Group justify="space-between" align="center">
-                    <Text fw={500}>Quantity:</Text>
+                    <Text fw={500}>
+                      Quantity ({getBaseUnit(cartItems[editingCartItemIndex])}):
+                    </Text>
                     <NumberInput
                       value={editCartItemForm.quantity}
                       onChange={(value) =>
@@ -1142,7 +1455,7 @@ export default function NewPurchasePage() {
                           quantity: Number(value) || 1,
                         })
                       }
-                      min={1}
+                      min={0}
                       size="md"
                       style={{ width: "120px" }}
                     />
@@ -1150,7 +1463,9 @@ export default function NewPurchasePage() {
 
                   <MoneyInput
                     label="Cost Price"
-                    description="Price you're paying per unit"
+                    description={`Price you're paying per ${getBaseUnit(
+                      cartItems[editingCartItemIndex]
+                    )}`}
                     value={editCartItemForm.costPrice}
                     onChange={(value) =>
                       setEditCartItemForm({
@@ -1185,6 +1500,33 @@ export default function NewPurchasePage() {
                     size="md"
                   />
 
+                  <Group grow>
+                    <TextInput
+                      label="Batch No."
+                      placeholder="Optional"
+                      value={editCartItemForm.batchNumber}
+                      onChange={(e) =>
+                        setEditCartItemForm({
+                          ...editCartItemForm,
+                          batchNumber: e.currentTarget.value,
+                        })
+                      }
+                      size="md"
+                    />
+                    <TextInput
+                      type="date"
+                      label="Expiry Date"
+                      value={editCartItemForm.expiryDate}
+                      onChange={(e) =>
+                        setEditCartItemForm({
+                          ...editCartItemForm,
+                          expiryDate: e.currentTarget.value,
+                        })
+                      }
+                      size="md"
+                    />
+                  </Group>
+
                   <Group justify="space-between">
                     <Text fw={500}>Total Cost:</Text>
                     <Text fw={700}>
@@ -1276,7 +1618,7 @@ export default function NewPurchasePage() {
                 {receiptData.items.map((item, index) => (
                   <Table.Tr key={index}>
                     <Table.Td>{item.productName}</Table.Td>
-                    <Table.Td>{item.qty}</Table.Td>
+                    <Table.Td>{formatPurchaseQuantity(item)}</Table.Td>
                     <Table.Td>{formatMoney(item.costPrice)}</Table.Td>
                     <Table.Td>{formatMoney(item.total)}</Table.Td>
                   </Table.Tr>
@@ -166,6 +166,9 @@ export default function PurchasesPage() {
                     {run.purchases.reduce((acc, p) => acc + p.items.length, 0)}{" "}
                     Items
                   </Badge>
+                  {run.purchases.some((p) => p.purchaseOrderId) && (
+                    <Badge color="grape">Against Order</Badge>
+                  )}
                 </Group>
 
                 <Group justify="space-between" mt="md">
@@ -41,6 +41,9 @@ import { addShopIdFilter } from "@/lib/queryHelpers";
 import ProductManager from "@/components/ProductManager";
 import AccountsView from "@/components/AccountsView";
 import EODHistoryTable from "@/components/EODHistoryTable";
+import PayablesAgingReport from "@/components/PayablesAgingReport";
+import ShrinkageReport from "@/components/ShrinkageReport";
+import InventoryValuationReport from "@/components/InventoryValuationReport";
 import { generateTrialBalance } from "@/lib/accounting";
 import { TrialBalance, AccountCode, LedgerEntryDoc } from "@/types/accounting";
 import { getPurchaseRunProgress } from "@/lib/inventory";
@@ -377,9 +380,11 @@ function PurchaseRunProgressCard({
   const [progress, setProgress] = useState<{
     totalPurchased: number;
     totalSold: number;
+    totalReturned: number;
     totalRemaining: number;
     progressPercentage: number;
     totalCost: Money;
+    returnedValue: Money;
     totalRevenue: Money;
     totalProfit: Money;
     expectedRevenue: Money;
@@ -402,6 +407,7 @@ function PurchaseRunProgressCard({
       productCode: string;
       purchased: number;
       sold: number;
+      returned: number;
       remaining: number;
     }>;
   } | null>(null);
@@ -478,6 +484,16 @@ function PurchaseRunProgressCard({
                 {progress.totalSold} units
               </Text>
             </Group>
+            {progress.totalReturned > 0 && (
+              <Group justify="space-between">
+                <Text size="xs" c="dimmed">
+                  Returned to Supplier
+                </Text>
+                <Text fw={500} size="xs" c="orange">
+                  {progress.totalReturned} units
+                </Text>
+              </Group>
+            )}
             <Group justify="space-between">
               <Text size="xs" c="dimmed">
                 Remaining
@@ -505,6 +521,22 @@ function PurchaseRunProgressCard({
                 {progress.totalSold} units
               </Text>
             </div>
+            {progress.totalReturned > 0 && (
+              <div>
+                <Text size="xs" c="dimmed">
+                  Returned to Supplier
+                </Text>
+                <Text fw={500} size="sm" c="orange">
+                  {progress.totalReturned} units
+                </Text>
+                <Text size="xs" c="dimmed">
+                  {formatMoney(
+                    convertToReportingCurrency(progress.returnedValue)
+                  )}{" "}
+                  credited
+                </Text>
+              </div>
+            )}
             <div>
               <Text size="xs" c="dimmed">
                 Remaining
@@ -545,6 +577,16 @@ function PurchaseRunProgressCard({
                           {item.sold}
                         </Text>
                       </Group>
+                      {item.returned > 0 && (
+                        <Group justify="space-between" gap="xs">
+                          <Text size="xs" c="dimmed">
+                            Returned:
+                          </Text>
+                          <Text size="xs" c="orange">
+                            {item.returned}
+                          </Text>
+                        </Group>
+                      )}
                       <Group justify="space-between" gap="xs">
                         <Text size="xs" c="dimmed">
                           Remaining:
@@ -565,6 +607,9 @@ function PurchaseRunProgressCard({
                       <Table.Th>Product</Table.Th>
                       <Table.Th align="right">Purchased</Table.Th>
                       <Table.Th align="right">Sold</Table.Th>
+                      {progress.totalReturned > 0 && (
+                        <Table.Th align="right">Returned</Table.Th>
+                      )}
                       <Table.Th align="right">Remaining</Table.Th>
                     </Table.Tr>
                   </Table.Thead>
@@ -581,6 +626,11 @@ function PurchaseRunProgressCard({
                         <Table.Td align="right" c="green">
                           {item.sold}
                         </Table.Td>
+                        {progress.totalReturned > 0 && (
+                          <Table.Td align="right" c="orange">
+                            {item.returned}
+                          </Table.Td>
+                        )}
                         <Table.Td align="right" c="blue">
                           {item.remaining}
                         </Table.Td>
@@ -898,7 +948,9 @@ export default function ReportsPage() {
             },
           },
         });
-        setSales(salesResult.docs as SaleDoc[]);
+        setSales(
+          (salesResult.docs as SaleDoc[]).filter((sale) => !sale.voided)
+        );
 
         // Fetch purchases
         const purchasesDB = await getPurchasesDB();
@@ -927,11 +979,27 @@ export default function ReportsPage() {
           dateRangeInfo.startDate.toISOString(),
           shop?.shopId
         );
-        const openingCashAccount =
-          openingTrialBalance.accounts[AccountCode.CASH];
-        const openingCashBalance = openingCashAccount
-          ? convertToReportingCurrency(openingCashAccount.netBalance)
-          : createMoney(0, reportingCurrency, exchangeRates[reportingCurrency]);
+        // Cash, bank and mobile money together make up the cash position
+        const cashAccountCodes: string[] = [
+          AccountCode.CASH,
+          AccountCode.BANK,
+          AccountCode.MOBILE_MONEY,
+        ];
+        const sumCashAccounts = (accounts: TrialBalance["accounts"]) =>
+          cashAccountCodes
+            .filter((code) => accounts[code])
+            .reduce(
+              (total, code) => ({
+                ...total,
+                amount:
+                  total.amount +
+                  convertToReportingCurrency(accounts[code].netBalance).amount,
+              }),
+              createMoney(0, reportingCurrency, exchangeRates[reportingCurrency])
+            );
+        const openingCashBalance = sumCashAccounts(
+          openingTrialBalance.accounts
+        );
 
         // Get opening balance entries to calculate cash from equity
         const ledgerDB = await getLedgerDB();
@@ -951,7 +1019,7 @@ export default function ReportsPage() {
         (openingBalanceEntries.docs as LedgerEntryDoc[]).forEach((entry) => {
           entry.lines.forEach((line) => {
             if (
-              line.accountCode === AccountCode.CASH &&
+              cashAccountCodes.includes(line.accountCode) &&
               line.debit.amount > 0
             ) {
               const converted = convertToReportingCurrency(line.debit);
@@ -966,10 +1034,7 @@ export default function ReportsPage() {
         };
 
         // Get closing cash balance
-        const closingCashAccount = balance.accounts[AccountCode.CASH];
-        const closingCashBalance = closingCashAccount
-          ? convertToReportingCurrency(closingCashAccount.netBalance)
-          : openingCashBalance;
+        const closingCashBalance = sumCashAccounts(balance.accounts);
 
         setCashFlowData({
           openingCashBalance,
@@ -1229,15 +1294,18 @@ export default function ReportsPage() {
       exchangeRates[reportingCurrency]
     );
 
-    // Get revenue accounts (credit balance = revenue)
-    const salesRevenueAccount =
-      trialBalance.accounts[AccountCode.SALES_REVENUE];
-    const revenueAmount = salesRevenueAccount
-      ? convertToReportingCurrency({
-          ...salesRevenueAccount.netBalance,
-          amount: -salesRevenueAccount.netBalance.amount, // Flip sign for credit balance
-        }).amount
-      : 0;
+    // Total of every account of a type, including ones the shop added
+    const sumOfType = (type: string, exclude?: string) =>
+      Object.entries(trialBalance.accounts)
+        .filter(([code, account]) => account.type === type && code !== exclude)
+        .reduce(
+          (sum, [, account]) =>
+            sum + convertToReportingCurrency(account.netBalance).amount,
+          0
+        );
+
+    // Get revenue accounts (credit balance = revenue, so flip the sign)
+    const revenueAmount = -sumOfType("revenue");
 
     // Get expense accounts (debit balance = expenses)
     const cogsAccount = trialBalance.accounts[AccountCode.COST_OF_GOODS_SOLD];
@@ -1245,16 +1313,26 @@ export default function ReportsPage() {
       ? convertToReportingCurrency(cogsAccount.netBalance).amount
       : 0;
 
-    const operatingExpensesAccount =
-      trialBalance.accounts[AccountCode.OPERATING_EXPENSES];
-    const operatingExpensesAmount = operatingExpensesAccount
-      ? convertToReportingCurrency(operatingExpensesAccount.netBalance).amount
-      : 0;
+    // Operating expenses and their sub-accounts (rent, wages, ...)
+    const operatingExpensesAmount = sumOfType(
+      "expense",
+      AccountCode.COST_OF_GOODS_SOLD
+    );
 
-    // Retained Earnings = Revenue - Expenses
-    const netIncome = revenueAmount - cogsAmount - operatingExpensesAmount;
+    // Discounts given and stock count losses net of gains (debit balance)
+    const contraAmount = sumOfType("contra");
+
+    // Retained Earnings = Revenue - Expenses, plus what closed periods
+    // have already moved into the Retained Earnings account
+    const netIncome =
+      revenueAmount - contraAmount - cogsAmount - operatingExpensesAmount;
+    const closedEarningsAccount =
+      trialBalance.accounts[AccountCode.RETAINED_EARNINGS];
+    const closedEarnings = closedEarningsAccount
+      ? -convertToReportingCurrency(closedEarningsAccount.netBalance).amount
+      : 0;
     retainedEarnings = {
-      amount: netIncome,
+      amount: netIncome + closedEarnings,
       currency: reportingCurrency,
       exchangeRate: exchangeRates[reportingCurrency],
     };
@@ -1262,9 +1340,10 @@ export default function ReportsPage() {
     Object.entries(trialBalance.accounts).forEach(([code, account]) => {
       // Skip revenue and expense accounts - they're used to calculate Retained Earnings
       if (
-        code === AccountCode.SALES_REVENUE ||
-        code === AccountCode.COST_OF_GOODS_SOLD ||
-        code === AccountCode.OPERATING_EXPENSES
+        account.type === "revenue" ||
+        account.type === "expense" ||
+        account.type === "contra" ||
+        code === AccountCode.RETAINED_EARNINGS
       ) {
         return;
       }
@@ -1880,6 +1959,9 @@ export default function ReportsPage() {
                   { value: "cf", label: "Cash Flow" },
                   { value: "bs", label: "Balance Sheet" },
                   { value: "pa", label: "Purchase Analysis" },
+                  { value: "ap", label: "Payables Aging" },
+                  { value: "shrinkage", label: "Shrinkage" },
+                  { value: "valuation", label: "Inventory Valuation" },
                   { value: "accounts", label: "Accounts" },
                   { value: "products", label: "Products" },
                   { value: "cash", label: "Cash Tracking" },
@@ -1892,6 +1974,9 @@ export default function ReportsPage() {
                 {activeTab === "cf" && renderCashFlow()}
                 {activeTab === "bs" && renderBalanceSheet()}
                 {activeTab === "pa" && renderPurchaseAnalysis()}
+                {activeTab === "ap" && <PayablesAgingReport />}
+                {activeTab === "shrinkage" && <ShrinkageReport />}
+                {activeTab === "valuation" && <InventoryValuationReport />}
                 {activeTab === "accounts" && <AccountsView />}
                 {activeTab === "products" && <ProductManager />}
                 {activeTab === "cash" && <EODHistoryTable />}
@@ -1953,6 +2038,9 @@ export default function ReportsPage() {
                   <Tabs.Tab value="cf">Cash Flow</Tabs.Tab>
                   <Tabs.Tab value="bs">Balance Sheet</Tabs.Tab>
                   <Tabs.Tab value="pa">Purchase Analysis</Tabs.Tab>
+                  <Tabs.Tab value="ap">Payables Aging</Tabs.Tab>
+                  <Tabs.Tab value="shrinkage">Shrinkage</Tabs.Tab>
+                  <Tabs.Tab value="valuation">Inventory Valuation</Tabs.Tab>
                   <Tabs.Tab value="accounts">Accounts</Tabs.Tab>
                   <Tabs.Tab value="products">Products</Tabs.Tab>
                   <Tabs.Tab value="cash">Cash Tracking</Tabs.Tab>
@@ -1963,6 +2051,15 @@ export default function ReportsPage() {
                   <Tabs.Panel value="cf">{renderCashFlow()}</Tabs.Panel>
                   <Tabs.Panel value="bs">{renderBalanceSheet()}</Tabs.Panel>
                   <Tabs.Panel value="pa">{renderPurchaseAnalysis()}</Tabs.Panel>
+                  <Tabs.Panel value="ap">
+                    <PayablesAgingReport />
+                  </Tabs.Panel>
+                  <Tabs.Panel value="shrinkage">
+                    <ShrinkageReport />
+                  </Tabs.Panel>
+                  <Tabs.Panel value="valuation">
+                    <InventoryValuationReport />
+                  </Tabs.Panel>
                   <Tabs.Panel value="accounts">
                     <AccountsView />
                   </Tabs.Panel>
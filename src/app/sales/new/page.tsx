@@ -20,6 +20,10 @@ import {
   Checkbox,
   Drawer,
   ScrollArea,
+  Select,
+  Switch,
+  Textarea,
+  PasswordInput,
 } from "@mantine/core";
 import { useForm } from "@mantine/form";
 import {
@@ -32,17 +36,56 @@ import {
   IconX,
   IconReceipt,
   IconEdit,
+  IconPlus,
+  IconTrash,
+  IconPlayerPause,
+  IconClock,
 } from "@tabler/icons-react";
 import { useRouter } from "next/navigation";
-import { getSalesDB, getProductsDB } from "@/lib/databases";
+import { getProductsDB } from "@/lib/databases";
 import { createSaleEntry } from "@/lib/accounting";
-import { allocateInventoryFIFO } from "@/lib/inventory";
-import { ProductDoc, SaleItem, PaymentMethod } from "@/types";
+import { runTransaction } from "@/lib/transactions";
+import { getAvailableLotsForProduct } from "@/lib/inventory";
+import { getShopSettings } from "@/lib/settingsDB";
+import {
+  ProductDoc,
+  SaleItem,
+  SalePayment,
+  PaymentMethod,
+  CostingMethod,
+  InventoryLot,
+  UserDoc,
+} from "@/types";
 import { formatMoney, createMoney, BASE_CURRENCY, Money } from "@/types/money";
 import { useAuth } from "@/contexts/AuthContext";
 import { addShopIdFilter } from "@/lib/queryHelpers";
 import MoneyInput from "@/components/MoneyInput";
 import { PaymentMethodSelect } from "@/components/PaymentMethodSelect";
+import { getCustomers, checkCreditLimit } from "@/lib/customersDB";
+import { CustomerDoc } from "@/types/customers";
+import {
+  allocateSalePayments,
+  getAppliedAmount,
+  getPaymentMethodLabel,
+} from "@/lib/salePayments";
+import {
+  getBelowCostItems,
+  getLineGross,
+  getSaleDiscountTotal,
+} from "@/lib/saleDiscounts";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { verifyApprovalPin } from "@/lib/auth";
+import { getShopUsers } from "@/lib/usersDB";
+import { holdSale, getHeldSales, removeHeldSale } from "@/lib/heldSales";
+import { allocateBundle, getAvailableStock } from "@/lib/bundles";
+import {
+  getBaseUnit,
+  formatQuantity,
+  getMinQuantity,
+  validateQuantity,
+} from "@/lib/units";
+import { HeldSaleDoc } from "@/types/heldSales";
+import { useKeyboardWedgeScanner } from "@/hooks/useKeyboardWedgeScanner";
 import dynamic from "next/dynamic";
 
 const BarcodeScanner = dynamic(() => import("@/components/BarcodeScanner"), {
@@ -56,6 +99,20 @@ export default function NewSalePage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [splitPayment, setSplitPayment] = useState(false);
+  const [tenders, setTenders] = useState<
+    Array<{ method: PaymentMethod; amount: Money }>
+  >([
+    { method: "cash", amount: createMoney(0) },
+    { method: "mobile_money", amount: createMoney(0) },
+  ]);
+  const [customers, setCustomers] = useState<CustomerDoc[]>([]);
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [heldSales, setHeldSales] = useState<HeldSaleDoc[]>([]);
+  const [heldDrawerOpen, setHeldDrawerOpen] = useState(false);
+  const [holdModalOpen, setHoldModalOpen] = useState(false);
+  const [holdLabel, setHoldLabel] = useState("");
+  const [holdNotice, setHoldNotice] = useState<string | null>(null);
   const [cashReceivedError, setCashReceivedError] = useState<string | null>(
     null
   );
@@ -77,13 +134,23 @@ export default function NewSalePage() {
     createMoney(0)
   );
   const [change, setChange] = useState<Money>(createMoney(0));
+  const [basketDiscount, setBasketDiscount] = useState<Money>(
+    createMoney(0)
+  );
+  const [approvalOpen, setApprovalOpen] = useState(false);
+  const [approvalReason, setApprovalReason] = useState("");
+  // Managers who can approve at this till with their PIN
+  const [approvers, setApprovers] = useState<UserDoc[]>([]);
+  const [approverId, setApproverId] = useState<string | null>(null);
+  const [approverPin, setApproverPin] = useState("");
+  const [approvalError, setApprovalError] = useState<string | null>(null);
   const [receiptData, setReceiptData] = useState<{
     items: SaleItem[];
+    discount?: Money;
     totalAmount: Money;
-    cashReceived: Money;
-    change: Money;
     timestamp: string;
-    paymentMethod: PaymentMethod;
+    paymentMethod: PaymentMethod | "split";
+    payments: SalePayment[];
   } | null>(null);
   const [editingCartItemIndex, setEditingCartItemIndex] = useState<
     number | null
@@ -91,7 +158,11 @@ export default function NewSalePage() {
   const [editCartItemForm, setEditCartItemForm] = useState<{
     quantity: number;
     price: Money;
+    discount: Money;
+    lotId?: string;
   } | null>(null);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>("fifo");
+  const [editLots, setEditLots] = useState<InventoryLot[]>([]);
 
   const form = useForm({
     initialValues: {
@@ -119,6 +190,10 @@ export default function NewSalePage() {
         });
         setProducts(result.docs as ProductDoc[]);
         setFilteredProducts(result.docs as ProductDoc[]);
+        setCustomers(await getCustomers(shop.shopId));
+        setHeldSales(await getHeldSales(shop.shopId));
+        const settings = await getShopSettings(shop.shopId);
+        setCostingMethod(settings?.costingMethod || "fifo");
       } catch (err) {
         console.error("Error fetching data:", err);
         setError(
@@ -151,26 +226,7 @@ export default function NewSalePage() {
 
   // Check profitability and payment sufficiency when cart items or payment method changes
   useEffect(() => {
-    if (cartItems.length > 0) {
-      // Check profitability
-      const unprofitableItems = cartItems.filter((item) => {
-        const costAmount = item.costPrice.amount;
-        const sellingAmount = item.price.amount;
-        return sellingAmount <= costAmount;
-      });
-
-      if (unprofitableItems.length > 0) {
-        setProfitabilityError(
-          `The following items are not profitable: ${unprofitableItems
-            .map((item) => item.productName)
-            .join(", ")}`
-        );
-      } else {
-        setProfitabilityError(null);
-      }
-    } else {
-      setProfitabilityError(null);
-    }
+    isSaleProfitable();
 
     // Check payment sufficiency for cash payments
     if (paymentMethod === "cash" && cartItems.length > 0) {
@@ -193,7 +249,7 @@ export default function NewSalePage() {
       setCashReceivedError(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [cartItems, paymentMethod, cashReceivedMoney]);
+  }, [cartItems, paymentMethod, cashReceivedMoney, basketDiscount]);
 
   const handleProductSelect = (product: ProductDoc, isSelected: boolean) => {
     if (isSelected) {
@@ -249,30 +305,23 @@ export default function NewSalePage() {
     }
   };
 
+  // USB scanners in keyboard mode feed the same lookup as the camera
+  useKeyboardWedgeScanner(handleBarcodeScanned);
+
   const handleAddSelectedToCart = () => {
     if (selectedProducts.length === 0) return;
 
-    // Validate profitability before adding to cart
-    const unprofitableItems: string[] = [];
-    selectedProducts.forEach((product) => {
-      const costAmount = (product.costPrice || createMoney(0)).amount;
-      const sellingAmount = product.price.amount;
-      if (sellingAmount <= costAmount) {
-        unprofitableItems.push(product.name);
+    for (const product of selectedProducts) {
+      const quantityError = validateQuantity(
+        product,
+        productQuantities[product._id] || 1
+      );
+      if (quantityError) {
+        setError(quantityError);
+        return;
       }
-    });
-
-    if (unprofitableItems.length > 0) {
-      const errorMsg = `The following items are not profitable (selling price must be greater than cost price): ${unprofitableItems.join(
-        ", "
-      )}`;
-      setError(errorMsg);
-      setProfitabilityError(errorMsg);
-      return;
     }
 
-    setProfitabilityError(null);
-
     const newItems: SaleItem[] = selectedProducts.map((product) => {
       // Use product-specific quantity, fallback to 1 if not set
       const quantity = productQuantities[product._id] || 1;
@@ -288,6 +337,7 @@ export default function NewSalePage() {
         productName: product.name,
         productCode: product.code,
         qty: quantity,
+        unit: product.unit,
         price: product.price,
         total: itemTotal,
         costPrice: product.costPrice || createMoney(0),
@@ -310,27 +360,9 @@ export default function NewSalePage() {
     const newCartItems = [...cartItems];
     newCartItems.splice(index, 1);
     setCartItems(newCartItems);
-    // Re-check profitability after removing item
-    setTimeout(() => {
-      if (newCartItems.length > 0) {
-        const unprofitableItems = newCartItems.filter((item) => {
-          const costAmount = item.costPrice.amount;
-          const sellingAmount = item.price.amount;
-          return sellingAmount <= costAmount;
-        });
-        if (unprofitableItems.length > 0) {
-          setProfitabilityError(
-            `The following items are not profitable: ${unprofitableItems
-              .map((item) => item.productName)
-              .join(", ")}`
-          );
-        } else {
-          setProfitabilityError(null);
-        }
-      } else {
-        setProfitabilityError(null);
-      }
-    }, 0);
+    if (newCartItems.length === 0) {
+      setBasketDiscount(createMoney(0));
+    }
   };
 
   const handleEditCartItem = (index: number) => {
@@ -338,24 +370,48 @@ export default function NewSalePage() {
     setEditCartItemForm({
       quantity: item.qty,
       price: item.price,
+      discount: item.discount || { ...item.price, amount: 0 },
+      lotId: item.lotId,
     });
     setEditingCartItemIndex(index);
+
+    // Under specific identification the cashier can pick the lot sold from
+    setEditLots([]);
+    if (costingMethod === "specific") {
+      getAvailableLotsForProduct(item.productId, shop?.shopId)
+        .then(setEditLots)
+        .catch((err) => console.error("Error loading lots:", err));
+    }
   };
 
   const handleSaveCartItemEdit = () => {
     if (editingCartItemIndex === null || !editCartItemForm) return;
 
-    // Validate profitability
     const item = cartItems[editingCartItemIndex];
-    const costAmount = item.costPrice.amount;
-    if (editCartItemForm.price.amount <= costAmount) {
-      setError("Selling price must be greater than cost price");
+    const quantityError = validateQuantity(
+      {
+        name: item.productName,
+        fractional: products.find((p) => p._id === item.productId)
+          ?.fractional,
+      },
+      editCartItemForm.quantity
+    );
+    if (quantityError) {
+      setError(quantityError);
+      return;
+    }
+
+    const grossAmount =
+      editCartItemForm.price.amount * editCartItemForm.quantity;
+    const discountAmount = editCartItemForm.discount.amount;
+    if (discountAmount < 0 || discountAmount > grossAmount) {
+      setError("Discount must be between 0 and the line total");
       return;
     }
 
     const itemTotal = {
       ...editCartItemForm.price,
-      amount: editCartItemForm.price.amount * editCartItemForm.quantity,
+      amount: grossAmount - discountAmount,
     };
 
     const updatedItem: SaleItem = {
@@ -363,6 +419,11 @@ export default function NewSalePage() {
       qty: editCartItemForm.quantity,
       price: editCartItemForm.price,
       total: itemTotal,
+      discount:
+        discountAmount > 0
+          ? { ...editCartItemForm.price, amount: discountAmount }
+          : undefined,
+      lotId: editCartItemForm.lotId,
     };
 
     const newCartItems = [...cartItems];
@@ -371,26 +432,6 @@ export default function NewSalePage() {
     setEditingCartItemIndex(null);
     setEditCartItemForm(null);
     setError(null);
-    setProfitabilityError(null);
-
-    // Re-check profitability after editing
-    setTimeout(() => {
-      const unprofitableItems = newCartItems.filter((item) => {
-        const costAmount = item.costPrice.amount;
-        const sellingAmount = item.price.amount;
-        return sellingAmount <= costAmount;
-      });
-      if (unprofitableItems.length > 0) {
-        setProfitabilityError(
-          `The following items are not profitable: ${unprofitableItems
-            .map((item) => item.productName)
-            .join(", ")}`
-        );
-      } else {
-        setProfitabilityError(null);
-      }
-    }, 0);
-    setProfitabilityError(null);
 
     // Recalculate change if cash payment
     if (paymentMethod === "cash") {
@@ -404,12 +445,9 @@ export default function NewSalePage() {
       // Re-check payment sufficiency
       isPaymentSufficient();
     }
-
-    // Re-check profitability
-    isSaleProfitable();
   };
 
-  // Calculate total price for all items in the cart
+  // Calculate total price for all items in the cart, less the basket discount
   const calculateTotalPrice = () => {
     if (cartItems.length === 0) {
       return createMoney(0);
@@ -427,13 +465,35 @@ export default function NewSalePage() {
     });
 
     return {
-      amount: totalAmount,
+      amount: totalAmount - basketDiscount.amount,
       currency: targetCurrency,
       exchangeRate: targetExchangeRate,
     };
   };
 
   const totalPrice = calculateTotalPrice();
+  const subtotal = {
+    ...totalPrice,
+    amount: totalPrice.amount + basketDiscount.amount,
+  };
+  const grossTotal = cartItems.reduce(
+    (sum, item) => sum + getLineGross(item),
+    0
+  );
+  const lineDiscounts = cartItems.reduce(
+    (sum, item) => sum + (item.discount?.amount || 0),
+    0
+  );
+  const canApproveBelowCost = hasPermission(
+    currentUser,
+    Permission.APPROVE_BELOW_COST_SALES
+  );
+
+  // Split tender lines applied to the total, with change worked out per line
+  const splitAllocation = allocateSalePayments(totalPrice, tenders);
+  const isCreditSale = splitPayment
+    ? splitAllocation.payments.some((p) => p.method === "credit")
+    : paymentMethod === "credit";
 
   // Convert money to base currency (USD)
   const convertToBaseCurrency = (money: Money): Money => {
@@ -445,19 +505,19 @@ export default function NewSalePage() {
     };
   };
 
-  // Check if sale is profitable (selling price > cost price for all items)
+  // Check if sale is profitable (selling price > cost price for all items,
+  // after discounts). Anything else needs a manager or owner to approve it.
   const isSaleProfitable = () => {
-    const unprofitableItems = cartItems.filter((item) => {
-      const costAmount = item.costPrice.amount;
-      const sellingAmount = item.price.amount;
-      return sellingAmount <= costAmount;
-    });
+    const unprofitableItems = getBelowCostItems(
+      cartItems,
+      basketDiscount.amount
+    );
 
     if (unprofitableItems.length > 0) {
       setProfitabilityError(
-        `The following items are not profitable: ${unprofitableItems
+        `Selling at or below cost: ${unprofitableItems
           .map((item) => item.productName)
-          .join(", ")}`
+          .join(", ")}. A manager or owner must approve this sale.`
       );
       return false;
     }
@@ -502,7 +562,7 @@ export default function NewSalePage() {
     return isSufficient;
   };
 
-  const handleSaveSale = async () => {
+  const handleSaveSale = async (approver?: UserDoc) => {
     if (typeof window === "undefined") {
       setError("Sales can only be recorded in the browser");
       return;
@@ -513,17 +573,33 @@ export default function NewSalePage() {
       return;
     }
 
-    // Validate profitability
-    if (!isSaleProfitable()) {
-      const errorMsg =
-        profitabilityError ||
-        "Sale is not profitable. Selling price must be greater than cost price for all items.";
-      setError(errorMsg);
+    if (basketDiscount.amount < 0 || totalPrice.amount < 0) {
+      setError("Basket discount must be between 0 and the cart total");
       return;
     }
 
+
+    if (splitPayment) {
+      if (splitAllocation.error) {
+        setError(splitAllocation.error);
+        return;
+      }
+      if (splitAllocation.payments.length === 0) {
+        setError("Please enter at least one payment amount");
+        return;
+      }
+      if (splitAllocation.outstanding > 0.005) {
+        setError(
+          `Payments are short by ${formatMoney(
+            createMoney(splitAllocation.outstanding, BASE_CURRENCY)
+          )}`
+        );
+        return;
+      }
+    }
+
     // Double-check payment is sufficient for cash payments
-    if (paymentMethod === "cash" && !isPaymentSufficient()) {
+    if (!splitPayment && paymentMethod === "cash" && !isPaymentSufficient()) {
       const errorMsg =
         cashReceivedError ||
         "Payment amount is insufficient. Please enter the correct amount.";
@@ -531,13 +607,67 @@ export default function NewSalePage() {
       return;
     }
 
+    // Credit sales must be charged to a customer account within its limit
+    const customer = customers.find((c) => c._id === customerId);
+    if (isCreditSale) {
+      if (!customer) {
+        setError("Please select the customer to charge this credit sale to");
+        return;
+      }
+      const creditAmount = splitPayment
+        ? createMoney(
+            splitAllocation.payments
+              .filter((p) => p.method === "credit")
+              .reduce((sum, p) => sum + getAppliedAmount(p), 0),
+            BASE_CURRENCY
+          )
+        : totalPrice;
+      const limitError = await checkCreditLimit(
+        customer,
+        creditAmount,
+        shop?.shopId
+      );
+      if (limitError) {
+        setError(limitError);
+        return;
+      }
+    }
+
+    // Selling at or below cost needs a manager or owner to sign it off
+    const isBelowCost = !isSaleProfitable();
+    if (isBelowCost && !approver) {
+      setApprovalReason("");
+      setApproverId(null);
+      setApproverPin("");
+      setApprovalError(null);
+      if (!canApproveBelowCost && shop?.shopId) {
+        const users = await getShopUsers(shop.shopId);
+        setApprovers(
+          users.filter(
+            (user) =>
+              user.approvalPinHash &&
+              hasPermission(user, Permission.APPROVE_BELOW_COST_SALES)
+          )
+        );
+      }
+      setApprovalOpen(true);
+      return;
+    }
+    if (isBelowCost && !approvalReason.trim()) {
+      setError("Please give a reason for selling below cost");
+      return;
+    }
+
+    setApprovalOpen(false);
     setLoading(true);
     setError(null);
 
     try {
       // Recalculate change right before saving to ensure accuracy
+      // (split tenders work out change on each line instead)
+      const isSingleCash = !splitPayment && paymentMethod === "cash";
       let finalChange: Money | undefined = undefined;
-      if (paymentMethod === "cash" && cashReceivedMoney.amount > 0) {
+      if (isSingleCash && cashReceivedMoney.amount > 0) {
         const totalInBase = convertToBaseCurrency(totalPrice);
         const receivedInBase = convertToBaseCurrency(cashReceivedMoney);
         const changeAmount = receivedInBase.amount - totalInBase.amount;
@@ -555,7 +685,7 @@ export default function NewSalePage() {
           finalChange: finalChange.amount,
           currency: finalChange.currency,
         });
-      } else if (paymentMethod === "cash") {
+      } else if (isSingleCash) {
         // Cash payment but no amount received yet - set change to 0
         finalChange = createMoney(0, cashReceivedMoney.currency || "USD");
         setChange(finalChange);
@@ -564,120 +694,184 @@ export default function NewSalePage() {
       const now = new Date();
       const saleId = `sale_${now.getTime()}`;
 
-      const salesDB = await getSalesDB();
-
-      // Allocate inventory using FIFO and track lots used
-      const saleItemsWithLots: SaleItem[] = [];
-      let totalCostAmount = 0;
-
-      for (const item of cartItems) {
-        // Allocate inventory using FIFO
-        const lotsUsed = await allocateInventoryFIFO(
-          item.productId,
-          item.qty,
-          shop?.shopId
-        );
-
-        // Calculate cost from lots (FIFO cost)
-        const itemCost = lotsUsed.reduce((sum, lot) => {
-          return sum + lot.costPrice.amount * lot.quantity;
-        }, 0);
-
-        totalCostAmount += itemCost;
-
-        // Create sale item with lot tracking
-        saleItemsWithLots.push({
-          ...item,
-          costPrice: {
-            ...item.costPrice,
-            amount: itemCost / item.qty, // Average cost per unit
-          },
-          lotsUsed,
-        });
-      }
-
-      const totalCost = {
-        ...totalPrice,
-        amount: totalCostAmount,
-      };
-
-      const profit = {
-        ...totalPrice,
-        amount: totalPrice.amount - totalCost.amount,
-      };
-
-      // Update stock levels (for backward compatibility)
-      const productsDB = await getProductsDB();
-      for (const item of cartItems) {
-        const product = products.find((p) => p._id === item.productId);
-        if (product) {
-          await productsDB.put({
-            ...product,
-            stockQuantity: (product.stockQuantity || 0) - item.qty,
+      // Every sale records its tender lines; a single method is one line
+      const salePayments: SalePayment[] = splitPayment
+        ? splitAllocation.payments
+        : isSingleCash
+        ? [
+            {
+              method: "cash",
+              amount: cashReceivedMoney,
+              change: finalChange || createMoney(0),
+            },
+          ]
+        : [{ method: paymentMethod, amount: totalPrice }];
+      const saleMethods = Array.from(
+        new Set(salePayments.map((p) => p.method))
+      );
+      const salePaymentMethod: PaymentMethod | "split" =
+        saleMethods.length === 1 ? saleMethods[0] : "split";
+
+      // Stage every write so a failure part-way leaves no trace
+      await runTransaction(
+        {
+          transactionType: "sale",
+          transactionId: saleId,
+          shopId: shop?.shopId,
+          createdBy: currentUser?.userId,
+        },
+        async (tx) => {
+          // Allocate inventory and track lots used
+          const saleItemsWithLots: SaleItem[] = [];
+          let totalCostAmount = 0;
+
+          for (const item of cartItems) {
+            // Bundles hold no stock: each component is allocated from its
+            // own lots and taken off its own stock
+            const bundleComponents = products.find(
+              (p) => p._id === item.productId
+            )?.bundleComponents;
+            if (bundleComponents?.length) {
+              const { components, unitCost, averageCost } =
+                await allocateBundle(
+                  tx,
+                  bundleComponents,
+                  item.qty,
+                  shop?.shopId
+                );
+              totalCostAmount += unitCost.amount * item.qty;
+              saleItemsWithLots.push({
+                ...item,
+                costPrice: unitCost,
+                averageCost,
+                components,
+              });
+              continue;
+            }
+
+            // Allocate inventory under the shop's costing method
+            const { lots, unitCost, averageCost } = await tx.allocateLots(
+              item.productId,
+              item.qty,
+              shop?.shopId,
+              item.lotId
+            );
+
+            totalCostAmount += unitCost.amount * item.qty;
+
+            // Create sale item with lot tracking
+            saleItemsWithLots.push({
+              ...item,
+              costPrice: unitCost,
+              averageCost,
+              lotsUsed: lots,
+            });
+          }
+
+          const totalCost = {
+            ...totalPrice,
+            amount: totalCostAmount,
+          };
+
+          const profit = {
+            ...totalPrice,
+            amount: totalPrice.amount - totalCost.amount,
+          };
+
+          const saleDiscount =
+            basketDiscount.amount > 0
+              ? { ...totalPrice, amount: basketDiscount.amount }
+              : undefined;
+          const totalDiscounts = {
+            ...totalPrice,
+            amount: getSaleDiscountTotal({
+              items: cartItems,
+              discount: saleDiscount,
+            }),
+          };
+
+          // Update stock levels (for backward compatibility). Bundle
+          // components were already taken off when allocated
+          for (const item of saleItemsWithLots) {
+            if (
+              !item.components &&
+              products.some((p) => p._id === item.productId)
+            ) {
+              await tx.updateProduct(item.productId, -item.qty);
+            }
+          }
+
+          // Save the sale with lot tracking
+          const saleDoc = {
+            _id: saleId,
+            type: "sale",
+            items: saleItemsWithLots,
+            discount: saleDiscount,
+            totalAmount: totalPrice,
+            totalCost: totalCost,
+            profit: profit,
+            belowCostApproval:
+              isBelowCost && approver
+                ? {
+                    approvedBy: approver.userId,
+                    approvedByName: approver.name,
+                    approvedAt: now.toISOString(),
+                    reason: approvalReason.trim(),
+                  }
+                : undefined,
+            paymentMethod: salePaymentMethod,
+            payments: salePayments,
+            cashReceived: isSingleCash ? cashReceivedMoney : undefined,
+            change: isSingleCash ? finalChange || createMoney(0) : undefined,
+            customer: customer?.name,
+            customerId: customer?._id,
+            timestamp: now.toISOString(),
+            status: "pending", // Will be synced later via WhatsApp
+            shopId: shop?.shopId,
+            createdBy: currentUser?.userId,
+            createdAt: now.toISOString(),
             updatedAt: now.toISOString(),
+          };
+          console.log("[SALE] Saving sale document with change:", {
+            paymentMethod: salePaymentMethod,
+            cashReceived: saleDoc.cashReceived,
+            change: saleDoc.change,
           });
+          await tx.putDoc("sales", saleDoc);
+
+          // Create ledger entry for the sale
+          await tx.postLedgerEntry(saleId, () =>
+            createSaleEntry(
+              saleId,
+              totalPrice,
+              totalCost,
+              salePayments,
+              now.toISOString(),
+              shop?.shopId,
+              currentUser?.userId,
+              totalDiscounts
+            )
+          );
         }
-      }
-
-      // Save the sale with lot tracking
-      const saleDoc = {
-        _id: saleId,
-        type: "sale",
-        items: saleItemsWithLots,
-        totalAmount: totalPrice,
-        totalCost: totalCost,
-        profit: profit,
-        paymentMethod: paymentMethod,
-        cashReceived: paymentMethod === "cash" ? cashReceivedMoney : undefined,
-        change:
-          paymentMethod === "cash" ? finalChange || createMoney(0) : undefined,
-        timestamp: now.toISOString(),
-        status: "pending", // Will be synced later via WhatsApp
-        shopId: shop?.shopId,
-        createdBy: currentUser?.userId,
-        createdAt: now.toISOString(),
-        updatedAt: now.toISOString(),
-      };
-      console.log("[SALE] Saving sale document with change:", {
-        paymentMethod,
-        cashReceived: saleDoc.cashReceived,
-        change: saleDoc.change,
-      });
-      await salesDB.put(saleDoc);
-
-      // Create ledger entry for the sale
-      await createSaleEntry(
-        saleId,
-        totalPrice,
-        totalCost,
-        paymentMethod,
-        now.toISOString(),
-        shop?.shopId,
-        currentUser?.userId
       );
 
-      // Set receipt data for display - use the final calculated change
-      // For cash payments, always include change (even if 0)
-      // For non-cash payments, change should be undefined
+      // Set receipt data for display - the payment lines carry the final
+      // calculated change for each cash tender
       setReceiptData({
         items: cartItems,
+        discount: basketDiscount.amount > 0 ? basketDiscount : undefined,
         totalAmount: totalPrice,
-        cashReceived:
-          paymentMethod === "cash" ? cashReceivedMoney : createMoney(0),
-        change:
-          paymentMethod === "cash"
-            ? finalChange || createMoney(0)
-            : createMoney(0),
         timestamp: now.toISOString(),
-        paymentMethod: paymentMethod,
+        paymentMethod: salePaymentMethod,
+        payments: salePayments,
       });
 
       setShowReceipt(true);
       setSuccess(true);
 
       // Clear cart
-      setCartItems([]);
-      form.reset();
+      resetCart();
+      setApprovalReason("");
     } catch (err) {
       console.error("Error saving sale:", err);
       setError(
@@ -690,6 +884,138 @@ export default function NewSalePage() {
     }
   };
 
+  // Managers approve their own sales; anyone else needs a manager's PIN
+  const handleApproveBelowCost = async () => {
+    if (canApproveBelowCost && currentUser) {
+      await handleSaveSale(currentUser);
+      return;
+    }
+
+    const approver = approverId
+      ? await verifyApprovalPin(approverId, approverPin)
+      : null;
+    setApproverPin("");
+    if (
+      !approver ||
+      approver.shopId !== shop?.shopId ||
+      !hasPermission(approver, Permission.APPROVE_BELOW_COST_SALES)
+    ) {
+      setApprovalError("Wrong PIN for the selected manager");
+      return;
+    }
+    setApprovalError(null);
+    await handleSaveSale(approver);
+  };
+
+  // Empty the cart and payment fields ready for the next customer
+  const resetCart = () => {
+    setCartItems([]);
+    setBasketDiscount(createMoney(0));
+    setCustomerId(null);
+    setPaymentMethod("cash");
+    setSplitPayment(false);
+    setTenders([
+      { method: "cash", amount: createMoney(0) },
+      { method: "mobile_money", amount: createMoney(0) },
+    ]);
+    setCashReceivedMoney(createMoney(0));
+    setChange(createMoney(0));
+    form.reset();
+  };
+
+  // Park the cart so the till can serve someone else
+  const handleHoldSale = async () => {
+    if (cartItems.length === 0) return;
+
+    try {
+      const customer = customers.find((c) => c._id === customerId);
+      const held = await holdSale({
+        label: holdLabel.trim() || undefined,
+        items: cartItems,
+        discount: basketDiscount.amount > 0 ? basketDiscount : undefined,
+        customerId: customer?._id,
+        customerName: customer?.name,
+        paymentMethod,
+        splitPayment,
+        tenders: splitPayment ? tenders : undefined,
+        cashReceived:
+          cashReceivedMoney.amount > 0 ? cashReceivedMoney : undefined,
+        totalAmount: totalPrice,
+        heldBy: currentUser?.userId,
+        heldByName: currentUser?.name,
+        shopId: shop?.shopId,
+      });
+
+      resetCart();
+      setHoldModalOpen(false);
+      setHoldLabel("");
+      setError(null);
+      setSuccess(false);
+      setHoldNotice(
+        `Sale held${
+          held.label ? ` as "${held.label}"` : ""
+        }. Resume it from Held Sales.`
+      );
+      setHeldSales(await getHeldSales(shop?.shopId));
+    } catch (err) {
+      console.error("Error holding sale:", err);
+      setError(
+        `Failed to hold sale: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  // Bring a held cart back to the till. The held copy is removed so the
+  // same cart cannot be rung up twice.
+  const handleResumeHeldSale = async (held: HeldSaleDoc) => {
+    if (cartItems.length > 0) {
+      setError("Hold or clear the current cart before resuming another");
+      setHeldDrawerOpen(false);
+      return;
+    }
+
+    try {
+      await removeHeldSale(held._id);
+      setCartItems(held.items);
+      setBasketDiscount(held.discount || createMoney(0));
+      setCustomerId(held.customerId || null);
+      setPaymentMethod(held.paymentMethod);
+      setSplitPayment(held.splitPayment);
+      if (held.tenders && held.tenders.length > 0) {
+        setTenders(held.tenders);
+      }
+      setCashReceivedMoney(held.cashReceived || createMoney(0));
+      form.setFieldValue("cashReceived", held.cashReceived?.amount || 0);
+      setHeldDrawerOpen(false);
+      setHoldNotice(null);
+      setError(null);
+      setHeldSales(await getHeldSales(shop?.shopId));
+    } catch (err) {
+      console.error("Error resuming held sale:", err);
+      setError(
+        `Failed to resume held sale: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  const handleDiscardHeldSale = async (held: HeldSaleDoc) => {
+    try {
+      await removeHeldSale(held._id);
+      setHeldSales(await getHeldSales(shop?.shopId));
+    } catch (err) {
+      console.error("Error discarding held sale:", err);
+      setError(
+        `Failed to discard held sale: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
   const handleCloseReceipt = () => {
     setShowReceipt(false);
     setReceiptData(null);
@@ -713,17 +1039,40 @@ export default function NewSalePage() {
       <Box mb="lg">
         <Group justify="space-between" align="center">
           <Title order={2}>New Sale</Title>
-          <Button
-            variant="outline"
-            leftSection={<IconArrowLeft size={20} />}
-            onClick={() => router.push("/sales")}
-            size="md"
-          >
-            Back
-          </Button>
+          <Group gap="xs">
+            <Button
+              variant="light"
+              leftSection={<IconClock size={20} />}
+              onClick={() => setHeldDrawerOpen(true)}
+              size="md"
+            >
+              Held Sales ({heldSales.length})
+            </Button>
+            <Button
+              variant="outline"
+              leftSection={<IconArrowLeft size={20} />}
+              onClick={() => router.push("/sales")}
+              size="md"
+            >
+              Back
+            </Button>
+          </Group>
         </Group>
       </Box>
 
+      {holdNotice && (
+        <Alert
+          icon={<IconPlayerPause size="1.5rem" />}
+          title="Sale Held"
+          color="blue"
+          mb="md"
+          withCloseButton
+          onClose={() => setHoldNotice(null)}
+        >
+          {holdNotice}
+        </Alert>
+      )}
+
       {error && (
         <Alert
           icon={<IconAlertCircle size="1.5rem" />}
@@ -782,12 +1131,21 @@ export default function NewSalePage() {
                 </Group>
                 <Group justify="space-between" mb="xs">
                   <Text size="sm">Quantity:</Text>
-                  <Text fw={500}>{item.qty}</Text>
+                  <Text fw={500}>{formatQuantity(item.qty, item.unit)}</Text>
                 </Group>
                 <Group justify="space-between" mb="xs">
                   <Text size="sm">Price:</Text>
-                  <Text>{formatMoney(item.price)}</Text>
+                  <Text>
+                    {formatMoney(item.price)}
+                    {item.unit && ` per ${item.unit}`}
+                  </Text>
                 </Group>
+                {item.discount && item.discount.amount > 0 && (
+                  <Group justify="space-between" mb="xs">
+                    <Text size="sm">Discount:</Text>
+                    <Text c="orange">-{formatMoney(item.discount)}</Text>
+                  </Group>
+                )}
                 <Group justify="space-between">
                   <Text size="sm">Total:</Text>
                   <Text fw={700}>{formatMoney(item.total)}</Text>
@@ -796,16 +1154,144 @@ export default function NewSalePage() {
             ))}
           </Stack>
 
+          <MoneyInput
+            label="Basket Discount"
+            description="Taken off the whole sale, on top of any line discounts"
+            value={basketDiscount}
+            onChange={(value) =>
+              setBasketDiscount({
+                ...subtotal,
+                amount: typeof value === "number" ? value : value.amount,
+              })
+            }
+            showCurrencySelect={false}
+            error={
+              basketDiscount.amount > subtotal.amount
+                ? "Discount cannot be more than the cart total"
+                : undefined
+            }
+            variant="light"
+          />
+
           {/* Payment Section */}
           <Divider label="Payment" labelPosition="center" size="md" my="lg" />
 
-          <PaymentMethodSelect
-            value={paymentMethod}
-            onChange={setPaymentMethod}
-            className="mb-4"
+          <Switch
+            label="Split payment across several tenders"
+            checked={splitPayment}
+            onChange={(e) => setSplitPayment(e.currentTarget.checked)}
+            mb="md"
+          />
+
+          {!splitPayment ? (
+            <PaymentMethodSelect
+              value={paymentMethod}
+              onChange={setPaymentMethod}
+              className="mb-4"
+            />
+          ) : (
+            <Stack gap="xs" mb="md">
+              {tenders.map((tender, index) => (
+                <Card key={index} withBorder p="sm">
+                  <Group align="flex-end" wrap="nowrap">
+                    <Box style={{ flex: 1 }}>
+                      <PaymentMethodSelect
+                        value={tender.method}
+                        onChange={(method) =>
+                          setTenders(
+                            tenders.map((t, i) =>
+                              i === index ? { ...t, method } : t
+                            )
+                          )
+                        }
+                      />
+                    </Box>
+                    <ActionIcon
+                      color="red"
+                      variant="light"
+                      mb="md"
+                      disabled={tenders.length <= 1}
+                      onClick={() =>
+                        setTenders(tenders.filter((_, i) => i !== index))
+                      }
+                    >
+                      <IconTrash size="1.125rem" />
+                    </ActionIcon>
+                  </Group>
+                  <MoneyInput
+                    label="Amount"
+                    value={tender.amount}
+                    onChange={(value) =>
+                      setTenders(
+                        tenders.map((t, i) =>
+                          i === index
+                            ? {
+                                ...t,
+                                amount:
+                                  typeof value === "number"
+                                    ? { ...t.amount, amount: value }
+                                    : value,
+                              }
+                            : t
+                        )
+                      )
+                    }
+                    variant="light"
+                  />
+                </Card>
+              ))}
+              <Button
+                variant="light"
+                leftSection={<IconPlus size={16} />}
+                onClick={() =>
+                  setTenders([
+                    ...tenders,
+                    {
+                      method: "cash",
+                      amount: createMoney(
+                        splitAllocation.outstanding,
+                        BASE_CURRENCY
+                      ),
+                    },
+                  ])
+                }
+              >
+                Add Payment
+              </Button>
+              {splitAllocation.error && (
+                <Text size="sm" c="red">
+                  {splitAllocation.error}
+                </Text>
+              )}
+            </Stack>
+          )}
+
+          <Select
+            label="Customer"
+            description={
+              isCreditSale
+                ? "Credit sales are charged to the customer's account"
+                : "Optional"
+            }
+            placeholder="Select customer"
+            data={customers.map((c) => ({
+              value: c._id,
+              label: c.phoneNumber ? `${c.name} (${c.phoneNumber})` : c.name,
+            }))}
+            value={customerId}
+            onChange={setCustomerId}
+            searchable
+            clearable
+            required={isCreditSale}
+            error={
+              isCreditSale && !customerId && cartItems.length > 0
+                ? "Select a customer for credit sales"
+                : undefined
+            }
+            mb="md"
           />
 
-          {paymentMethod === "cash" && (
+          {!splitPayment && paymentMethod === "cash" && (
             <MoneyInput
               label="Cash Received"
               description="Amount of cash given by customer (can be in any currency)"
@@ -845,11 +1331,31 @@ export default function NewSalePage() {
             mb="md"
             style={{
               borderColor: profitabilityError
-                ? "var(--mantine-color-red-6)"
+                ? "var(--mantine-color-orange-6)"
                 : undefined,
               borderWidth: profitabilityError ? 2 : undefined,
             }}
           >
+            {(lineDiscounts > 0 || basketDiscount.amount > 0) && (
+              <>
+                <Group justify="space-between">
+                  <Text>Subtotal:</Text>
+                  <Text>
+                    {formatMoney({ ...subtotal, amount: grossTotal })}
+                  </Text>
+                </Group>
+                <Group justify="space-between" mb="xs">
+                  <Text>Discounts:</Text>
+                  <Text c="orange">
+                    -
+                    {formatMoney({
+                      ...subtotal,
+                      amount: lineDiscounts + basketDiscount.amount,
+                    })}
+                  </Text>
+                </Group>
+              </>
+            )}
             <Group justify="space-between">
               <Text fw={700} size="lg">
                 Total Amount:
@@ -860,12 +1366,39 @@ export default function NewSalePage() {
             </Group>
 
             {profitabilityError && (
-              <Text size="sm" c="red" mt="xs">
+              <Text size="sm" c="orange" mt="xs">
                 {profitabilityError}
               </Text>
             )}
 
-            {paymentMethod === "cash" && (
+            {splitPayment && (
+              <>
+                {splitAllocation.payments.map((payment, index) => (
+                  <Group key={index} justify="space-between" mt="xs">
+                    <Text>{getPaymentMethodLabel(payment.method)}:</Text>
+                    <Text>
+                      {formatMoney(payment.amount)}
+                      {payment.change && payment.change.amount > 0
+                        ? ` (change ${formatMoney(payment.change)})`
+                        : ""}
+                    </Text>
+                  </Group>
+                ))}
+                <Group justify="space-between" mt="xs">
+                  <Text>Still Due:</Text>
+                  <Text
+                    c={splitAllocation.outstanding > 0.005 ? "red" : "green"}
+                    fw={600}
+                  >
+                    {formatMoney(
+                      createMoney(splitAllocation.outstanding, BASE_CURRENCY)
+                    )}
+                  </Text>
+                </Group>
+              </>
+            )}
+
+            {!splitPayment && paymentMethod === "cash" && (
               <>
                 <Group justify="space-between" mt="xs">
                   <Text>Cash Received:</Text>
@@ -898,7 +1431,7 @@ export default function NewSalePage() {
             fullWidth
             color="blue"
             leftSection={<IconShoppingCart size={20} />}
-            onClick={handleSaveSale}
+            onClick={() => handleSaveSale()}
             loading={loading}
             size="xl"
             mt="xl"
@@ -906,6 +1439,17 @@ export default function NewSalePage() {
           >
             Complete Sale
           </Button>
+          <Button
+            fullWidth
+            variant="outline"
+            leftSection={<IconPlayerPause size={20} />}
+            onClick={() => setHoldModalOpen(true)}
+            disabled={loading}
+            size="lg"
+            mt="sm"
+          >
+            Hold Sale
+          </Button>
         </Paper>
       )}
 
@@ -940,6 +1484,7 @@ export default function NewSalePage() {
 
         <TextInput
           placeholder="Search by name or code"
+          data-barcode-wedge
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.currentTarget.value)}
           size="lg"
@@ -984,13 +1529,24 @@ export default function NewSalePage() {
                       </Text>
                       <Text size="md">Code: {product.code}</Text>
                       <Text size="sm" c="dimmed">
-                        Current Stock: {product.stockQuantity || 0} units
+                        {product.bundleComponents?.length
+                          ? "Bundle, can make: "
+                          : "Current Stock: "}
+                        {formatQuantity(
+                          getAvailableStock(product, products),
+                          product.unit
+                        )}
                       </Text>
                     </div>
                     <div>
                       <Text fw={700} size="xl">
                         {formatMoney(product.price)}
                       </Text>
+                      {product.unit && (
+                        <Text size="xs" c="dimmed" ta="right">
+                          per {product.unit}
+                        </Text>
+                      )}
                     </div>
                   </Group>
                 </Card>
@@ -1033,18 +1589,29 @@ export default function NewSalePage() {
                   </Text>
                   <Text size="sm">Code: {product.code}</Text>
                   <Text size="sm" c="dimmed">
-                    Current Stock: {product.stockQuantity || 0} units
+                    {product.bundleComponents?.length
+                      ? "Bundle, can make: "
+                      : "Current Stock: "}
+                    {formatQuantity(
+                      getAvailableStock(product, products),
+                      product.unit
+                    )}
                   </Text>
                 </div>
                 <div>
                   <Text fw={700} size="xl">
                     {formatMoney(product.price)}
                   </Text>
+                  {product.unit && (
+                    <Text size="xs" c="dimmed" ta="right">
+                      per {product.unit}
+                    </Text>
+                  )}
                 </div>
               </Group>
 
               <Group justify="space-between" align="center">
-                <Text fw={500}>Quantity:</Text>
+                <Text fw={500}>Quantity ({getBaseUnit(product)}):</Text>
                 <NumberInput
                   value={productQuantities[product._id] || 1}
                   onChange={(value) =>
@@ -1053,8 +1620,10 @@ export default function NewSalePage() {
                       [product._id]: Number(value) || 1,
                     })
                   }
-                  min={1}
-                  max={product.stockQuantity || 0}
+                  allowDecimal={!!product.fractional}
+                  decimalScale={3}
+                  min={getMinQuantity(product)}
+                  max={getAvailableStock(product, products)}
                   size="md"
                   style={{ width: "120px" }}
                 />
@@ -1122,7 +1691,9 @@ export default function NewSalePage() {
 
                 <Stack gap="md">
                   <Group justify="space-between" align="center">
-                    <Text fw={500}>Quantity:</Text>
+                    <Text fw={500}>
+                      Quantity ({getBaseUnit(cartItems[editingCartItemIndex])}):
+                    </Text>
                     <NumberInput
                       value={editCartItemForm.quantity}
                       onChange={(value) =>
@@ -1131,7 +1702,8 @@ export default function NewSalePage() {
                           quantity: Number(value) || 1,
                         })
                       }
-                      min={1}
+                      decimalScale={3}
+                      min={0}
                       size="md"
                       style={{ width: "120px" }}
                     />
@@ -1139,7 +1711,9 @@ export default function NewSalePage() {
 
                   <MoneyInput
                     label="Selling Price"
-                    description="Price per unit"
+                    description={`Price per ${getBaseUnit(
+                      cartItems[editingCartItemIndex]
+                    )}`}
                     value={editCartItemForm.price}
                     onChange={(value) =>
                       setEditCartItemForm({
@@ -1154,6 +1728,25 @@ export default function NewSalePage() {
                     size="md"
                   />
 
+                  <MoneyInput
+                    label="Line Discount"
+                    description="Amount taken off this line"
+                    value={editCartItemForm.discount}
+                    onChange={(value) =>
+                      setEditCartItemForm({
+                        ...editCartItemForm,
+                        discount: {
+                          ...editCartItemForm.price,
+                          amount:
+                            typeof value === "number" ? value : value.amount,
+                        },
+                      })
+                    }
+                    showCurrencySelect={false}
+                    variant="light"
+                    size="md"
+                  />
+
                   <Group justify="space-between">
                     <Text fw={500}>Total:</Text>
                     <Text fw={700}>
@@ -1161,11 +1754,43 @@ export default function NewSalePage() {
                         ...editCartItemForm.price,
                         amount:
                           editCartItemForm.price.amount *
-                          editCartItemForm.quantity,
+                            editCartItemForm.quantity -
+                          editCartItemForm.discount.amount,
                       })}
                     </Text>
                   </Group>
 
+                  {costingMethod === "specific" && editLots.length > 0 && (
+                    <Select
+                      label="Sell From Lot"
+                      description="Costed at the price of the lot picked"
+                      placeholder="Oldest stock first"
+                      data={editLots.map((lot) => ({
+                        value: lot._id,
+                        label: [
+                          lot.batchNumber
+                            ? `Batch ${lot.batchNumber}`
+                            : new Date(
+                                lot.purchaseTimestamp
+                              ).toLocaleDateString(),
+                          lot.expiryDate ? `exp. ${lot.expiryDate}` : null,
+                          `${lot.remainingQuantity} left`,
+                          formatMoney(lot.costPrice),
+                        ]
+                          .filter(Boolean)
+                          .join(" · "),
+                      }))}
+                      value={editCartItemForm.lotId || null}
+                      onChange={(value) =>
+                        setEditCartItemForm({
+                          ...editCartItemForm,
+                          lotId: value || undefined,
+                        })
+                      }
+                      clearable
+                    />
+                  )}
+
                   <Group justify="space-between">
                     <Text fw={500}>Cost Price:</Text>
                     <Text c="dimmed">
@@ -1173,17 +1798,32 @@ export default function NewSalePage() {
                     </Text>
                   </Group>
 
-                  <Group justify="space-between">
-                    <Text fw={500}>Profit per Unit:</Text>
-                    <Text fw={700} c="green">
-                      {formatMoney({
-                        ...editCartItemForm.price,
-                        amount:
-                          editCartItemForm.price.amount -
-                          cartItems[editingCartItemIndex].costPrice.amount,
-                      })}
-                    </Text>
-                  </Group>
+                  {(() => {
+                    const unitProfit =
+                      editCartItemForm.price.amount -
+                      editCartItemForm.discount.amount /
+                        editCartItemForm.quantity -
+                      cartItems[editingCartItemIndex].costPrice.amount;
+                    return (
+                      <>
+                        <Group justify="space-between">
+                          <Text fw={500}>Profit per Unit:</Text>
+                          <Text fw={700} c={unitProfit > 0 ? "green" : "red"}>
+                            {formatMoney({
+                              ...editCartItemForm.price,
+                              amount: unitProfit,
+                            })}
+                          </Text>
+                        </Group>
+                        {unitProfit <= 0 && (
+                          <Text size="sm" c="orange">
+                            Selling at or below cost needs a manager or owner
+                            to approve the sale.
+                          </Text>
+                        )}
+                      </>
+                    );
+                  })()}
                 </Stack>
               </Card>
             </Stack>
@@ -1213,6 +1853,172 @@ export default function NewSalePage() {
         </Group>
       </Drawer>
 
+      {/* Hold Sale Modal */}
+      <Modal
+        opened={holdModalOpen}
+        onClose={() => setHoldModalOpen(false)}
+        title="Hold Sale"
+        centered
+      >
+        <Stack>
+          <Text size="sm" c="dimmed">
+            The cart, customer and payment entered so far are kept on this
+            device until the sale is resumed or discarded.
+          </Text>
+          <TextInput
+            label="Label"
+            placeholder="e.g. lady in red coat"
+            value={holdLabel}
+            onChange={(e) => setHoldLabel(e.currentTarget.value)}
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setHoldModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              leftSection={<IconPlayerPause size={16} />}
+              onClick={handleHoldSale}
+            >
+              Hold Sale
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
+      {/* Held Sales Drawer */}
+      <Drawer
+        opened={heldDrawerOpen}
+        onClose={() => setHeldDrawerOpen(false)}
+        title="Held Sales"
+        position="bottom"
+        size="lg"
+      >
+        {heldSales.length === 0 ? (
+          <Text c="dimmed" ta="center" py="md">
+            No sales on hold
+          </Text>
+        ) : (
+          <Stack gap="md">
+            {heldSales.map((held) => (
+              <Card key={held._id} withBorder p="md">
+                <Group justify="space-between" align="flex-start" mb="xs">
+                  <div>
+                    <Text fw={700}>
+                      {held.label || held.customerName || "Unnamed cart"}
+                    </Text>
+                    <Text size="sm" c="dimmed">
+                      {formatDate(held.createdAt)}
+                      {held.heldByName ? ` · ${held.heldByName}` : ""}
+                    </Text>
+                    <Text size="sm">
+                      {held.items.length} item
+                      {held.items.length > 1 ? "s" : ""}:{" "}
+                      {held.items.map((item) => item.productName).join(", ")}
+                    </Text>
+                  </div>
+                  <Text fw={700}>{formatMoney(held.totalAmount)}</Text>
+                </Group>
+                <Group justify="flex-end" gap="xs">
+                  <Button
+                    variant="light"
+                    color="red"
+                    size="xs"
+                    leftSection={<IconTrash size={14} />}
+                    onClick={() => handleDiscardHeldSale(held)}
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    size="xs"
+                    leftSection={<IconShoppingCart size={14} />}
+                    onClick={() => handleResumeHeldSale(held)}
+                  >
+                    Resume
+                  </Button>
+                </Group>
+              </Card>
+            ))}
+          </Stack>
+        )}
+      </Drawer>
+
+      {/* Below-cost Approval Modal */}
+      <Modal
+        opened={approvalOpen}
+        onClose={() => setApprovalOpen(false)}
+        title="Approve Below-Cost Sale"
+        centered
+      >
+        <Stack>
+          <Alert icon={<IconAlertCircle size="1rem" />} color="orange">
+            {profitabilityError}
+          </Alert>
+          {canApproveBelowCost ? (
+            <Text size="sm">
+              Approving as {currentUser?.name}. The approval and reason are
+              recorded on the sale.
+            </Text>
+          ) : approvers.length > 0 ? (
+            <>
+              <Text size="sm">
+                A manager or owner approves with their PIN. The approval and
+                reason are recorded on the sale.
+              </Text>
+              <Select
+                label="Approved by"
+                placeholder="Select manager"
+                data={approvers.map((user) => ({
+                  value: user.userId,
+                  label: user.name,
+                }))}
+                value={approverId}
+                onChange={setApproverId}
+                required
+              />
+              <PasswordInput
+                label="PIN"
+                value={approverPin}
+                onChange={(e) => setApproverPin(e.currentTarget.value)}
+                inputMode="numeric"
+                autoComplete="off"
+                required
+              />
+            </>
+          ) : (
+            <Alert color="red">
+              No manager or owner has set an approval PIN. They can set one on
+              their profile page.
+            </Alert>
+          )}
+          {approvalError && <Text size="sm" c="red">{approvalError}</Text>}
+          <Textarea
+            label="Reason"
+            placeholder="e.g. clearing stock close to expiry"
+            value={approvalReason}
+            onChange={(e) => setApprovalReason(e.currentTarget.value)}
+            required
+            autosize
+            minRows={2}
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setApprovalOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              color="orange"
+              onClick={handleApproveBelowCost}
+              loading={loading}
+              disabled={
+                !approvalReason.trim() ||
+                (!canApproveBelowCost && (!approverId || !approverPin))
+              }
+            >
+              Approve & Complete Sale
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
       {/* Receipt Modal */}
       <Modal
         opened={showReceipt}
@@ -1251,8 +2057,15 @@ export default function NewSalePage() {
               <Table.Tbody>
                 {receiptData.items.map((item, index) => (
                   <Table.Tr key={index}>
-                    <Table.Td>{item.productName}</Table.Td>
-                    <Table.Td>{item.qty}</Table.Td>
+                    <Table.Td>
+                      {item.productName}
+                      {item.discount && item.discount.amount > 0 && (
+                        <Text size="xs" c="dimmed">
+                          Discount -{formatMoney(item.discount)}
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>{formatQuantity(item.qty, item.unit)}</Table.Td>
                     <Table.Td>{formatMoney(item.price)}</Table.Td>
                     <Table.Td>{formatMoney(item.total)}</Table.Td>
                   </Table.Tr>
@@ -1262,6 +2075,13 @@ export default function NewSalePage() {
 
             <Divider my="sm" />
 
+            {receiptData.discount && (
+              <Group justify="space-between">
+                <Text>Basket Discount:</Text>
+                <Text>-{formatMoney(receiptData.discount)}</Text>
+              </Group>
+            )}
+
             <Group justify="space-between">
               <Text fw={700}>Total Amount:</Text>
               <Text fw={700}>{formatMoney(receiptData.totalAmount)}</Text>
@@ -1269,21 +2089,41 @@ export default function NewSalePage() {
 
             <Group justify="space-between">
               <Text fw={700}>Payment Method:</Text>
-              <Text fw={700}>{receiptData.paymentMethod}</Text>
+              <Text fw={700}>
+                {getPaymentMethodLabel(receiptData.paymentMethod)}
+              </Text>
             </Group>
 
-            {receiptData.paymentMethod === "cash" && (
-              <>
-                <Group justify="space-between">
-                  <Text>Cash Received:</Text>
-                  <Text>{formatMoney(receiptData.cashReceived)}</Text>
-                </Group>
-                <Group justify="space-between">
-                  <Text>Change:</Text>
-                  <Text>{formatMoney(receiptData.change)}</Text>
+            {receiptData.payments.length > 1 &&
+              receiptData.payments.map((payment, index) => (
+                <Group key={index} justify="space-between">
+                  <Text>{getPaymentMethodLabel(payment.method)}:</Text>
+                  <Text>
+                    {formatMoney(payment.amount)}
+                    {payment.change && payment.change.amount > 0
+                      ? ` (change ${formatMoney(payment.change)})`
+                      : ""}
+                  </Text>
                 </Group>
-              </>
-            )}
+              ))}
+
+            {receiptData.payments.length === 1 &&
+              receiptData.payments[0].method === "cash" && (
+                <>
+                  <Group justify="space-between">
+                    <Text>Cash Received:</Text>
+                    <Text>{formatMoney(receiptData.payments[0].amount)}</Text>
+                  </Group>
+                  <Group justify="space-between">
+                    <Text>Change:</Text>
+                    <Text>
+                      {formatMoney(
+                        receiptData.payments[0].change || createMoney(0)
+                      )}
+                    </Text>
+                  </Group>
+                </>
+              )}
 
             <Divider my="sm" />
 
@@ -74,7 +74,9 @@ export default function SalesPage() {
         ),
       });
 
-      const filteredSales = result.docs as SaleDoc[];
+      const filteredSales = (result.docs as SaleDoc[]).filter(
+        (sale) => !sale.voided
+      );
 
       // Calculate total revenue
       let totalAmount = 0;
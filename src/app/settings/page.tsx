@@ -0,0 +1,269 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Box,
+  Title,
+  Stack,
+  Text,
+  Card,
+  Radio,
+  NumberInput,
+  Group,
+  Button,
+  Alert,
+  Loader,
+} from "@mantine/core";
+import { IconAlertCircle, IconCheck } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getShopSettings, saveShopSettings } from "@/lib/settingsDB";
+import {
+  COSTING_METHOD_LABELS,
+  COSTING_METHOD_DESCRIPTIONS,
+} from "@/lib/costing";
+import { changeCostingMethod } from "@/lib/inventoryAdjustments";
+import { DEFAULT_JOURNAL_APPROVAL_THRESHOLD } from "@/lib/journalEntries";
+import { CostingMethod } from "@/types";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import ChartOfAccountsSettings from "@/components/ChartOfAccountsSettings";
+import PeriodCloseSettings from "@/components/PeriodCloseSettings";
+
+export default function SettingsPage() {
+  const { currentUser, shop } = useAuth();
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>("fifo");
+  const [savedMethod, setSavedMethod] = useState<CostingMethod>("fifo");
+  const [threshold, setThreshold] = useState<number | string>(
+    DEFAULT_JOURNAL_APPROVAL_THRESHOLD
+  );
+  const [savedThreshold, setSavedThreshold] = useState(
+    DEFAULT_JOURNAL_APPROVAL_THRESHOLD
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shop?.shopId) return;
+    getShopSettings(shop.shopId)
+      .then((settings) => {
+        const method = settings?.costingMethod || "fifo";
+        setCostingMethod(method);
+        setSavedMethod(method);
+        const approvalThreshold =
+          settings?.journalApprovalThreshold ??
+          DEFAULT_JOURNAL_APPROVAL_THRESHOLD;
+        setThreshold(approvalThreshold);
+        setSavedThreshold(approvalThreshold);
+      })
+      .catch((err) => {
+        console.error("Error loading settings:", err);
+        setError("Failed to load settings");
+      })
+      .finally(() => setLoading(false));
+  }, [shop?.shopId]);
+
+  // Each card saves its own settings
+  const handleSave = async (
+    section: string,
+    save: () => Promise<unknown>,
+    onSaved: () => void
+  ) => {
+    setSaving(section);
+    setError(null);
+    setSaved(null);
+    try {
+      await save();
+      onSaved();
+      setSaved(section);
+    } catch (err) {
+      console.error("Error saving settings:", err);
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // Check permissions
+  if (!currentUser || !hasPermission(currentUser, Permission.VIEW_SETTINGS)) {
+    return (
+      <ProtectedRoute requireAuth={true}>
+        <Stack gap="md" p="md">
+          <Text ta="center" c="dimmed" size="lg">
+            You don&apos;t have permission to view settings.
+          </Text>
+        </Stack>
+      </ProtectedRoute>
+    );
+  }
+
+  const canEdit = hasPermission(currentUser, Permission.EDIT_SETTINGS);
+
+  return (
+    <ProtectedRoute requireAuth={true}>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Title order={2}>Settings</Title>
+          <Text c="dimmed" mt="xs">
+            How the shop keeps its books
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <Card withBorder shadow="sm">
+          <Title order={4}>Inventory Costing</Title>
+          <Text size="sm" c="dimmed" mb="md">
+            How the cost of each sale is worked out. Changing it only affects
+            sales made from now on; switching to weighted average revalues the
+            stock on hand at its average cost.
+          </Text>
+          {loading ? (
+            <Group justify="center" py="md">
+              <Loader size="sm" />
+            </Group>
+          ) : (
+            <Stack gap="md">
+              <Radio.Group
+                value={costingMethod}
+                onChange={(value) => {
+                  setCostingMethod(value as CostingMethod);
+                  setSaved(null);
+                }}
+              >
+                <Stack gap="sm">
+                  {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(
+                    (method) => (
+                      <Radio
+                        key={method}
+                        value={method}
+                        label={COSTING_METHOD_LABELS[method]}
+                        description={COSTING_METHOD_DESCRIPTIONS[method]}
+                        disabled={!canEdit}
+                      />
+                    )
+                  )}
+                </Stack>
+              </Radio.Group>
+              {canEdit && (
+                <Group justify="flex-end">
+                  {saved === "costing" && (
+                    <Text size="sm" c="green">
+                      <IconCheck size={14} /> Saved
+                    </Text>
+                  )}
+                  <Button
+                    onClick={() =>
+                      handleSave(
+                        "costing",
+                        () =>
+                          changeCostingMethod({
+                            method: costingMethod,
+                            shopId: shop?.shopId,
+                            createdBy: currentUser.userId,
+                          }),
+                        () => setSavedMethod(costingMethod)
+                      )
+                    }
+                    loading={saving === "costing"}
+                    disabled={costingMethod === savedMethod}
+                  >
+                    Save
+                  </Button>
+                </Group>
+              )}
+            </Stack>
+          )}
+        </Card>
+
+        <Card withBorder shadow="sm">
+          <Title order={4}>Journal Entry Approval</Title>
+          <Text size="sm" c="dimmed" mb="md">
+            Manual journal entries above this amount, in your base currency,
+            only post once a second person approves them.
+          </Text>
+          {loading ? (
+            <Group justify="center" py="md">
+              <Loader size="sm" />
+            </Group>
+          ) : (
+            <Stack gap="md">
+              <NumberInput
+                label="Approval Threshold"
+                value={threshold}
+                onChange={(value) => {
+                  setThreshold(value);
+                  setSaved(null);
+                }}
+                min={0}
+                thousandSeparator=","
+                disabled={!canEdit}
+              />
+              {canEdit && (
+                <Group justify="flex-end">
+                  {saved === "journal" && (
+                    <Text size="sm" c="green">
+                      <IconCheck size={14} /> Saved
+                    </Text>
+                  )}
+                  <Button
+                    onClick={() =>
+                      handleSave(
+                        "journal",
+                        () =>
+                          saveShopSettings({
+                            shopId: shop?.shopId,
+                            journalApprovalThreshold: Number(threshold) || 0,
+                          }),
+                        () => setSavedThreshold(Number(threshold) || 0)
+                      )
+                    }
+                    loading={saving === "journal"}
+                    disabled={Number(threshold) === savedThreshold}
+                  >
+                    Save
+                  </Button>
+                </Group>
+              )}
+            </Stack>
+          )}
+        </Card>
+
+        <Card withBorder shadow="sm">
+          <Title order={4}>Chart of Accounts</Title>
+          <Text size="sm" c="dimmed" mb="md">
+            The accounts your books are kept in. Add your own, e.g. a loan or a
+            type of expense, numbered under the account they belong to. System
+            accounts are used by sales, purchases and other postings and
+            can&apos;t be changed.
+          </Text>
+          <ChartOfAccountsSettings canEdit={canEdit} />
+        </Card>
+
+        <Card withBorder shadow="sm">
+          <Title order={4}>Period Close</Title>
+          <Text size="sm" c="dimmed" mb="md">
+            Closing a month or year moves its profit or loss into retained
+            earnings and locks it, so sales, purchases, end of day counts and
+            journal entries can no longer be dated in it. Reports then start
+            from the closing balances.
+          </Text>
+          <PeriodCloseSettings
+            canClose={hasPermission(currentUser, Permission.CLOSE_PERIODS)}
+          />
+        </Card>
+      </Stack>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,749 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Title,
+  Stack,
+  Card,
+  Text,
+  Group,
+  Table,
+  Badge,
+  Button,
+  ActionIcon,
+  Tooltip,
+  Modal,
+  ScrollArea,
+  SimpleGrid,
+  TextInput,
+  NumberInput,
+  Alert,
+  Switch,
+  SegmentedControl,
+  Box,
+} from "@mantine/core";
+import {
+  IconArrowLeft,
+  IconPrinter,
+  IconAlertCircle,
+  IconBarcode,
+  IconSearch,
+  IconTrash,
+  IconCheck,
+  IconX,
+  IconClipboardList,
+} from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import dynamic from "next/dynamic";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useKeyboardWedgeScanner } from "@/hooks/useKeyboardWedgeScanner";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getStockTakesDB } from "@/lib/databases";
+import {
+  getStockTake,
+  getStockCounts,
+  addStockCount,
+  removeStockCount,
+  getStockTakeVariances,
+  approveStockTake,
+  cancelStockTake,
+} from "@/lib/stockTakeDB";
+import {
+  StockTakeDoc,
+  StockCountDoc,
+  StockTakeLine,
+} from "@/types/stockTake";
+import { formatMoney } from "@/types/money";
+
+const BarcodeScanner = dynamic(() => import("@/components/BarcodeScanner"), {
+  ssr: false,
+});
+
+type VarianceFilter = "all" | "variances" | "uncounted";
+
+interface Props {
+  id: string;
+}
+
+export default function StockTakeSession({ id }: Props) {
+  const router = useRouter();
+  const { currentUser, shop } = useAuth();
+  const [stockTake, setStockTake] = useState<StockTakeDoc | null>(null);
+  const [counts, setCounts] = useState<StockCountDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
+  const [addOnScan, setAddOnScan] = useState(true);
+  const [selectedLine, setSelectedLine] = useState<StockTakeLine | null>(
+    null
+  );
+  const [quantity, setQuantity] = useState<number | string>(1);
+  const [filter, setFilter] = useState<VarianceFilter>("all");
+  const [confirmAction, setConfirmAction] = useState<
+    "approve" | "cancel" | null
+  >(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadStockTake = useCallback(async () => {
+    try {
+      const found = await getStockTake(id);
+      if (!found) {
+        setError("Stock take not found");
+        return;
+      }
+      setStockTake(found);
+      setCounts(await getStockCounts(id));
+    } catch (err) {
+      console.error("Error loading stock take:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load stock take"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadStockTake();
+  }, [loadStockTake]);
+
+  // Pick up counts entered by other staff as they sync in
+  useEffect(() => {
+    let cleanup: (() => void) | undefined;
+    let debounceTimeout: NodeJS.Timeout | undefined;
+
+    const setupChanges = async () => {
+      try {
+        const stockTakesDB = await getStockTakesDB();
+        const changes = stockTakesDB
+          .changes({ since: "now", live: true, include_docs: true })
+          .on("change", (change) => {
+            const doc = change.doc as { _id: string; stockTakeId?: string };
+            if (doc && (doc._id === id || doc.stockTakeId === id)) {
+              if (debounceTimeout) clearTimeout(debounceTimeout);
+              debounceTimeout = setTimeout(() => loadStockTake(), 500);
+            }
+          })
+          .on("error", (err) => {
+            console.error("Changes feed error:", err);
+          });
+
+        cleanup = () => {
+          changes.cancel();
+          if (debounceTimeout) clearTimeout(debounceTimeout);
+        };
+      } catch (err) {
+        console.error("Error setting up changes listener:", err);
+      }
+    };
+
+    setupChanges();
+    return () => cleanup?.();
+  }, [id, loadStockTake]);
+
+  const variances = useMemo(
+    () => (stockTake ? getStockTakeVariances(stockTake, counts) : []),
+    [stockTake, counts]
+  );
+
+  const isOpen = stockTake?.status === "counting";
+  const canCount =
+    isOpen && hasPermission(currentUser, Permission.VIEW_PRODUCTS);
+  const canApprove =
+    isOpen && hasPermission(currentUser, Permission.EDIT_PRODUCTS);
+
+  const recordCount = async (line: StockTakeLine, qty: number) => {
+    setError(null);
+    try {
+      const count = await addStockCount({
+        stockTakeId: id,
+        productId: line.productId,
+        quantity: qty,
+        countedBy: currentUser?.userId,
+        countedByName: currentUser?.name,
+        shopId: shop?.shopId,
+      });
+      setCounts((prev) => [count, ...prev]);
+      setNotice(`Counted ${qty} × ${line.productName}`);
+    } catch (err) {
+      console.error("Error recording count:", err);
+      setError(
+        `Failed to record count: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  const handleBarcodeScanned = async (barcode: string) => {
+    if (!stockTake || !canCount) return;
+
+    setShowScanner(false);
+    const line = stockTake.lines.find(
+      (l) => l.barcode === barcode || l.productCode === barcode.toUpperCase()
+    );
+    if (!line) {
+      setError(`No product in this stock take has barcode: ${barcode}`);
+      return;
+    }
+
+    if (addOnScan) {
+      await recordCount(line, 1);
+    } else {
+      setSelectedLine(line);
+      setQuantity(1);
+    }
+  };
+
+  // USB scanners in keyboard mode feed the same lookup as the camera
+  useKeyboardWedgeScanner(handleBarcodeScanned, { enabled: !!canCount });
+
+  const handleAddCount = async () => {
+    if (!selectedLine) return;
+    const qty = Number(quantity);
+    if (isNaN(qty) || qty < 0) {
+      setError("Enter the quantity counted");
+      return;
+    }
+    await recordCount(selectedLine, qty);
+    setSelectedLine(null);
+    setSearchTerm("");
+    setQuantity(1);
+  };
+
+  const handleRemoveCount = async (countId: string) => {
+    setError(null);
+    try {
+      await removeStockCount(countId);
+      setCounts((prev) => prev.filter((count) => count._id !== countId));
+    } catch (err) {
+      console.error("Error removing count:", err);
+      setError(
+        `Failed to remove count: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated =
+        confirmAction === "approve"
+          ? await approveStockTake(id, currentUser?.userId, currentUser?.name)
+          : await cancelStockTake(id);
+      setStockTake(updated);
+    } catch (err) {
+      console.error("Error closing stock take:", err);
+      setError(
+        `Failed to ${confirmAction} stock take: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+      setConfirmAction(null);
+    }
+  };
+
+  if (loading && !stockTake) {
+    return <LoadingSpinner />;
+  }
+
+  if (!stockTake) {
+    return (
+      <Stack>
+        <Button
+          variant="subtle"
+          leftSection={<IconArrowLeft size={16} />}
+          onClick={() => router.back()}
+        >
+          Back
+        </Button>
+        <Alert color="red" title="Error">
+          {error || "Stock take not found"}
+        </Alert>
+      </Stack>
+    );
+  }
+
+  const term = searchTerm.trim().toLowerCase();
+  const searchResults = term
+    ? stockTake.lines
+        .filter(
+          (line) =>
+            line.productName.toLowerCase().includes(term) ||
+            line.productCode.toLowerCase().includes(term) ||
+            line.barcode?.toLowerCase().includes(term)
+        )
+        .slice(0, 8)
+    : [];
+
+  const countedCount = variances.filter((v) => v.countedQty !== null).length;
+  const currency = stockTake.lines[0]?.unitCost;
+  const display = (amount: number) =>
+    currency ? formatMoney({ ...currency, amount }) : amount.toFixed(2);
+  const shrinkage = variances
+    .filter((v) => v.varianceValue < 0)
+    .reduce((sum, v) => sum - v.varianceValue, 0);
+  const surplus = variances
+    .filter((v) => v.varianceValue > 0)
+    .reduce((sum, v) => sum + v.varianceValue, 0);
+
+  const visibleVariances = variances.filter((v) =>
+    filter === "variances"
+      ? v.countedQty !== null && v.variance !== 0
+      : filter === "uncounted"
+      ? v.countedQty === null
+      : true
+  );
+  const lineNames = new Map(
+    stockTake.lines.map((line) => [line.productId, line.productName])
+  );
+
+  return (
+    <Stack gap="lg">
+      {/* Header */}
+      <Group justify="space-between" className="no-print">
+        <Button
+          variant="subtle"
+          leftSection={<IconArrowLeft size={16} />}
+          onClick={() => router.push("/stock-take")}
+        >
+          Back
+        </Button>
+        <Group>
+          <Tooltip label="Print Count Sheet">
+            <ActionIcon
+              variant="light"
+              size="lg"
+              onClick={() => window.print()}
+            >
+              <IconPrinter size={20} />
+            </ActionIcon>
+          </Tooltip>
+          {canApprove && (
+            <>
+              <Button
+                variant="light"
+                color="red"
+                leftSection={<IconX size={16} />}
+                onClick={() => setConfirmAction("cancel")}
+              >
+                Cancel Count
+              </Button>
+              <Button
+                color="green"
+                leftSection={<IconCheck size={16} />}
+                onClick={() => setConfirmAction("approve")}
+                disabled={countedCount === 0}
+              >
+                Approve
+              </Button>
+            </>
+          )}
+        </Group>
+      </Group>
+
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          title="Error"
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+          className="no-print"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {/* Title */}
+      <Group align="center">
+        <IconClipboardList size={32} />
+        <Stack gap={0}>
+          <Group gap="xs">
+            <Title order={2}>{stockTake.name}</Title>
+            <Badge
+              className="no-print"
+              color={
+                stockTake.status === "approved"
+                  ? "green"
+                  : stockTake.status === "cancelled"
+                  ? "gray"
+                  : "blue"
+              }
+            >
+              {stockTake.status}
+            </Badge>
+          </Group>
+          <Text c="dimmed" size="sm">
+            Snapshot {new Date(stockTake.snapshotAt).toLocaleString()}
+            {stockTake.startedByName ? ` by ${stockTake.startedByName}` : ""}
+          </Text>
+          {stockTake.notes && (
+            <Text size="sm" c="dimmed">
+              {stockTake.notes}
+            </Text>
+          )}
+        </Stack>
+      </Group>
+
+      {/* Summary */}
+      <Card withBorder shadow="sm" className="no-print">
+        <SimpleGrid cols={{ base: 2, sm: 4 }}>
+          <Stack gap={2}>
+            <Text size="sm" c="dimmed">
+              Counted
+            </Text>
+            <Text fw={600}>
+              {countedCount} of {stockTake.lines.length} products
+            </Text>
+          </Stack>
+          <Stack gap={2}>
+            <Text size="sm" c="dimmed">
+              Shrinkage
+            </Text>
+            <Text fw={600} c={shrinkage > 0 ? "red" : "dimmed"}>
+              {display(shrinkage)}
+            </Text>
+          </Stack>
+          <Stack gap={2}>
+            <Text size="sm" c="dimmed">
+              Surplus
+            </Text>
+            <Text fw={600} c={surplus > 0 ? "green" : "dimmed"}>
+              {display(surplus)}
+            </Text>
+          </Stack>
+          <Stack gap={2}>
+            <Text size="sm" c="dimmed">
+              {stockTake.varianceValue ? "Posted" : "Net Variance"}
+            </Text>
+            <Text fw={700}>
+              {stockTake.varianceValue
+                ? formatMoney(stockTake.varianceValue)
+                : display(surplus - shrinkage)}
+            </Text>
+          </Stack>
+        </SimpleGrid>
+        {stockTake.status === "approved" && (
+          <Text size="xs" c="dimmed" mt="sm">
+            Approved{" "}
+            {stockTake.approvedAt &&
+              new Date(stockTake.approvedAt).toLocaleString()}
+            {stockTake.approvedByName ? ` by ${stockTake.approvedByName}` : ""}
+          </Text>
+        )}
+      </Card>
+
+      {/* Counting */}
+      {canCount && (
+        <Card withBorder shadow="sm" className="no-print">
+          <Title order={4} mb="md">
+            Count
+          </Title>
+          {notice && (
+            <Alert
+              color="green"
+              mb="md"
+              withCloseButton
+              onClose={() => setNotice(null)}
+            >
+              {notice}
+            </Alert>
+          )}
+          <Group mb="md">
+            <Button
+              leftSection={<IconBarcode size={20} />}
+              onClick={() => setShowScanner(!showScanner)}
+            >
+              {showScanner ? "Hide Scanner" : "Scan Barcode"}
+            </Button>
+            <Switch
+              label="Count 1 per scan"
+              checked={addOnScan}
+              onChange={(e) => setAddOnScan(e.currentTarget.checked)}
+            />
+          </Group>
+          {showScanner && (
+            <Box mb="md">
+              <BarcodeScanner onScan={handleBarcodeScanned} />
+            </Box>
+          )}
+          <TextInput
+            placeholder="Search by name, code or barcode"
+            data-barcode-wedge
+            leftSection={<IconSearch size={16} />}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.currentTarget.value)}
+          />
+          {searchResults.length > 0 && !selectedLine && (
+            <Stack gap={4} mt="xs">
+              {searchResults.map((line) => (
+                <Button
+                  key={line.productId}
+                  variant="subtle"
+                  justify="flex-start"
+                  onClick={() => {
+                    setSelectedLine(line);
+                    setQuantity(1);
+                  }}
+                >
+                  {line.productName} ({line.productCode})
+                </Button>
+              ))}
+            </Stack>
+          )}
+          {selectedLine && (
+            <Group mt="md" align="flex-end">
+              <Stack gap={0} style={{ flex: 1 }}>
+                <Text fw={600}>{selectedLine.productName}</Text>
+                <Text size="sm" c="dimmed">
+                  {selectedLine.productCode}
+                </Text>
+              </Stack>
+              <NumberInput
+                label="Quantity"
+                min={0}
+                value={quantity}
+                onChange={setQuantity}
+                w={120}
+              />
+              <Button onClick={handleAddCount}>Add Count</Button>
+              <ActionIcon
+                variant="subtle"
+                color="gray"
+                size="lg"
+                onClick={() => setSelectedLine(null)}
+              >
+                <IconX size={16} />
+              </ActionIcon>
+            </Group>
+          )}
+        </Card>
+      )}
+
+      {/* Variances */}
+      <Card withBorder shadow="sm" className="no-print">
+        <Group justify="space-between" mb="md">
+          <Title order={4}>Variances</Title>
+          <SegmentedControl
+            size="xs"
+            value={filter}
+            onChange={(value) => setFilter(value as VarianceFilter)}
+            data={[
+              { value: "all", label: "All" },
+              { value: "variances", label: "Variances" },
+              { value: "uncounted", label: "Not counted" },
+            ]}
+          />
+        </Group>
+        {visibleVariances.length === 0 ? (
+          <Text c="dimmed">Nothing to show.</Text>
+        ) : (
+          <ScrollArea>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Product</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Expected</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Counted</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Variance</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Value</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {visibleVariances.map((v) => (
+                  <Table.Tr key={v.line.productId}>
+                    <Table.Td>
+                      <Text size="sm">{v.line.productName}</Text>
+                      <Text size="xs" c="dimmed">
+                        {v.line.productCode}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {v.line.expectedQty}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {v.countedQty ?? "—"}
+                    </Table.Td>
+                    <Table.Td
+                      style={{ textAlign: "right" }}
+                      c={
+                        v.variance < 0
+                          ? "red"
+                          : v.variance > 0
+                          ? "green"
+                          : undefined
+                      }
+                    >
+                      {v.countedQty === null
+                        ? ""
+                        : v.variance > 0
+                        ? `+${v.variance}`
+                        : v.variance}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {v.countedQty === null || v.variance === 0
+                        ? ""
+                        : formatMoney({
+                            ...v.line.unitCost,
+                            amount: v.varianceValue,
+                          })}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+      </Card>
+
+      {/* Count entries */}
+      <Card withBorder shadow="sm" className="no-print">
+        <Title order={4} mb="md">
+          Count Entries
+        </Title>
+        {counts.length === 0 ? (
+          <Text c="dimmed">No counts entered yet.</Text>
+        ) : (
+          <ScrollArea h={counts.length > 10 ? 400 : undefined}>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Time</Table.Th>
+                  <Table.Th>Product</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Qty</Table.Th>
+                  <Table.Th>Counted By</Table.Th>
+                  {isOpen && <Table.Th />}
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {counts.map((count) => (
+                  <Table.Tr key={count._id}>
+                    <Table.Td>
+                      {new Date(count.timestamp).toLocaleTimeString()}
+                    </Table.Td>
+                    <Table.Td>{lineNames.get(count.productId)}</Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {count.quantity}
+                    </Table.Td>
+                    <Table.Td>{count.countedByName || "—"}</Table.Td>
+                    {isOpen && (
+                      <Table.Td>
+                        {canCount && (
+                          <ActionIcon
+                            variant="subtle"
+                            color="red"
+                            onClick={() => handleRemoveCount(count._id)}
+                          >
+                            <IconTrash size={16} />
+                          </ActionIcon>
+                        )}
+                      </Table.Td>
+                    )}
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+      </Card>
+
+      {/* Printable count sheet: blank column for counters to fill in */}
+      <Box className="print-only">
+        <Table withTableBorder withColumnBorders>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Code</Table.Th>
+              <Table.Th>Product</Table.Th>
+              <Table.Th>Barcode</Table.Th>
+              <Table.Th style={{ width: 120 }}>Counted</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {stockTake.lines.map((line) => (
+              <Table.Tr key={line.productId}>
+                <Table.Td>{line.productCode}</Table.Td>
+                <Table.Td>{line.productName}</Table.Td>
+                <Table.Td>{line.barcode || ""}</Table.Td>
+                <Table.Td />
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+        <Text size="sm" mt="xl">
+          Counted by: ______________________ Date: ____________
+        </Text>
+      </Box>
+
+      {/* Approve / cancel */}
+      <Modal
+        opened={confirmAction !== null}
+        onClose={() => setConfirmAction(null)}
+        title={
+          confirmAction === "approve"
+            ? "Approve Stock Take"
+            : "Cancel Stock Take"
+        }
+        centered
+      >
+        <Stack>
+          {confirmAction === "approve" ? (
+            <>
+              <Text size="sm">
+                Stock for the {countedCount} counted products will be set to
+                what was counted, allowing for sales and purchases since the
+                snapshot. The value difference is posted to Inventory
+                Adjustment.
+              </Text>
+              {countedCount < stockTake.lines.length && (
+                <Alert color="yellow" icon={<IconAlertCircle size="1rem" />}>
+                  {stockTake.lines.length - countedCount} products were not
+                  counted and will be left unchanged.
+                </Alert>
+              )}
+            </>
+          ) : (
+            <Text size="sm">
+              The counts will be kept for reference but no stock will be
+              changed.
+            </Text>
+          )}
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setConfirmAction(null)}>
+              Back
+            </Button>
+            <Button
+              color={confirmAction === "approve" ? "green" : "red"}
+              onClick={handleConfirm}
+              loading={saving}
+            >
+              {confirmAction === "approve" ? "Approve" : "Cancel Stock Take"}
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
+      <style jsx global>{`
+        .print-only {
+          display: none;
+        }
+        @media print {
+          .no-print {
+            display: none !important;
+          }
+          .print-only {
+            display: block !important;
+          }
+        }
+      `}</style>
+    </Stack>
+  );
+}
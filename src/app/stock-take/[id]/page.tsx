@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import StockTakeSession from "./StockTakeSession";
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  return {
+    title: `Stock Take #${id}`,
+    description: `Counts and variances for stock take ${id}`,
+  };
+}
+
+export default async function StockTakeSessionPage({ params }: Props) {
+  const { id } = await params;
+  return <StockTakeSession id={id} />;
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  Box,
+  Loader,
+  Alert,
+  Modal,
+  TextInput,
+  Textarea,
+  MultiSelect,
+  Button,
+} from "@mantine/core";
+import { IconPlus, IconAlertCircle } from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getProductsDB } from "@/lib/databases";
+import { addShopIdFilter } from "@/lib/queryHelpers";
+import { isBundle } from "@/lib/bundles";
+import { getStockTakes, startStockTake } from "@/lib/stockTakeDB";
+import { ProductDoc } from "@/types";
+import { StockTakeDoc } from "@/types/stockTake";
+import { formatMoney } from "@/types/money";
+
+const STATUS_COLORS: Record<StockTakeDoc["status"], string> = {
+  counting: "blue",
+  approved: "green",
+  cancelled: "gray",
+};
+
+export default function StockTakePage() {
+  const router = useRouter();
+  const { currentUser, shop } = useAuth();
+  const [stockTakes, setStockTakes] = useState<StockTakeDoc[]>([]);
+  const [products, setProducts] = useState<ProductDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newOpen, setNewOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [productIds, setProductIds] = useState<string[]>([]);
+  const [starting, setStarting] = useState(false);
+
+  const loadStockTakes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const productsDB = await getProductsDB();
+      const [list, productsResult] = await Promise.all([
+        getStockTakes(shop?.shopId),
+        productsDB.find({
+          selector: addShopIdFilter({ type: "product" }, shop?.shopId),
+        }),
+      ]);
+      setStockTakes(list);
+      setProducts(
+        (productsResult.docs as ProductDoc[])
+          .filter((product) => !isBundle(product))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      console.error("Error loading stock takes:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load stock takes"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadStockTakes();
+  }, [loadStockTakes]);
+
+  const canManage = hasPermission(currentUser, Permission.EDIT_PRODUCTS);
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const stockTake = await startStockTake({
+        name: name.trim(),
+        notes: notes.trim() || undefined,
+        productIds,
+        shopId: shop?.shopId,
+        startedBy: currentUser?.userId,
+        startedByName: currentUser?.name,
+      });
+      setNewOpen(false);
+      router.push(`/stock-take/${stockTake._id}`);
+    } catch (err) {
+      console.error("Error starting stock take:", err);
+      setError(
+        `Failed to start stock take: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+      setNewOpen(false);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Stock Take</Title>
+            {canManage && (
+              <CollapsibleFab
+                icon={<IconPlus size={16} />}
+                text="New Stock Take"
+                onClick={() => {
+                  setName(`Stock take ${new Date().toLocaleDateString()}`);
+                  setNotes("");
+                  setProductIds([]);
+                  setNewOpen(true);
+                }}
+                color="blue"
+              />
+            )}
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Count what is on the shelves and correct the stock records
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : stockTakes.length === 0 ? (
+          <Text ta="center" c="dimmed" py="xl">
+            No stock takes yet.
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {stockTakes.map((stockTake) => (
+              <Card
+                key={stockTake._id}
+                withBorder
+                shadow="sm"
+                style={{ cursor: "pointer" }}
+                onClick={() => router.push(`/stock-take/${stockTake._id}`)}
+              >
+                <Group justify="space-between" wrap="nowrap">
+                  <Stack gap={2}>
+                    <Text fw={600}>{stockTake.name}</Text>
+                    <Text size="sm" c="dimmed">
+                      {new Date(stockTake.snapshotAt).toLocaleString()} ·{" "}
+                      {stockTake.lines.length} products
+                      {stockTake.startedByName
+                        ? ` · ${stockTake.startedByName}`
+                        : ""}
+                    </Text>
+                  </Stack>
+                  <Group gap="xs" wrap="nowrap">
+                    {stockTake.varianceValue && (
+                      <Badge
+                        color={
+                          stockTake.varianceValue.amount < 0 ? "red" : "green"
+                        }
+                        variant="light"
+                      >
+                        {formatMoney(stockTake.varianceValue)}
+                      </Badge>
+                    )}
+                    <Badge color={STATUS_COLORS[stockTake.status]}>
+                      {stockTake.status}
+                    </Badge>
+                  </Group>
+                </Group>
+              </Card>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      <Modal
+        opened={newOpen}
+        onClose={() => setNewOpen(false)}
+        title="New Stock Take"
+        centered
+      >
+        <Stack>
+          <Text size="sm" c="dimmed">
+            Stock levels are frozen when the count starts. Sales and
+            purchases made while counting are allowed for on approval.
+          </Text>
+          <TextInput
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.currentTarget.value)}
+            required
+          />
+          <MultiSelect
+            label="Products"
+            description="Leave empty to count every product, or pick some for a cycle count"
+            placeholder="All products"
+            data={products.map((product) => ({
+              value: product._id,
+              label: `${product.name} (${product.code})`,
+            }))}
+            value={productIds}
+            onChange={setProductIds}
+            searchable
+            clearable
+          />
+          <Textarea
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.currentTarget.value)}
+            autosize
+            minRows={2}
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setNewOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleStart}
+              loading={starting}
+              disabled={!name.trim()}
+            >
+              Start Counting
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Title,
+  Group,
+  Stack,
+  Card,
+  Text,
+  Badge,
+  ActionIcon,
+  Box,
+  TextInput,
+  Loader,
+  Alert,
+} from "@mantine/core";
+import {
+  IconPlus,
+  IconEdit,
+  IconSearch,
+  IconAlertCircle,
+} from "@tabler/icons-react";
+import CollapsibleFab from "@/components/CollapsibleFab";
+import SupplierFormModal from "@/components/SupplierFormModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getSuppliers, getPayableBills } from "@/lib/suppliersDB";
+import { SupplierDoc, PayableBill } from "@/types/suppliers";
+import {
+  formatMoney,
+  createMoney,
+  CurrencyCode,
+  BASE_CURRENCY,
+} from "@/types/money";
+
+export default function SuppliersPage() {
+  const { currentUser, shop } = useAuth();
+  const [suppliers, setSuppliers] = useState<SupplierDoc[]>([]);
+  const [bills, setBills] = useState<PayableBill[]>([]);
+  const [currency, setCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<SupplierDoc | null>(null);
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [list, payables] = await Promise.all([
+        getSuppliers(shop?.shopId),
+        getPayableBills(shop?.shopId),
+      ]);
+      setSuppliers(list);
+      setBills(payables.bills);
+      setCurrency(payables.currency);
+    } catch (err) {
+      console.error("Error loading suppliers:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load suppliers"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  const owedTo = (supplierId: string) =>
+    bills
+      .filter((bill) => bill.supplierId === supplierId)
+      .reduce(
+        (acc, bill) => ({
+          outstanding: acc.outstanding + bill.outstanding,
+          overdue: acc.overdue + (bill.daysOverdue > 0 ? bill.outstanding : 0),
+        }),
+        { outstanding: 0, overdue: 0 }
+      );
+
+  const filtered = suppliers.filter((supplier) => {
+    const term = search.trim().toLowerCase();
+    return (
+      !term ||
+      supplier.name.toLowerCase().includes(term) ||
+      supplier.contactName?.toLowerCase().includes(term) ||
+      supplier.phoneNumber?.toLowerCase().includes(term)
+    );
+  });
+
+  const totalOwed = bills.reduce((sum, bill) => sum + bill.outstanding, 0);
+  const canEdit = hasPermission(currentUser, Permission.EDIT_PURCHASES);
+
+  return (
+    <>
+      <Stack gap="lg">
+        <Box mb="xl">
+          <Group justify="space-between" align="center">
+            <Title order={2}>Suppliers</Title>
+            {canEdit && (
+              <CollapsibleFab
+                icon={<IconPlus size={16} />}
+                text="New Supplier"
+                onClick={() => {
+                  setEditing(null);
+                  setFormOpen(true);
+                }}
+                color="blue"
+              />
+            )}
+          </Group>
+          <Text c="dimmed" mt="xs">
+            Supplier contacts, payment terms and what the shop owes them
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <Card withBorder>
+          <Group justify="space-between">
+            <Text c="dimmed">Total owed to suppliers</Text>
+            <Text fw={700} size="lg">
+              {formatMoney(createMoney(totalOwed, currency))}
+            </Text>
+          </Group>
+        </Card>
+
+        <TextInput
+          placeholder="Search by name, contact or phone"
+          leftSection={<IconSearch size={16} />}
+          value={search}
+          onChange={(e) => setSearch(e.currentTarget.value)}
+        />
+
+        {loading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : filtered.length === 0 ? (
+          <Text ta="center" c="dimmed" py="xl">
+            No suppliers found.
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {filtered.map((supplier) => {
+              const owed = owedTo(supplier._id);
+              return (
+                <Card key={supplier._id} withBorder shadow="sm">
+                  <Group justify="space-between" wrap="nowrap">
+                    <Stack gap={2}>
+                      <Text fw={600}>{supplier.name}</Text>
+                      {(supplier.contactName || supplier.phoneNumber) && (
+                        <Text size="sm" c="dimmed">
+                          {[supplier.contactName, supplier.phoneNumber]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </Text>
+                      )}
+                      <Text size="xs" c="dimmed">
+                        {supplier.paymentTermsDays > 0
+                          ? `Net ${supplier.paymentTermsDays} days`
+                          : "Due on receipt"}
+                      </Text>
+                    </Stack>
+                    <Group gap="xs" wrap="nowrap">
+                      {owed.overdue > 0 && (
+                        <Badge color="red" variant="light">
+                          {formatMoney(createMoney(owed.overdue, currency))}{" "}
+                          overdue
+                        </Badge>
+                      )}
+                      <Badge
+                        color={owed.outstanding > 0 ? "orange" : "green"}
+                        size="lg"
+                      >
+                        {formatMoney(createMoney(owed.outstanding, currency))}
+                      </Badge>
+                      {canEdit && (
+                        <ActionIcon
+                          variant="light"
+                          onClick={() => {
+                            setEditing(supplier);
+                            setFormOpen(true);
+                          }}
+                        >
+                          <IconEdit size={16} />
+                        </ActionIcon>
+                      )}
+                    </Group>
+                  </Group>
+                </Card>
+              );
+            })}
+          </Stack>
+        )}
+      </Stack>
+
+      <SupplierFormModal
+        opened={formOpen}
+        onClose={() => setFormOpen(false)}
+        supplier={editing}
+        onSaved={() => loadSuppliers()}
+      />
+    </>
+  );
+}
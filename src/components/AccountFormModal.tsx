@@ -0,0 +1,162 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Select,
+  TextInput,
+  Button,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  saveAccount,
+  ACCOUNT_TYPE_DIGITS,
+  ACCOUNT_TYPE_LABELS,
+} from "@/lib/chartOfAccounts";
+import { AccountType, ChartAccountDoc } from "@/types/accounting";
+
+interface AccountFormModalProps {
+  opened: boolean;
+  account?: ChartAccountDoc | null; // Set to change an account the shop added
+  accounts: ChartAccountDoc[];
+  onClose: () => void;
+  onSaved?: (account: ChartAccountDoc) => void;
+}
+
+export default function AccountFormModal({
+  opened,
+  account,
+  accounts,
+  onClose,
+  onSaved,
+}: AccountFormModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [accountType, setAccountType] = useState<AccountType>("expense");
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [parentCode, setParentCode] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setAccountType(account?.accountType || "expense");
+    setCode(account?.code || "");
+    setName(account?.name || "");
+    setDescription(account?.description || "");
+    setParentCode(account?.parentCode || null);
+    setError(null);
+  }, [opened, account]);
+
+  // Accounts of the same type this one can be grouped under
+  const parents = accounts.filter(
+    (a) =>
+      a.accountType === accountType && a.active && a.code !== account?.code
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveAccount({
+        accountId: account?._id,
+        code,
+        name,
+        accountType,
+        description,
+        parentCode,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      console.error("Error saving account:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={account ? `Account ${account.code}` : "New Account"}
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Select
+          label="Type"
+          data={(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(
+            (type) => ({ value: type, label: ACCOUNT_TYPE_LABELS[type] })
+          )}
+          value={accountType}
+          onChange={(value) => {
+            if (!value) return;
+            setAccountType(value as AccountType);
+            setParentCode(null);
+          }}
+          allowDeselect={false}
+          disabled={!!account}
+        />
+        <Select
+          label="Group Under"
+          placeholder="None"
+          data={parents.map((parent) => ({
+            value: parent.code,
+            label: `${parent.code} ${parent.name}`,
+          }))}
+          value={parentCode}
+          onChange={setParentCode}
+          clearable
+        />
+        <TextInput
+          label="Account Number"
+          description={`Four digits starting with ${ACCOUNT_TYPE_DIGITS[accountType]}`}
+          placeholder={`${ACCOUNT_TYPE_DIGITS[accountType]}xxx`}
+          required
+          value={code}
+          onChange={(e) => setCode(e.currentTarget.value)}
+          disabled={!!account}
+        />
+        <TextInput
+          label="Name"
+          placeholder="e.g. Loan from Bank"
+          required
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Description"
+          placeholder="Optional"
+          value={description}
+          onChange={(e) => setDescription(e.currentTarget.value)}
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
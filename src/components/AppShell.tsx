@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from "react";
 import { useOnboarding } from "@/contexts/OnboardingContext";
 import { useAuth } from "@/contexts/AuthContext";
-import { hasPermission, Permission } from "@/lib/permissions";
+import { hasPermission, hasAnyPermission, Permission } from "@/lib/permissions";
 import {
   AppShell,
   Group,
@@ -30,6 +30,15 @@ import {
   IconUser,
   IconLogout,
   IconUsers,
+  IconAddressBook,
+  IconTruckDelivery,
+  IconClipboardList,
+  IconClipboardText,
+  IconPackageOff,
+  IconNotebook,
+  IconReceipt2,
+  IconBuildingBank,
+  IconSettings,
 } from "@tabler/icons-react";
 import { usePathname, useRouter } from "next/navigation";
 import BottomNav from "./BottomNav";
@@ -449,6 +458,240 @@ export default function ShopkeeperAppShell({ children }: AppShellProps) {
               },
             }}
           />
+          {hasPermission(currentUser, Permission.VIEW_PURCHASES) && (
+            <NavLink
+              label="Purchase Orders"
+              leftSection={
+                <IconClipboardText
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/purchase-orders" ||
+                pathname.startsWith("/purchase-orders/")
+              }
+              href="/purchase-orders"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-teal-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
+          {hasPermission(currentUser, Permission.VIEW_PURCHASES) && (
+            <NavLink
+              label="Suppliers"
+              leftSection={
+                <IconTruckDelivery
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/suppliers" || pathname.startsWith("/suppliers/")
+              }
+              href="/suppliers"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-teal-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
+          {hasPermission(currentUser, Permission.VIEW_PRODUCTS) && (
+            <NavLink
+              label="Stock Take"
+              leftSection={
+                <IconClipboardList
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/stock-take" ||
+                pathname.startsWith("/stock-take/")
+              }
+              href="/stock-take"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-grape-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
+          {hasPermission(currentUser, Permission.EDIT_PRODUCTS) && (
+            <NavLink
+              label="Write-offs"
+              leftSection={
+                <IconPackageOff
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/inventory-adjustments" ||
+                pathname.startsWith("/inventory-adjustments/")
+              }
+              href="/inventory-adjustments"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-red-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
+          {hasPermission(currentUser, Permission.VIEW_EXPENSES) && (
+            <NavLink
+              label="Expenses"
+              leftSection={
+                <IconReceipt2
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/expenses" || pathname.startsWith("/expenses/")
+              }
+              href="/expenses"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-yellow-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
+          {hasPermission(currentUser, Permission.MANAGE_FINANCING) && (
+            <NavLink
+              label="Financing"
+              leftSection={
+                <IconBuildingBank
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/financing" || pathname.startsWith("/financing/")
+              }
+              href="/financing"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-teal-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
+          {hasPermission(currentUser, Permission.VIEW_SALES) && (
+            <NavLink
+              label="Customers"
+              leftSection={
+                <IconAddressBook
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={
+                pathname === "/customers" || pathname.startsWith("/customers/")
+              }
+              href="/customers"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-cyan-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
           {hasPermission(currentUser, Permission.VIEW_REPORTS) && (
             <NavLink
               label="Reports"
@@ -480,6 +723,40 @@ export default function ShopkeeperAppShell({ children }: AppShellProps) {
               }}
             />
           )}
+          {hasAnyPermission(currentUser, [
+            Permission.CREATE_JOURNAL_ENTRIES,
+            Permission.APPROVE_JOURNAL_ENTRIES,
+          ]) && (
+            <NavLink
+              label="Journal"
+              leftSection={
+                <IconNotebook
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={pathname === "/journal"}
+              href="/journal"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-violet-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
           {hasPermission(currentUser, Permission.VIEW_USERS) && (
             <NavLink
               label="Users"
@@ -511,6 +788,37 @@ export default function ShopkeeperAppShell({ children }: AppShellProps) {
               }}
             />
           )}
+          {hasPermission(currentUser, Permission.VIEW_SETTINGS) && (
+            <NavLink
+              label="Settings"
+              leftSection={
+                <IconSettings
+                  size={24}
+                  stroke={1.5}
+                  style={{ transition: "transform 0.2s ease" }}
+                  className="tabler-icon icon-bounce"
+                />
+              }
+              active={pathname === "/settings"}
+              href="/settings"
+              component="a"
+              h={60}
+              p="md"
+              style={{ fontSize: "18px" }}
+              styles={{
+                root: {
+                  transition: "all 0.2s ease",
+                  "&:hover": {
+                    transform: "translateX(5px)",
+                    backgroundColor: "var(--mantine-color-gray-0)",
+                  },
+                },
+                label: {
+                  transition: "transform 0.2s ease",
+                },
+              }}
+            />
+          )}
           <NavLink
             label="Sync"
             leftSection={
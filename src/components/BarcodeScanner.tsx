@@ -1,26 +1,77 @@
 "use client"; // This component interacts with browser APIs (camera, DOM)
 
 import React, { useRef, useEffect, useState } from "react";
-import { BrowserQRCodeReader, IScannerControls } from "@zxing/browser";
-import { Loader, Alert, Text } from "@mantine/core";
-import { IconAlertCircle, IconCameraOff } from "@tabler/icons-react";
+import {
+  BarcodeFormat,
+  BrowserCodeReader,
+  BrowserMultiFormatReader,
+  IScannerControls,
+} from "@zxing/browser";
+import { Loader, Alert, Text, Group, Select, ActionIcon } from "@mantine/core";
+import {
+  IconAlertCircle,
+  IconCameraOff,
+  IconBulb,
+  IconBulbOff,
+} from "@tabler/icons-react";
+
+// Symbologies printed on retail packaging, plus the 2D codes some
+// suppliers use on cartons
+export const RETAIL_BARCODE_FORMATS: BarcodeFormat[] = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.ITF,
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+];
+
+// Remembers the camera picked last time on this device
+const CAMERA_STORAGE_KEY = "barcodeScannerDeviceId";
 
 interface BarcodeScannerProps {
   onScan: (text: string) => void;
   onError?: (error: Error) => void; // Optional error handler
+  formats?: BarcodeFormat[]; // Symbologies to decode (defaults to retail)
+  dedupeMs?: number; // Ignore the same code read again within this window
 }
 
 export default function BarcodeScanner({
   onScan,
   onError,
+  formats = RETAIL_BARCODE_FORMATS,
+  dedupeMs = 1500,
 }: BarcodeScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const controlsRef = useRef<IScannerControls | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [torchAvailable, setTorchAvailable] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
 
+  // Callbacks are kept in refs so a parent re-render doesn't restart the camera
+  const onScanRef = useRef(onScan);
+  const onErrorRef = useRef(onError);
   useEffect(() => {
-    const codeReader = new BrowserQRCodeReader();
+    onScanRef.current = onScan;
+    onErrorRef.current = onError;
+  }, [onScan, onError]);
+
+  // Last code read and when, so one barcode held in view fires once
+  const lastScanRef = useRef<{ text: string; at: number } | null>(null);
+  const formatsKey = formats.join(",");
+
+  useEffect(() => {
+    const codeReader = new BrowserMultiFormatReader();
+    codeReader.possibleFormats = formatsKey
+      .split(",")
+      .map((format) => Number(format) as BarcodeFormat);
     let isMounted = true;
 
     const startScan = async () => {
@@ -28,15 +79,33 @@ export default function BarcodeScanner({
 
       setLoading(true);
       setError(null);
+      setTorchAvailable(false);
+      setTorchOn(false);
 
       try {
         // Ensure permissions are granted before trying to decode
         // This might prompt the user if not already granted
         await navigator.mediaDevices.getUserMedia({ video: true });
 
+        // Camera labels are only available once permission is granted
+        const videoDevices = await BrowserCodeReader.listVideoInputDevices();
+        if (!isMounted) return;
+        setDevices(videoDevices);
+
+        // Prefer the camera used last time, then a rear-facing one
+        let selectedDeviceId = deviceId;
+        if (!selectedDeviceId) {
+          const remembered = localStorage.getItem(CAMERA_STORAGE_KEY);
+          selectedDeviceId =
+            videoDevices.find((d) => d.deviceId === remembered)?.deviceId ||
+            videoDevices.find((d) => /back|rear|environment/i.test(d.label))
+              ?.deviceId;
+        }
+        setActiveDeviceId(selectedDeviceId || null);
+
         console.log("Starting barcode scan...");
         controlsRef.current = await codeReader.decodeFromVideoDevice(
-          undefined, // Use default device
+          selectedDeviceId, // Undefined uses the default device
           videoRef.current,
           (result, err, controls) => {
             if (!isMounted) {
@@ -46,25 +115,34 @@ export default function BarcodeScanner({
             setLoading(false); // Stop loading once stream starts or fails initially
 
             if (result) {
-              console.log("Barcode detected:", result.getText());
-              onScan(result.getText());
-              // Optional: Stop scanning after first successful scan?
-              // controls.stop();
+              const text = result.getText();
+              const now = Date.now();
+              const last = lastScanRef.current;
+              if (last && last.text === text && now - last.at < dedupeMs) {
+                return;
+              }
+              lastScanRef.current = { text, at: now };
+              console.log("Barcode detected:", text);
+              onScanRef.current(text);
             }
 
             if (err) {
               // Ignore NotFoundException, it happens constantly between scans
-              if (err.name !== "NotFoundException") {
+              // (as do checksum and format misreads of a partly visible code)
+              if (
+                err.name !== "NotFoundException" &&
+                err.name !== "ChecksumException" &&
+                err.name !== "FormatException"
+              ) {
                 console.error("Scan Error:", err);
                 const errorMessage = `Scan Error: ${err.name} - ${err.message}`;
                 setError(errorMessage);
-                if (onError) {
-                  onError(err);
-                }
+                onErrorRef.current?.(err);
               }
             }
           }
         );
+        setTorchAvailable(!!controlsRef.current.switchTorch);
         console.log("Barcode scanner controls initialized.");
       } catch (err: unknown) {
         if (!isMounted) return;
@@ -86,11 +164,9 @@ export default function BarcodeScanner({
           errorMessage += ` Unknown error: ${String(err)}`;
         }
         setError(errorMessage);
-        if (onError && err instanceof Error) {
-          onError(err);
-        } else if (onError) {
-          onError(new Error(String(err)));
-        }
+        onErrorRef.current?.(
+          err instanceof Error ? err : new Error(String(err))
+        );
         setLoading(false);
       }
     };
@@ -107,8 +183,26 @@ export default function BarcodeScanner({
         console.log("Scanner stopped.");
       }
     };
-    // Rerun effect if onScan or onError changes (though unlikely for onScan)
-  }, [onScan, onError]);
+    // Restart the camera when a different device or set of formats is chosen
+  }, [deviceId, formatsKey, dedupeMs]);
+
+  const handleDeviceChange = (value: string | null) => {
+    if (!value) return;
+    localStorage.setItem(CAMERA_STORAGE_KEY, value);
+    setDeviceId(value);
+  };
+
+  const handleToggleTorch = async () => {
+    const controls = controlsRef.current;
+    if (!controls?.switchTorch) return;
+    try {
+      await controls.switchTorch(!torchOn);
+      setTorchOn(!torchOn);
+    } catch (err) {
+      console.error("Error switching torch:", err);
+      setTorchAvailable(false);
+    }
+  };
 
   return (
     <div
@@ -119,6 +213,35 @@ export default function BarcodeScanner({
         margin: "auto",
       }}
     >
+      {(devices.length > 1 || torchAvailable) && (
+        <Group mb="xs" wrap="nowrap">
+          {devices.length > 1 && (
+            <Select
+              style={{ flex: 1 }}
+              size="sm"
+              placeholder="Camera"
+              data={devices.map((device, index) => ({
+                value: device.deviceId,
+                label: device.label || `Camera ${index + 1}`,
+              }))}
+              value={activeDeviceId}
+              onChange={handleDeviceChange}
+              allowDeselect={false}
+            />
+          )}
+          {torchAvailable && (
+            <ActionIcon
+              size="lg"
+              variant={torchOn ? "filled" : "light"}
+              color="yellow"
+              onClick={handleToggleTorch}
+              aria-label={torchOn ? "Turn torch off" : "Turn torch on"}
+            >
+              {torchOn ? <IconBulbOff size={18} /> : <IconBulb size={18} />}
+            </ActionIcon>
+          )}
+        </Group>
+      )}
       {loading && (
         <div
           style={{
@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  NumberInput,
+  Select,
+  Button,
+  ActionIcon,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle, IconPlus, IconTrash } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { saveBundle, getBundleAvailability, isBundle } from "@/lib/bundles";
+import { getBaseUnit } from "@/lib/units";
+import { ProductDoc } from "@/types";
+import { Money, createMoney, formatMoney } from "@/types/money";
+import MoneyInput from "@/components/MoneyInput";
+
+interface BundleModalProps {
+  opened: boolean;
+  bundle?: ProductDoc | null; // Set to change an existing bundle
+  products: ProductDoc[];
+  onClose: () => void;
+  onSaved?: (bundle: ProductDoc) => void;
+}
+
+export default function BundleModal({
+  opened,
+  bundle,
+  products,
+  onClose,
+  onSaved,
+}: BundleModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState<Money>(createMoney(0));
+  const [components, setComponents] = useState<
+    Array<{ productId: string | null; quantity: number }>
+  >([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setName(bundle?.name || "");
+    setPrice(bundle?.price || createMoney(0));
+    setComponents(
+      bundle?.bundleComponents?.map((component) => ({
+        productId: component.productId,
+        quantity: component.quantity,
+      })) || [{ productId: null, quantity: 1 }]
+    );
+    setError(null);
+  }, [opened, bundle]);
+
+  const stocked = products.filter((product) => !isBundle(product));
+  const findProduct = (productId: string | null) =>
+    stocked.find((product) => product._id === productId);
+
+  const updateComponent = (
+    index: number,
+    changes: Partial<{ productId: string | null; quantity: number }>
+  ) =>
+    setComponents((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+
+  const chosen = components.filter(
+    (row): row is { productId: string; quantity: number } => !!row.productId
+  );
+  // Last costs, as a guide to pricing; what is booked comes from the lots
+  const componentCost = chosen.reduce(
+    (sum, row) =>
+      sum + row.quantity * (findProduct(row.productId)?.costPrice?.amount || 0),
+    0
+  );
+  const canMake = getBundleAvailability(
+    {
+      bundleComponents: chosen.map((row) => ({
+        productId: row.productId,
+        productName: "",
+        productCode: "",
+        quantity: row.quantity,
+      })),
+    },
+    products
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveBundle({
+        productId: bundle?._id,
+        name,
+        price,
+        components: chosen,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      console.error("Error saving bundle:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={bundle ? `Bundle: ${bundle.name}` : "New Bundle"}
+      centered
+      size="lg"
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Text size="sm" c="dimmed">
+          A bundle is sold as one item. Selling it takes each product below
+          out of stock, and its cost is what those products cost.
+        </Text>
+        <TextInput
+          label="Bundle Name"
+          placeholder="e.g. Gift Pack"
+          required
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+        />
+
+        {components.map((row, index) => (
+          <Group key={index} align="flex-end" wrap="nowrap">
+            <Select
+              label={index === 0 ? "Product" : undefined}
+              placeholder="Choose a product"
+              data={stocked.map((product) => ({
+                value: product._id,
+                label: `${product.name} (${product.code})`,
+              }))}
+              value={row.productId}
+              onChange={(value) =>
+                updateComponent(index, { productId: value })
+              }
+              searchable
+              style={{ flex: 2 }}
+            />
+            <NumberInput
+              label={
+                index === 0
+                  ? `Quantity${
+                      findProduct(row.productId)
+                        ? ` (${getBaseUnit(findProduct(row.productId))})`
+                        : ""
+                    }`
+                  : undefined
+              }
+              value={row.quantity}
+              onChange={(value) =>
+                updateComponent(index, { quantity: Number(value) })
+              }
+              min={0}
+              decimalScale={3}
+              style={{ flex: 1 }}
+            />
+            <ActionIcon
+              color="red"
+              variant="subtle"
+              size="lg"
+              onClick={() =>
+                setComponents((prev) => prev.filter((_, i) => i !== index))
+              }
+              aria-label="Remove product"
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Group>
+        ))}
+        <Button
+          variant="light"
+          leftSection={<IconPlus size={16} />}
+          onClick={() =>
+            setComponents((prev) => [
+              ...prev,
+              { productId: null, quantity: 1 },
+            ])
+          }
+        >
+          Add Product
+        </Button>
+
+        <MoneyInput
+          label="Selling Price"
+          description="Price of the whole bundle"
+          value={price}
+          onChange={(value) =>
+            setPrice(
+              typeof value === "number" ? { ...price, amount: value } : value
+            )
+          }
+          variant="light"
+        />
+
+        <Group justify="space-between">
+          <Stack gap={0}>
+            <Text size="sm" c="dimmed">
+              Products cost about {formatMoney(createMoney(componentCost))}
+            </Text>
+            <Text size="sm" c="dimmed">
+              Enough stock for {canMake}
+            </Text>
+          </Stack>
+          <Group>
+            <Button variant="default" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} loading={saving}>
+              Save
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -12,6 +12,7 @@ import {
 import { CashInHand, SaleDoc, PurchaseDoc } from "@/types";
 import { getCashInHandDB, getSalesDB, getPurchasesDB } from "@/lib/databases";
 import { createCashAdjustmentEntry } from "@/lib/accounting";
+import { getSaleAmountByMethod } from "@/lib/salePayments";
 import MoneyInput from "./MoneyInput";
 import { useDateFilter } from "@/contexts/DateFilterContext";
 import {
@@ -106,11 +107,10 @@ export function CashInHandManager() {
       const salesDB = await getSalesDB();
       const purchasesDB = await getPurchasesDB();
 
-      // Get cash sales within date range
+      // Get sales within date range (split tenders may include cash)
       const salesResult = await salesDB.find({
         selector: {
           type: "sale",
-          paymentMethod: "cash",
           timestamp: {
             $gte: dateRangeInfo.startDate.toISOString(),
             $lte: dateRangeInfo.endDate.toISOString(),
@@ -131,18 +131,12 @@ export function CashInHandManager() {
       });
 
       // Calculate total cash from sales in base currency
-      const totalCashSales = (salesResult.docs as SaleDoc[]).reduce(
-        (total: number, sale: SaleDoc) => {
-          // Convert each sale amount to base currency
-          const saleInBase = convertMoney(
-            sale.totalAmount,
-            BASE_CURRENCY,
-            DEFAULT_EXCHANGE_RATES[BASE_CURRENCY]
-          );
-          return total + saleInBase.amount;
-        },
-        0
-      );
+      const totalCashSales = (salesResult.docs as SaleDoc[])
+        .filter((sale) => !sale.voided)
+        .reduce((total: number, sale: SaleDoc) => {
+          // Only the cash portion of each sale reaches the till
+          return total + getSaleAmountByMethod(sale, "cash", BASE_CURRENCY);
+        }, 0);
 
       // Calculate total cash spent on purchases in base currency
       const totalCashPurchases = (purchasesResult.docs as PurchaseDoc[]).reduce(
@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  Badge,
+  Switch,
+  Button,
+  ActionIcon,
+  Alert,
+  Loader,
+} from "@mantine/core";
+import { IconAlertCircle, IconPencil, IconPlus } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getChartOfAccounts,
+  setAccountActive,
+  ACCOUNT_TYPE_LABELS,
+} from "@/lib/chartOfAccounts";
+import { ChartAccountDoc } from "@/types/accounting";
+import AccountFormModal from "@/components/AccountFormModal";
+
+interface ChartOfAccountsSettingsProps {
+  canEdit: boolean;
+}
+
+export default function ChartOfAccountsSettings({
+  canEdit,
+}: ChartOfAccountsSettingsProps) {
+  const { shop } = useAuth();
+  const [accounts, setAccounts] = useState<ChartAccountDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ChartAccountDoc | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await getChartOfAccounts(shop?.shopId));
+    } catch (err) {
+      console.error("Error loading chart of accounts:", err);
+      setError("Failed to load the chart of accounts");
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  // How many levels down the grouping an account sits
+  const getDepth = (account: ChartAccountDoc): number => {
+    const parent = accounts.find((a) => a.code === account.parentCode);
+    return parent ? getDepth(parent) + 1 : 0;
+  };
+
+  const handleToggle = async (account: ChartAccountDoc, active: boolean) => {
+    setError(null);
+    try {
+      await setAccountActive(account._id, active);
+      await loadAccounts();
+    } catch (err) {
+      console.error("Error updating account:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (loading) {
+    return (
+      <Group justify="center" py="md">
+        <Loader size="sm" />
+      </Group>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+      <Table>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Number</Table.Th>
+            <Table.Th>Name</Table.Th>
+            <Table.Th>Type</Table.Th>
+            <Table.Th>Active</Table.Th>
+            {canEdit && <Table.Th />}
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {accounts.map((account) => (
+            <Table.Tr key={account._id}>
+              <Table.Td>{account.code}</Table.Td>
+              <Table.Td style={{ paddingLeft: 12 + getDepth(account) * 20 }}>
+                <Group gap="xs">
+                  <Text size="sm" c={account.active ? undefined : "dimmed"}>
+                    {account.name}
+                  </Text>
+                  {account.system && (
+                    <Badge size="xs" variant="light" color="gray">
+                      System
+                    </Badge>
+                  )}
+                </Group>
+              </Table.Td>
+              <Table.Td>{ACCOUNT_TYPE_LABELS[account.accountType]}</Table.Td>
+              <Table.Td>
+                <Switch
+                  checked={account.active}
+                  onChange={(e) =>
+                    handleToggle(account, e.currentTarget.checked)
+                  }
+                  disabled={!canEdit || account.system}
+                  aria-label={`${account.name} active`}
+                />
+              </Table.Td>
+              {canEdit && (
+                <Table.Td>
+                  {!account.system && (
+                    <ActionIcon
+                      variant="subtle"
+                      onClick={() => {
+                        setEditing(account);
+                        setFormOpen(true);
+                      }}
+                      aria-label={`Edit ${account.name}`}
+                    >
+                      <IconPencil size={16} />
+                    </ActionIcon>
+                  )}
+                </Table.Td>
+              )}
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      {canEdit && (
+        <Group justify="flex-end">
+          <Button
+            variant="light"
+            leftSection={<IconPlus size={16} />}
+            onClick={() => {
+              setEditing(null);
+              setFormOpen(true);
+            }}
+          >
+            Add Account
+          </Button>
+        </Group>
+      )}
+
+      <AccountFormModal
+        opened={formOpen}
+        account={editing}
+        accounts={accounts}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => loadAccounts()}
+      />
+    </Stack>
+  );
+}
@@ -11,6 +11,7 @@ import PWARegistration from "@/components/PWARegistration";
 import PWADebug from "@/components/PWADebug";
 import ShopkeeperAppShell from "@/components/AppShell";
 import ClientSettingsLoader from "./ClientSettingsLoader";
+import { recoverPendingTransactions } from "@/lib/transactions";
 import { LottieAnimation } from "@/types/lottie";
 
 interface ClientProvidersProps {
@@ -53,6 +54,19 @@ export default function ClientProviders({
     loadAnimationData();
   }, []); // Run once on mount
 
+  useEffect(() => {
+    // Roll back any sale or purchase a previous session left half-written
+    recoverPendingTransactions()
+      .then((recovered) => {
+        if (recovered > 0) {
+          console.warn(`Rolled back ${recovered} interrupted transaction(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error recovering pending transactions:", error);
+      });
+  }, []);
+
   return (
     <MantineProvider defaultColorScheme="auto">
       <AuthProvider>
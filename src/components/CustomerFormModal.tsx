@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  TextInput,
+  Textarea,
+  Switch,
+  Button,
+  Group,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { CustomerDoc } from "@/types/customers";
+import { Money, createMoney } from "@/types/money";
+import { useAuth } from "@/contexts/AuthContext";
+import { saveCustomer } from "@/lib/customersDB";
+import MoneyInput from "./MoneyInput";
+
+interface CustomerFormModalProps {
+  opened: boolean;
+  onClose: () => void;
+  customer?: CustomerDoc | null; // Edit when provided, otherwise create
+  onSaved?: (customer: CustomerDoc) => void;
+}
+
+export default function CustomerFormModal({
+  opened,
+  onClose,
+  customer,
+  onSaved,
+}: CustomerFormModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [name, setName] = useState("");
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [email, setEmail] = useState("");
+  const [address, setAddress] = useState("");
+  const [notes, setNotes] = useState("");
+  const [hasCreditLimit, setHasCreditLimit] = useState(false);
+  const [creditLimit, setCreditLimit] = useState<Money>(createMoney(0));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setName(customer?.name || "");
+    setPhoneNumber(customer?.phoneNumber || "");
+    setEmail(customer?.email || "");
+    setAddress(customer?.address || "");
+    setNotes(customer?.notes || "");
+    setHasCreditLimit(!!customer?.creditLimit);
+    setCreditLimit(customer?.creditLimit || createMoney(0));
+    setError(null);
+  }, [opened, customer]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError("Customer name is required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveCustomer({
+        ...(customer || {}),
+        name: name.trim(),
+        phoneNumber: phoneNumber.trim() || undefined,
+        email: email.trim() || undefined,
+        address: address.trim() || undefined,
+        notes: notes.trim() || undefined,
+        creditLimit: hasCreditLimit ? creditLimit : undefined,
+        active: customer?.active ?? true,
+        shopId: customer?.shopId || shop?.shopId,
+        createdBy: customer?.createdBy || currentUser?.userId,
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      console.error("Error saving customer:", err);
+      setError(
+        `Failed to save customer: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={customer ? "Edit Customer" : "New Customer"}
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <TextInput
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+          required
+        />
+        <TextInput
+          label="Phone Number"
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Email"
+          value={email}
+          onChange={(e) => setEmail(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Address"
+          value={address}
+          onChange={(e) => setAddress(e.currentTarget.value)}
+        />
+
+        <Switch
+          label="Limit credit for this customer"
+          checked={hasCreditLimit}
+          onChange={(e) => setHasCreditLimit(e.currentTarget.checked)}
+        />
+        {hasCreditLimit && (
+          <MoneyInput
+            label="Credit Limit"
+            description="Maximum this customer may owe at any time"
+            value={creditLimit}
+            onChange={(value) =>
+              setCreditLimit(
+                typeof value === "number"
+                  ? { ...creditLimit, amount: value }
+                  : value
+              )
+            }
+            variant="light"
+          />
+        )}
+
+        <Textarea
+          label="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.currentTarget.value)}
+          autosize
+          minRows={2}
+        />
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
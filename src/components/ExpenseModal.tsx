@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Select,
+  TextInput,
+  FileInput,
+  Button,
+  Group,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle, IconCamera } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { recordExpense, EXPENSE_CATEGORY_LABELS } from "@/lib/expenses";
+import { ExpenseCategory, ExpenseDoc } from "@/types/expenses";
+import { Money, createMoney } from "@/types/money";
+import MoneyInput from "@/components/MoneyInput";
+
+interface ExpenseModalProps {
+  opened: boolean;
+  onClose: () => void;
+  onSaved?: (expense: ExpenseDoc) => void;
+}
+
+export default function ExpenseModal({
+  opened,
+  onClose,
+  onSaved,
+}: ExpenseModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [category, setCategory] = useState<ExpenseCategory>("rent");
+  const [description, setDescription] = useState("");
+  const [payee, setPayee] = useState("");
+  const [amount, setAmount] = useState<Money>(createMoney(0));
+  const [paymentMethod, setPaymentMethod] =
+    useState<ExpenseDoc["paymentMethod"]>("cash");
+  const [reference, setReference] = useState("");
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setCategory("rent");
+    setDescription("");
+    setPayee("");
+    setAmount(createMoney(0));
+    setPaymentMethod("cash");
+    setReference("");
+    setReceipt(null);
+    setError(null);
+  }, [opened]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const expense = await recordExpense({
+        category,
+        description,
+        payee,
+        amount,
+        paymentMethod,
+        reference,
+        receipt,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onSaved?.(expense);
+      onClose();
+    } catch (err) {
+      console.error("Error recording expense:", err);
+      setError(
+        `Failed to record expense: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Record Expense" centered>
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Select
+          label="Category"
+          data={Object.entries(EXPENSE_CATEGORY_LABELS).map(
+            ([value, label]) => ({ value, label })
+          )}
+          value={category}
+          onChange={(value) => value && setCategory(value as ExpenseCategory)}
+          allowDeselect={false}
+        />
+        <TextInput
+          label="Description"
+          placeholder="e.g. ZESA tokens for March"
+          required
+          value={description}
+          onChange={(e) => setDescription(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Paid To"
+          placeholder="Optional"
+          value={payee}
+          onChange={(e) => setPayee(e.currentTarget.value)}
+        />
+        <MoneyInput
+          label="Amount"
+          value={amount}
+          onChange={(value) =>
+            setAmount(
+              typeof value === "number" ? { ...amount, amount: value } : value
+            )
+          }
+          variant="light"
+        />
+        <Select
+          label="Paid From"
+          description="Cash expenses come out of your till at end of day"
+          value={paymentMethod}
+          onChange={(value) =>
+            value && setPaymentMethod(value as ExpenseDoc["paymentMethod"])
+          }
+          data={[
+            { value: "cash", label: "Cash" },
+            { value: "bank", label: "Bank" },
+            { value: "mobile_money", label: "Mobile Money" },
+          ]}
+          allowDeselect={false}
+        />
+        <TextInput
+          label="Reference"
+          placeholder="e.g. receipt or transfer number"
+          value={reference}
+          onChange={(e) => setReference(e.currentTarget.value)}
+        />
+        <FileInput
+          label="Receipt Photo"
+          placeholder="Take or choose a photo"
+          accept="image/*"
+          leftSection={<IconCamera size={16} />}
+          value={receipt}
+          onChange={setReceipt}
+          clearable
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={!description.trim() || amount.amount <= 0}
+          >
+            Save Expense
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
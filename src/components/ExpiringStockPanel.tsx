@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  Stack,
+  Group,
+  Text,
+  Table,
+  ScrollArea,
+  SegmentedControl,
+  Badge,
+} from "@mantine/core";
+import { useAuth } from "@/contexts/AuthContext";
+import { getExpiringLots } from "@/lib/inventory";
+import { getShopSettings } from "@/lib/settingsDB";
+import { InventoryLot } from "@/types";
+import {
+  formatMoney,
+  createMoney,
+  convertMoneyWithRates,
+  BASE_CURRENCY,
+  CurrencyCode,
+} from "@/types/money";
+
+const WINDOW_OPTIONS = ["7", "30", "60", "90"];
+
+export default function ExpiringStockPanel() {
+  const { shop } = useAuth();
+  const [withinDays, setWithinDays] = useState("30");
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState<CurrencyCode>(
+    BASE_CURRENCY as CurrencyCode
+  );
+  const [loading, setLoading] = useState(true);
+
+  const loadLots = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [expiring, settings] = await Promise.all([
+        getExpiringLots(Number(withinDays), shop?.shopId),
+        getShopSettings(shop?.shopId),
+      ]);
+      setLots(expiring);
+      setBaseCurrency(
+        (settings?.baseCurrency || BASE_CURRENCY) as CurrencyCode
+      );
+    } catch (err) {
+      console.error("Error loading expiring stock:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [withinDays, shop?.shopId]);
+
+  useEffect(() => {
+    loadLots();
+  }, [loadLots]);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const lotValue = (lot: InventoryLot) =>
+    lot.remainingQuantity *
+    convertMoneyWithRates(lot.costPrice, baseCurrency, 1, baseCurrency).amount;
+  const totalAtRisk = lots.reduce((sum, lot) => sum + lotValue(lot), 0);
+
+  return (
+    <Card withBorder shadow="sm" p="lg" radius="md">
+      <Stack gap="md">
+        <Group justify="space-between" align="flex-start">
+          <div>
+            <Text fw={500} size="lg">
+              Expiring Soon
+            </Text>
+            <Text size="sm" c="dimmed">
+              Value at risk:{" "}
+              <Text span fw={700} c={totalAtRisk > 0 ? "red" : undefined}>
+                {formatMoney(createMoney(totalAtRisk, baseCurrency))}
+              </Text>
+            </Text>
+          </div>
+          <SegmentedControl
+            size="xs"
+            value={withinDays}
+            onChange={setWithinDays}
+            data={WINDOW_OPTIONS.map((days) => ({
+              value: days,
+              label: `${days} days`,
+            }))}
+          />
+        </Group>
+
+        {loading ? (
+          <Text size="sm" c="dimmed" ta="center">
+            Loading...
+          </Text>
+        ) : lots.length === 0 ? (
+          <Text size="sm" c="dimmed" ta="center">
+            Nothing expires in the next {withinDays} days.
+          </Text>
+        ) : (
+          <ScrollArea>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Product</Table.Th>
+                  <Table.Th>Batch</Table.Th>
+                  <Table.Th>Expires</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Qty</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>At cost</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {lots.map((lot) => (
+                  <Table.Tr key={lot._id}>
+                    <Table.Td>{lot.productName}</Table.Td>
+                    <Table.Td>{lot.batchNumber || "—"}</Table.Td>
+                    <Table.Td>
+                      {lot.expiryDate && lot.expiryDate < today ? (
+                        <Badge color="red" variant="light">
+                          Expired {lot.expiryDate}
+                        </Badge>
+                      ) : (
+                        lot.expiryDate
+                      )}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {lot.remainingQuantity}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {formatMoney(createMoney(lotValue(lot), baseCurrency))}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+      </Stack>
+    </Card>
+  );
+}
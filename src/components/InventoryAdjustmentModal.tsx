@@ -0,0 +1,255 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Text,
+  Select,
+  NumberInput,
+  Textarea,
+  Switch,
+  Table,
+  Button,
+  Group,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getAvailableLotsForProduct } from "@/lib/inventory";
+import {
+  recordInventoryAdjustment,
+  ADJUSTMENT_REASON_LABELS,
+} from "@/lib/inventoryAdjustments";
+import { InventoryLot, ProductDoc } from "@/types";
+import {
+  AdjustmentReason,
+  InventoryAdjustmentDoc,
+} from "@/types/inventoryAdjustments";
+import { formatMoney } from "@/types/money";
+
+interface InventoryAdjustmentModalProps {
+  opened: boolean;
+  onClose: () => void;
+  products: ProductDoc[];
+  onSaved?: (adjustment: InventoryAdjustmentDoc) => void;
+}
+
+export default function InventoryAdjustmentModal({
+  opened,
+  onClose,
+  products,
+  onSaved,
+}: InventoryAdjustmentModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [productId, setProductId] = useState<string | null>(null);
+  const [reason, setReason] = useState<AdjustmentReason>("damaged");
+  const [quantity, setQuantity] = useState<number | string>(1);
+  const [notes, setNotes] = useState("");
+  const [pickLots, setPickLots] = useState(false);
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [lotQuantities, setLotQuantities] = useState<Record<string, number>>(
+    {}
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setProductId(null);
+    setReason("damaged");
+    setQuantity(1);
+    setNotes("");
+    setPickLots(false);
+    setLots([]);
+    setLotQuantities({});
+    setError(null);
+  }, [opened]);
+
+  useEffect(() => {
+    if (!productId) {
+      setLots([]);
+      return;
+    }
+    getAvailableLotsForProduct(productId, shop?.shopId)
+      .then(setLots)
+      .catch((err) => {
+        console.error("Error loading lots:", err);
+        setError("Failed to load stock for this product");
+      });
+    setLotQuantities({});
+  }, [productId, shop?.shopId]);
+
+  const inStock = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const fromLots = Object.values(lotQuantities).reduce(
+    (sum, qty) => sum + qty,
+    0
+  );
+  const totalQuantity = pickLots ? fromLots : Number(quantity) || 0;
+
+  const handleSave = async () => {
+    if (!productId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const adjustment = await recordInventoryAdjustment({
+        productId,
+        reason,
+        quantity: totalQuantity,
+        lots: pickLots
+          ? Object.entries(lotQuantities)
+              .filter(([, qty]) => qty > 0)
+              .map(([lotId, qty]) => ({ lotId, quantity: qty }))
+          : undefined,
+        notes: notes.trim() || undefined,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onSaved?.(adjustment);
+      onClose();
+    } catch (err) {
+      console.error("Error recording adjustment:", err);
+      setError(
+        `Failed to record adjustment: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Write Off Stock"
+      centered
+      size="lg"
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Select
+          label="Product"
+          placeholder="Search products"
+          data={products.map((product) => ({
+            value: product._id,
+            label: `${product.name} (${product.code})`,
+          }))}
+          value={productId}
+          onChange={setProductId}
+          searchable
+          required
+        />
+        <Select
+          label="Reason"
+          data={Object.entries(ADJUSTMENT_REASON_LABELS).map(
+            ([value, label]) => ({ value, label })
+          )}
+          value={reason}
+          onChange={(value) => value && setReason(value as AdjustmentReason)}
+          allowDeselect={false}
+        />
+        {productId && (
+          <>
+            <Text size="sm" c="dimmed">
+              {inStock} in stock
+            </Text>
+            <Switch
+              label="Choose which delivery the stock came from"
+              checked={pickLots}
+              onChange={(e) => setPickLots(e.currentTarget.checked)}
+              disabled={lots.length === 0}
+            />
+            {pickLots ? (
+              <Table>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Received</Table.Th>
+                    <Table.Th>Supplier</Table.Th>
+                    <Table.Th style={{ textAlign: "right" }}>Cost</Table.Th>
+                    <Table.Th style={{ textAlign: "right" }}>Left</Table.Th>
+                    <Table.Th style={{ width: 110 }}>Write off</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {lots.map((lot) => (
+                    <Table.Tr key={lot._id}>
+                      <Table.Td>
+                        {new Date(lot.purchaseTimestamp).toLocaleDateString()}
+                      </Table.Td>
+                      <Table.Td>{lot.supplier || "—"}</Table.Td>
+                      <Table.Td style={{ textAlign: "right" }}>
+                        {formatMoney(lot.costPrice)}
+                      </Table.Td>
+                      <Table.Td style={{ textAlign: "right" }}>
+                        {lot.remainingQuantity}
+                      </Table.Td>
+                      <Table.Td>
+                        <NumberInput
+                          size="xs"
+                          min={0}
+                          max={lot.remainingQuantity}
+                          value={lotQuantities[lot._id] || 0}
+                          onChange={(value) =>
+                            setLotQuantities((prev) => ({
+                              ...prev,
+                              [lot._id]: Number(value) || 0,
+                            }))
+                          }
+                        />
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            ) : (
+              <NumberInput
+                label="Quantity"
+                description="Taken from the oldest stock first"
+                min={1}
+                max={inStock}
+                value={quantity}
+                onChange={setQuantity}
+              />
+            )}
+          </>
+        )}
+        <Textarea
+          label="Notes"
+          placeholder="What happened"
+          value={notes}
+          onChange={(e) => setNotes(e.currentTarget.value)}
+          autosize
+          minRows={2}
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            color="red"
+            onClick={handleSave}
+            loading={saving}
+            disabled={
+              !productId || totalQuantity <= 0 || totalQuantity > inStock
+            }
+          >
+            Write Off {totalQuantity > 0 ? totalQuantity : ""}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Stack,
+  Card,
+  Text,
+  Group,
+  Table,
+  ScrollArea,
+  Title,
+  Alert,
+  Badge,
+  SimpleGrid,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDateFilter } from "@/contexts/DateFilterContext";
+import {
+  getInventoryValuationReport,
+  COSTING_METHOD_LABELS,
+} from "@/lib/costing";
+import {
+  InventoryValuationReport as InventoryValuationData,
+} from "@/types/costing";
+import { formatMoney, createMoney } from "@/types/money";
+
+export default function InventoryValuationReport() {
+  const { shop } = useAuth();
+  const { dateRangeInfo } = useDateFilter();
+  const [report, setReport] = useState<InventoryValuationData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReport(
+        await getInventoryValuationReport(
+          dateRangeInfo.startDate.toISOString(),
+          dateRangeInfo.endDate.toISOString(),
+          shop?.shopId
+        )
+      );
+    } catch (err) {
+      console.error("Error loading inventory valuation:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load inventory valuation"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, dateRangeInfo.startDate, dateRangeInfo.endDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (loading) {
+    return <Text ta="center">Loading inventory valuation...</Text>;
+  }
+
+  const display = (amount: number) =>
+    formatMoney(createMoney(amount, report?.currency));
+
+  // What switching method would have done to cost of sales this period
+  const difference = report
+    ? report.totalCogsAtAverage - report.totalCogsAtLotCost
+    : 0;
+
+  return (
+    <Stack gap="lg">
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          title="Error"
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+
+      <Card withBorder shadow="sm">
+        <Group justify="space-between" mb="md">
+          <Stack gap={0}>
+            <Title order={4}>Inventory Valuation</Title>
+            <Text size="sm" c="dimmed">
+              Stock on hand now, and the cost of what sold in this period
+            </Text>
+          </Stack>
+          {report && (
+            <Badge variant="light" size="lg">
+              {COSTING_METHOD_LABELS[report.method]}
+            </Badge>
+          )}
+        </Group>
+        <SimpleGrid cols={{ base: 2, sm: 4 }}>
+          <Stack gap={0}>
+            <Text size="xs" c="dimmed">
+              Stock on Hand
+            </Text>
+            <Text fw={700}>{display(report?.totalValue || 0)}</Text>
+          </Stack>
+          <Stack gap={0}>
+            <Text size="xs" c="dimmed">
+              COGS Booked
+            </Text>
+            <Text fw={700}>{display(report?.totalCogsBooked || 0)}</Text>
+          </Stack>
+          <Stack gap={0}>
+            <Text size="xs" c="dimmed">
+              COGS under FIFO
+            </Text>
+            <Text fw={500}>{display(report?.totalCogsAtLotCost || 0)}</Text>
+          </Stack>
+          <Stack gap={0}>
+            <Text size="xs" c="dimmed">
+              COGS under Weighted Average
+            </Text>
+            <Text fw={500}>{display(report?.totalCogsAtAverage || 0)}</Text>
+          </Stack>
+        </SimpleGrid>
+        {Math.abs(difference) > 0.005 && (
+          <Text size="sm" c="dimmed" mt="md">
+            Weighted average would have put cost of sales{" "}
+            {display(Math.abs(difference))}{" "}
+            {difference > 0 ? "higher" : "lower"} than FIFO this period, and
+            gross profit the same amount {difference > 0 ? "lower" : "higher"}.
+          </Text>
+        )}
+      </Card>
+
+      {!report || report.rows.length === 0 ? (
+        <Text c="dimmed" ta="center">
+          No stock on hand or sold in this period.
+        </Text>
+      ) : (
+        <Card withBorder shadow="sm">
+          <Title order={4} mb="md">
+            By Product
+          </Title>
+          <ScrollArea>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Product</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>On Hand</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Avg. Cost</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Value</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Sold</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>
+                    COGS Booked
+                  </Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>FIFO</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>
+                    Weighted Avg.
+                  </Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {report.rows.map((row) => (
+                  <Table.Tr key={row.productId}>
+                    <Table.Td>
+                      <Text size="sm">{row.productName}</Text>
+                      <Text size="xs" c="dimmed">
+                        {row.productCode}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {row.onHand}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {row.onHand > 0 ? display(row.averageUnitCost) : "—"}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(row.value)}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {row.unitsSold}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(row.cogsBooked)}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(row.cogsAtLotCost)}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(row.cogsAtAverage)}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        </Card>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Select,
+  TextInput,
+  Textarea,
+  NumberInput,
+  Button,
+  ActionIcon,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle, IconPlus, IconTrash } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { createJournalEntry, JournalLineInput } from "@/lib/journalEntries";
+import { getChartOfAccounts } from "@/lib/chartOfAccounts";
+import { getTodayDate } from "@/lib/tradingDay";
+import { ChartAccountDoc, LedgerEntryDoc } from "@/types/accounting";
+
+interface JournalEntryModalProps {
+  opened: boolean;
+  threshold: number;
+  onClose: () => void;
+  onSaved?: (entry: LedgerEntryDoc) => void;
+}
+
+type LineRow = Omit<JournalLineInput, "accountCode"> & {
+  accountCode: string | null;
+};
+
+const emptyLine = (): LineRow => ({
+  accountCode: null,
+  description: "",
+  debit: 0,
+  credit: 0,
+});
+
+export default function JournalEntryModal({
+  opened,
+  threshold,
+  onClose,
+  onSaved,
+}: JournalEntryModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [date, setDate] = useState(getTodayDate());
+  const [memo, setMemo] = useState("");
+  const [reference, setReference] = useState("");
+  const [lines, setLines] = useState<LineRow[]>([]);
+  const [accounts, setAccounts] = useState<ChartAccountDoc[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setDate(getTodayDate());
+    setMemo("");
+    setReference("");
+    setLines([emptyLine(), emptyLine()]);
+    setError(null);
+    getChartOfAccounts(shop?.shopId)
+      .then((chart) => setAccounts(chart.filter((account) => account.active)))
+      .catch((err) => {
+        console.error("Error loading accounts:", err);
+        setError("Failed to load the chart of accounts");
+      });
+  }, [opened, shop?.shopId]);
+
+  const updateLine = (index: number, changes: Partial<LineRow>) =>
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+
+  const totalDebits = lines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredits = lines.reduce((sum, line) => sum + line.credit, 0);
+  const difference = totalDebits - totalCredits;
+  const balanced = totalDebits > 0 && Math.abs(difference) < 0.0001;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const entry = await createJournalEntry({
+        lines: lines.filter(
+          (line): line is JournalLineInput => !!line.accountCode
+        ),
+        memo,
+        reference,
+        // Today's entries carry the time they were made
+        timestamp:
+          date === getTodayDate()
+            ? new Date().toISOString()
+            : new Date(`${date}T12:00:00`).toISOString(),
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onSaved?.(entry);
+      onClose();
+    } catch (err) {
+      console.error("Error saving journal entry:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="New Journal Entry"
+      centered
+      size="xl"
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Group grow align="flex-start">
+          <TextInput
+            type="date"
+            label="Date"
+            value={date}
+            onChange={(e) => setDate(e.currentTarget.value)}
+            required
+          />
+          <TextInput
+            label="Reference"
+            placeholder="e.g. loan agreement or invoice number"
+            value={reference}
+            onChange={(e) => setReference(e.currentTarget.value)}
+          />
+        </Group>
+        <Textarea
+          label="Memo"
+          placeholder="Why this entry is being made"
+          required
+          value={memo}
+          onChange={(e) => setMemo(e.currentTarget.value)}
+          autosize
+          minRows={2}
+        />
+
+        {lines.map((line, index) => (
+          <Group key={index} align="flex-end" wrap="nowrap">
+            <Select
+              label={index === 0 ? "Account" : undefined}
+              placeholder="Choose an account"
+              data={accounts.map((account) => ({
+                value: account.code,
+                label: `${account.code} ${account.name}`,
+              }))}
+              value={line.accountCode}
+              onChange={(value) => updateLine(index, { accountCode: value })}
+              searchable
+              style={{ flex: 2 }}
+            />
+            <TextInput
+              label={index === 0 ? "Description" : undefined}
+              placeholder="Optional"
+              value={line.description}
+              onChange={(e) =>
+                updateLine(index, { description: e.currentTarget.value })
+              }
+              style={{ flex: 2 }}
+            />
+            <NumberInput
+              label={index === 0 ? "Debit" : undefined}
+              value={line.debit || ""}
+              onChange={(value) =>
+                updateLine(index, { debit: Number(value) || 0, credit: 0 })
+              }
+              min={0}
+              decimalScale={2}
+              style={{ flex: 1 }}
+            />
+            <NumberInput
+              label={index === 0 ? "Credit" : undefined}
+              value={line.credit || ""}
+              onChange={(value) =>
+                updateLine(index, { credit: Number(value) || 0, debit: 0 })
+              }
+              min={0}
+              decimalScale={2}
+              style={{ flex: 1 }}
+            />
+            <ActionIcon
+              color="red"
+              variant="subtle"
+              size="lg"
+              onClick={() =>
+                setLines((prev) => prev.filter((_, i) => i !== index))
+              }
+              disabled={lines.length <= 2}
+              aria-label="Remove line"
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Group>
+        ))}
+        <Button
+          variant="light"
+          leftSection={<IconPlus size={16} />}
+          onClick={() => setLines((prev) => [...prev, emptyLine()])}
+        >
+          Add Line
+        </Button>
+
+        <Group justify="space-between">
+          <Stack gap={0}>
+            <Text size="sm">
+              Debits {totalDebits.toFixed(2)} · Credits{" "}
+              {totalCredits.toFixed(2)}
+            </Text>
+            {balanced ? (
+              <Text size="sm" c="dimmed">
+                {totalDebits > threshold
+                  ? "Needs a second approver before it posts"
+                  : "Posts straight away"}
+              </Text>
+            ) : (
+              <Text size="sm" c="red">
+                {totalDebits > 0
+                  ? `Out of balance by ${Math.abs(difference).toFixed(2)}`
+                  : "Enter the amounts"}
+              </Text>
+            )}
+          </Stack>
+          <Group>
+            <Button variant="default" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              loading={saving}
+              disabled={!balanced || !memo.trim()}
+            >
+              Save
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
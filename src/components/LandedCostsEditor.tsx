@@ -0,0 +1,212 @@
+"use client";
+
+import React from "react";
+import {
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  NumberInput,
+  Select,
+  SegmentedControl,
+  ActionIcon,
+  Button,
+  Table,
+} from "@mantine/core";
+import { IconPlus, IconTrash } from "@tabler/icons-react";
+import MoneyInput from "@/components/MoneyInput";
+import { useMoneyContext } from "@/contexts/MoneyContext";
+import {
+  apportionLandedCosts,
+  LANDED_COST_BASIS_LABELS,
+} from "@/lib/landedCosts";
+import {
+  LandedCostBasis,
+  LandedCostLine,
+  LandedCostPaymentMethod,
+  PurchaseItem,
+} from "@/types";
+import { createMoney, formatMoney, Money } from "@/types/money";
+
+const PAYMENT_METHOD_OPTIONS: Array<{
+  value: LandedCostPaymentMethod;
+  label: string;
+}> = [
+  { value: "cash", label: "Cash" },
+  { value: "mobile_money", label: "Mobile money" },
+  { value: "bank", label: "Bank" },
+];
+
+interface LandedCostsEditorProps {
+  items: PurchaseItem[];
+  landedCosts: LandedCostLine[];
+  basis: LandedCostBasis;
+  onLandedCostsChange: (landedCosts: LandedCostLine[]) => void;
+  onBasisChange: (basis: LandedCostBasis) => void;
+  onWeightChange: (index: number, weight: number | undefined) => void;
+}
+
+export default function LandedCostsEditor({
+  items,
+  landedCosts,
+  basis,
+  onLandedCostsChange,
+  onBasisChange,
+  onWeightChange,
+}: LandedCostsEditorProps) {
+  const { baseCurrency } = useMoneyContext();
+
+  const updateLine = (index: number, changes: Partial<LandedCostLine>) =>
+    onLandedCostsChange(
+      landedCosts.map((line, i) =>
+        i === index ? { ...line, ...changes } : line
+      )
+    );
+
+  // Preview each item's share; weights may not be filled in yet
+  let apportioned: PurchaseItem[] | null = null;
+  try {
+    apportioned = apportionLandedCosts(
+      items,
+      landedCosts,
+      basis,
+      baseCurrency
+    );
+  } catch {
+    apportioned = null;
+  }
+
+  return (
+    <Stack gap="sm">
+      <Text size="sm" c="dimmed">
+        Transport, duty and other costs of getting this stock in. They are
+        added to the items&apos; cost, not paid to the supplier.
+      </Text>
+
+      {landedCosts.map((line, index) => (
+        <Group key={index} align="flex-end" wrap="nowrap" gap="xs">
+          <TextInput
+            label={index === 0 ? "Cost" : undefined}
+            placeholder="e.g. Transport"
+            value={line.description}
+            onChange={(e) =>
+              updateLine(index, { description: e.currentTarget.value })
+            }
+            style={{ flex: 2 }}
+          />
+          <div style={{ flex: 2 }}>
+            <MoneyInput
+              label={index === 0 ? "Amount" : undefined}
+              value={line.amount}
+              onChange={(value) =>
+                updateLine(index, {
+                  amount:
+                    typeof value === "number"
+                      ? { ...line.amount, amount: value }
+                      : (value as Money),
+                })
+              }
+              showExchangeRate={false}
+              size="sm"
+            />
+          </div>
+          <Select
+            label={index === 0 ? "Paid With" : undefined}
+            data={PAYMENT_METHOD_OPTIONS}
+            value={line.paymentMethod}
+            onChange={(value) =>
+              value &&
+              updateLine(index, {
+                paymentMethod: value as LandedCostPaymentMethod,
+              })
+            }
+            allowDeselect={false}
+            style={{ flex: 1 }}
+          />
+          <ActionIcon
+            color="red"
+            variant="light"
+            size="lg"
+            onClick={() =>
+              onLandedCostsChange(landedCosts.filter((_, i) => i !== index))
+            }
+          >
+            <IconTrash size={16} />
+          </ActionIcon>
+        </Group>
+      ))}
+
+      <Group justify="space-between">
+        <Button
+          variant="light"
+          size="xs"
+          leftSection={<IconPlus size={14} />}
+          onClick={() =>
+            onLandedCostsChange([
+              ...landedCosts,
+              {
+                description: "",
+                amount: createMoney(0, baseCurrency),
+                paymentMethod: "cash",
+              },
+            ])
+          }
+        >
+          Add Cost
+        </Button>
+        {landedCosts.length > 0 && (
+          <SegmentedControl
+            size="xs"
+            value={basis}
+            onChange={(value) => onBasisChange(value as LandedCostBasis)}
+            data={Object.entries(LANDED_COST_BASIS_LABELS).map(
+              ([value, label]) => ({ value, label })
+            )}
+          />
+        )}
+      </Group>
+
+      {landedCosts.length > 0 && (
+        <Table>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Item</Table.Th>
+              {basis === "weight" && <Table.Th>Weight per unit</Table.Th>}
+              <Table.Th style={{ textAlign: "right" }}>
+                Landed per unit
+              </Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {items.map((item, index) => (
+              <Table.Tr key={`${item.productId}_${index}`}>
+                <Table.Td>{item.productName}</Table.Td>
+                {basis === "weight" && (
+                  <Table.Td>
+                    <NumberInput
+                      size="xs"
+                      min={0}
+                      decimalScale={3}
+                      value={item.weight ?? ""}
+                      onChange={(value) =>
+                        onWeightChange(
+                          index,
+                          value === "" ? undefined : Number(value)
+                        )
+                      }
+                    />
+                  </Table.Td>
+                )}
+                <Table.Td style={{ textAlign: "right" }}>
+                  {apportioned?.[index]?.landedCost
+                    ? formatMoney(apportioned[index].landedCost as Money)
+                    : "—"}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+    </Stack>
+  );
+}
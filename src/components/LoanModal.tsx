@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Select,
+  TextInput,
+  NumberInput,
+  Button,
+  Group,
+  Alert,
+  Text,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { buildLoanSchedule, recordLoan } from "@/lib/financing";
+import { FinancingPaymentMethod, LoanDoc } from "@/types/financing";
+import { Money, createMoney, formatMoney } from "@/types/money";
+import MoneyInput from "@/components/MoneyInput";
+
+interface LoanModalProps {
+  opened: boolean;
+  onClose: () => void;
+  onSaved?: (loan: LoanDoc) => void;
+}
+
+// A month from today, when a first repayment is usually due
+const getDefaultFirstDueDate = () => {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 1);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+};
+
+export default function LoanModal({
+  opened,
+  onClose,
+  onSaved,
+}: LoanModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [lender, setLender] = useState("");
+  const [description, setDescription] = useState("");
+  const [principal, setPrincipal] = useState<Money>(createMoney(0));
+  const [rate, setRate] = useState<number | string>(0);
+  const [installments, setInstallments] = useState<number | string>(6);
+  const [firstDueDate, setFirstDueDate] = useState(getDefaultFirstDueDate);
+  const [paymentMethod, setPaymentMethod] =
+    useState<FinancingPaymentMethod>("cash");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setLender("");
+    setDescription("");
+    setPrincipal(createMoney(0));
+    setRate(0);
+    setInstallments(6);
+    setFirstDueDate(getDefaultFirstDueDate());
+    setPaymentMethod("cash");
+    setReference("");
+    setError(null);
+  }, [opened]);
+
+  // Preview of what each repayment will be
+  const schedule =
+    principal.amount > 0 && Number(installments) >= 1 && firstDueDate
+      ? buildLoanSchedule(
+          principal,
+          Number(rate) || 0,
+          Number(installments),
+          firstDueDate
+        )
+      : [];
+  const totalInterest = schedule.reduce(
+    (sum, installment) => sum + installment.interest.amount,
+    0
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const loan = await recordLoan({
+        lender,
+        description,
+        principal,
+        monthlyInterestRate: Number(rate) || 0,
+        installments: Number(installments),
+        firstDueDate,
+        paymentMethod,
+        reference,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onSaved?.(loan);
+      onClose();
+    } catch (err) {
+      console.error("Error recording loan:", err);
+      setError(
+        `Failed to record loan: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Record Loan" centered>
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <TextInput
+          label="Lender"
+          placeholder="e.g. CBZ Bank or a family member"
+          required
+          value={lender}
+          onChange={(e) => setLender(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Purpose"
+          placeholder="Optional"
+          value={description}
+          onChange={(e) => setDescription(e.currentTarget.value)}
+        />
+        <MoneyInput
+          label="Amount Borrowed"
+          value={principal}
+          onChange={(value) =>
+            setPrincipal(
+              typeof value === "number"
+                ? { ...principal, amount: value }
+                : value
+            )
+          }
+          variant="light"
+        />
+        <Select
+          label="Received Into"
+          description="Cash goes into your till at end of day"
+          value={paymentMethod}
+          onChange={(value) =>
+            value && setPaymentMethod(value as FinancingPaymentMethod)
+          }
+          data={[
+            { value: "cash", label: "Cash" },
+            { value: "bank", label: "Bank" },
+            { value: "mobile_money", label: "Mobile Money" },
+          ]}
+          allowDeselect={false}
+        />
+        <Group grow>
+          <NumberInput
+            label="Interest % a Month"
+            min={0}
+            decimalScale={2}
+            value={rate}
+            onChange={setRate}
+          />
+          <NumberInput
+            label="Monthly Repayments"
+            min={1}
+            allowDecimal={false}
+            value={installments}
+            onChange={setInstallments}
+          />
+        </Group>
+        <TextInput
+          label="First Repayment Due"
+          type="date"
+          required
+          value={firstDueDate}
+          onChange={(e) => setFirstDueDate(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Reference"
+          placeholder="e.g. loan agreement number"
+          value={reference}
+          onChange={(e) => setReference(e.currentTarget.value)}
+        />
+        {schedule.length > 0 && (
+          <Text size="sm" c="dimmed">
+            {schedule.length} repayments starting at{" "}
+            {formatMoney({
+              ...schedule[0].principal,
+              amount:
+                schedule[0].principal.amount + schedule[0].interest.amount,
+            })}
+            , {formatMoney({ ...principal, amount: totalInterest })} interest in
+            total
+          </Text>
+        )}
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={!lender.trim() || schedule.length === 0}
+          >
+            Save Loan
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
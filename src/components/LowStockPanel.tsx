@@ -0,0 +1,94 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, Stack, Group, Text, Table, Badge, Button } from "@mantine/core";
+import { IconShoppingCart } from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { getLowStockProducts } from "@/lib/reorder";
+import { ProductDoc } from "@/types";
+
+export default function LowStockPanel() {
+  const { shop } = useAuth();
+  const router = useRouter();
+  const [products, setProducts] = useState<ProductDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadProducts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setProducts(await getLowStockProducts(shop?.shopId));
+    } catch (err) {
+      console.error("Error loading low stock:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  return (
+    <Card withBorder shadow="sm" p="lg" radius="md">
+      <Stack gap="md">
+        <Group justify="space-between" align="center">
+          <div>
+            <Text fw={500} size="lg">
+              Low Stock
+            </Text>
+            <Text size="sm" c="dimmed">
+              Products at or below their reorder level
+            </Text>
+          </div>
+          <Button
+            variant="light"
+            leftSection={<IconShoppingCart size={16} />}
+            onClick={() => router.push("/purchases/new")}
+          >
+            Reorder
+          </Button>
+        </Group>
+
+        {loading ? (
+          <Text size="sm" c="dimmed" ta="center">
+            Loading...
+          </Text>
+        ) : products.length === 0 ? (
+          <Text size="sm" c="dimmed" ta="center">
+            Everything is above its reorder level.
+          </Text>
+        ) : (
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Product</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>In stock</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Reorder at</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {products.map((product) => (
+                <Table.Tr key={product._id}>
+                  <Table.Td>{product.name}</Table.Td>
+                  <Table.Td style={{ textAlign: "right" }}>
+                    {(product.stockQuantity || 0) <= 0 ? (
+                      <Badge color="red" variant="light">
+                        Out of stock
+                      </Badge>
+                    ) : (
+                      product.stockQuantity
+                    )}
+                  </Table.Td>
+                  <Table.Td style={{ textAlign: "right" }}>
+                    {product.reorderLevel}
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        )}
+      </Stack>
+    </Card>
+  );
+}
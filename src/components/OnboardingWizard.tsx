@@ -19,7 +19,10 @@ import { IconAlertCircle } from "@tabler/icons-react";
 import { IconPlus, IconX } from "@tabler/icons-react";
 import { CurrencyCode, CURRENCY_INFO, Money } from "@/types/money";
 import { saveShopSettings } from "@/lib/settingsDB";
-import { createOpeningBalanceEntries } from "@/lib/accounting";
+import {
+  createOpeningBalanceEntries,
+  getSettlementAccountCode,
+} from "@/lib/accounting";
 import { AccountCode } from "@/types/accounting";
 import { useAuth } from "@/contexts/AuthContext";
 import { useOnboarding } from "@/contexts/OnboardingContext";
@@ -190,7 +193,8 @@ export default function OnboardingWizard({
       // Create opening balance entries
       await createOpeningBalanceEntries(
         accounts.map((a) => ({
-          accountCode: AccountCode.CASH, // All accounts are treated as cash for accounting purposes
+          // Each settlement account opens in its own ledger account
+          accountCode: getSettlementAccountCode(a.type, AccountCode.CASH),
           balance: {
             amount: a.balance,
             currency: a.currency as CurrencyCode,
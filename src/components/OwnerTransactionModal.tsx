@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Select,
+  SegmentedControl,
+  TextInput,
+  NumberInput,
+  Button,
+  Group,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { recordOwnerTransaction } from "@/lib/financing";
+import { ProductDoc } from "@/types";
+import { OwnerTransactionDoc, OwnerTransactionKind } from "@/types/financing";
+import { Money, createMoney } from "@/types/money";
+import MoneyInput from "@/components/MoneyInput";
+
+interface OwnerTransactionModalProps {
+  opened: boolean;
+  products: ProductDoc[]; // For drawings taken in stock
+  onClose: () => void;
+  onSaved?: (transaction: OwnerTransactionDoc) => void;
+}
+
+export default function OwnerTransactionModal({
+  opened,
+  products,
+  onClose,
+  onSaved,
+}: OwnerTransactionModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [kind, setKind] = useState<OwnerTransactionKind>("drawing");
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState<Money>(createMoney(0));
+  const [paymentMethod, setPaymentMethod] =
+    useState<OwnerTransactionDoc["paymentMethod"]>("cash");
+  const [productId, setProductId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState<number | string>(1);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setKind("drawing");
+    setDescription("");
+    setAmount(createMoney(0));
+    setPaymentMethod("cash");
+    setProductId(null);
+    setQuantity(1);
+    setError(null);
+  }, [opened]);
+
+  const isStock = paymentMethod === "stock";
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const transaction = await recordOwnerTransaction({
+        kind,
+        description,
+        amount: isStock ? undefined : amount,
+        paymentMethod,
+        productId: isStock ? productId || undefined : undefined,
+        quantity: isStock ? Number(quantity) : undefined,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onSaved?.(transaction);
+      onClose();
+    } catch (err) {
+      console.error("Error recording owner transaction:", err);
+      setError(
+        `Failed to record: ${err instanceof Error ? err.message : String(err)}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Owner Drawing or Capital"
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <SegmentedControl
+          value={kind}
+          onChange={(value) => {
+            setKind(value as OwnerTransactionKind);
+            if (value !== "drawing" && paymentMethod === "stock") {
+              setPaymentMethod("cash");
+            }
+          }}
+          data={[
+            { value: "drawing", label: "Taken Out" },
+            { value: "capital_injection", label: "Put In" },
+          ]}
+        />
+        <TextInput
+          label="Description"
+          placeholder={
+            kind === "drawing" ? "e.g. School fees" : "e.g. Top up for stock"
+          }
+          required
+          value={description}
+          onChange={(e) => setDescription(e.currentTarget.value)}
+        />
+        <Select
+          label={kind === "drawing" ? "Taken From" : "Paid Into"}
+          description="Cash goes through your till at end of day"
+          value={paymentMethod}
+          onChange={(value) =>
+            value &&
+            setPaymentMethod(value as OwnerTransactionDoc["paymentMethod"])
+          }
+          data={[
+            { value: "cash", label: "Cash" },
+            { value: "bank", label: "Bank" },
+            { value: "mobile_money", label: "Mobile Money" },
+            ...(kind === "drawing" ? [{ value: "stock", label: "Stock" }] : []),
+          ]}
+          allowDeselect={false}
+        />
+        {isStock ? (
+          <>
+            <Select
+              label="Product"
+              placeholder="Search products"
+              data={products.map((product) => ({
+                value: product._id,
+                label: `${product.name} (${product.code})`,
+              }))}
+              value={productId}
+              onChange={setProductId}
+              searchable
+              required
+            />
+            <NumberInput
+              label="Quantity"
+              description="Valued at cost"
+              min={0}
+              value={quantity}
+              onChange={setQuantity}
+              required
+            />
+          </>
+        ) : (
+          <MoneyInput
+            label="Amount"
+            value={amount}
+            onChange={(value) =>
+              setAmount(
+                typeof value === "number" ? { ...amount, amount: value } : value
+              )
+            }
+            variant="light"
+          />
+        )}
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={
+              !description.trim() ||
+              (isStock
+                ? !productId || Number(quantity) <= 0
+                : amount.amount <= 0)
+            }
+          >
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Stack,
+  Card,
+  Text,
+  Group,
+  Table,
+  Badge,
+  Button,
+  ScrollArea,
+  SimpleGrid,
+  Title,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { getPayableBills, getPayablesAging } from "@/lib/suppliersDB";
+import { PayableBill } from "@/types/suppliers";
+import {
+  formatMoney,
+  createMoney,
+  CurrencyCode,
+  BASE_CURRENCY,
+} from "@/types/money";
+import SupplierPaymentModal from "./SupplierPaymentModal";
+
+interface SupplierBalance {
+  supplierName: string;
+  outstanding: number;
+  overdue: number;
+}
+
+export default function PayablesAgingReport() {
+  const router = useRouter();
+  const { currentUser, shop } = useAuth();
+  const [bills, setBills] = useState<PayableBill[]>([]);
+  const [currency, setCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [payingBill, setPayingBill] = useState<PayableBill | null>(null);
+
+  const loadBills = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await getPayableBills(shop?.shopId);
+      setBills(result.bills);
+      setCurrency(result.currency);
+    } catch (err) {
+      console.error("Error loading payables:", err);
+      setError(err instanceof Error ? err.message : "Failed to load payables");
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadBills();
+  }, [loadBills]);
+
+  const display = (amount: number) =>
+    formatMoney(createMoney(amount, currency));
+
+  const aging = getPayablesAging(bills);
+  const agingBuckets: { label: string; value: number; color?: string }[] = [
+    { label: "Not yet due", value: aging.current },
+    { label: "1-30 days overdue", value: aging.days1to30, color: "yellow" },
+    { label: "31-60 days overdue", value: aging.days31to60, color: "orange" },
+    { label: "61-90 days overdue", value: aging.days61to90, color: "red" },
+    { label: "Over 90 days overdue", value: aging.over90, color: "red" },
+  ];
+
+  // Outstanding per supplier, largest first
+  const bySupplier = Object.values(
+    bills.reduce((acc, bill) => {
+      const key = bill.supplierId || bill.supplierName;
+      acc[key] = acc[key] || {
+        supplierName: bill.supplierName,
+        outstanding: 0,
+        overdue: 0,
+      };
+      acc[key].outstanding += bill.outstanding;
+      if (bill.daysOverdue > 0) acc[key].overdue += bill.outstanding;
+      return acc;
+    }, {} as Record<string, SupplierBalance>)
+  ).sort((a, b) => b.outstanding - a.outstanding);
+
+  if (loading) {
+    return <Text ta="center">Loading payables...</Text>;
+  }
+
+  return (
+    <Stack gap="lg">
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          title="Error"
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+
+      <Card withBorder shadow="sm">
+        <Group justify="space-between" mb="md">
+          <Title order={4}>Accounts Payable Aging</Title>
+          <Text fw={700}>{display(aging.total)}</Text>
+        </Group>
+        <SimpleGrid cols={{ base: 2, sm: 5 }}>
+          {agingBuckets.map((bucket) => (
+            <Stack gap={2} key={bucket.label}>
+              <Text size="sm" c="dimmed">
+                {bucket.label}
+              </Text>
+              <Text fw={600} c={bucket.value > 0 ? bucket.color : "dimmed"}>
+                {display(bucket.value)}
+              </Text>
+            </Stack>
+          ))}
+        </SimpleGrid>
+      </Card>
+
+      {bySupplier.length > 0 && (
+        <Card withBorder shadow="sm">
+          <Title order={4} mb="md">
+            By Supplier
+          </Title>
+          <ScrollArea>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Supplier</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Overdue</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>
+                    Outstanding
+                  </Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {bySupplier.map((row) => (
+                  <Table.Tr key={row.supplierName}>
+                    <Table.Td>{row.supplierName}</Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      <Text c={row.overdue > 0 ? "red" : "dimmed"} size="sm">
+                        {display(row.overdue)}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(row.outstanding)}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        </Card>
+      )}
+
+      <Card withBorder shadow="sm">
+        <Title order={4} mb="md">
+          Unpaid Bills
+        </Title>
+        {bills.length === 0 ? (
+          <Text c="dimmed">No credit purchases are waiting to be paid.</Text>
+        ) : (
+          <ScrollArea>
+            <Table striped highlightOnHover>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Supplier</Table.Th>
+                  <Table.Th>Purchased</Table.Th>
+                  <Table.Th>Due</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Total</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>
+                    Outstanding
+                  </Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {bills.map((bill) => (
+                  <Table.Tr key={bill.purchaseId}>
+                    <Table.Td>{bill.supplierName}</Table.Td>
+                    <Table.Td>
+                      <Text
+                        size="sm"
+                        c="blue"
+                        style={{ cursor: "pointer" }}
+                        onClick={() =>
+                          router.push(`/purchases/${bill.purchaseId}`)
+                        }
+                      >
+                        {new Date(bill.timestamp).toLocaleDateString()}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap="xs">
+                        <Text size="sm">
+                          {new Date(bill.dueDate).toLocaleDateString()}
+                        </Text>
+                        {bill.daysOverdue > 0 && (
+                          <Badge size="xs" color="red">
+                            {bill.daysOverdue}d overdue
+                          </Badge>
+                        )}
+                      </Group>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {display(bill.total)}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      <Text fw={600} size="sm">
+                        {display(bill.outstanding)}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      {hasPermission(
+                        currentUser,
+                        Permission.CREATE_PURCHASES
+                      ) && (
+                        <Button
+                          size="xs"
+                          variant="light"
+                          onClick={() => setPayingBill(bill)}
+                        >
+                          Pay
+                        </Button>
+                      )}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+      </Card>
+
+      <SupplierPaymentModal
+        opened={!!payingBill}
+        onClose={() => setPayingBill(null)}
+        purchaseId={payingBill?.purchaseId || null}
+        supplierName={payingBill?.supplierName}
+        outstanding={payingBill?.outstanding || 0}
+        currency={currency}
+        onPaid={() => loadBills()}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  Select,
+  SegmentedControl,
+  Button,
+  Alert,
+  Loader,
+} from "@mantine/core";
+import { IconAlertCircle, IconLock } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { closeAccountingPeriod } from "@/lib/accounting";
+import { getPeriodCloses } from "@/lib/periodClose";
+import { PeriodCloseDoc, PeriodType } from "@/types/accounting";
+import { formatMoney } from "@/types/money";
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => ({
+  value: String(index + 1),
+  label: new Date(2000, index, 1).toLocaleString(undefined, { month: "long" }),
+}));
+
+interface PeriodCloseSettingsProps {
+  canClose: boolean;
+}
+
+export default function PeriodCloseSettings({
+  canClose,
+}: PeriodCloseSettingsProps) {
+  const { currentUser, shop } = useAuth();
+  const [closes, setCloses] = useState<PeriodCloseDoc[]>([]);
+  const [periodType, setPeriodType] = useState<PeriodType>("month");
+  const [year, setYear] = useState<string | null>(null);
+  const [month, setMonth] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCloses = useCallback(async () => {
+    try {
+      const list = await getPeriodCloses(shop?.shopId);
+      setCloses(list);
+
+      // Suggest the month after the last close, or last month
+      const next = list[0]
+        ? new Date(new Date(list[0].endDate).getTime() + 1)
+        : new Date(new Date().getFullYear(), new Date().getMonth() - 1, 1);
+      setYear(String(next.getFullYear()));
+      setMonth(String(next.getMonth() + 1));
+    } catch (err) {
+      console.error("Error loading closed periods:", err);
+      setError("Failed to load closed periods");
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId]);
+
+  useEffect(() => {
+    loadCloses();
+  }, [loadCloses]);
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 6 }, (_, index) =>
+    String(currentYear - index)
+  );
+
+  const handleClose = async () => {
+    if (!year || (periodType === "month" && !month)) return;
+
+    const label =
+      periodType === "year"
+        ? year
+        : `${MONTHS[Number(month) - 1].label} ${year}`;
+    if (
+      !confirm(
+        `Close the books for ${label}? Nothing can be posted on or before its last day once it is closed.`
+      )
+    ) {
+      return;
+    }
+
+    setClosing(true);
+    setError(null);
+    try {
+      await closeAccountingPeriod({
+        periodType,
+        year: Number(year),
+        month: periodType === "month" ? Number(month) : undefined,
+        shopId: shop?.shopId,
+        closedBy: currentUser?.userId,
+        closedByName: currentUser?.name,
+      });
+      await loadCloses();
+    } catch (err) {
+      console.error("Error closing period:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Group justify="center" py="md">
+        <Loader size="sm" />
+      </Group>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+      <Text size="sm">
+        {closes[0]
+          ? `Books closed up to ${new Date(
+              closes[0].endDate
+            ).toLocaleDateString()}`
+          : "No periods have been closed yet"}
+      </Text>
+      {closes.length > 0 && (
+        <Table>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Period</Table.Th>
+              <Table.Th>Covers</Table.Th>
+              <Table.Th style={{ textAlign: "right" }}>Net Income</Table.Th>
+              <Table.Th>Closed By</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {closes.map((close) => (
+              <Table.Tr key={close._id}>
+                <Table.Td>{close.period}</Table.Td>
+                <Table.Td>
+                  {new Date(close.startDate).getTime() > 0
+                    ? new Date(close.startDate).toLocaleDateString()
+                    : "Start"}{" "}
+                  – {new Date(close.endDate).toLocaleDateString()}
+                </Table.Td>
+                <Table.Td style={{ textAlign: "right" }}>
+                  {formatMoney(close.netIncome)}
+                </Table.Td>
+                <Table.Td>
+                  {close.closedByName || close.closedBy}
+                  <Text size="xs" c="dimmed">
+                    {new Date(close.closedAt).toLocaleDateString()}
+                  </Text>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+      {canClose && (
+        <Group align="flex-end">
+          <SegmentedControl
+            value={periodType}
+            onChange={(value) => setPeriodType(value as PeriodType)}
+            data={[
+              { value: "month", label: "Month" },
+              { value: "year", label: "Year" },
+            ]}
+          />
+          {periodType === "month" && (
+            <Select
+              label="Month"
+              data={MONTHS}
+              value={month}
+              onChange={setMonth}
+              allowDeselect={false}
+              w={150}
+            />
+          )}
+          <Select
+            label="Year"
+            data={years}
+            value={year}
+            onChange={setYear}
+            allowDeselect={false}
+            w={100}
+          />
+          <Button
+            leftSection={<IconLock size={16} />}
+            onClick={handleClose}
+            loading={closing}
+          >
+            Close Period
+          </Button>
+        </Group>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  Button,
+  ActionIcon,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle, IconPlus, IconTrash } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  saveProductFamily,
+  getVariantCombinations,
+} from "@/lib/productFamilies";
+import { ProductFamilyDoc } from "@/types/productFamilies";
+import { Money, createMoney } from "@/types/money";
+import MoneyInput from "@/components/MoneyInput";
+
+interface ProductFamilyModalProps {
+  opened: boolean;
+  family?: ProductFamilyDoc | null; // Set to add values to an existing family
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+// Values are edited as a comma-separated list
+interface AttributeRow {
+  name: string;
+  values: string;
+}
+
+const splitValues = (values: string) =>
+  values
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+export default function ProductFamilyModal({
+  opened,
+  family,
+  onClose,
+  onSaved,
+}: ProductFamilyModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [attributes, setAttributes] = useState<AttributeRow[]>([]);
+  const [price, setPrice] = useState<Money>(createMoney(0));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setName(family?.name || "");
+    setDescription(family?.description || "");
+    setAttributes(
+      family
+        ? family.attributes.map((attribute) => ({
+            name: attribute.name,
+            values: attribute.values.join(", "),
+          }))
+        : [{ name: "Size", values: "" }]
+    );
+    setPrice(createMoney(0));
+    setError(null);
+  }, [opened, family]);
+
+  const updateAttribute = (index: number, changes: Partial<AttributeRow>) =>
+    setAttributes((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+
+  const parsed = attributes
+    .filter((row) => row.name.trim())
+    .map((row) => ({ name: row.name.trim(), values: splitValues(row.values) }));
+  const variantCount = parsed.every((a) => a.values.length > 0)
+    ? getVariantCombinations(parsed).length
+    : 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveProductFamily({
+        familyId: family?._id,
+        name,
+        description,
+        attributes: parsed,
+        price,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+      });
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      console.error("Error saving product family:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={family ? `Family: ${family.name}` : "New Product Family"}
+      centered
+      size="lg"
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Text size="sm" c="dimmed">
+          One product is created for every combination of values, each with
+          its own code and stock.
+        </Text>
+        <TextInput
+          label="Family Name"
+          placeholder="e.g. Cotton T-Shirt"
+          required
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Description"
+          placeholder="Optional"
+          value={description}
+          onChange={(e) => setDescription(e.currentTarget.value)}
+        />
+
+        {attributes.map((row, index) => (
+          <Group key={index} align="flex-end" wrap="nowrap">
+            <TextInput
+              label={index === 0 ? "Attribute" : undefined}
+              placeholder="e.g. Colour"
+              value={row.name}
+              onChange={(e) =>
+                updateAttribute(index, { name: e.currentTarget.value })
+              }
+              disabled={!!family}
+              style={{ flex: 1 }}
+            />
+            <TextInput
+              label={index === 0 ? "Values (comma separated)" : undefined}
+              placeholder="e.g. Red, Blue"
+              value={row.values}
+              onChange={(e) =>
+                updateAttribute(index, { values: e.currentTarget.value })
+              }
+              style={{ flex: 2 }}
+            />
+            {!family && (
+              <ActionIcon
+                color="red"
+                variant="subtle"
+                size="lg"
+                onClick={() =>
+                  setAttributes((prev) => prev.filter((_, i) => i !== index))
+                }
+                aria-label="Remove attribute"
+              >
+                <IconTrash size={16} />
+              </ActionIcon>
+            )}
+          </Group>
+        ))}
+        {!family && (
+          <Button
+            variant="light"
+            leftSection={<IconPlus size={16} />}
+            onClick={() =>
+              setAttributes((prev) => [...prev, { name: "", values: "" }])
+            }
+          >
+            Add Attribute
+          </Button>
+        )}
+
+        <MoneyInput
+          label="Selling Price"
+          description="Starting price for new variants; each can be changed later"
+          value={price}
+          onChange={(value) =>
+            setPrice(
+              typeof value === "number" ? { ...price, amount: value } : value
+            )
+          }
+          variant="light"
+        />
+
+        <Group justify="space-between">
+          <Text size="sm" c="dimmed">
+            {variantCount} variant{variantCount === 1 ? "" : "s"}
+            {family && ", existing ones are kept"}
+          </Text>
+          <Group>
+            <Button variant="default" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} loading={saving}>
+              Save
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
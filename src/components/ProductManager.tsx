@@ -11,17 +11,47 @@ import {
   Group,
   Center,
   Loader,
+  Badge,
+  ActionIcon,
 } from "@mantine/core";
-import { IconAlertCircle, IconRefresh } from "@tabler/icons-react";
+import {
+  IconAlertCircle,
+  IconRefresh,
+  IconAdjustments,
+  IconRuler,
+  IconTags,
+  IconGift,
+} from "@tabler/icons-react";
 import { getProductsDB } from "@/lib/databases";
 import { ProductDoc } from "@/types";
+import { ProductFamilyDoc } from "@/types/productFamilies";
 import { useAuth } from "@/contexts/AuthContext";
 import { filterByShopId } from "@/lib/queryHelpers";
 import { formatMoney } from "@/types/money";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { isLowStock } from "@/lib/reorder";
+import { formatQuantity } from "@/lib/units";
+import { isBundle, getAvailableStock } from "@/lib/bundles";
+import ReorderSettingsModal from "@/components/ReorderSettingsModal";
+import UnitsSettingsModal from "@/components/UnitsSettingsModal";
+import ProductFamilyModal from "@/components/ProductFamilyModal";
+import BundleModal from "@/components/BundleModal";
 
 export default function ProductManager() {
-  const { shop } = useAuth();
+  const { shop, currentUser } = useAuth();
   const [products, setProducts] = useState<ProductDoc[]>([]);
+  const [reorderProduct, setReorderProduct] = useState<ProductDoc | null>(
+    null
+  );
+  const [unitsProduct, setUnitsProduct] = useState<ProductDoc | null>(null);
+  const [families, setFamilies] = useState<ProductFamilyDoc[]>([]);
+  const [familyModal, setFamilyModal] = useState<{
+    family: ProductFamilyDoc | null;
+  } | null>(null);
+  const [bundleModal, setBundleModal] = useState<{
+    bundle: ProductDoc | null;
+  } | null>(null);
+  const canEdit = hasPermission(currentUser, Permission.EDIT_PRODUCTS);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isMockData, setIsMockData] = useState<boolean>(false);
@@ -84,6 +114,12 @@ export default function ProductManager() {
         .map((row) => row.doc as ProductDoc)
         .filter((doc) => doc && doc.type === "product");
 
+      // Product families live alongside the products they group
+      const allFamilies = result.rows
+        .map((row) => row.doc as unknown as ProductFamilyDoc)
+        .filter((doc) => doc && doc.type === "product_family");
+      setFamilies(filterByShopId(allFamilies, targetShopId));
+
       // Filter by shopId for data isolation
       const fetchedProducts = filterByShopId(allProducts, targetShopId);
 
@@ -152,6 +188,18 @@ export default function ProductManager() {
     }
   };
 
+  // Bundles open their contents; variants open their family
+  const handleEditGroup = (product: ProductDoc) => {
+    if (isBundle(product)) {
+      setBundleModal({ bundle: product });
+      return;
+    }
+    const family = families.find((f) => f._id === product.familyId);
+    if (family) {
+      setFamilyModal({ family });
+    }
+  };
+
   if (isLoading) {
     return (
       <Center py="xl">
@@ -180,13 +228,33 @@ export default function ProductManager() {
         <Text size="xl" fw={700}>
           {isMockData ? "Your Products (Mock Data)" : "Your Products"}
         </Text>
-        <Button
-          variant="subtle"
-          leftSection={<IconRefresh size={16} />}
-          onClick={handleRefresh}
-        >
-          Refresh
-        </Button>
+        <Group gap="xs">
+          {canEdit && (
+            <>
+              <Button
+                variant="light"
+                leftSection={<IconTags size={16} />}
+                onClick={() => setFamilyModal({ family: null })}
+              >
+                New Family
+              </Button>
+              <Button
+                variant="light"
+                leftSection={<IconGift size={16} />}
+                onClick={() => setBundleModal({ bundle: null })}
+              >
+                New Bundle
+              </Button>
+            </>
+          )}
+          <Button
+            variant="subtle"
+            leftSection={<IconRefresh size={16} />}
+            onClick={handleRefresh}
+          >
+            Refresh
+          </Button>
+        </Group>
       </Group>
 
       {products.length === 0 ? (
@@ -210,6 +278,7 @@ export default function ProductManager() {
                 <Table.Th>Price</Table.Th>
                 <Table.Th>Stock</Table.Th>
                 <Table.Th>Barcode</Table.Th>
+                <Table.Th>Reorder At</Table.Th>
               </Table.Tr>
             </Table.Thead>
             <Table.Tbody>
@@ -223,10 +292,70 @@ export default function ProductManager() {
                   }}
                 >
                   <Table.Td>{product.code}</Table.Td>
-                  <Table.Td>{product.name}</Table.Td>
+                  <Table.Td>
+                    <Group gap="xs" wrap="nowrap">
+                      {product.name}
+                      {isBundle(product) && (
+                        <Badge variant="light" size="sm">
+                          Bundle
+                        </Badge>
+                      )}
+                      {canEdit && (isBundle(product) || product.familyId) && (
+                        <ActionIcon
+                          variant="subtle"
+                          onClick={() => handleEditGroup(product)}
+                          aria-label={
+                            isBundle(product) ? "Edit bundle" : "Edit family"
+                          }
+                        >
+                          {isBundle(product) ? (
+                            <IconGift size={16} />
+                          ) : (
+                            <IconTags size={16} />
+                          )}
+                        </ActionIcon>
+                      )}
+                    </Group>
+                  </Table.Td>
                   <Table.Td>{formatMoney(product.price)}</Table.Td>
-                  <Table.Td>{product.stockQuantity || 0} units</Table.Td>
+                  <Table.Td>
+                    <Group gap="xs" wrap="nowrap">
+                      {isBundle(product) && "Can make "}
+                      {formatQuantity(
+                        getAvailableStock(product, products),
+                        product.unit
+                      )}
+                      {isLowStock(product) && (
+                        <Badge color="orange" size="sm">
+                          Low
+                        </Badge>
+                      )}
+                      {canEdit && (
+                        <ActionIcon
+                          variant="subtle"
+                          onClick={() => setUnitsProduct(product)}
+                          aria-label="Units"
+                        >
+                          <IconRuler size={16} />
+                        </ActionIcon>
+                      )}
+                    </Group>
+                  </Table.Td>
                   <Table.Td>{product.barcode || "N/A"}</Table.Td>
+                  <Table.Td>
+                    <Group gap="xs" justify="space-between" wrap="nowrap">
+                      {product.reorderLevel ?? "—"}
+                      {canEdit && (
+                        <ActionIcon
+                          variant="subtle"
+                          onClick={() => setReorderProduct(product)}
+                          aria-label="Reorder settings"
+                        >
+                          <IconAdjustments size={16} />
+                        </ActionIcon>
+                      )}
+                    </Group>
+                  </Table.Td>
                 </Table.Tr>
               ))}
             </Table.Tbody>
@@ -256,12 +385,59 @@ export default function ProductManager() {
                 </Group>
                 <Stack gap="xs">
                   <Text size="md">Code: {product.code}</Text>
-                  <Text size="md">
-                    Stock: {product.stockQuantity || 0} units
-                  </Text>
+                  <Group gap="xs">
+                    <Text size="md">
+                      {isBundle(product) ? "Can make: " : "Stock: "}
+                      {formatQuantity(
+                        getAvailableStock(product, products),
+                        product.unit
+                      )}
+                    </Text>
+                    {isLowStock(product) && (
+                      <Badge color="orange" size="sm">
+                        Low
+                      </Badge>
+                    )}
+                  </Group>
                   {product.barcode && (
                     <Text size="md">Barcode: {product.barcode}</Text>
                   )}
+                  {canEdit && (
+                    <Group gap="xs">
+                      <Button
+                        variant="subtle"
+                        size="xs"
+                        leftSection={<IconAdjustments size={14} />}
+                        onClick={() => setReorderProduct(product)}
+                      >
+                        Reorder at {product.reorderLevel ?? "—"}
+                      </Button>
+                      <Button
+                        variant="subtle"
+                        size="xs"
+                        leftSection={<IconRuler size={14} />}
+                        onClick={() => setUnitsProduct(product)}
+                      >
+                        Units
+                      </Button>
+                      {(isBundle(product) || product.familyId) && (
+                        <Button
+                          variant="subtle"
+                          size="xs"
+                          leftSection={
+                            isBundle(product) ? (
+                              <IconGift size={14} />
+                            ) : (
+                              <IconTags size={14} />
+                            )
+                          }
+                          onClick={() => handleEditGroup(product)}
+                        >
+                          {isBundle(product) ? "Bundle" : "Family"}
+                        </Button>
+                      )}
+                    </Group>
+                  )}
                 </Stack>
               </Card>
             ))}
@@ -269,6 +445,41 @@ export default function ProductManager() {
         </div>
       )}
 
+      <ReorderSettingsModal
+        product={reorderProduct}
+        onClose={() => setReorderProduct(null)}
+        onSaved={(updated) =>
+          setProducts((prev) =>
+            prev.map((p) => (p._id === updated._id ? updated : p))
+          )
+        }
+      />
+
+      <ProductFamilyModal
+        opened={!!familyModal}
+        family={familyModal?.family}
+        onClose={() => setFamilyModal(null)}
+        onSaved={handleRefresh}
+      />
+
+      <BundleModal
+        opened={!!bundleModal}
+        bundle={bundleModal?.bundle}
+        products={products}
+        onClose={() => setBundleModal(null)}
+        onSaved={handleRefresh}
+      />
+
+      <UnitsSettingsModal
+        product={unitsProduct}
+        onClose={() => setUnitsProduct(null)}
+        onSaved={(updated) =>
+          setProducts((prev) =>
+            prev.map((p) => (p._id === updated._id ? updated : p))
+          )
+        }
+      />
+
       {/* Add CSS animations */}
       <style jsx global>{`
         @keyframes fadeIn {
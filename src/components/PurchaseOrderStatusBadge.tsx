@@ -0,0 +1,29 @@
+"use client";
+
+import React from "react";
+import { Badge, BadgeProps } from "@mantine/core";
+import { PURCHASE_ORDER_STATUS_LABELS } from "@/lib/purchaseOrders";
+import { PurchaseOrderStatus } from "@/types/purchaseOrders";
+
+const STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: "gray",
+  sent: "blue",
+  partially_received: "orange",
+  received: "green",
+  closed: "dark",
+};
+
+interface PurchaseOrderStatusBadgeProps extends BadgeProps {
+  status: PurchaseOrderStatus;
+}
+
+export default function PurchaseOrderStatusBadge({
+  status,
+  ...props
+}: PurchaseOrderStatusBadgeProps) {
+  return (
+    <Badge color={STATUS_COLORS[status]} {...props}>
+      {PURCHASE_ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Text,
+  Table,
+  NumberInput,
+  TextInput,
+  Button,
+  Group,
+  Alert,
+  ScrollArea,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { PaymentMethodSelect } from "@/components/PaymentMethodSelect";
+import { getSettlementBalances } from "@/lib/accounting";
+import { receivePurchaseOrder } from "@/lib/purchaseOrders";
+import { calculateDueDate, getSupplier } from "@/lib/suppliersDB";
+import { getShopSettings } from "@/lib/settingsDB";
+import { PaymentMethod, PurchaseDoc } from "@/types";
+import { PurchaseOrderDoc } from "@/types/purchaseOrders";
+import {
+  formatMoney,
+  createMoney,
+  convertMoneyWithRates,
+  BASE_CURRENCY,
+  CurrencyCode,
+} from "@/types/money";
+
+interface ReceiveDeliveryModalProps {
+  order: PurchaseOrderDoc;
+  opened: boolean;
+  onClose: () => void;
+  onReceived?: (purchase: PurchaseDoc) => void;
+}
+
+interface LineInput {
+  quantity: number;
+  batchNumber: string;
+  expiryDate: string;
+}
+
+export default function ReceiveDeliveryModal({
+  order,
+  opened,
+  onClose,
+  onReceived,
+}: ReceiveDeliveryModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [lines, setLines] = useState<Record<string, LineInput>>({});
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [dueDate, setDueDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from whatever is still outstanding on each line
+  useEffect(() => {
+    if (!opened) return;
+    setLines(
+      Object.fromEntries(
+        order.items.map((item) => [
+          item.productId,
+          {
+            quantity: Math.max(0, item.orderedQty - item.receivedQty),
+            batchNumber: "",
+            expiryDate: "",
+          },
+        ])
+      )
+    );
+    setPaymentMethod(order.paymentMethod);
+    setError(null);
+    const defaultDue = async () => {
+      const supplier = order.supplierId
+        ? await getSupplier(order.supplierId)
+        : null;
+      setDueDate(
+        calculateDueDate(
+          new Date().toISOString(),
+          supplier?.paymentTermsDays ?? 0
+        ).slice(0, 10)
+      );
+    };
+    defaultDue().catch(() => undefined);
+  }, [opened, order]);
+
+  const updateLine = (productId: string, changes: Partial<LineInput>) =>
+    setLines((prev) => ({
+      ...prev,
+      [productId]: { ...prev[productId], ...changes },
+    }));
+
+  const deliveryTotal = order.items.reduce(
+    (sum, item) =>
+      sum + item.costPrice.amount * (lines[item.productId]?.quantity || 0),
+    0
+  );
+  const deliveredUnits = Object.values(lines).reduce(
+    (sum, line) => sum + line.quantity,
+    0
+  );
+  const deliveryMoney = {
+    ...order.totalAmount,
+    amount: deliveryTotal,
+  };
+
+  const handleReceive = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (paymentMethod === "credit" && !dueDate) {
+        throw new Error("Please set a due date for this credit delivery");
+      }
+
+      // Paying now needs the money to be there
+      if (paymentMethod !== "credit") {
+        const settings = await getShopSettings(shop?.shopId);
+        const baseCurrency = (settings?.baseCurrency ||
+          BASE_CURRENCY) as CurrencyCode;
+        const balances = await getSettlementBalances(
+          new Date().toISOString(),
+          shop?.shopId
+        );
+        const available = balances[paymentMethod as keyof typeof balances];
+        const needed = convertMoneyWithRates(
+          deliveryMoney,
+          baseCurrency,
+          1,
+          baseCurrency
+        );
+        if (available && available.amount < needed.amount) {
+          throw new Error(
+            `Not enough ${paymentMethod.replace("_", " ")} (${formatMoney(
+              createMoney(available.amount, baseCurrency)
+            )} available). Please use credit or add funds.`
+          );
+        }
+      }
+
+      const purchase = await receivePurchaseOrder({
+        orderId: order._id,
+        lines: order.items.map((item) => ({
+          productId: item.productId,
+          quantity: lines[item.productId]?.quantity || 0,
+          batchNumber: lines[item.productId]?.batchNumber.trim() || undefined,
+          expiryDate: lines[item.productId]?.expiryDate || undefined,
+        })),
+        paymentMethod,
+        dueDate:
+          paymentMethod === "credit"
+            ? new Date(`${dueDate}T23:59:59`).toISOString()
+            : undefined,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onReceived?.(purchase);
+      onClose();
+    } catch (err) {
+      console.error("Error receiving delivery:", err);
+      setError(
+        `Failed to receive delivery: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Receive Delivery"
+      centered
+      size="xl"
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Text size="sm" c="dimmed">
+          Enter what actually arrived. Only these quantities go into stock and
+          the books; anything missing stays outstanding on the order.
+        </Text>
+        <ScrollArea>
+          <Table>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Product</Table.Th>
+                <Table.Th style={{ textAlign: "right" }}>Outstanding</Table.Th>
+                <Table.Th style={{ width: 100 }}>Received</Table.Th>
+                <Table.Th>Batch No.</Table.Th>
+                <Table.Th>Expiry</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {order.items.map((item) => (
+                <Table.Tr key={item.productId}>
+                  <Table.Td>{item.productName}</Table.Td>
+                  <Table.Td style={{ textAlign: "right" }}>
+                    {Math.max(0, item.orderedQty - item.receivedQty)}
+                  </Table.Td>
+                  <Table.Td>
+                    <NumberInput
+                      size="xs"
+                      min={0}
+                      value={lines[item.productId]?.quantity ?? 0}
+                      onChange={(value) =>
+                        updateLine(item.productId, {
+                          quantity: Number(value) || 0,
+                        })
+                      }
+                    />
+                  </Table.Td>
+                  <Table.Td>
+                    <TextInput
+                      size="xs"
+                      value={lines[item.productId]?.batchNumber ?? ""}
+                      onChange={(e) =>
+                        updateLine(item.productId, {
+                          batchNumber: e.currentTarget.value,
+                        })
+                      }
+                    />
+                  </Table.Td>
+                  <Table.Td>
+                    <TextInput
+                      size="xs"
+                      type="date"
+                      value={lines[item.productId]?.expiryDate ?? ""}
+                      onChange={(e) =>
+                        updateLine(item.productId, {
+                          expiryDate: e.currentTarget.value,
+                        })
+                      }
+                    />
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+        <PaymentMethodSelect
+          value={paymentMethod}
+          onChange={setPaymentMethod}
+        />
+        {paymentMethod === "credit" && (
+          <TextInput
+            type="date"
+            label="Due Date"
+            description="When this delivery must be paid for"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.currentTarget.value)}
+            required
+          />
+        )}
+        <Group justify="space-between">
+          <Text fw={700}>Delivery total: {formatMoney(deliveryMoney)}</Text>
+          <Group>
+            <Button variant="default" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReceive}
+              loading={saving}
+              disabled={deliveredUnits <= 0}
+            >
+              Receive
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
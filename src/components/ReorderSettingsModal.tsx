@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  NumberInput,
+  Button,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { updateReorderSettings } from "@/lib/reorder";
+import { ProductDoc } from "@/types";
+
+interface ReorderSettingsModalProps {
+  product: ProductDoc | null;
+  onClose: () => void;
+  onSaved?: (product: ProductDoc) => void;
+}
+
+export default function ReorderSettingsModal({
+  product,
+  onClose,
+  onSaved,
+}: ReorderSettingsModalProps) {
+  const [reorderLevel, setReorderLevel] = useState<number | string>("");
+  const [reorderQuantity, setReorderQuantity] = useState<number | string>("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!product) return;
+    setReorderLevel(product.reorderLevel ?? "");
+    setReorderQuantity(product.reorderQuantity ?? "");
+    setError(null);
+  }, [product]);
+
+  const handleSave = async () => {
+    if (!product) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateReorderSettings(
+        product._id,
+        reorderLevel === "" ? undefined : Number(reorderLevel),
+        reorderQuantity === "" ? undefined : Number(reorderQuantity)
+      );
+      onSaved?.(updated);
+      onClose();
+    } catch (err) {
+      console.error("Error saving reorder settings:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={!!product}
+      onClose={onClose}
+      title={`Reordering: ${product?.name || ""}`}
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Text size="sm" c="dimmed">
+          {product?.stockQuantity || 0} in stock. Leave blank to stop low-stock
+          warnings for this product.
+        </Text>
+        <NumberInput
+          label="Reorder Level"
+          description="Warn when stock falls to this"
+          min={0}
+          value={reorderLevel}
+          onChange={setReorderLevel}
+        />
+        <NumberInput
+          label="Reorder Quantity"
+          description="Usual quantity to buy"
+          min={1}
+          value={reorderQuantity}
+          onChange={setReorderQuantity}
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Text,
+  Group,
+  Table,
+  NumberInput,
+  TextInput,
+  Button,
+  Alert,
+  Loader,
+} from "@mantine/core";
+import { IconAlertCircle, IconArrowBackUp } from "@tabler/icons-react";
+import { SaleDoc, PaymentMethod } from "@/types";
+import { formatMoney } from "@/types/money";
+import { useAuth } from "@/contexts/AuthContext";
+import { PaymentMethodSelect } from "./PaymentMethodSelect";
+import {
+  getReturnsForSale,
+  getReturnableItems,
+  getRefundMethods,
+  getDefaultRefundMethod,
+  processSaleReturn,
+} from "@/lib/returns";
+
+interface SaleReturnModalProps {
+  sale: SaleDoc | null;
+  onClose: () => void;
+  onReturned?: () => void;
+}
+
+export default function SaleReturnModal({
+  sale,
+  onClose,
+  onReturned,
+}: SaleReturnModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [returnable, setReturnable] = useState<
+    ReturnType<typeof getReturnableItems>
+  >([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>(
+    sale ? getDefaultRefundMethod(sale) : "cash"
+  );
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (!sale) return;
+
+    const fetchReturnable = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const previousReturns = await getReturnsForSale(
+          sale._id,
+          shop?.shopId
+        );
+        setReturnable(getReturnableItems(sale, previousReturns));
+        setQuantities({});
+        setRefundMethod(getDefaultRefundMethod(sale));
+        setReason("");
+      } catch (err) {
+        console.error("Error loading returnable items:", err);
+        setError(
+          `Failed to load sale items: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReturnable();
+  }, [sale, shop?.shopId]);
+
+  const refundTotal = returnable.reduce(
+    (sum, item) => sum + item.unitPrice.amount * (quantities[item.productId] || 0),
+    0
+  );
+
+  const handleReturnAll = () => {
+    setQuantities(
+      returnable.reduce((acc, item) => {
+        acc[item.productId] = item.returnableQty;
+        return acc;
+      }, {} as Record<string, number>)
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!sale) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await processSaleReturn({
+        sale,
+        items: Object.entries(quantities).map(([productId, qty]) => ({
+          productId,
+          qty,
+        })),
+        refundMethod,
+        reason,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+      });
+      onReturned?.();
+      onClose();
+    } catch (err) {
+      console.error("Error processing return:", err);
+      setError(
+        `Failed to process return: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={sale !== null}
+      onClose={onClose}
+      title={
+        <Group>
+          <IconArrowBackUp size={24} />
+          <Text size="xl" fw={700}>
+            Return Items
+          </Text>
+        </Group>
+      }
+      size="lg"
+      centered
+    >
+      {loading ? (
+        <Group justify="center" py="xl">
+          <Loader />
+        </Group>
+      ) : (
+        <Stack>
+          {error && (
+            <Alert
+              icon={<IconAlertCircle size="1rem" />}
+              title="Error"
+              color="red"
+              withCloseButton
+              onClose={() => setError(null)}
+            >
+              {error}
+            </Alert>
+          )}
+
+          <Table striped withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Item</Table.Th>
+                <Table.Th>Sold</Table.Th>
+                <Table.Th>Returned</Table.Th>
+                <Table.Th>Return Qty</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {returnable.map((item) => (
+                <Table.Tr key={item.productId}>
+                  <Table.Td>
+                    <Text size="sm" fw={500}>
+                      {item.productName}
+                    </Text>
+                    <Text size="xs" c="dimmed">
+                      {formatMoney(item.unitPrice)} each
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>{item.soldQty}</Table.Td>
+                  <Table.Td>{item.returnedQty}</Table.Td>
+                  <Table.Td>
+                    <NumberInput
+                      value={quantities[item.productId] || 0}
+                      onChange={(value) =>
+                        setQuantities({
+                          ...quantities,
+                          [item.productId]: Number(value) || 0,
+                        })
+                      }
+                      min={0}
+                      max={item.returnableQty}
+                      disabled={item.returnableQty === 0}
+                      size="sm"
+                      style={{ width: "90px" }}
+                    />
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+
+          <Button variant="subtle" onClick={handleReturnAll}>
+            Return everything remaining
+          </Button>
+
+          <PaymentMethodSelect
+            value={refundMethod}
+            onChange={setRefundMethod}
+            methods={sale ? getRefundMethods(sale) : undefined}
+          />
+
+          <TextInput
+            label="Reason"
+            placeholder="e.g. Damaged, wrong size"
+            value={reason}
+            onChange={(e) => setReason(e.currentTarget.value)}
+          />
+
+          <Group justify="space-between">
+            <Text fw={700}>Refund Amount:</Text>
+            <Text fw={700}>
+              {sale &&
+                formatMoney({ ...sale.totalAmount, amount: refundTotal })}
+            </Text>
+          </Group>
+
+          <Button
+            fullWidth
+            color="orange"
+            leftSection={<IconArrowBackUp size={20} />}
+            onClick={handleSubmit}
+            loading={saving}
+            disabled={refundTotal <= 0}
+            size="lg"
+          >
+            Process Return
+          </Button>
+        </Stack>
+      )}
+    </Modal>
+  );
+}
@@ -13,20 +13,34 @@ import {
   Paper,
   Group,
 } from "@mantine/core";
-import { IconAlertCircle, IconPlus } from "@tabler/icons-react";
+import {
+  IconAlertCircle,
+  IconPlus,
+  IconArrowBackUp,
+  IconBan,
+} from "@tabler/icons-react";
 import { getSalesDB } from "@/lib/databases";
-import { SaleDoc, SaleItem } from "@/types";
+import { SaleDoc, SaleItem, SaleReturnDoc } from "@/types";
 import { formatMoney } from "@/types/money";
 import { useRouter } from "next/navigation";
 import { useDateFilter } from "@/contexts/DateFilterContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { filterByShopId } from "@/lib/queryHelpers";
+import { getPaymentMethodLabel } from "@/lib/salePayments";
+import { hasPermission, Permission } from "@/lib/permissions";
+import SaleReturnModal from "./SaleReturnModal";
+import VoidSaleModal from "./VoidSaleModal";
 
 export default function SalesList() {
   const router = useRouter();
-  const { shop } = useAuth();
+  const { currentUser, shop } = useAuth();
   const { dateRangeInfo } = useDateFilter();
   const [sales, setSales] = useState<SaleDoc[]>([]);
+  const [returnsBySale, setReturnsBySale] = useState<
+    Record<string, SaleReturnDoc[]>
+  >({});
+  const [returningSale, setReturningSale] = useState<SaleDoc | null>(null);
+  const [voidingSale, setVoidingSale] = useState<SaleDoc | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -108,8 +122,24 @@ export default function SalesList() {
               new Date(a.timestamp as string).getTime()
           );
 
+          // Group returns by the sale they were made against
+          const returns = filterByShopId(
+            result.rows
+              .map((row) => row.doc as unknown as SaleReturnDoc)
+              .filter((doc) => doc && doc.type === "sale_return"),
+            shop?.shopId
+          );
+          const groupedReturns: Record<string, SaleReturnDoc[]> = {};
+          for (const saleReturn of returns) {
+            groupedReturns[saleReturn.saleId] = [
+              ...(groupedReturns[saleReturn.saleId] || []),
+              saleReturn,
+            ];
+          }
+
           console.log("Filtered sales:", sortedDocs);
           setSales(sortedDocs);
+          setReturnsBySale(groupedReturns);
         } catch (err) {
           console.error("Error fetching sales:", err);
           const message = err instanceof Error ? err.message : String(err);
@@ -164,7 +194,7 @@ export default function SalesList() {
                 doc &&
                 typeof doc === "object" &&
                 "type" in doc &&
-                doc.type === "sale"
+                (doc.type === "sale" || doc.type === "sale_return")
               ) {
                 debouncedFetch();
               }
@@ -210,6 +240,12 @@ export default function SalesList() {
     };
   }, [dateRangeInfo, error, shop?.shopId]); // Re-fetch when date range changes
 
+  const getRefundedTotal = (sale: SaleDoc) =>
+    (returnsBySale[sale._id] || []).reduce(
+      (sum, saleReturn) => sum + saleReturn.totalAmount.amount,
+      0
+    );
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -309,6 +345,10 @@ export default function SalesList() {
                       >
                         {sale.status}
                       </Badge>
+                      {returnsBySale[sale._id] && (
+                        <Badge color="orange">Returned</Badge>
+                      )}
+                      {sale.voided && <Badge color="red">Voided</Badge>}
                     </Group>
                   </Box>
                 </Accordion.Control>
@@ -335,6 +375,11 @@ export default function SalesList() {
                             <Text size="xs" c="dimmed">
                               Price: {formatMoney(item.price)}
                             </Text>
+                            {item.discount && item.discount.amount > 0 && (
+                              <Text size="xs" c="orange">
+                                Discount: -{formatMoney(item.discount)}
+                              </Text>
+                            )}
                             <Text size="sm" fw={500}>
                               Total: {formatMoney(item.total)}
                             </Text>
@@ -345,6 +390,15 @@ export default function SalesList() {
                     {/* Sale summary */}
                     <Paper p="sm" withBorder mt="md" className="sale-summary">
                       <Stack gap="xs">
+                        {sale.discount && sale.discount.amount > 0 && (
+                          <Group justify="apart">
+                            <Text>Basket Discount:</Text>
+                            <Text c="orange">
+                              -{formatMoney(sale.discount)}
+                            </Text>
+                          </Group>
+                        )}
+
                         <Group justify="apart">
                           <Text fw={600}>Total Amount:</Text>
                           <Text fw={700}>{formatMoney(sale.totalAmount)}</Text>
@@ -362,6 +416,22 @@ export default function SalesList() {
                           </Text>
                         </Group>
 
+                        {sale.payments &&
+                          sale.payments.length > 1 &&
+                          sale.payments.map((payment, index) => (
+                            <Group justify="apart" key={index}>
+                              <Text>
+                                {getPaymentMethodLabel(payment.method)}:
+                              </Text>
+                              <Text>
+                                {formatMoney(payment.amount)}
+                                {payment.change && payment.change.amount > 0
+                                  ? ` (change ${formatMoney(payment.change)})`
+                                  : ""}
+                              </Text>
+                            </Group>
+                          ))}
+
                         {sale.cashReceived && (
                           <Group justify="apart">
                             <Text>Cash Received:</Text>
@@ -375,8 +445,73 @@ export default function SalesList() {
                             <Text>{formatMoney(sale.change)}</Text>
                           </Group>
                         )}
+
+                        {returnsBySale[sale._id] && (
+                          <Group justify="apart">
+                            <Text c="orange">Refunded:</Text>
+                            <Text c="orange">
+                              {formatMoney({
+                                ...sale.totalAmount,
+                                amount: getRefundedTotal(sale),
+                              })}
+                            </Text>
+                          </Group>
+                        )}
                       </Stack>
                     </Paper>
+
+                    {sale.belowCostApproval && (
+                      <Alert color="orange" mt="xs" title="Sold below cost">
+                        <Text size="sm">
+                          Approved by{" "}
+                          {sale.belowCostApproval.approvedByName ||
+                            sale.belowCostApproval.approvedBy}{" "}
+                          on{" "}
+                          {new Date(
+                            sale.belowCostApproval.approvedAt
+                          ).toLocaleString()}
+                        </Text>
+                        <Text size="sm">
+                          Reason: {sale.belowCostApproval.reason}
+                        </Text>
+                      </Alert>
+                    )}
+
+                    {sale.voided ? (
+                      <Alert color="red" mt="xs" title="Voided">
+                        <Text size="sm">
+                          {new Date(sale.voided.voidedAt).toLocaleString()}
+                          {sale.voided.voidedByName &&
+                            ` by ${sale.voided.voidedByName}`}
+                        </Text>
+                        <Text size="sm">Reason: {sale.voided.reason}</Text>
+                      </Alert>
+                    ) : (
+                      <Group mt="xs">
+                        {hasPermission(currentUser, Permission.EDIT_SALES) &&
+                          getRefundedTotal(sale) < sale.totalAmount.amount && (
+                            <Button
+                              variant="light"
+                              color="orange"
+                              leftSection={<IconArrowBackUp size={16} />}
+                              onClick={() => setReturningSale(sale)}
+                            >
+                              Return Items
+                            </Button>
+                          )}
+                        {hasPermission(currentUser, Permission.DELETE_SALES) &&
+                          !returnsBySale[sale._id] && (
+                            <Button
+                              variant="light"
+                              color="red"
+                              leftSection={<IconBan size={16} />}
+                              onClick={() => setVoidingSale(sale)}
+                            >
+                              Void Sale
+                            </Button>
+                          )}
+                      </Group>
+                    )}
                   </Box>
                 </Accordion.Panel>
               </Accordion.Item>
@@ -385,6 +520,13 @@ export default function SalesList() {
         </div>
       )}
 
+      <SaleReturnModal
+        sale={returningSale}
+        onClose={() => setReturningSale(null)}
+      />
+
+      <VoidSaleModal sale={voidingSale} onClose={() => setVoidingSale(null)} />
+
       {/* Add CSS animations and mobile styles */}
       <style jsx global>{`
         @keyframes fadeIn {
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Stack,
+  Card,
+  Text,
+  Group,
+  Table,
+  ScrollArea,
+  Title,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDateFilter } from "@/contexts/DateFilterContext";
+import { getShrinkageReport } from "@/lib/inventoryAdjustments";
+import {
+  ShrinkageReport as ShrinkageReportData,
+  ShrinkageRow,
+} from "@/types/inventoryAdjustments";
+import { formatMoney, createMoney } from "@/types/money";
+
+export default function ShrinkageReport() {
+  const { shop } = useAuth();
+  const { dateRangeInfo } = useDateFilter();
+  const [report, setReport] = useState<ShrinkageReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReport(
+        await getShrinkageReport(
+          dateRangeInfo.startDate.toISOString(),
+          dateRangeInfo.endDate.toISOString(),
+          shop?.shopId
+        )
+      );
+    } catch (err) {
+      console.error("Error loading shrinkage:", err);
+      setError(err instanceof Error ? err.message : "Failed to load shrinkage");
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, dateRangeInfo.startDate, dateRangeInfo.endDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (loading) {
+    return <Text ta="center">Loading shrinkage...</Text>;
+  }
+
+  const display = (amount: number) =>
+    formatMoney(createMoney(amount, report?.currency));
+
+  const renderRows = (title: string, label: string, rows: ShrinkageRow[]) => (
+    <Card withBorder shadow="sm">
+      <Title order={4} mb="md">
+        {title}
+      </Title>
+      <ScrollArea>
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{label}</Table.Th>
+              <Table.Th style={{ textAlign: "right" }}>Qty</Table.Th>
+              <Table.Th style={{ textAlign: "right" }}>Cost</Table.Th>
+              <Table.Th style={{ textAlign: "right" }}>Share</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {rows.map((row) => (
+              <Table.Tr key={row.key}>
+                <Table.Td>{row.label}</Table.Td>
+                <Table.Td style={{ textAlign: "right" }}>
+                  {row.quantity}
+                </Table.Td>
+                <Table.Td style={{ textAlign: "right" }}>
+                  {display(row.value)}
+                </Table.Td>
+                <Table.Td style={{ textAlign: "right" }}>
+                  {report && report.totalValue > 0
+                    ? `${((row.value / report.totalValue) * 100).toFixed(1)}%`
+                    : "—"}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea>
+    </Card>
+  );
+
+  return (
+    <Stack gap="lg">
+      {error && (
+        <Alert
+          icon={<IconAlertCircle size="1rem" />}
+          title="Error"
+          color="red"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+
+      <Card withBorder shadow="sm">
+        <Group justify="space-between">
+          <Stack gap={0}>
+            <Title order={4}>Shrinkage</Title>
+            <Text size="sm" c="dimmed">
+              Stock written off or found missing, at cost
+            </Text>
+          </Stack>
+          <Text fw={700} size="lg" c={report?.totalValue ? "red" : undefined}>
+            {display(report?.totalValue || 0)}
+          </Text>
+        </Group>
+      </Card>
+
+      {!report || report.byReason.length === 0 ? (
+        <Text c="dimmed" ta="center">
+          No stock was lost in this period.
+        </Text>
+      ) : (
+        <>
+          {renderRows("By Reason", "Reason", report.byReason)}
+          {renderRows("By Product", "Product", report.byProduct)}
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Card,
+  Text,
+  Table,
+  Button,
+  NumberInput,
+  Loader,
+  Alert,
+  ScrollArea,
+} from "@mantine/core";
+import { IconAlertCircle, IconShoppingCartPlus } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getReorderSuggestions } from "@/lib/reorder";
+import { SupplierReorderGroup } from "@/types/reorder";
+import { formatMoney } from "@/types/money";
+
+interface SuggestedPurchaseModalProps {
+  opened: boolean;
+  onClose: () => void;
+  onUse: (group: SupplierReorderGroup) => void;
+}
+
+export default function SuggestedPurchaseModal({
+  opened,
+  onClose,
+  onUse,
+}: SuggestedPurchaseModalProps) {
+  const { shop } = useAuth();
+  const [lookbackDays, setLookbackDays] = useState<number | string>(30);
+  const [coverDays, setCoverDays] = useState<number | string>(14);
+  const [groups, setGroups] = useState<SupplierReorderGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSuggestions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setGroups(
+        await getReorderSuggestions({
+          shopId: shop?.shopId,
+          lookbackDays: Math.max(1, Number(lookbackDays) || 30),
+          coverDays: Math.max(1, Number(coverDays) || 14),
+        })
+      );
+    } catch (err) {
+      console.error("Error building suggestions:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to build suggestions"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [shop?.shopId, lookbackDays, coverDays]);
+
+  useEffect(() => {
+    if (opened) loadSuggestions();
+  }, [opened, loadSuggestions]);
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Suggested Purchase"
+      centered
+      size="xl"
+    >
+      <Stack>
+        <Text size="sm" c="dimmed">
+          Products at their reorder level or about to run out, grouped by the
+          supplier they were last bought from.
+        </Text>
+        <Group grow>
+          <NumberInput
+            label="Sales over the last (days)"
+            min={1}
+            value={lookbackDays}
+            onChange={setLookbackDays}
+          />
+          <NumberInput
+            label="Buy enough for (days)"
+            min={1}
+            value={coverDays}
+            onChange={setCoverDays}
+          />
+        </Group>
+
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Group justify="center" py="md">
+            <Loader />
+          </Group>
+        ) : groups.length === 0 ? (
+          <Text ta="center" c="dimmed" py="md">
+            Nothing needs reordering right now.
+          </Text>
+        ) : (
+          groups.map((group) => (
+            <Card
+              key={group.supplierId || group.supplierName || "none"}
+              withBorder
+              shadow="sm"
+            >
+              <Group justify="space-between" mb="sm">
+                <div>
+                  <Text fw={600}>
+                    {group.supplierName || "No supplier on record"}
+                  </Text>
+                  <Text size="sm" c="dimmed">
+                    {group.items.length} products ·{" "}
+                    {formatMoney(group.totalCost)}
+                  </Text>
+                </div>
+                <Button
+                  size="xs"
+                  leftSection={<IconShoppingCartPlus size={14} />}
+                  onClick={() => onUse(group)}
+                >
+                  Add to Cart
+                </Button>
+              </Group>
+              <ScrollArea>
+                <Table striped>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Product</Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>Stock</Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>
+                        Sold/day
+                      </Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>
+                        Days left
+                      </Table.Th>
+                      <Table.Th style={{ textAlign: "right" }}>Buy</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {group.items.map((item) => (
+                      <Table.Tr key={item.productId}>
+                        <Table.Td>{item.productName}</Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {item.stockQuantity}
+                        </Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {item.turnoverRate.toFixed(2)}
+                        </Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {item.daysOfInventoryRemaining ?? "—"}
+                        </Table.Td>
+                        <Table.Td style={{ textAlign: "right" }}>
+                          {item.suggestedQty}
+                        </Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              </ScrollArea>
+            </Card>
+          ))
+        )}
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  TextInput,
+  Textarea,
+  NumberInput,
+  Button,
+  Group,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { SupplierDoc } from "@/types/suppliers";
+import { useAuth } from "@/contexts/AuthContext";
+import { saveSupplier } from "@/lib/suppliersDB";
+
+interface SupplierFormModalProps {
+  opened: boolean;
+  onClose: () => void;
+  supplier?: SupplierDoc | null; // Edit when provided, otherwise create
+  onSaved?: (supplier: SupplierDoc) => void;
+}
+
+export default function SupplierFormModal({
+  opened,
+  onClose,
+  supplier,
+  onSaved,
+}: SupplierFormModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [name, setName] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [email, setEmail] = useState("");
+  const [address, setAddress] = useState("");
+  const [paymentTermsDays, setPaymentTermsDays] = useState<number>(30);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setName(supplier?.name || "");
+    setContactName(supplier?.contactName || "");
+    setPhoneNumber(supplier?.phoneNumber || "");
+    setEmail(supplier?.email || "");
+    setAddress(supplier?.address || "");
+    setPaymentTermsDays(supplier?.paymentTermsDays ?? 30);
+    setNotes(supplier?.notes || "");
+    setError(null);
+  }, [opened, supplier]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError("Supplier name is required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveSupplier({
+        ...(supplier || {}),
+        name: name.trim(),
+        contactName: contactName.trim() || undefined,
+        phoneNumber: phoneNumber.trim() || undefined,
+        email: email.trim() || undefined,
+        address: address.trim() || undefined,
+        paymentTermsDays,
+        notes: notes.trim() || undefined,
+        active: supplier?.active ?? true,
+        shopId: supplier?.shopId || shop?.shopId,
+        createdBy: supplier?.createdBy || currentUser?.userId,
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      console.error("Error saving supplier:", err);
+      setError(
+        `Failed to save supplier: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={supplier ? "Edit Supplier" : "New Supplier"}
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <TextInput
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+          required
+        />
+        <TextInput
+          label="Contact Person"
+          value={contactName}
+          onChange={(e) => setContactName(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Phone Number"
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Email"
+          value={email}
+          onChange={(e) => setEmail(e.currentTarget.value)}
+        />
+        <TextInput
+          label="Address"
+          value={address}
+          onChange={(e) => setAddress(e.currentTarget.value)}
+        />
+        <NumberInput
+          label="Payment Terms (days)"
+          description="How long after a credit purchase payment falls due"
+          value={paymentTermsDays}
+          onChange={(value) => setPaymentTermsDays(Number(value) || 0)}
+          min={0}
+          allowDecimal={false}
+        />
+        <Textarea
+          label="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.currentTarget.value)}
+          autosize
+          minRows={2}
+        />
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
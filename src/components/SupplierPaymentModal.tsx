@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Text,
+  TextInput,
+  Select,
+  Button,
+  Group,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { recordSupplierPayment } from "@/lib/suppliersDB";
+import { SupplierPaymentDoc } from "@/types/suppliers";
+import {
+  Money,
+  CurrencyCode,
+  createMoney,
+  formatMoney,
+} from "@/types/money";
+import MoneyInput from "./MoneyInput";
+
+interface SupplierPaymentModalProps {
+  opened: boolean;
+  onClose: () => void;
+  purchaseId: string | null;
+  supplierName?: string;
+  outstanding: number; // What is still owed, in base currency
+  currency: CurrencyCode;
+  onPaid?: (payment: SupplierPaymentDoc) => void;
+}
+
+export default function SupplierPaymentModal({
+  opened,
+  onClose,
+  purchaseId,
+  supplierName,
+  outstanding,
+  currency,
+  onPaid,
+}: SupplierPaymentModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [amount, setAmount] = useState<Money>(createMoney(0));
+  const [paymentMethod, setPaymentMethod] =
+    useState<SupplierPaymentDoc["paymentMethod"]>("cash");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setAmount(createMoney(outstanding, currency));
+    setPaymentMethod("cash");
+    setReference("");
+    setError(null);
+  }, [opened, outstanding, currency]);
+
+  const handlePay = async () => {
+    if (!purchaseId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const payment = await recordSupplierPayment({
+        purchaseId,
+        amount,
+        paymentMethod,
+        reference: reference.trim(),
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+      });
+      onPaid?.(payment);
+      onClose();
+    } catch (err) {
+      console.error("Error recording supplier payment:", err);
+      setError(
+        `Failed to record payment: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Pay Supplier" centered>
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <Text size="sm" c="dimmed">
+          {supplierName ? `${supplierName} · ` : ""}Outstanding:{" "}
+          {formatMoney(createMoney(outstanding, currency))}
+        </Text>
+        <MoneyInput
+          label="Amount Paid"
+          value={amount}
+          onChange={(value) =>
+            setAmount(
+              typeof value === "number" ? { ...amount, amount: value } : value
+            )
+          }
+          variant="light"
+        />
+        <Select
+          label="Paid From"
+          value={paymentMethod}
+          onChange={(value) =>
+            value &&
+            setPaymentMethod(value as SupplierPaymentDoc["paymentMethod"])
+          }
+          data={[
+            { value: "cash", label: "Cash" },
+            { value: "bank", label: "Bank" },
+            { value: "mobile_money", label: "Mobile Money" },
+          ]}
+        />
+        <TextInput
+          label="Reference"
+          placeholder="e.g. invoice or transfer number"
+          value={reference}
+          onChange={(e) => setReference(e.currentTarget.value)}
+        />
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePay}
+            loading={saving}
+            disabled={!purchaseId || amount.amount <= 0}
+          >
+            Record Payment
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
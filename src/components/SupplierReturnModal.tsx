@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Text,
+  Select,
+  NumberInput,
+  Textarea,
+  Table,
+  Button,
+  Group,
+  Alert,
+  ScrollArea,
+} from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMoneyContext } from "@/contexts/MoneyContext";
+import { getLotsByPurchaseRun } from "@/lib/inventory";
+import { recordSupplierReturn } from "@/lib/supplierReturns";
+import { InventoryLot, PaymentMethod, PurchaseDoc } from "@/types";
+import { SupplierReturnDoc } from "@/types/supplierReturns";
+import { formatMoney, createMoney } from "@/types/money";
+
+interface SupplierReturnModalProps {
+  purchase: PurchaseDoc;
+  opened: boolean;
+  onClose: () => void;
+  onSaved?: (supplierReturn: SupplierReturnDoc) => void;
+}
+
+export default function SupplierReturnModal({
+  purchase,
+  opened,
+  onClose,
+  onSaved,
+}: SupplierReturnModalProps) {
+  const { currentUser, shop } = useAuth();
+  const { baseCurrency } = useMoneyContext();
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>("cash");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCreditPurchase = purchase.paymentMethod === "credit";
+
+  useEffect(() => {
+    if (!opened) return;
+    setQuantities({});
+    setRefundMethod(isCreditPurchase ? "credit" : "cash");
+    setReason("");
+    setError(null);
+    getLotsByPurchaseRun(purchase.purchaseRunId, shop?.shopId)
+      .then((runLots) =>
+        setLots(runLots.filter((lot) => lot.remainingQuantity > 0))
+      )
+      .catch((err) => {
+        console.error("Error loading lots:", err);
+        setError("Failed to load the stock left from this purchase");
+      });
+  }, [opened, purchase.purchaseRunId, isCreditPurchase, shop?.shopId]);
+
+  const returnUnits = Object.values(quantities).reduce(
+    (sum, quantity) => sum + quantity,
+    0
+  );
+  const returnValue = lots.reduce(
+    (sum, lot) => sum + lot.costPrice.amount * (quantities[lot._id] || 0),
+    0
+  );
+
+  const refundOptions = [
+    ...(isCreditPurchase
+      ? [{ value: "credit", label: "Credit note (less to pay them)" }]
+      : []),
+    { value: "cash", label: "Cash refund" },
+    { value: "mobile_money", label: "Mobile money refund" },
+    { value: "bank", label: "Bank refund" },
+  ];
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const supplierReturn = await recordSupplierReturn({
+        purchaseRunId: purchase.purchaseRunId,
+        lots: Object.entries(quantities).map(([lotId, quantity]) => ({
+          lotId,
+          quantity,
+        })),
+        refundMethod,
+        reason,
+        shopId: shop?.shopId,
+        createdBy: currentUser?.userId,
+        createdByName: currentUser?.name,
+      });
+      onSaved?.(supplierReturn);
+      onClose();
+    } catch (err) {
+      console.error("Error recording supplier return:", err);
+      setError(
+        `Failed to record return: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Return to Supplier"
+      centered
+      size="lg"
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Text size="sm" c="dimmed">
+          Pick what is going back from this purchase. It comes out of stock at
+          the price it went in.
+        </Text>
+        {lots.length === 0 ? (
+          <Text c="dimmed" ta="center">
+            Nothing from this purchase is left in stock.
+          </Text>
+        ) : (
+          <ScrollArea>
+            <Table>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Product</Table.Th>
+                  <Table.Th>Batch</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>In Stock</Table.Th>
+                  <Table.Th style={{ width: 100 }}>Return</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {lots.map((lot) => (
+                  <Table.Tr key={lot._id}>
+                    <Table.Td>{lot.productName}</Table.Td>
+                    <Table.Td>{lot.batchNumber || "—"}</Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {lot.remainingQuantity}
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        size="xs"
+                        min={0}
+                        max={lot.remainingQuantity}
+                        value={quantities[lot._id] ?? 0}
+                        onChange={(value) =>
+                          setQuantities((prev) => ({
+                            ...prev,
+                            [lot._id]: Number(value) || 0,
+                          }))
+                        }
+                      />
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+        <Select
+          label="Supplier Settles By"
+          data={refundOptions}
+          value={refundMethod}
+          onChange={(value) => value && setRefundMethod(value as PaymentMethod)}
+          allowDeselect={false}
+        />
+        <Textarea
+          label="Reason"
+          placeholder="e.g. Arrived damaged"
+          value={reason}
+          onChange={(e) => setReason(e.currentTarget.value)}
+          autosize
+          minRows={2}
+        />
+        <Group justify="space-between">
+          <Text fw={700}>
+            Return value:{" "}
+            {formatMoney(
+              createMoney(
+                returnValue,
+                lots[0]?.costPrice.currency || baseCurrency
+              )
+            )}
+          </Text>
+          <Group>
+            <Button variant="default" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              color="orange"
+              onClick={handleSave}
+              loading={saving}
+              disabled={returnUnits <= 0}
+            >
+              Return Goods
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  NumberInput,
+  Switch,
+  Button,
+  ActionIcon,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle, IconPlus, IconTrash } from "@tabler/icons-react";
+import {
+  updateProductUnits,
+  getBaseUnit,
+  formatQuantity,
+  DEFAULT_UNIT,
+} from "@/lib/units";
+import { PackUnit, ProductDoc } from "@/types";
+
+interface UnitsSettingsModalProps {
+  product: ProductDoc | null;
+  onClose: () => void;
+  onSaved?: (product: ProductDoc) => void;
+}
+
+export default function UnitsSettingsModal({
+  product,
+  onClose,
+  onSaved,
+}: UnitsSettingsModalProps) {
+  const [unit, setUnit] = useState("");
+  const [fractional, setFractional] = useState(false);
+  const [packUnits, setPackUnits] = useState<PackUnit[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!product) return;
+    setUnit(product.unit || "");
+    setFractional(!!product.fractional);
+    setPackUnits(product.packUnits || []);
+    setError(null);
+  }, [product]);
+
+  const updatePack = (index: number, changes: Partial<PackUnit>) =>
+    setPackUnits((prev) =>
+      prev.map((pack, i) => (i === index ? { ...pack, ...changes } : pack))
+    );
+
+  const handleSave = async () => {
+    if (!product) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateProductUnits(product._id, {
+        unit,
+        fractional,
+        packUnits,
+      });
+      onSaved?.(updated);
+      onClose();
+    } catch (err) {
+      console.error("Error saving units:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const baseUnit = unit.trim() || DEFAULT_UNIT;
+
+  return (
+    <Modal
+      opened={!!product}
+      onClose={onClose}
+      title={`Units: ${product?.name || ""}`}
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+        <Text size="sm" c="dimmed">
+          {formatQuantity(
+            product?.stockQuantity || 0,
+            getBaseUnit(product || {})
+          )}{" "}
+          in stock. Stock, prices and costs are all kept per base unit.
+        </Text>
+        <TextInput
+          label="Base Unit"
+          description="What stock is counted and sold in, e.g. kg, litre, loaf"
+          placeholder={DEFAULT_UNIT}
+          value={unit}
+          onChange={(e) => setUnit(e.currentTarget.value)}
+        />
+        <Switch
+          label="Sold by weight or measure"
+          description="Allow part units at the till, e.g. 0.75 kg"
+          checked={fractional}
+          onChange={(e) => setFractional(e.currentTarget.checked)}
+        />
+
+        <Text fw={500} size="sm">
+          Bought In
+        </Text>
+        {packUnits.length === 0 && (
+          <Text size="sm" c="dimmed">
+            Only bought by the {baseUnit}.
+          </Text>
+        )}
+        {packUnits.map((pack, index) => (
+          <Group key={index} align="flex-end" wrap="nowrap">
+            <TextInput
+              label={index === 0 ? "Pack" : undefined}
+              placeholder="e.g. bag"
+              value={pack.name}
+              onChange={(e) =>
+                updatePack(index, { name: e.currentTarget.value })
+              }
+              style={{ flex: 1 }}
+            />
+            <NumberInput
+              label={index === 0 ? `${baseUnit} per pack` : undefined}
+              value={pack.factor}
+              onChange={(value) =>
+                updatePack(index, { factor: Number(value) })
+              }
+              min={0}
+              style={{ flex: 1 }}
+            />
+            <ActionIcon
+              color="red"
+              variant="subtle"
+              size="lg"
+              onClick={() =>
+                setPackUnits((prev) => prev.filter((_, i) => i !== index))
+              }
+              aria-label="Remove pack"
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Group>
+        ))}
+        <Button
+          variant="light"
+          leftSection={<IconPlus size={16} />}
+          onClick={() =>
+            setPackUnits((prev) => [...prev, { name: "", factor: 1 }])
+          }
+        >
+          Add Pack
+        </Button>
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Stack,
+  Text,
+  Group,
+  Textarea,
+  Button,
+  Alert,
+} from "@mantine/core";
+import { IconAlertCircle, IconBan } from "@tabler/icons-react";
+import { SaleDoc } from "@/types";
+import { formatMoney } from "@/types/money";
+import { useAuth } from "@/contexts/AuthContext";
+import { voidSale } from "@/lib/returns";
+
+interface VoidSaleModalProps {
+  sale: SaleDoc | null;
+  onClose: () => void;
+  onVoided?: () => void;
+}
+
+export default function VoidSaleModal({
+  sale,
+  onClose,
+  onVoided,
+}: VoidSaleModalProps) {
+  const { currentUser, shop } = useAuth();
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReason("");
+    setError(null);
+  }, [sale]);
+
+  const handleVoid = async () => {
+    if (!sale) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await voidSale({
+        sale,
+        reason,
+        shopId: shop?.shopId,
+        voidedBy: currentUser?.userId,
+        voidedByName: currentUser?.name,
+      });
+      onVoided?.();
+      onClose();
+    } catch (err) {
+      console.error("Error voiding sale:", err);
+      setError(
+        `Failed to void sale: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={sale !== null}
+      onClose={onClose}
+      title={
+        <Group>
+          <IconBan size={24} />
+          <Text size="xl" fw={700}>
+            Void Sale
+          </Text>
+        </Group>
+      }
+      centered
+    >
+      <Stack>
+        {error && (
+          <Alert
+            icon={<IconAlertCircle size="1rem" />}
+            title="Error"
+            color="red"
+            withCloseButton
+            onClose={() => setError(null)}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {sale && (
+          <Text size="sm">
+            This will void the sale of {formatMoney(sale.totalAmount)}, put
+            the items back into stock and post a reversing ledger entry. The
+            sale will remain on record as voided.
+          </Text>
+        )}
+
+        <Textarea
+          label="Reason"
+          placeholder="Why is this sale being voided?"
+          value={reason}
+          onChange={(e) => setReason(e.currentTarget.value)}
+          required
+          autosize
+          minRows={2}
+        />
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            color="red"
+            leftSection={<IconBan size={16} />}
+            onClick={handleVoid}
+            loading={saving}
+            disabled={!reason.trim()}
+          >
+            Void Sale
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+/**
+ * React hook for USB / Bluetooth barcode scanners in keyboard-wedge mode
+ */
+
+import { useEffect, useRef } from "react";
+
+// Scanners type far faster than people; gaps longer than this end a burst
+const MAX_KEY_GAP_MS = 50;
+
+/**
+ * Listen for barcodes typed by a keyboard-wedge scanner: a fast burst of
+ * characters ended by Enter. Keystrokes inside form fields are left alone
+ * unless the field opts in with a `data-barcode-wedge` attribute, so typing
+ * a quantity or price never triggers a scan.
+ */
+export function useKeyboardWedgeScanner(
+  onScan: (barcode: string) => void,
+  options: { enabled?: boolean; minLength?: number } = {}
+): void {
+  const { enabled = true, minLength = 4 } = options;
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isEditable =
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.tagName === "SELECT" ||
+          target.isContentEditable);
+      if (isEditable && !target.closest("[data-barcode-wedge]")) {
+        buffer = "";
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) {
+        buffer = "";
+      }
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= minLength) {
+          event.preventDefault();
+          const barcode = buffer;
+          buffer = "";
+          onScanRef.current(barcode);
+        }
+        buffer = "";
+        return;
+      }
+
+      if (event.key.length === 1 && !event.ctrlKey && !event.metaKey) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [enabled, minLength]);
+}
@@ -19,6 +19,36 @@ export async function verifyPassword(
   return bcrypt.compare(password, hashedPassword);
 }
 
+// Approval PINs let a manager or owner sign off on something at another
+// user's till without logging them out
+const APPROVAL_PIN_PATTERN = /^\d{4,8}$/;
+
+export async function setApprovalPin(
+  userId: string,
+  pin: string
+): Promise<UserDoc> {
+  if (!APPROVAL_PIN_PATTERN.test(pin)) {
+    throw new Error("The PIN must be 4 to 8 digits");
+  }
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return updateUser({ ...user, approvalPinHash: await hashPassword(pin) });
+}
+
+// Returns the user if the PIN is theirs and they are still active
+export async function verifyApprovalPin(
+  userId: string,
+  pin: string
+): Promise<UserDoc | null> {
+  const user = await getUserById(userId);
+  if (!user || user.status !== "active" || !user.approvalPinHash) {
+    return null;
+  }
+  return (await verifyPassword(pin, user.approvalPinHash)) ? user : null;
+}
+
 // Session management
 const SESSION_KEY = "shopkeeper_session";
 const SESSION_EXPIRY_DAYS = 30;
@@ -0,0 +1,218 @@
+import { getProductsDB } from "./databases";
+import { getShopSettings } from "./settingsDB";
+import { roundQuantity } from "./units";
+import { Transaction } from "./transactions";
+import {
+  BundleComponent,
+  ProductDoc,
+  SaleBundleComponent,
+  SaleItem,
+} from "@/types";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+export function isBundle(product?: Pick<ProductDoc, "bundleComponents">) {
+  return !!product?.bundleComponents?.length;
+}
+
+/**
+ * How many of a bundle can be made up from component stock on hand
+ */
+export function getBundleAvailability(
+  bundle: Pick<ProductDoc, "bundleComponents">,
+  products: ProductDoc[]
+): number {
+  if (!bundle.bundleComponents?.length) return 0;
+  return Math.min(
+    ...bundle.bundleComponents.map((component) => {
+      const product = products.find((p) => p._id === component.productId);
+      return Math.floor((product?.stockQuantity || 0) / component.quantity);
+    })
+  );
+}
+
+/**
+ * Stock on hand, or for a bundle how many can be made up
+ */
+export function getAvailableStock(
+  product: ProductDoc,
+  products: ProductDoc[]
+): number {
+  return isBundle(product)
+    ? getBundleAvailability(product, products)
+    : product.stockQuantity || 0;
+}
+
+/**
+ * Create a bundle or kit, or change what goes into one. Components must be
+ * ordinary stocked products; bundles can't contain other bundles. The
+ * bundle's cost price is kept as the sum of its components' last costs.
+ */
+export async function saveBundle(params: {
+  productId?: string;
+  name: string;
+  price: Money;
+  components: Array<{ productId: string; quantity: number }>;
+  shopId?: string;
+  createdBy?: string;
+}): Promise<ProductDoc> {
+  const name = params.name.trim();
+  if (!name) {
+    throw new Error("Bundle name is required");
+  }
+  if (params.components.length === 0) {
+    throw new Error("Add at least one product to the bundle");
+  }
+
+  const productsDB = await getProductsDB();
+  const settings = await getShopSettings(params.shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+
+  const components: BundleComponent[] = [];
+  let costAmount = 0;
+  for (const entry of params.components) {
+    if (components.some((c) => c.productId === entry.productId)) {
+      throw new Error("Each product can only be in a bundle once");
+    }
+    if (entry.productId === params.productId) {
+      throw new Error("A bundle can't contain itself");
+    }
+    const product = (await productsDB.get(entry.productId)) as ProductDoc;
+    if (isBundle(product)) {
+      throw new Error(`${product.name} is a bundle and can't go in another`);
+    }
+    if (!(entry.quantity > 0)) {
+      throw new Error(`Quantity of ${product.name} must be greater than 0`);
+    }
+    components.push({
+      productId: product._id,
+      productName: product.name,
+      productCode: product.code,
+      quantity: roundQuantity(entry.quantity),
+    });
+    if (product.costPrice) {
+      costAmount +=
+        entry.quantity *
+        convertMoneyWithRates(product.costPrice, baseCurrency, 1, baseCurrency)
+          .amount;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const existing = params.productId
+    ? ((await productsDB.get(params.productId)) as ProductDoc)
+    : null;
+
+  let bundle: ProductDoc;
+  if (existing) {
+    bundle = {
+      ...existing,
+      name,
+      price: params.price,
+      costPrice: createMoney(costAmount, baseCurrency),
+      bundleComponents: components,
+      updatedAt: now,
+    };
+  } else {
+    const timestamp = Date.now();
+    const randomPart = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, "0");
+    bundle = {
+      _id: `prod_${timestamp}`,
+      type: "product",
+      code: `B${timestamp.toString().slice(-6)}${randomPart}`,
+      name,
+      price: params.price,
+      costPrice: createMoney(costAmount, baseCurrency),
+      stockQuantity: 0,
+      bundleComponents: components,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  const result = await productsDB.put(bundle);
+  return { ...bundle, _rev: result.rev };
+}
+
+/**
+ * Sell bundles inside a transaction: allocate each component from its own
+ * lots under the shop's costing method and take it off component stock.
+ * The bundle's unit cost is the sum of what its components cost.
+ */
+export async function allocateBundle(
+  tx: Transaction,
+  components: BundleComponent[],
+  quantity: number,
+  shopId?: string
+): Promise<{
+  components: SaleBundleComponent[];
+  unitCost: Money;
+  averageCost: Money;
+}> {
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+
+  const allocated: SaleBundleComponent[] = [];
+  let unitCost = 0;
+  let averageCost = 0;
+  for (const component of components) {
+    const needed = roundQuantity(component.quantity * quantity);
+    const allocation = await tx.allocateLots(
+      component.productId,
+      needed,
+      shopId
+    );
+    await tx.updateProduct(component.productId, -needed);
+
+    allocated.push({
+      ...component,
+      costPrice: allocation.unitCost,
+      lotsUsed: allocation.lots,
+    });
+    unitCost += component.quantity * allocation.unitCost.amount;
+    averageCost += component.quantity * allocation.averageCost.amount;
+  }
+
+  return {
+    components: allocated,
+    unitCost: createMoney(unitCost, baseCurrency),
+    averageCost: createMoney(averageCost, baseCurrency),
+  };
+}
+
+/**
+ * Stock to put back per product when sale lines are voided: the product
+ * itself, or for bundles each component
+ */
+export function getStockToRestore(
+  items: Array<Pick<SaleItem, "productId" | "qty" | "components">>
+): Map<string, number> {
+  const restore = new Map<string, number>();
+  const add = (productId: string, quantity: number) =>
+    restore.set(
+      productId,
+      roundQuantity((restore.get(productId) || 0) + quantity)
+    );
+
+  for (const item of items) {
+    if (item.components?.length) {
+      for (const component of item.components) {
+        add(component.productId, component.quantity * item.qty);
+      }
+    } else {
+      add(item.productId, item.qty);
+    }
+  }
+  return restore;
+}
@@ -0,0 +1,249 @@
+import { getSettingsDB } from "./settingsDB";
+import {
+  AccountCode,
+  AccountType,
+  ChartAccountDoc,
+  CHART_OF_ACCOUNTS,
+} from "@/types/accounting";
+
+// First digit of the code for each type of account
+export const ACCOUNT_TYPE_DIGITS: Record<AccountType, string> = {
+  asset: "1",
+  liability: "2",
+  equity: "3",
+  revenue: "4",
+  expense: "5",
+  contra: "9",
+};
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  asset: "Asset",
+  liability: "Liability",
+  equity: "Equity",
+  revenue: "Revenue",
+  expense: "Expense",
+  contra: "Contra",
+};
+
+// System accounts grouped under another system account
+const SYSTEM_ACCOUNT_PARENTS: Partial<Record<AccountCode, AccountCode>> = {
+  [AccountCode.RENT]: AccountCode.OPERATING_EXPENSES,
+  [AccountCode.UTILITIES]: AccountCode.OPERATING_EXPENSES,
+  [AccountCode.COMMUNICATION]: AccountCode.OPERATING_EXPENSES,
+  [AccountCode.WAGES]: AccountCode.OPERATING_EXPENSES,
+  [AccountCode.TRANSPORT]: AccountCode.OPERATING_EXPENSES,
+  [AccountCode.REPAIRS]: AccountCode.OPERATING_EXPENSES,
+};
+
+const getAccountId = (code: string, shopId?: string) =>
+  shopId ? `account_${shopId}_${code}` : `account_${code}`;
+
+// Children of an account have codes starting with its code, less any
+// trailing zeros: 5100 groups 5110 to 5190
+const getCodePrefix = (code: string) => code.replace(/0+$/, "");
+
+/**
+ * Get the shop's chart of accounts by code, seeding any system accounts
+ * that aren't in the settings database yet
+ */
+export async function getChartOfAccounts(
+  shopId?: string
+): Promise<ChartAccountDoc[]> {
+  const db = await getSettingsDB();
+  const selector: { type: string; shopId?: string } = { type: "account" };
+  if (shopId) {
+    selector.shopId = shopId;
+  }
+  const result = await db.find({ selector });
+  const accounts = result.docs as ChartAccountDoc[];
+
+  const now = new Date().toISOString();
+  for (const account of Object.values(CHART_OF_ACCOUNTS)) {
+    if (accounts.some((a) => a.code === account.code)) continue;
+
+    const doc: ChartAccountDoc = {
+      _id: getAccountId(account.code, shopId),
+      type: "account",
+      code: account.code,
+      name: account.name,
+      accountType: account.type,
+      description: account.description,
+      parentCode: SYSTEM_ACCOUNT_PARENTS[account.code],
+      system: true,
+      active: true,
+      shopId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      const response = await db.put(doc);
+      accounts.push({ ...doc, _rev: response.rev });
+    } catch (err) {
+      // Another tab or device seeded it first
+      if ((err as { status?: number }).status !== 409) throw err;
+      accounts.push((await db.get(doc._id)) as ChartAccountDoc);
+    }
+  }
+
+  return accounts.sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * The chart of accounts keyed by code, for looking up names and types
+ */
+export async function getAccountMap(
+  shopId?: string
+): Promise<Map<string, ChartAccountDoc>> {
+  const accounts = await getChartOfAccounts(shopId);
+  return new Map(accounts.map((account) => [account.code, account]));
+}
+
+/**
+ * Add an account, or change the name, description or grouping of one the
+ * shop added. Codes can't change once an account exists, and system
+ * accounts can't be changed at all.
+ */
+export async function saveAccount(params: {
+  accountId?: string;
+  code: string;
+  name: string;
+  accountType: AccountType;
+  description?: string;
+  parentCode?: string | null;
+  shopId?: string;
+  createdBy?: string;
+}): Promise<ChartAccountDoc> {
+  const code = params.code.trim();
+  const name = params.name.trim();
+  if (!name) {
+    throw new Error("Account name is required");
+  }
+
+  const accounts = await getChartOfAccounts(params.shopId);
+  const existing = params.accountId
+    ? accounts.find((account) => account._id === params.accountId)
+    : undefined;
+  if (params.accountId && !existing) {
+    throw new Error("Account not found");
+  }
+  if (existing?.system) {
+    throw new Error(
+      `${existing.name} is a system account and can't be changed`
+    );
+  }
+
+  if (existing) {
+    if (
+      existing.code !== code ||
+      existing.accountType !== params.accountType
+    ) {
+      throw new Error(
+        "An account's number and type can't change once it exists. Add a new account instead"
+      );
+    }
+  } else {
+    if (!/^\d{4}$/.test(code)) {
+      throw new Error("Account numbers are four digits, e.g. 5170");
+    }
+    if (!code.startsWith(ACCOUNT_TYPE_DIGITS[params.accountType])) {
+      throw new Error(
+        `${ACCOUNT_TYPE_LABELS[params.accountType]} account numbers start with ${ACCOUNT_TYPE_DIGITS[params.accountType]}`
+      );
+    }
+    const taken = accounts.find((account) => account.code === code);
+    if (taken) {
+      throw new Error(
+        `Account number ${code} is already used by ${taken.name}`
+      );
+    }
+  }
+
+  const parentCode = params.parentCode || undefined;
+  if (parentCode) {
+    const parent = accounts.find((account) => account.code === parentCode);
+    if (!parent) {
+      throw new Error(`Parent account ${parentCode} not found`);
+    }
+    if (!parent.active) {
+      throw new Error(`${parent.name} is inactive`);
+    }
+    if (parent.accountType !== params.accountType) {
+      throw new Error("An account can only be grouped under one of its type");
+    }
+    const prefix = getCodePrefix(parent.code);
+    if (parent.code === code || !code.startsWith(prefix)) {
+      throw new Error(
+        `Accounts under ${parent.name} are numbered ${prefix.padEnd(4, "x")}`
+      );
+    }
+  }
+
+  const db = await getSettingsDB();
+  const now = new Date().toISOString();
+  const doc: ChartAccountDoc = existing
+    ? {
+        ...existing,
+        name,
+        description: params.description?.trim() || undefined,
+        parentCode,
+        updatedAt: now,
+      }
+    : {
+        _id: getAccountId(code, params.shopId),
+        type: "account",
+        code,
+        name,
+        accountType: params.accountType,
+        description: params.description?.trim() || undefined,
+        parentCode,
+        system: false,
+        active: true,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+  const response = await db.put(doc);
+  return { ...doc, _rev: response.rev };
+}
+
+/**
+ * Activate or deactivate an account the shop added. Inactive accounts keep
+ * their balances but can't be picked for new entries.
+ */
+export async function setAccountActive(
+  accountId: string,
+  active: boolean
+): Promise<ChartAccountDoc> {
+  const db = await getSettingsDB();
+  const account = (await db.get(accountId)) as ChartAccountDoc;
+  if (account.system) {
+    throw new Error(
+      `${account.name} is a system account and is always active`
+    );
+  }
+
+  const accounts = await getChartOfAccounts(account.shopId);
+  if (active) {
+    const parent = accounts.find((a) => a.code === account.parentCode);
+    if (parent && !parent.active) {
+      throw new Error(`Activate ${parent.name} first`);
+    }
+  } else {
+    const activeChild = accounts.find(
+      (a) => a.parentCode === account.code && a.active
+    );
+    if (activeChild) {
+      throw new Error(`Deactivate ${activeChild.name} first`);
+    }
+  }
+
+  const updated: ChartAccountDoc = {
+    ...account,
+    active,
+    updatedAt: new Date().toISOString(),
+  };
+  const response = await db.put(updated);
+  return { ...updated, _rev: response.rev };
+}
@@ -0,0 +1,215 @@
+import { getInventoryLotsDB, getSalesDB } from "./databases";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { CostingMethod, InventoryLot, SaleDoc } from "@/types";
+import {
+  InventoryValuationReport,
+  InventoryValuationRow,
+  LotAllocation,
+} from "@/types/costing";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: "First in, first out (FIFO)",
+  weighted_average: "Weighted average",
+  specific: "Specific identification",
+};
+
+export const COSTING_METHOD_DESCRIPTIONS: Record<CostingMethod, string> = {
+  fifo: "Each sale is costed at the price of the oldest stock it came from.",
+  weighted_average:
+    "Each sale is costed at the average price of all stock on hand, for steadier margins.",
+  specific:
+    "The cashier can pick the exact lot being sold; it is costed at that lot's price.",
+};
+
+/**
+ * How a costing method draws lots down and prices what it took. Lots are
+ * always drawn down for real so stock and expiry tracking stay exact; the
+ * methods differ in which lots go first and what cost is booked.
+ */
+export interface CostingStrategy {
+  // Lots arrive in allocation order (see compareLotsForAllocation)
+  orderLots(lots: InventoryLot[], preferredLotId?: string): InventoryLot[];
+  unitCost(
+    taken: LotAllocation[],
+    averageCost: Money,
+    baseCurrency: CurrencyCode
+  ): Money;
+}
+
+const toBase = (money: Money, baseCurrency: CurrencyCode) =>
+  convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+/**
+ * Weighted average unit cost of a product's lots on hand, in base currency
+ */
+export function getWeightedAverageCost(
+  lots: InventoryLot[],
+  baseCurrency: CurrencyCode
+): Money {
+  const quantity = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const value = lots.reduce(
+    (sum, lot) =>
+      sum + lot.remainingQuantity * toBase(lot.costPrice, baseCurrency),
+    0
+  );
+  return createMoney(quantity > 0 ? value / quantity : 0, baseCurrency);
+}
+
+// Average of the lots actually taken, each at its own cost
+const lotUnitCost: CostingStrategy["unitCost"] = (
+  taken,
+  averageCost,
+  baseCurrency
+) => {
+  const quantity = taken.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (quantity === 0) return averageCost;
+  const value = taken.reduce(
+    (sum, lot) => sum + lot.quantity * toBase(lot.costPrice, baseCurrency),
+    0
+  );
+  return createMoney(value / quantity, baseCurrency);
+};
+
+export const COSTING_STRATEGIES: Record<CostingMethod, CostingStrategy> = {
+  fifo: {
+    orderLots: (lots) => lots,
+    unitCost: lotUnitCost,
+  },
+  // Receipts revalue every open lot to the average (revalueLotsAtAverage),
+  // so the lots drawn down carry the same cost that is booked
+  weighted_average: {
+    orderLots: (lots) => lots,
+    unitCost: (_taken, averageCost) => averageCost,
+  },
+  specific: {
+    // The picked lot goes first; anything it can't cover falls back to FIFO
+    orderLots: (lots, preferredLotId) =>
+      preferredLotId
+        ? [
+            ...lots.filter((lot) => lot._id === preferredLotId),
+            ...lots.filter((lot) => lot._id !== preferredLotId),
+          ]
+        : lots,
+    unitCost: lotUnitCost,
+  },
+};
+
+export function getCostingStrategy(method?: CostingMethod): CostingStrategy {
+  return COSTING_STRATEGIES[method || "fifo"];
+}
+
+/**
+ * Stock on hand per product with what the units sold in a date range cost
+ * as booked, at the lots' own cost (FIFO) and at weighted average, so the
+ * effect of the costing method on COGS can be compared.
+ */
+export async function getInventoryValuationReport(
+  startDate: string,
+  endDate: string,
+  shopId?: string
+): Promise<InventoryValuationReport> {
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+
+  const rows = new Map<string, InventoryValuationRow>();
+  const rowFor = (product: {
+    productId: string;
+    productName: string;
+    productCode: string;
+  }) => {
+    let row = rows.get(product.productId);
+    if (!row) {
+      row = {
+        productId: product.productId,
+        productName: product.productName,
+        productCode: product.productCode,
+        onHand: 0,
+        value: 0,
+        averageUnitCost: 0,
+        unitsSold: 0,
+        cogsBooked: 0,
+        cogsAtLotCost: 0,
+        cogsAtAverage: 0,
+      };
+      rows.set(product.productId, row);
+    }
+    return row;
+  };
+
+  const lotsDB = await getInventoryLotsDB();
+  const lotsResult = await lotsDB.find({
+    selector: addShopIdFilter(
+      { type: "inventory_lot", remainingQuantity: { $gt: 0 } },
+      shopId
+    ),
+  });
+  for (const lot of lotsResult.docs as InventoryLot[]) {
+    const row = rowFor(lot);
+    row.onHand += lot.remainingQuantity;
+    row.value += lot.remainingQuantity * toBase(lot.costPrice, baseCurrency);
+  }
+
+  const salesDB = await getSalesDB();
+  const salesResult = await salesDB.find({
+    selector: addShopIdFilter(
+      { type: "sale", timestamp: { $gte: startDate, $lte: endDate } },
+      shopId
+    ),
+  });
+  for (const sale of salesResult.docs as SaleDoc[]) {
+    if (sale.voided) continue;
+    for (const item of sale.items) {
+      const row = rowFor(item);
+      const booked = item.qty * toBase(item.costPrice, baseCurrency);
+      // Bundles were taken from their components' lots. Sales from before
+      // lot tracking or averaging use the booked cost
+      const lots = item.components?.length
+        ? item.components.flatMap((component) => component.lotsUsed)
+        : item.lotsUsed;
+      const atLotCost = lots?.length
+        ? lots.reduce(
+            (sum, lot) =>
+              sum + lot.quantity * toBase(lot.costPrice, baseCurrency),
+            0
+          )
+        : booked;
+      const atAverage = item.averageCost
+        ? item.qty * toBase(item.averageCost, baseCurrency)
+        : booked;
+
+      row.unitsSold += item.qty;
+      row.cogsBooked += booked;
+      row.cogsAtLotCost += atLotCost;
+      row.cogsAtAverage += atAverage;
+    }
+  }
+
+  const sorted = Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      averageUnitCost: row.onHand > 0 ? row.value / row.onHand : 0,
+    }))
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+
+  const total = (field: keyof InventoryValuationRow) =>
+    sorted.reduce((sum, row) => sum + (row[field] as number), 0);
+
+  return {
+    method: settings?.costingMethod || "fifo",
+    rows: sorted,
+    totalValue: total("value"),
+    totalCogsBooked: total("cogsBooked"),
+    totalCogsAtLotCost: total("cogsAtLotCost"),
+    totalCogsAtAverage: total("cogsAtAverage"),
+    currency: baseCurrency,
+  };
+}
@@ -271,6 +271,12 @@ export async function getLocalDB(dbName: string): Promise<PouchDB.Database> {
     getLedgerDB,
     getInventoryLotsDB,
     getEODDB,
+    getCustomersDB,
+    getSuppliersDB,
+    getStockTakesDB,
+    getInventoryAdjustmentsDB,
+    getExpensesDB,
+    getFinancingDB,
   } = await import("./databases");
   const { getUsersDB } = await import("./usersDB");
   const { getSettingsDB } = await import("./settingsDB");
@@ -283,6 +289,12 @@ export async function getLocalDB(dbName: string): Promise<PouchDB.Database> {
     eod_cash_records: getEODDB,
     ledger: getLedgerDB,
     inventory_lots: getInventoryLotsDB,
+    customers: getCustomersDB,
+    suppliers: getSuppliersDB,
+    stock_takes: getStockTakesDB,
+    inventory_adjustments: getInventoryAdjustmentsDB,
+    expenses: getExpensesDB,
+    financing: getFinancingDB,
     users: getUsersDB,
     settings: getSettingsDB,
   };
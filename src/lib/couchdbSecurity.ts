@@ -164,6 +164,12 @@ export async function initializeShopSync(
       "inventory_lots",
       "cash_in_hand",
       "eod_cash_records",
+      "customers",
+      "suppliers",
+      "stock_takes",
+      "inventory_adjustments",
+      "expenses",
+      "financing",
       "settings",
       "users",
     ];
@@ -233,6 +239,12 @@ export async function ensureAllDatabasesExist(
     "inventory_lots",
     "cash_in_hand",
     "eod_cash_records",
+    "customers",
+    "suppliers",
+    "stock_takes",
+    "inventory_adjustments",
+    "expenses",
+    "financing",
     "settings",
     "users",
   ];
@@ -0,0 +1,320 @@
+import { getCustomersDB, getSalesDB } from "./databases";
+import { createCustomerPaymentEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { getSaleAmountByMethod } from "./salePayments";
+import { runTransaction } from "./transactions";
+import { SaleDoc, SaleReturnDoc } from "@/types";
+import {
+  CustomerDoc,
+  CustomerPaymentDoc,
+  CustomerStatementLine,
+  CustomerAging,
+} from "@/types/customers";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+/**
+ * Get all customers for a shop, sorted by name
+ */
+export async function getCustomers(
+  shopId?: string,
+  includeInactive = false
+): Promise<CustomerDoc[]> {
+  const customersDB = await getCustomersDB();
+
+  const result = await customersDB.find({
+    selector: addShopIdFilter({ type: "customer" }, shopId),
+  });
+
+  return (result.docs as CustomerDoc[])
+    .filter((customer) => includeInactive || customer.active)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a single customer by ID
+ */
+export async function getCustomer(
+  customerId: string
+): Promise<CustomerDoc | null> {
+  const customersDB = await getCustomersDB();
+  return (await customersDB
+    .get(customerId)
+    .catch(() => null)) as CustomerDoc | null;
+}
+
+/**
+ * Create or update a customer
+ */
+export async function saveCustomer(
+  customer: Omit<CustomerDoc, "_id" | "type" | "createdAt" | "updatedAt"> &
+    Partial<Pick<CustomerDoc, "_id" | "createdAt">>
+): Promise<CustomerDoc> {
+  const customersDB = await getCustomersDB();
+  const now = new Date().toISOString();
+
+  const doc: CustomerDoc = {
+    ...customer,
+    _id: customer._id || `customer_${Date.now()}`,
+    type: "customer",
+    createdAt: customer.createdAt || now,
+    updatedAt: now,
+  };
+
+  const response = await customersDB.put(doc);
+  return { ...doc, _rev: response.rev };
+}
+
+/**
+ * Build a customer's statement: credit sales, returns credited to their
+ * account and payments received, with a running balance in base currency
+ */
+export async function getCustomerStatement(
+  customerId: string,
+  shopId?: string
+): Promise<{
+  lines: CustomerStatementLine[];
+  balance: number;
+  currency: CurrencyCode;
+}> {
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const salesDB = await getSalesDB();
+  const customersDB = await getCustomersDB();
+
+  const salesResult = await salesDB.find({
+    selector: addShopIdFilter({ type: "sale", customerId }, shopId),
+  });
+  // Only the part of a sale put on credit is charged to the account. Voided
+  // sales were fully reversed, so they no longer appear on account
+  const sales = (salesResult.docs as SaleDoc[]).filter(
+    (sale) =>
+      !sale.voided && getSaleAmountByMethod(sale, "credit", baseCurrency) > 0
+  );
+
+  const saleIds = sales.map((sale) => sale._id);
+  const returnsResult =
+    saleIds.length > 0
+      ? await salesDB.find({
+          selector: addShopIdFilter(
+            {
+              type: "sale_return",
+              refundMethod: "credit",
+              saleId: { $in: saleIds },
+            },
+            shopId
+          ),
+        })
+      : { docs: [] };
+
+  const paymentsResult = await customersDB.find({
+    selector: addShopIdFilter({ type: "customer_payment", customerId }, shopId),
+  });
+
+  const unsorted: Omit<CustomerStatementLine, "balance">[] = [
+    ...sales.map((sale) => ({
+      timestamp: sale.timestamp,
+      kind: "sale" as const,
+      reference: sale._id,
+      description: `Sale (${sale.items.length} item${
+        sale.items.length === 1 ? "" : "s"
+      })`,
+      debit: getSaleAmountByMethod(sale, "credit", baseCurrency),
+      credit: 0,
+    })),
+    ...(returnsResult.docs as SaleReturnDoc[]).map((saleReturn) => ({
+      timestamp: saleReturn.timestamp,
+      kind: "return" as const,
+      reference: saleReturn._id,
+      description: saleReturn.reason
+        ? `Return: ${saleReturn.reason}`
+        : "Return",
+      debit: 0,
+      credit: toBase(saleReturn.totalAmount),
+    })),
+    ...(paymentsResult.docs as CustomerPaymentDoc[]).map((payment) => ({
+      timestamp: payment.timestamp,
+      kind: "payment" as const,
+      reference: payment._id,
+      description: payment.reference
+        ? `Payment (${payment.reference})`
+        : "Payment",
+      debit: 0,
+      credit: toBase(payment.amount),
+    })),
+  ].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  let balance = 0;
+  const lines = unsorted.map((line) => {
+    balance += line.debit - line.credit;
+    return { ...line, balance };
+  });
+
+  return { lines, balance, currency: baseCurrency };
+}
+
+/**
+ * Age a customer's outstanding balance. Credits are applied to the oldest
+ * sales first, and whatever remains of each sale is bucketed by its age.
+ */
+export function getCustomerAging(
+  lines: CustomerStatementLine[],
+  asOf: Date = new Date()
+): CustomerAging {
+  const outstanding = lines
+    .filter((line) => line.debit > 0)
+    .map((line) => ({ timestamp: line.timestamp, amount: line.debit }));
+
+  let credits = lines.reduce((sum, line) => sum + line.credit, 0);
+  for (const sale of outstanding) {
+    const applied = Math.min(sale.amount, credits);
+    sale.amount -= applied;
+    credits -= applied;
+  }
+
+  const aging: CustomerAging = {
+    current: 0,
+    days31to60: 0,
+    days61to90: 0,
+    over90: 0,
+    total: 0,
+  };
+
+  for (const sale of outstanding) {
+    if (sale.amount <= 0) continue;
+    const ageInDays =
+      (asOf.getTime() - new Date(sale.timestamp).getTime()) /
+      (24 * 60 * 60 * 1000);
+
+    if (ageInDays <= 30) {
+      aging.current += sale.amount;
+    } else if (ageInDays <= 60) {
+      aging.days31to60 += sale.amount;
+    } else if (ageInDays <= 90) {
+      aging.days61to90 += sale.amount;
+    } else {
+      aging.over90 += sale.amount;
+    }
+    aging.total += sale.amount;
+  }
+
+  return aging;
+}
+
+/**
+ * Check whether a new credit sale fits within a customer's credit limit.
+ * Returns an error message, or null when the sale is allowed.
+ */
+export async function checkCreditLimit(
+  customer: CustomerDoc,
+  saleAmount: Money,
+  shopId?: string
+): Promise<string | null> {
+  if (!customer.creditLimit) return null;
+
+  const { balance, currency } = await getCustomerStatement(
+    customer._id,
+    shopId
+  );
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, currency, 1, currency).amount;
+
+  const limit = toBase(customer.creditLimit);
+  const newBalance = balance + toBase(saleAmount);
+
+  if (newBalance > limit + 0.0001) {
+    return `This sale would take ${customer.name} to ${newBalance.toFixed(
+      2
+    )} ${currency}, over their credit limit of ${limit.toFixed(
+      2
+    )} ${currency} (current balance ${balance.toFixed(2)} ${currency})`;
+  }
+  return null;
+}
+
+/**
+ * Record money received from a customer against their balance
+ */
+export async function recordCustomerPayment(params: {
+  customerId: string;
+  amount: Money;
+  paymentMethod: CustomerPaymentDoc["paymentMethod"];
+  reference?: string;
+  notes?: string;
+  shopId?: string;
+  createdBy?: string;
+}): Promise<CustomerPaymentDoc> {
+  const { customerId, amount, paymentMethod, shopId, createdBy } = params;
+
+  if (amount.amount <= 0) {
+    throw new Error("Payment amount must be greater than 0");
+  }
+
+  const { balance, currency } = await getCustomerStatement(customerId, shopId);
+  const amountBase = convertMoneyWithRates(
+    amount,
+    currency,
+    1,
+    currency
+  ).amount;
+  if (amountBase > balance + 0.0001) {
+    throw new Error(
+      `Payment exceeds the outstanding balance of ${balance.toFixed(
+        2
+      )} ${currency}`
+    );
+  }
+
+  const now = new Date();
+  const paymentId = `customer_payment_${now.getTime()}`;
+
+  return runTransaction(
+    {
+      transactionType: "customer_payment",
+      transactionId: paymentId,
+      shopId,
+      createdBy,
+    },
+    async (tx) => {
+      const ledgerEntry = await tx.postLedgerEntry(paymentId, () =>
+        createCustomerPaymentEntry(
+          paymentId,
+          customerId,
+          amount,
+          paymentMethod,
+          now.toISOString(),
+          shopId,
+          createdBy
+        )
+      );
+
+      const paymentDoc: CustomerPaymentDoc = {
+        _id: paymentId,
+        type: "customer_payment",
+        customerId,
+        timestamp: now.toISOString(),
+        amount,
+        paymentMethod,
+        reference: params.reference || undefined,
+        notes: params.notes || undefined,
+        ledgerEntryId: ledgerEntry?._id,
+        shopId,
+        createdBy,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      await tx.putDoc("customers", paymentDoc);
+
+      return paymentDoc;
+    }
+  );
+}
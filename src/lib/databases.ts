@@ -5,6 +5,14 @@ export let cashInHandDB: PouchDB.Database;
 export let ledgerDB: PouchDB.Database;
 export let inventoryLotsDB: PouchDB.Database;
 export let eodDB: PouchDB.Database;
+export let transactionsDB: PouchDB.Database;
+export let customersDB: PouchDB.Database;
+export let suppliersDB: PouchDB.Database;
+export let heldSalesDB: PouchDB.Database;
+export let stockTakesDB: PouchDB.Database;
+export let inventoryAdjustmentsDB: PouchDB.Database;
+export let expensesDB: PouchDB.Database;
+export let financingDB: PouchDB.Database;
 
 export async function getProductsDB(): Promise<PouchDB.Database> {
   try {
@@ -353,3 +361,423 @@ export async function getEODDB(): Promise<PouchDB.Database> {
     );
   }
 }
+
+export async function getCustomersDB(): Promise<PouchDB.Database> {
+  try {
+    if (!customersDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      customersDB = new PouchDB("customers");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await customersDB.crypto(DB_KEY);
+      }
+
+      // Create indexes for customer and payment queries
+      try {
+        await customersDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "name"],
+            name: "customers_name_index",
+          },
+        });
+        await customersDB.createIndex({
+          index: {
+            fields: ["type", "customerId", "timestamp"],
+            name: "customer_payments_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating customers index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await customersDB.info();
+    }
+    return customersDB;
+  } catch (err) {
+    console.error("Error initializing customers database:", err);
+    throw new Error(
+      `Failed to initialize customers database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getSuppliersDB(): Promise<PouchDB.Database> {
+  try {
+    if (!suppliersDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      suppliersDB = new PouchDB("suppliers");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await suppliersDB.crypto(DB_KEY);
+      }
+
+      // Create indexes for supplier and payment queries
+      try {
+        await suppliersDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "name"],
+            name: "suppliers_name_index",
+          },
+        });
+        await suppliersDB.createIndex({
+          index: {
+            fields: ["type", "purchaseId", "timestamp"],
+            name: "supplier_payments_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating suppliers index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await suppliersDB.info();
+    }
+    return suppliersDB;
+  } catch (err) {
+    console.error("Error initializing suppliers database:", err);
+    throw new Error(
+      `Failed to initialize suppliers database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getStockTakesDB(): Promise<PouchDB.Database> {
+  try {
+    if (!stockTakesDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      stockTakesDB = new PouchDB("stock_takes");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await stockTakesDB.crypto(DB_KEY);
+      }
+
+      // Create indexes for stock take history and per-session counts
+      try {
+        await stockTakesDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "createdAt"],
+            name: "stock_takes_index",
+          },
+        });
+        await stockTakesDB.createIndex({
+          index: {
+            fields: ["type", "stockTakeId"],
+            name: "stock_counts_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating stock takes index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await stockTakesDB.info();
+    }
+    return stockTakesDB;
+  } catch (err) {
+    console.error("Error initializing stock takes database:", err);
+    throw new Error(
+      `Failed to initialize stock takes database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getInventoryAdjustmentsDB(): Promise<PouchDB.Database> {
+  try {
+    if (!inventoryAdjustmentsDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      inventoryAdjustmentsDB = new PouchDB("inventory_adjustments");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await inventoryAdjustmentsDB.crypto(DB_KEY);
+      }
+
+      // Create index for adjustment history by date
+      try {
+        await inventoryAdjustmentsDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "timestamp"],
+            name: "inventory_adjustments_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating inventory adjustments index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await inventoryAdjustmentsDB.info();
+    }
+    return inventoryAdjustmentsDB;
+  } catch (err) {
+    console.error("Error initializing inventory adjustments database:", err);
+    throw new Error(
+      `Failed to initialize inventory adjustments database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getExpensesDB(): Promise<PouchDB.Database> {
+  try {
+    if (!expensesDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      expensesDB = new PouchDB("expenses");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await expensesDB.crypto(DB_KEY);
+      }
+
+      // Create index for expenses by date
+      try {
+        await expensesDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "timestamp"],
+            name: "expenses_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating expenses index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await expensesDB.info();
+    }
+    return expensesDB;
+  } catch (err) {
+    console.error("Error initializing expenses database:", err);
+    throw new Error(
+      `Failed to initialize expenses database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getFinancingDB(): Promise<PouchDB.Database> {
+  try {
+    if (!financingDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      financingDB = new PouchDB("financing");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await financingDB.crypto(DB_KEY);
+      }
+
+      // Create index for owner transactions, loans and repayments by date
+      try {
+        await financingDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "timestamp"],
+            name: "financing_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating financing index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await financingDB.info();
+    }
+    return financingDB;
+  } catch (err) {
+    console.error("Error initializing financing database:", err);
+    throw new Error(
+      `Failed to initialize financing database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getTransactionsDB(): Promise<PouchDB.Database> {
+  try {
+    if (!transactionsDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      // Local-only journal of in-flight multi-database writes (never synced)
+      transactionsDB = new PouchDB("transactions");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await transactionsDB.crypto(DB_KEY);
+      }
+
+      // Create index for recovery queries
+      try {
+        await transactionsDB.createIndex({
+          index: {
+            fields: ["type", "status"],
+            name: "transactions_status_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating transactions index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await transactionsDB.info();
+    }
+    return transactionsDB;
+  } catch (err) {
+    console.error("Error initializing transactions database:", err);
+    throw new Error(
+      `Failed to initialize transactions database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
+
+export async function getHeldSalesDB(): Promise<PouchDB.Database> {
+  try {
+    if (!heldSalesDB) {
+      if (typeof window === "undefined") {
+        throw new Error(
+          "PouchDB operations are only supported in browser environment. For server-side operations, consider using a different database or API endpoints."
+        );
+      }
+
+      // Browser environment
+      const PouchDB = (await import("pouchdb-browser")).default;
+      const PouchDBFind = await import("pouchdb-find");
+      const crypto = await import("crypto-pouch");
+      PouchDB.plugin(PouchDBFind.default);
+      PouchDB.plugin(crypto.default);
+
+      // Local-only store of parked carts (never synced)
+      heldSalesDB = new PouchDB("held_sales");
+
+      const DB_KEY = process.env.NEXT_PUBLIC_DB_KEY || "default-insecure-key";
+      if (DB_KEY && DB_KEY !== "default-insecure-key") {
+        await heldSalesDB.crypto(DB_KEY);
+      }
+
+      // Create index for listing held carts
+      try {
+        await heldSalesDB.createIndex({
+          index: {
+            fields: ["type", "shopId", "createdAt"],
+            name: "held_sales_index",
+          },
+        });
+      } catch (err) {
+        console.error("Error creating held sales index:", err);
+        // Don't throw here as the index might already exist
+      }
+
+      // Verify database is accessible
+      await heldSalesDB.info();
+    }
+    return heldSalesDB;
+  } catch (err) {
+    console.error("Error initializing held sales database:", err);
+    throw new Error(
+      `Failed to initialize held sales database: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+}
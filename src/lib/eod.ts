@@ -1,4 +1,11 @@
-import { getSalesDB, getPurchasesDB } from "./databases";
+import {
+  getSalesDB,
+  getPurchasesDB,
+  getCustomersDB,
+  getSuppliersDB,
+  getExpensesDB,
+  getFinancingDB,
+} from "./databases";
 import {
   getEODRecord,
   saveEODRecord,
@@ -8,8 +15,18 @@ import {
   createVarianceLedgerEntry,
   createSurrenderLedgerEntry,
 } from "./eodAccounting";
+import { assertPeriodOpen } from "./periodClose";
 import { EODCashRecord, VarianceExplanation, VarianceType } from "@/types/eod";
-import { SaleDoc, PurchaseDoc } from "@/types";
+import { SaleDoc, PurchaseDoc, SaleReturnDoc } from "@/types";
+import { CustomerPaymentDoc } from "@/types/customers";
+import { SupplierPaymentDoc } from "@/types/suppliers";
+import { SupplierReturnDoc } from "@/types/supplierReturns";
+import { ExpenseDoc } from "@/types/expenses";
+import {
+  LoanDoc,
+  LoanRepaymentDoc,
+  OwnerTransactionDoc,
+} from "@/types/financing";
 import {
   Money,
   CurrencyCode,
@@ -21,6 +38,8 @@ import {
 import { getShopSettings } from "./settingsDB";
 import { addShopIdFilter } from "./queryHelpers";
 import { getTodayDate } from "./tradingDay";
+import { getStaleHeldSales } from "./heldSales";
+import { getSaleAmountByMethod } from "./salePayments";
 
 /**
  * Calculate expected closing balance for a given date and user
@@ -47,12 +66,12 @@ export async function calculateExpectedClosingBalance(
     const endDate = new Date(date);
     endDate.setHours(23, 59, 59, 999);
 
-    // Get cash sales for the day created by this user
+    // Get sales for the day created by this user. Split tender sales can
+    // carry a cash portion whatever their overall payment method
     const salesResult = await salesDB.find({
       selector: addShopIdFilter(
         {
           type: "sale",
-          paymentMethod: "cash",
           createdBy: userId, // ✅ Filter by user
           timestamp: {
             $gte: startDate.toISOString(),
@@ -79,6 +98,140 @@ export async function calculateExpectedClosingBalance(
       ),
     });
 
+    // Get sales voided on the day by this user. The cash portion is handed
+    // back then, whenever the sale itself was made
+    const voidedSalesResult = await salesDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "sale",
+          "voided.voidedBy": userId,
+          "voided.voidedAt": {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get purchases with landed costs on the day by this user. Those costs
+    // can be paid in cash whatever the purchase itself was paid with
+    const landedCostsResult = await purchasesDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "purchase",
+          createdBy: userId,
+          landedCosts: { $exists: true },
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get cash refunds paid out for returns on the day by this user
+    const returnsResult = await salesDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "sale_return",
+          refundMethod: "cash",
+          createdBy: userId,
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get cash collected from customers against their accounts by this user
+    const customersDB = await getCustomersDB();
+    const customerPaymentsResult = await customersDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "customer_payment",
+          paymentMethod: "cash",
+          createdBy: userId,
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get cash paid to suppliers against credit purchases by this user
+    const suppliersDB = await getSuppliersDB();
+    const supplierPaymentsResult = await suppliersDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "supplier_payment",
+          paymentMethod: "cash",
+          createdBy: userId,
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get cash refunded by suppliers for goods sent back by this user
+    const supplierRefundsResult = await purchasesDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "supplier_return",
+          refundMethod: "cash",
+          createdBy: userId,
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get expenses paid out of the till on the day by this user
+    const expensesDB = await getExpensesDB();
+    const expensesResult = await expensesDB.find({
+      selector: addShopIdFilter(
+        {
+          type: "expense",
+          paymentMethod: "cash",
+          createdBy: userId,
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
+    // Get owner drawings and capital, loans received and loan repayments
+    // that went through the till on the day by this user
+    const financingDB = await getFinancingDB();
+    const financingResult = await financingDB.find({
+      selector: addShopIdFilter(
+        {
+          type: { $in: ["owner_transaction", "loan", "loan_repayment"] },
+          paymentMethod: "cash",
+          createdBy: userId,
+          timestamp: {
+            $gte: startDate.toISOString(),
+            $lte: endDate.toISOString(),
+          },
+        },
+        shopId
+      ),
+    });
+
     // Get shop settings for currency conversion
     const settings = await getShopSettings(shopId);
     const baseCurrency = (settings?.baseCurrency ||
@@ -88,11 +241,18 @@ export async function calculateExpectedClosingBalance(
         baseCurrency as keyof typeof DEFAULT_EXCHANGE_RATES
       ] || 1;
 
-    // Calculate totals in base currency
+    // Calculate totals in base currency. A voided sale still took its cash
+    // on the day it was made; the refund is counted on the day it was voided
     const cashSales = (salesResult.docs as SaleDoc[]).reduce(
       (total: number, sale: SaleDoc) => {
-        const saleInBase = convertMoney(sale.totalAmount, BASE_CURRENCY, 1);
-        return total + saleInBase.amount;
+        return total + getSaleAmountByMethod(sale, "cash", BASE_CURRENCY);
+      },
+      0
+    );
+
+    const voidRefunds = (voidedSalesResult.docs as SaleDoc[]).reduce(
+      (total: number, sale: SaleDoc) => {
+        return total + getSaleAmountByMethod(sale, "cash", BASE_CURRENCY);
       },
       0
     );
@@ -109,11 +269,97 @@ export async function calculateExpectedClosingBalance(
       0
     );
 
+    const cashLandedCosts = (landedCostsResult.docs as PurchaseDoc[]).reduce(
+      (total: number, purchase: PurchaseDoc) =>
+        total +
+        (purchase.landedCosts || [])
+          .filter((cost) => cost.paymentMethod === "cash")
+          .reduce(
+            (sum, cost) =>
+              sum + convertMoney(cost.amount, BASE_CURRENCY, 1).amount,
+            0
+          ),
+      0
+    );
+
+    const cashRefunds =
+      voidRefunds +
+      (returnsResult.docs as SaleReturnDoc[]).reduce(
+        (total: number, saleReturn: SaleReturnDoc) => {
+          const refundInBase = convertMoney(
+            saleReturn.totalAmount,
+            BASE_CURRENCY,
+            1
+          );
+          return total + refundInBase.amount;
+        },
+        0
+      );
+
+    const customerPayments = (
+      customerPaymentsResult.docs as CustomerPaymentDoc[]
+    ).reduce((total: number, payment: CustomerPaymentDoc) => {
+      const paymentInBase = convertMoney(payment.amount, BASE_CURRENCY, 1);
+      return total + paymentInBase.amount;
+    }, 0);
+
+    const supplierPayments = (
+      supplierPaymentsResult.docs as SupplierPaymentDoc[]
+    ).reduce((total: number, payment: SupplierPaymentDoc) => {
+      const paymentInBase = convertMoney(payment.amount, BASE_CURRENCY, 1);
+      return total + paymentInBase.amount;
+    }, 0);
+
+    const supplierRefunds = (
+      supplierRefundsResult.docs as SupplierReturnDoc[]
+    ).reduce((total: number, supplierReturn: SupplierReturnDoc) => {
+      const refundInBase = convertMoney(
+        supplierReturn.totalValue,
+        BASE_CURRENCY,
+        1
+      );
+      return total + refundInBase.amount;
+    }, 0);
+
+    const cashExpenses = (expensesResult.docs as ExpenseDoc[]).reduce(
+      (total: number, expense: ExpenseDoc) => {
+        const expenseInBase = convertMoney(expense.amount, BASE_CURRENCY, 1);
+        return total + expenseInBase.amount;
+      },
+      0
+    );
+
+    // Loans and capital came into the till; drawings and repayments left it
+    let financingIn = 0;
+    let financingOut = 0;
+    for (const doc of financingResult.docs as Array<
+      OwnerTransactionDoc | LoanDoc | LoanRepaymentDoc
+    >) {
+      if (doc.type === "loan") {
+        financingIn += convertMoney(doc.principal, BASE_CURRENCY, 1).amount;
+      } else if (doc.type === "owner_transaction" && doc.kind !== "drawing") {
+        financingIn += convertMoney(doc.amount, BASE_CURRENCY, 1).amount;
+      } else {
+        financingOut += convertMoney(doc.amount, BASE_CURRENCY, 1).amount;
+      }
+    }
+
     // Convert opening balance to base currency
     const openingInBase = convertMoney(openingBalance, BASE_CURRENCY, 1);
 
     // Calculate expected closing balance
-    const expectedInBase = openingInBase.amount + cashSales - cashPurchases;
+    const expectedInBase =
+      openingInBase.amount +
+      cashSales +
+      customerPayments +
+      supplierRefunds +
+      financingIn -
+      cashPurchases -
+      cashLandedCosts -
+      cashRefunds -
+      supplierPayments -
+      cashExpenses -
+      financingOut;
 
     return {
       expectedClosingBalance: createMoney(
@@ -122,9 +368,21 @@ export async function calculateExpectedClosingBalance(
         baseExchangeRate
       ),
       cashSales: createMoney(cashSales, baseCurrency, baseExchangeRate),
-      cashPurchases: createMoney(cashPurchases, baseCurrency, baseExchangeRate),
-      otherCashIn: createMoney(0, baseCurrency, baseExchangeRate),
-      otherCashOut: createMoney(0, baseCurrency, baseExchangeRate),
+      cashPurchases: createMoney(
+        cashPurchases + cashLandedCosts,
+        baseCurrency,
+        baseExchangeRate
+      ),
+      otherCashIn: createMoney(
+        customerPayments + supplierRefunds + financingIn,
+        baseCurrency,
+        baseExchangeRate
+      ),
+      otherCashOut: createMoney(
+        cashRefunds + supplierPayments + cashExpenses + financingOut,
+        baseCurrency,
+        baseExchangeRate
+      ),
     };
   } catch (error) {
     console.error("Error calculating expected closing balance:", error);
@@ -263,6 +521,10 @@ export async function completeEOD(
   completedBy?: string
 ): Promise<EODCashRecord> {
   try {
+    // A day in a closed period can't be counted any more. Midday local
+    // time keeps the day on the right side of a close in any timezone.
+    await assertPeriodOpen(`${date.split("T")[0]}T12:00:00`, shopId);
+
     // Get opening balance for this user
     const openingBalance = await getOpeningBalance(date, userId, shopId);
 
@@ -369,6 +631,12 @@ export async function completeEOD(
       }
     }
 
+    // Flag carts left on hold from before this trading day
+    const staleHeldSales = await getStaleHeldSales(date.split("T")[0], shopId);
+    if (staleHeldSales.length > 0) {
+      eodRecord.staleHeldSaleIds = staleHeldSales.map((sale) => sale._id);
+    }
+
     // Save EOD record
     const savedRecord = await saveEODRecord(eodRecord);
 
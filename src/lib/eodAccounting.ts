@@ -1,5 +1,6 @@
 import { getLedgerDB } from "./databases";
 import { getShopSettings } from "./settingsDB";
+import { assertPeriodOpen } from "./periodClose";
 import { EODCashRecord } from "@/types/eod";
 import {
   CurrencyCode,
@@ -353,6 +354,7 @@ export async function createVarianceLedgerEntry(
       },
     };
 
+    await assertPeriodOpen(entry.timestamp, shopId);
     await ledgerDB.put(entry);
     return entry;
   } catch (error) {
@@ -396,52 +398,50 @@ export async function createSurrenderLedgerEntry(
 
     const lines: LedgerEntryLine[] = [];
 
-    // Determine account based on surrender method
-    let creditAccount: AccountCode;
+    // Determine where the surrendered cash goes based on surrender method
+    let debitAccount: AccountCode;
     let description: string;
 
     switch (eodRecord.surrenderMethod) {
       case "bank_deposit":
-        // For now, we'll use a bank account if it exists, otherwise use a temporary account
-        // In a full implementation, you'd have a BANK_ACCOUNT code
-        creditAccount = AccountCode.ACCOUNTS_RECEIVABLE; // Temporary - should be BANK_ACCOUNT
+        debitAccount = AccountCode.BANK;
         description = `Bank deposit - EOD ${eodRecord.date}`;
         break;
       case "owner_collection":
-        creditAccount = AccountCode.OWNERS_EQUITY; // Owner's drawings
+        debitAccount = AccountCode.OWNER_DRAWINGS;
         description = `Owner collection - EOD ${eodRecord.date}`;
         break;
       case "safe_deposit":
         // Cash moved to safe - still cash, but different location
         // For now, we'll use a separate account or keep as cash
-        creditAccount = AccountCode.CASH; // Could be CASH_IN_SAFE if that account exists
+        debitAccount = AccountCode.CASH; // Could be CASH_IN_SAFE if that account exists
         description = `Safe deposit - EOD ${eodRecord.date}`;
         break;
       default:
-        creditAccount = AccountCode.OWNERS_EQUITY;
+        debitAccount = AccountCode.OWNERS_EQUITY;
         description = `Cash surrender - EOD ${eodRecord.date}`;
     }
 
     lines.push(
       {
-        accountCode: creditAccount,
+        accountCode: debitAccount,
         description: description,
-        debit: createMoneyWithRates(
+        debit: surrenderInBase,
+        credit: createMoneyWithRates(
           0,
           baseCurrency,
           exchangeRates[baseCurrency]
         ),
-        credit: surrenderInBase,
       },
       {
         accountCode: AccountCode.CASH,
         description: `Cash surrendered - EOD ${eodRecord.date}`,
-        debit: surrenderInBase,
-        credit: createMoneyWithRates(
+        debit: createMoneyWithRates(
           0,
           baseCurrency,
           exchangeRates[baseCurrency]
         ),
+        credit: surrenderInBase,
       }
     );
 
@@ -471,6 +471,7 @@ export async function createSurrenderLedgerEntry(
       },
     };
 
+    await assertPeriodOpen(entry.timestamp, shopId);
     await ledgerDB.put(entry);
     return entry;
   } catch (error) {
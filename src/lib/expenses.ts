@@ -0,0 +1,183 @@
+import { getExpensesDB } from "./databases";
+import { createExpenseEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { runTransaction } from "./transactions";
+import { AccountCode } from "@/types/accounting";
+import {
+  ExpenseCategory,
+  ExpenseDoc,
+  ExpenseReceiptDoc,
+} from "@/types/expenses";
+import { Money } from "@/types/money";
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  rent: "Rent",
+  utilities: "Utilities",
+  communication: "Airtime & Data",
+  wages: "Wages",
+  transport: "Transport",
+  repairs: "Repairs",
+  other: "Other",
+};
+
+// Expense account each category posts to
+export const EXPENSE_CATEGORY_ACCOUNTS: Record<ExpenseCategory, AccountCode> =
+  {
+    rent: AccountCode.RENT,
+    utilities: AccountCode.UTILITIES,
+    communication: AccountCode.COMMUNICATION,
+    wages: AccountCode.WAGES,
+    transport: AccountCode.TRANSPORT,
+    repairs: AccountCode.REPAIRS,
+    other: AccountCode.OPERATING_EXPENSES,
+  };
+
+const getReceiptId = (expenseId: string) => `expense_receipt_${expenseId}`;
+
+// Base64 contents of a file, without the data URL prefix
+function readAsBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Record an expense and post it from the account it was paid out of to the
+ * category's expense account. A receipt photo, if given, is stored in its
+ * own document next to the expense.
+ */
+export async function recordExpense(params: {
+  category: ExpenseCategory;
+  description: string;
+  payee?: string;
+  amount: Money;
+  paymentMethod: ExpenseDoc["paymentMethod"];
+  reference?: string;
+  receipt?: Blob | null;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<ExpenseDoc> {
+  const description = params.description.trim();
+  if (!description) {
+    throw new Error("Say what the expense was for");
+  }
+  if (!(params.amount.amount > 0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+
+  const expenseId = `expense_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+  const receiptData = params.receipt
+    ? await readAsBase64(params.receipt)
+    : null;
+
+  return runTransaction(
+    {
+      transactionType: "expense",
+      transactionId: expenseId,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+    },
+    async (tx) => {
+      const entry = await tx.postLedgerEntry(expenseId, () =>
+        createExpenseEntry(
+          expenseId,
+          EXPENSE_CATEGORY_ACCOUNTS[params.category],
+          params.amount,
+          params.paymentMethod,
+          `${EXPENSE_CATEGORY_LABELS[params.category]}: ${description}`,
+          timestamp,
+          params.shopId,
+          params.createdBy,
+          {
+            category: params.category,
+            payee: params.payee?.trim() || null,
+          }
+        )
+      );
+
+      const doc: ExpenseDoc = {
+        _id: expenseId,
+        type: "expense",
+        category: params.category,
+        description,
+        payee: params.payee?.trim() || undefined,
+        amount: params.amount,
+        paymentMethod: params.paymentMethod,
+        reference: params.reference?.trim() || undefined,
+        timestamp,
+        ledgerEntryId: entry?._id,
+        hasReceipt: !!params.receipt,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdByName: params.createdByName,
+        createdAt: timestamp,
+      };
+      await tx.putDoc("expenses", doc);
+
+      if (params.receipt && receiptData) {
+        const receipt: ExpenseReceiptDoc = {
+          _id: getReceiptId(expenseId),
+          type: "expense_receipt",
+          expenseId,
+          contentType: params.receipt.type || "image/jpeg",
+          data: receiptData,
+          shopId: params.shopId,
+          createdAt: timestamp,
+        };
+        await tx.putDoc("expenses", receipt);
+      }
+
+      return doc;
+    }
+  );
+}
+
+/**
+ * Get the expenses paid in a date range, newest first
+ */
+export async function getExpenses(
+  startDate: string,
+  endDate: string,
+  shopId?: string
+): Promise<ExpenseDoc[]> {
+  const expensesDB = await getExpensesDB();
+
+  const result = await expensesDB.find({
+    selector: addShopIdFilter(
+      {
+        type: "expense",
+        timestamp: { $gte: startDate, $lte: endDate },
+      },
+      shopId
+    ),
+  });
+
+  return (result.docs as ExpenseDoc[]).sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp)
+  );
+}
+
+/**
+ * Get the receipt photo kept with an expense, if there is one
+ */
+export async function getExpenseReceipt(
+  expenseId: string
+): Promise<Blob | null> {
+  const expensesDB = await getExpensesDB();
+  let receipt: ExpenseReceiptDoc;
+  try {
+    receipt = (await expensesDB.get(
+      getReceiptId(expenseId)
+    )) as ExpenseReceiptDoc;
+  } catch {
+    return null;
+  }
+
+  const bytes = Uint8Array.from(atob(receipt.data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: receipt.contentType });
+}
@@ -0,0 +1,425 @@
+import { getFinancingDB, getProductsDB } from "./databases";
+import {
+  createOwnerTransactionEntry,
+  createLoanEntry,
+  createLoanRepaymentEntry,
+} from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { runTransaction } from "./transactions";
+import { ProductDoc } from "@/types";
+import {
+  FinancingPaymentMethod,
+  LoanDoc,
+  LoanInstallment,
+  LoanRepaymentDoc,
+  OwnerTransactionDoc,
+  OwnerTransactionKind,
+} from "@/types/financing";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+export const OWNER_TRANSACTION_LABELS: Record<OwnerTransactionKind, string> = {
+  drawing: "Owner Drawing",
+  capital_injection: "Capital Injection",
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Monthly repayment schedule paying the principal off in equal parts, with
+ * interest charged each month on the balance still owed
+ */
+export function buildLoanSchedule(
+  principal: Money,
+  monthlyInterestRate: number,
+  installments: number,
+  firstDueDate: string // YYYY-MM-DD
+): LoanInstallment[] {
+  const count = Math.max(1, Math.floor(installments));
+  const part = roundMoney(principal.amount / count);
+  const [year, month, day] = firstDueDate.split("-").map(Number);
+
+  const schedule: LoanInstallment[] = [];
+  let balance = principal.amount;
+  for (let i = 0; i < count; i++) {
+    // The last installment takes whatever rounding left over
+    const principalPart = i === count - 1 ? roundMoney(balance) : part;
+    const dueDate = new Date(year, month - 1 + i, day);
+    schedule.push({
+      dueDate: [
+        dueDate.getFullYear(),
+        String(dueDate.getMonth() + 1).padStart(2, "0"),
+        String(dueDate.getDate()).padStart(2, "0"),
+      ].join("-"),
+      principal: { ...principal, amount: principalPart },
+      interest: {
+        ...principal,
+        amount: roundMoney((balance * monthlyInterestRate) / 100),
+      },
+    });
+    balance -= principalPart;
+  }
+  return schedule;
+}
+
+/**
+ * Principal still owed on a loan
+ */
+export function getLoanBalance(loan: LoanDoc): Money {
+  const outstanding = loan.schedule
+    .filter((installment) => !installment.repaymentId)
+    .reduce((sum, installment) => sum + installment.principal.amount, 0);
+  return { ...loan.principal, amount: roundMoney(outstanding) };
+}
+
+/**
+ * Record the owner taking cash or stock out of the shop, or putting their
+ * own money in. Stock drawings leave the oldest lots (per the costing
+ * method) and are valued at cost.
+ */
+export async function recordOwnerTransaction(params: {
+  kind: OwnerTransactionKind;
+  description: string;
+  amount?: Money; // Cash moved; worked out from cost for stock drawings
+  paymentMethod: OwnerTransactionDoc["paymentMethod"];
+  productId?: string;
+  quantity?: number;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<OwnerTransactionDoc> {
+  const description = params.description.trim();
+  if (!description) {
+    throw new Error("Say what the money or stock was for");
+  }
+  const isStock = params.paymentMethod === "stock";
+  if (isStock && params.kind !== "drawing") {
+    throw new Error("Only drawings can be made in stock");
+  }
+  if (isStock) {
+    if (!params.productId) {
+      throw new Error("Choose the product taken");
+    }
+    if (!params.quantity || params.quantity <= 0) {
+      throw new Error("Quantity must be greater than zero");
+    }
+  } else if (!params.amount || !(params.amount.amount > 0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+
+  const product = isStock
+    ? ((await (await getProductsDB()).get(
+        params.productId as string
+      )) as ProductDoc)
+    : null;
+
+  const settings = await getShopSettings(params.shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const transactionId = `owner_transaction_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  return runTransaction(
+    {
+      transactionType: "owner_transaction",
+      transactionId,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+    },
+    async (tx) => {
+      let amount = params.amount as Money;
+      let lots: OwnerTransactionDoc["lots"];
+      if (product) {
+        const quantity = params.quantity as number;
+        const allocation = await tx.allocateLots(
+          product._id,
+          quantity,
+          params.shopId
+        );
+        lots = allocation.lots;
+        amount = createMoney(
+          quantity * toBase(allocation.unitCost),
+          baseCurrency
+        );
+        await tx.updateProduct(product._id, -quantity);
+      }
+
+      const label = OWNER_TRANSACTION_LABELS[params.kind];
+      const entry = await tx.postLedgerEntry(transactionId, () =>
+        createOwnerTransactionEntry(
+          transactionId,
+          params.kind,
+          amount,
+          params.paymentMethod,
+          product
+            ? `${label}: ${params.quantity} x ${product.name}`
+            : `${label}: ${description}`,
+          timestamp,
+          params.shopId,
+          params.createdBy,
+          product
+            ? { productId: product._id, quantity: params.quantity ?? null }
+            : undefined
+        )
+      );
+
+      const doc: OwnerTransactionDoc = {
+        _id: transactionId,
+        type: "owner_transaction",
+        kind: params.kind,
+        description,
+        amount,
+        paymentMethod: params.paymentMethod,
+        productId: product?._id,
+        productName: product?.name,
+        quantity: product ? params.quantity : undefined,
+        lots,
+        timestamp,
+        ledgerEntryId: entry?._id,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdByName: params.createdByName,
+        createdAt: timestamp,
+      };
+      await tx.putDoc("financing", doc);
+
+      return doc;
+    }
+  );
+}
+
+/**
+ * Record money the shop has borrowed and the schedule it will be paid
+ * back on. The principal posts to Loans Payable.
+ */
+export async function recordLoan(params: {
+  lender: string;
+  description?: string;
+  principal: Money;
+  monthlyInterestRate: number;
+  installments: number;
+  firstDueDate: string; // YYYY-MM-DD
+  paymentMethod: FinancingPaymentMethod;
+  reference?: string;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<LoanDoc> {
+  const lender = params.lender.trim();
+  if (!lender) {
+    throw new Error("Say who lent the money");
+  }
+  if (!(params.principal.amount > 0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+  if (params.monthlyInterestRate < 0) {
+    throw new Error("Interest rate can't be negative");
+  }
+  if (!(params.installments >= 1)) {
+    throw new Error("A loan needs at least one repayment");
+  }
+  if (!params.firstDueDate) {
+    throw new Error("Choose when the first repayment is due");
+  }
+
+  const loanId = `loan_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  return runTransaction(
+    {
+      transactionType: "loan",
+      transactionId: loanId,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+    },
+    async (tx) => {
+      const entry = await tx.postLedgerEntry(loanId, () =>
+        createLoanEntry(
+          loanId,
+          params.principal,
+          params.paymentMethod,
+          `Loan from ${lender}`,
+          timestamp,
+          params.shopId,
+          params.createdBy,
+          { lender }
+        )
+      );
+
+      const doc: LoanDoc = {
+        _id: loanId,
+        type: "loan",
+        lender,
+        description: params.description?.trim() || undefined,
+        principal: params.principal,
+        monthlyInterestRate: params.monthlyInterestRate,
+        paymentMethod: params.paymentMethod,
+        reference: params.reference?.trim() || undefined,
+        timestamp,
+        schedule: buildLoanSchedule(
+          params.principal,
+          params.monthlyInterestRate,
+          params.installments,
+          params.firstDueDate
+        ),
+        status: "active",
+        ledgerEntryId: entry?._id,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdByName: params.createdByName,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await tx.putDoc("financing", doc);
+
+      return doc;
+    }
+  );
+}
+
+/**
+ * Pay the next installment due on a loan. The loan is marked repaid once
+ * every installment has been paid.
+ */
+export async function recordLoanRepayment(params: {
+  loanId: string;
+  paymentMethod: FinancingPaymentMethod;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<LoanRepaymentDoc> {
+  const financingDB = await getFinancingDB();
+  const loan = (await financingDB.get(params.loanId)) as LoanDoc;
+  const index = loan.schedule.findIndex(
+    (installment) => !installment.repaymentId
+  );
+  if (index === -1) {
+    throw new Error(`The loan from ${loan.lender} is already repaid`);
+  }
+  const installment = loan.schedule[index];
+
+  const repaymentId = `loan_repayment_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  return runTransaction(
+    {
+      transactionType: "loan_repayment",
+      transactionId: repaymentId,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+    },
+    async (tx) => {
+      const entry = await tx.postLedgerEntry(repaymentId, () =>
+        createLoanRepaymentEntry(
+          repaymentId,
+          installment.principal,
+          installment.interest,
+          params.paymentMethod,
+          `Repayment ${index + 1} of ${loan.schedule.length} to ${
+            loan.lender
+          }`,
+          timestamp,
+          params.shopId,
+          params.createdBy,
+          { loanId: loan._id, lender: loan.lender }
+        )
+      );
+
+      const doc: LoanRepaymentDoc = {
+        _id: repaymentId,
+        type: "loan_repayment",
+        loanId: loan._id,
+        lender: loan.lender,
+        installment: index,
+        principal: installment.principal,
+        interest: installment.interest,
+        amount: {
+          ...installment.principal,
+          amount: roundMoney(
+            installment.principal.amount + installment.interest.amount
+          ),
+        },
+        paymentMethod: params.paymentMethod,
+        timestamp,
+        ledgerEntryId: entry?._id,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdByName: params.createdByName,
+        createdAt: timestamp,
+      };
+      await tx.putDoc("financing", doc);
+
+      await tx.updateDoc<LoanDoc>("financing", loan._id, (current) => {
+        // Someone else paid it since we looked
+        if (current.schedule[index].repaymentId) {
+          throw new Error("This installment has already been paid");
+        }
+        const schedule = current.schedule.map((item, i) =>
+          i === index ? { ...item, repaymentId, paidAt: timestamp } : item
+        );
+        return {
+          ...current,
+          schedule,
+          status: schedule.every((item) => item.repaymentId)
+            ? "repaid"
+            : "active",
+          updatedAt: timestamp,
+        };
+      });
+
+      return doc;
+    }
+  );
+}
+
+/**
+ * Get the owner's drawings and capital injections in a date range, newest
+ * first
+ */
+export async function getOwnerTransactions(
+  startDate: string,
+  endDate: string,
+  shopId?: string
+): Promise<OwnerTransactionDoc[]> {
+  const financingDB = await getFinancingDB();
+
+  const result = await financingDB.find({
+    selector: addShopIdFilter(
+      {
+        type: "owner_transaction",
+        timestamp: { $gte: startDate, $lte: endDate },
+      },
+      shopId
+    ),
+  });
+
+  return (result.docs as OwnerTransactionDoc[]).sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp)
+  );
+}
+
+/**
+ * Get every loan, ones still being repaid first, then newest first
+ */
+export async function getLoans(shopId?: string): Promise<LoanDoc[]> {
+  const financingDB = await getFinancingDB();
+
+  const result = await financingDB.find({
+    selector: addShopIdFilter({ type: "loan" }, shopId),
+  });
+
+  return (result.docs as LoanDoc[]).sort(
+    (a, b) =>
+      Number(a.status === "repaid") - Number(b.status === "repaid") ||
+      b.timestamp.localeCompare(a.timestamp)
+  );
+}
@@ -0,0 +1,80 @@
+import { getHeldSalesDB } from "./databases";
+import { addShopIdFilter } from "./queryHelpers";
+import { HeldSaleDoc } from "@/types/heldSales";
+
+/**
+ * Park a cart. Passing an existing _id updates that held sale in place.
+ */
+export async function holdSale(
+  sale: Omit<HeldSaleDoc, "_id" | "type" | "createdAt" | "updatedAt"> &
+    Partial<Pick<HeldSaleDoc, "_id" | "_rev" | "createdAt">>
+): Promise<HeldSaleDoc> {
+  const heldSalesDB = await getHeldSalesDB();
+  const now = new Date().toISOString();
+
+  const doc: HeldSaleDoc = {
+    ...sale,
+    _id: sale._id || `held_sale_${Date.now()}`,
+    type: "held_sale",
+    createdAt: sale.createdAt || now,
+    updatedAt: now,
+  };
+
+  const response = await heldSalesDB.put(doc);
+  return { ...doc, _rev: response.rev };
+}
+
+/**
+ * Get every cart held on this device for a shop, oldest first
+ */
+export async function getHeldSales(shopId?: string): Promise<HeldSaleDoc[]> {
+  const heldSalesDB = await getHeldSalesDB();
+
+  const result = await heldSalesDB.find({
+    selector: addShopIdFilter({ type: "held_sale" }, shopId),
+  });
+
+  return (result.docs as HeldSaleDoc[]).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * Get a single held sale by ID
+ */
+export async function getHeldSale(
+  heldSaleId: string
+): Promise<HeldSaleDoc | null> {
+  const heldSalesDB = await getHeldSalesDB();
+  return (await heldSalesDB
+    .get(heldSaleId)
+    .catch(() => null)) as HeldSaleDoc | null;
+}
+
+/**
+ * Remove a held sale, once it has been resumed or discarded
+ */
+export async function removeHeldSale(heldSaleId: string): Promise<void> {
+  const heldSalesDB = await getHeldSalesDB();
+  const doc = await heldSalesDB.get(heldSaleId).catch(() => null);
+  if (doc) {
+    await heldSalesDB.remove(doc);
+  }
+}
+
+/**
+ * Held carts parked before the given trading day (YYYY-MM-DD) started.
+ * These should have been completed or discarded by now.
+ */
+export async function getStaleHeldSales(
+  date: string,
+  shopId?: string
+): Promise<HeldSaleDoc[]> {
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const heldSales = await getHeldSales(shopId);
+  return heldSales.filter(
+    (heldSale) => new Date(heldSale.createdAt) < startOfDay
+  );
+}
@@ -1,4 +1,8 @@
 import { getInventoryLotsDB } from "./databases";
+import { getLandedUnitCost } from "./landedCosts";
+import { getCostingStrategy, getWeightedAverageCost } from "./costing";
+import { getShopSettings } from "./settingsDB";
+import { roundQuantity } from "./units";
 import {
   InventoryLot,
   PurchaseItem,
@@ -6,7 +10,13 @@ import {
   PurchaseDoc,
   SaleDoc,
 } from "@/types";
-import { Money } from "@/types/money";
+import { CostAllocation, LotAllocation } from "@/types/costing";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  convertMoneyWithRates,
+} from "@/types/money";
 
 /**
  * Create inventory lots from a purchase
@@ -16,7 +26,8 @@ export async function createInventoryLots(
   purchaseTimestamp: string,
   items: PurchaseItem[],
   supplier?: string,
-  shopId?: string
+  shopId?: string,
+  supplierId?: string
 ): Promise<InventoryLot[]> {
   const lotsDB = await getInventoryLotsDB();
   const now = new Date().toISOString();
@@ -37,8 +48,11 @@ export async function createInventoryLots(
       purchaseTimestamp,
       quantity: item.qty,
       remainingQuantity: item.qty, // Initially all remaining
-      costPrice: item.costPrice,
+      costPrice: getLandedUnitCost(item), // Supplier price plus landed costs
+      batchNumber: item.batchNumber,
+      expiryDate: item.expiryDate,
       supplier,
+      supplierId,
       shopId,
       createdAt: now,
       updatedAt: now,
@@ -52,7 +66,103 @@ export async function createInventoryLots(
 }
 
 /**
- * Get available inventory lots for a product (FIFO order - oldest first)
+ * Under weighted average costing, move every open lot of the given
+ * products to their new moving average cost after a receipt. Lots are then
+ * always drawn down at the same cost that is booked to COGS, so the ledger's
+ * Inventory balance stays equal to the lots' value. Other methods keep each
+ * lot at its own cost. onLotRevalued is called before each lot is written
+ * with the cost it had, so callers can journal the change.
+ * Returns how much the lots' total value changed, in base currency; only
+ * rounding and currency conversion make it anything but zero.
+ */
+export async function revalueLotsAtAverage(
+  productIds: string[],
+  shopId?: string,
+  onLotRevalued?: (lot: { lotId: string; costPrice: Money }) => Promise<void>
+): Promise<number> {
+  const settings = await getShopSettings(shopId);
+  if (settings?.costingMethod !== "weighted_average") {
+    return 0;
+  }
+  const baseCurrency = (settings.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+  const lotsDB = await getInventoryLotsDB();
+  let valueChange = 0;
+
+  for (const productId of new Set(productIds)) {
+    const lots = await getAvailableLotsForProduct(productId, shopId);
+    const averageCost = getWeightedAverageCost(lots, baseCurrency);
+    for (const lot of lots) {
+      if (
+        lot.costPrice.currency === averageCost.currency &&
+        lot.costPrice.amount === averageCost.amount
+      ) {
+        continue;
+      }
+      await onLotRevalued?.({ lotId: lot._id, costPrice: lot.costPrice });
+      await lotsDB.put({
+        ...lot,
+        costPrice: averageCost,
+        updatedAt: new Date().toISOString(),
+      });
+      valueChange +=
+        lot.remainingQuantity * (toBase(averageCost) - toBase(lot.costPrice));
+    }
+  }
+
+  return valueChange;
+}
+
+/**
+ * Products that still have stock in at least one lot
+ */
+export async function getProductIdsWithStock(
+  shopId?: string
+): Promise<string[]> {
+  const lotsDB = await getInventoryLotsDB();
+
+  const selector: {
+    type: string;
+    shopId?: string;
+    remainingQuantity: { $gt: number };
+  } = {
+    type: "inventory_lot",
+    remainingQuantity: { $gt: 0 },
+  };
+  if (shopId) {
+    selector.shopId = shopId;
+  }
+
+  const result = await lotsDB.find({ selector });
+  return Array.from(
+    new Set((result.docs as InventoryLot[]).map((lot) => lot.productId))
+  );
+}
+
+/**
+ * Order lots for allocation: lots with an expiry date first, soonest
+ * expiry first (FEFO), then the rest oldest purchase first (FIFO)
+ */
+export function compareLotsForAllocation(
+  a: InventoryLot,
+  b: InventoryLot
+): number {
+  if (a.expiryDate && b.expiryDate && a.expiryDate !== b.expiryDate) {
+    return a.expiryDate.localeCompare(b.expiryDate);
+  }
+  if (a.expiryDate && !b.expiryDate) return -1;
+  if (!a.expiryDate && b.expiryDate) return 1;
+  return (
+    new Date(a.purchaseTimestamp).getTime() -
+    new Date(b.purchaseTimestamp).getTime()
+  );
+}
+
+/**
+ * Get available inventory lots for a product, in the order they should be
+ * sold from (see compareLotsForAllocation)
  */
 export async function getAvailableLotsForProduct(
   productId: string,
@@ -76,31 +186,30 @@ export async function getAvailableLotsForProduct(
 
   const result = await lotsDB.find({ selector });
 
-  // Sort in JavaScript for FIFO (oldest first)
+  // Sort in JavaScript: FEFO for dated lots, then FIFO (oldest first)
   const lots = result.docs as InventoryLot[];
-  return lots.sort(
-    (a, b) =>
-      new Date(a.purchaseTimestamp).getTime() -
-      new Date(b.purchaseTimestamp).getTime()
-  );
+  return lots.sort(compareLotsForAllocation);
 }
 
 /**
- * Allocate inventory using FIFO method for a sale item
- * Returns the lots used and updates their remaining quantities
+ * Allocate inventory for a sale item under the shop's costing method. Lots
+ * are drawn first-expired-first-out, then FIFO, except that specific
+ * identification takes the picked lot first.
+ * Returns the lots used, updates their remaining quantities and prices the
+ * units taken. onLotAllocated is called before each lot is written, so
+ * callers can journal partial allocations.
  */
-export async function allocateInventoryFIFO(
+export async function allocateInventory(
   productId: string,
   quantity: number,
-  shopId?: string
-): Promise<
-  Array<{
+  shopId?: string,
+  onLotAllocated?: (lot: {
     lotId: string;
-    purchaseRunId: string;
     quantity: number;
-    costPrice: Money;
-  }>
-> {
+    remainingBefore: number;
+  }) => Promise<void>,
+  preferredLotId?: string
+): Promise<CostAllocation> {
   const lotsDB = await getInventoryLotsDB();
   const availableLots = await getAvailableLotsForProduct(productId, shopId);
 
@@ -108,16 +217,16 @@ export async function allocateInventoryFIFO(
     throw new Error(`No inventory available for product ${productId}`);
   }
 
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const strategy = getCostingStrategy(settings?.costingMethod);
+  const averageCost = getWeightedAverageCost(availableLots, baseCurrency);
+
   let remainingToAllocate = quantity;
-  const lotsUsed: Array<{
-    lotId: string;
-    purchaseRunId: string;
-    quantity: number;
-    costPrice: Money;
-  }> = [];
+  const lotsUsed: LotAllocation[] = [];
 
-  // Allocate from oldest lots first (FIFO)
-  for (const lot of availableLots) {
+  for (const lot of strategy.orderLots(availableLots, preferredLotId)) {
     if (remainingToAllocate <= 0) break;
 
     const quantityFromThisLot = Math.min(
@@ -125,10 +234,18 @@ export async function allocateInventoryFIFO(
       remainingToAllocate
     );
 
+    await onLotAllocated?.({
+      lotId: lot._id,
+      quantity: quantityFromThisLot,
+      remainingBefore: lot.remainingQuantity,
+    });
+
     // Update lot remaining quantity
     const updatedLot = {
       ...lot,
-      remainingQuantity: lot.remainingQuantity - quantityFromThisLot,
+      remainingQuantity: roundQuantity(
+        lot.remainingQuantity - quantityFromThisLot
+      ),
       updatedAt: new Date().toISOString(),
     };
     await lotsDB.put(updatedLot);
@@ -140,7 +257,9 @@ export async function allocateInventoryFIFO(
       costPrice: lot.costPrice,
     });
 
-    remainingToAllocate -= quantityFromThisLot;
+    remainingToAllocate = roundQuantity(
+      remainingToAllocate - quantityFromThisLot
+    );
   }
 
   if (remainingToAllocate > 0) {
@@ -151,9 +270,136 @@ export async function allocateInventoryFIFO(
     );
   }
 
+  return {
+    lots: lotsUsed,
+    unitCost: strategy.unitCost(lotsUsed, averageCost, baseCurrency),
+    averageCost,
+  };
+}
+
+/**
+ * Take quantities out of specific lots (e.g. damaged goods from a known
+ * delivery). onLotTaken is called before each lot is written, so callers can
+ * journal partial writes.
+ */
+export async function takeFromInventoryLots(
+  lots: Array<{ lotId: string; quantity: number }>,
+  onLotTaken?: (lot: {
+    lotId: string;
+    quantity: number;
+    remainingBefore: number;
+  }) => Promise<void>
+): Promise<
+  Array<{
+    lotId: string;
+    purchaseRunId: string;
+    quantity: number;
+    costPrice: Money;
+  }>
+> {
+  const lotsDB = await getInventoryLotsDB();
+  const lotsUsed: Array<{
+    lotId: string;
+    purchaseRunId: string;
+    quantity: number;
+    costPrice: Money;
+  }> = [];
+
+  for (const entry of lots) {
+    if (entry.quantity <= 0) continue;
+
+    const lot = (await lotsDB.get(entry.lotId)) as InventoryLot;
+    if (entry.quantity > lot.remainingQuantity) {
+      throw new Error(
+        `Cannot take ${entry.quantity} from lot ${lot._id}: only ${lot.remainingQuantity} left`
+      );
+    }
+
+    await onLotTaken?.({
+      lotId: lot._id,
+      quantity: entry.quantity,
+      remainingBefore: lot.remainingQuantity,
+    });
+    await lotsDB.put({
+      ...lot,
+      remainingQuantity: roundQuantity(lot.remainingQuantity - entry.quantity),
+      updatedAt: new Date().toISOString(),
+    });
+
+    lotsUsed.push({
+      lotId: lot._id,
+      purchaseRunId: lot.purchaseRunId,
+      quantity: entry.quantity,
+      costPrice: lot.costPrice,
+    });
+  }
+
   return lotsUsed;
 }
 
+/**
+ * Put quantities back into the exact lots they were allocated from
+ * (e.g. when goods from a sale are returned)
+ */
+export async function restockInventoryLots(
+  lots: Array<{ lotId: string; quantity: number }>
+): Promise<void> {
+  const lotsDB = await getInventoryLotsDB();
+
+  for (const entry of lots) {
+    if (entry.quantity <= 0) continue;
+
+    const lot = (await lotsDB.get(entry.lotId)) as InventoryLot;
+    const restoredQuantity = roundQuantity(
+      lot.remainingQuantity + entry.quantity
+    );
+
+    if (restoredQuantity > lot.quantity) {
+      throw new Error(
+        `Cannot restock ${entry.quantity} into lot ${lot._id}: it would exceed the ${lot.quantity} originally purchased`
+      );
+    }
+
+    await lotsDB.put({
+      ...lot,
+      remainingQuantity: restoredQuantity,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Lots with stock left that expire within the given number of days,
+ * including any already past their expiry date. Soonest expiry first.
+ */
+export async function getExpiringLots(
+  withinDays: number,
+  shopId?: string
+): Promise<InventoryLot[]> {
+  const lotsDB = await getInventoryLotsDB();
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() + withinDays);
+  const cutoffDate = cutoff.toISOString().slice(0, 10);
+
+  const selector: {
+    type: string;
+    shopId?: string;
+    remainingQuantity: { $gt: number };
+    expiryDate: { $lte: string };
+  } = {
+    type: "inventory_lot",
+    remainingQuantity: { $gt: 0 },
+    expiryDate: { $lte: cutoffDate },
+  };
+  if (shopId) {
+    selector.shopId = shopId;
+  }
+
+  const result = await lotsDB.find({ selector });
+  return (result.docs as InventoryLot[]).sort(compareLotsForAllocation);
+}
+
 /**
  * Get lots for a specific purchase run
  */
@@ -182,6 +428,39 @@ export async function getLotsByPurchaseRun(
   );
 }
 
+/**
+ * Lots a sale line drew from, including a bundle's component lots, with the
+ * product each came out of and its share of the line's unit price. A
+ * bundle's price is shared between its components by cost.
+ */
+function getSaleItemLots(item: SaleItem): Array<{
+  productId: string;
+  unitPrice: number;
+  lot: NonNullable<SaleItem["lotsUsed"]>[number];
+}> {
+  const bundleCost = (item.components || []).reduce(
+    (sum, component) => sum + component.costPrice.amount * component.quantity,
+    0
+  );
+  return [
+    ...(item.lotsUsed || []).map((lot) => ({
+      productId: item.productId,
+      unitPrice: item.price.amount,
+      lot,
+    })),
+    ...(item.components || []).flatMap((component) =>
+      component.lotsUsed.map((lot) => ({
+        productId: component.productId,
+        unitPrice:
+          bundleCost > 0
+            ? (item.price.amount * component.costPrice.amount) / bundleCost
+            : 0,
+        lot,
+      }))
+    ),
+  ];
+}
+
 /**
  * Get sales that used items from a specific purchase run
  */
@@ -201,18 +480,19 @@ export async function getSalesForPurchaseRun(
   }
   const allSales = await salesDB.find({ selector });
 
-  const relevantSales = (allSales.docs as SaleDoc[]).filter((sale) => {
-    return sale.items?.some((item: SaleItem) =>
-      item.lotsUsed?.some((lot) => lot.purchaseRunId === purchaseRunId)
+  const usesRun = (item: SaleItem) =>
+    getSaleItemLots(item).some(
+      ({ lot }) => lot.purchaseRunId === purchaseRunId
     );
+
+  const relevantSales = (allSales.docs as SaleDoc[]).filter((sale) => {
+    return !sale.voided && sale.items?.some(usesRun);
   });
 
   return relevantSales.map((sale) => ({
     saleId: sale._id,
     timestamp: sale.timestamp,
-    items: sale.items.filter((item: SaleItem) =>
-      item.lotsUsed?.some((lot) => lot.purchaseRunId === purchaseRunId)
-    ),
+    items: sale.items.filter(usesRun),
   }));
 }
 
@@ -225,10 +505,12 @@ export async function getPurchaseRunProgress(
 ): Promise<{
   totalPurchased: number;
   totalSold: number;
+  totalReturned: number; // Sent back to the supplier
   totalRemaining: number;
   progressPercentage: number;
   // Financial metrics
   totalCost: Money;
+  returnedValue: Money; // Credit notes and refunds for returned goods
   totalRevenue: Money;
   totalProfit: Money;
   expectedRevenue: Money;
@@ -253,11 +535,14 @@ export async function getPurchaseRunProgress(
     productCode: string;
     purchased: number;
     sold: number;
+    returned: number;
     remaining: number;
   }>;
 }> {
   const lots = await getLotsByPurchaseRun(purchaseRunId, shopId);
   const sales = await getSalesForPurchaseRun(purchaseRunId, shopId);
+  const { getSupplierReturns } = await import("./supplierReturns");
+  const supplierReturns = await getSupplierReturns(purchaseRunId, shopId);
 
   if (lots.length === 0) {
     throw new Error(
@@ -314,23 +599,40 @@ export async function getPurchaseRunProgress(
     totalCostAmount += lot.costPrice.amount * lot.quantity;
   }
 
+  // Goods sent back to the supplier were never for sale, and their cost
+  // was credited or refunded
+  const returnedMap = new Map<string, number>();
+  let returnedCostAmount = 0;
+  for (const supplierReturn of supplierReturns) {
+    for (const item of supplierReturn.items) {
+      returnedMap.set(
+        item.productId,
+        (returnedMap.get(item.productId) || 0) + item.quantity
+      );
+      returnedCostAmount += item.costPrice.amount * item.quantity;
+    }
+  }
+  totalCostAmount -= returnedCostAmount;
+
   for (const sale of sales) {
     const saleDate = new Date(sale.timestamp);
 
     for (const item of sale.items) {
-      if (item.lotsUsed && item.lotsUsed.length > 0) {
+      // Bundles sold draw on this run through their components' lots
+      const itemLots = getSaleItemLots(item);
+      if (itemLots.length > 0) {
         // Track sale date only once per sale
         if (!saleDates.some((d) => d.getTime() === saleDate.getTime())) {
           saleDates.push(saleDate);
         }
 
-        for (const lot of item.lotsUsed) {
+        for (const { productId, unitPrice, lot } of itemLots) {
           if (lot.purchaseRunId === purchaseRunId) {
-            const current = soldMap.get(item.productId) || 0;
-            soldMap.set(item.productId, current + lot.quantity);
+            const current = soldMap.get(productId) || 0;
+            soldMap.set(productId, current + lot.quantity);
 
             // Track revenue and profit
-            const itemRevenue = item.price.amount * lot.quantity;
+            const itemRevenue = unitPrice * lot.quantity;
             const itemCost = lot.costPrice.amount * lot.quantity;
             totalRevenueAmount += itemRevenue;
             totalProfitAmount += itemRevenue - itemCost;
@@ -350,13 +652,15 @@ export async function getPurchaseRunProgress(
   const items = Array.from(productMap.values()).map((product) => ({
     ...product,
     sold: soldMap.get(product.productId) || 0,
+    returned: returnedMap.get(product.productId) || 0,
   }));
 
   const totalPurchased = items.reduce((sum, item) => sum + item.purchased, 0);
   const totalSold = items.reduce((sum, item) => sum + item.sold, 0);
+  const totalReturned = items.reduce((sum, item) => sum + item.returned, 0);
   const totalRemaining = items.reduce((sum, item) => sum + item.remaining, 0);
-  const progressPercentage =
-    totalPurchased > 0 ? (totalSold / totalPurchased) * 100 : 0;
+  const sellable = totalPurchased - totalReturned;
+  const progressPercentage = sellable > 0 ? (totalSold / sellable) * 100 : 0;
   const sellThroughRate = progressPercentage;
 
   // Calculate time metrics
@@ -426,10 +730,21 @@ export async function getPurchaseRunProgress(
 
   if (purchaseDoc && purchaseDoc.items) {
     const purchaseItems = purchaseDoc.items;
+    const returnedLeft = new Map(returnedMap);
     for (const item of purchaseItems) {
-      const costAmount = item.costPrice.amount * item.qty;
+      // Returned goods will never be sold
+      const returned = Math.min(
+        item.qty,
+        returnedLeft.get(item.productId) || 0
+      );
+      returnedLeft.set(
+        item.productId,
+        (returnedLeft.get(item.productId) || 0) - returned
+      );
+      const qty = item.qty - returned;
+      const costAmount = getLandedUnitCost(item).amount * qty;
       const sellingAmount = item.intendedSellingPrice
-        ? item.intendedSellingPrice.amount * item.qty
+        ? item.intendedSellingPrice.amount * qty
         : costAmount; // Fallback to cost if no selling price
       expectedRevenueAmount += sellingAmount;
       expectedProfitAmount += sellingAmount - costAmount;
@@ -446,6 +761,7 @@ export async function getPurchaseRunProgress(
   return {
     totalPurchased,
     totalSold,
+    totalReturned,
     totalRemaining,
     progressPercentage,
     totalCost: {
@@ -453,6 +769,11 @@ export async function getPurchaseRunProgress(
       currency: baseCurrency,
       exchangeRate,
     },
+    returnedValue: {
+      amount: returnedCostAmount,
+      currency: baseCurrency,
+      exchangeRate,
+    },
     totalRevenue: {
       amount: totalRevenueAmount,
       currency: baseCurrency,
@@ -0,0 +1,340 @@
+import { getInventoryAdjustmentsDB, getProductsDB } from "./databases";
+import { createInventoryAdjustmentEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings, saveShopSettings } from "./settingsDB";
+import {
+  getAvailableLotsForProduct,
+  getProductIdsWithStock,
+} from "./inventory";
+import { getStockTakes } from "./stockTakeDB";
+import { runTransaction } from "./transactions";
+import { CostingMethod, ProductDoc } from "@/types";
+import {
+  AdjustmentReason,
+  InventoryAdjustmentDoc,
+  ShrinkageReport,
+  ShrinkageRow,
+} from "@/types/inventoryAdjustments";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  damaged: "Damaged",
+  expired: "Expired",
+  stolen: "Stolen",
+  own_use: "Own use",
+  sample: "Sample",
+};
+
+// Shortages found by a stock take are reported alongside written-off stock
+const STOCK_TAKE_REASON = { key: "stock_take", label: "Stock take shortage" };
+
+/**
+ * Write stock off: take it out of the given lots (or the oldest lots when
+ * none are given), lower the product's stock and post its cost from
+ * Inventory to Inventory Adjustment.
+ */
+export async function recordInventoryAdjustment(params: {
+  productId: string;
+  reason: AdjustmentReason;
+  quantity: number;
+  lots?: Array<{ lotId: string; quantity: number }>;
+  notes?: string;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<InventoryAdjustmentDoc> {
+  if (params.quantity <= 0) {
+    throw new Error("Quantity must be greater than zero");
+  }
+  if (params.lots) {
+    const fromLots = params.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (fromLots !== params.quantity) {
+      throw new Error(
+        `Quantities taken from lots (${fromLots}) must add up to ${params.quantity}`
+      );
+    }
+    const productLots = await getAvailableLotsForProduct(
+      params.productId,
+      params.shopId
+    );
+    const productLotIds = new Set(productLots.map((lot) => lot._id));
+    if (params.lots.some((lot) => !productLotIds.has(lot.lotId))) {
+      throw new Error("Stock can only be taken from this product's own lots");
+    }
+  }
+
+  const productsDB = await getProductsDB();
+  const product = (await productsDB.get(params.productId)) as ProductDoc;
+
+  const settings = await getShopSettings(params.shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const adjustmentId = `inventory_adjustment_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  return runTransaction(
+    {
+      transactionType: "inventory_adjustment",
+      transactionId: adjustmentId,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+    },
+    async (tx) => {
+      // Picked lots go at their own cost; otherwise the costing method
+      // decides which lots go and at what cost
+      let lots: InventoryAdjustmentDoc["lots"];
+      let costValue: number;
+      if (params.lots) {
+        lots = await tx.takeFromLots(params.lots);
+        costValue = lots.reduce(
+          (sum, lot) => sum + lot.quantity * toBase(lot.costPrice),
+          0
+        );
+      } else {
+        const allocation = await tx.allocateLots(
+          params.productId,
+          params.quantity,
+          params.shopId
+        );
+        lots = allocation.lots;
+        costValue = params.quantity * toBase(allocation.unitCost);
+      }
+      await tx.updateProduct(params.productId, -params.quantity);
+
+      const value = createMoney(costValue, baseCurrency);
+
+      const entry = await tx.postLedgerEntry(adjustmentId, () =>
+        createInventoryAdjustmentEntry(
+          adjustmentId,
+          value,
+          createMoney(0, baseCurrency),
+          `${ADJUSTMENT_REASON_LABELS[params.reason]}: ${product.name}`,
+          timestamp,
+          params.shopId,
+          params.createdBy,
+          {
+            reason: params.reason,
+            productId: params.productId,
+            quantity: params.quantity,
+          }
+        )
+      );
+
+      const doc: InventoryAdjustmentDoc = {
+        _id: adjustmentId,
+        type: "inventory_adjustment",
+        productId: params.productId,
+        productName: product.name,
+        productCode: product.code,
+        reason: params.reason,
+        quantity: params.quantity,
+        lots,
+        value,
+        notes: params.notes,
+        timestamp,
+        ledgerEntryId: entry?._id,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdByName: params.createdByName,
+        createdAt: timestamp,
+      };
+      await tx.putDoc("inventory_adjustments", doc);
+
+      return doc;
+    }
+  );
+}
+
+/**
+ * Switch the shop's costing method. Moving to weighted average revalues
+ * every open lot at its product's average cost, so lots keep being drawn
+ * down at the cost booked to COGS; any difference in total value is posted
+ * between Inventory and Inventory Adjustment. Other methods cost each lot
+ * at what it is carried at, so nothing needs revaluing.
+ */
+export async function changeCostingMethod(params: {
+  method: CostingMethod;
+  shopId?: string;
+  createdBy?: string;
+}): Promise<void> {
+  const settings = await getShopSettings(params.shopId);
+  const previousMethod = settings?.costingMethod || "fifo";
+  if (previousMethod === params.method) {
+    return;
+  }
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+
+  await saveShopSettings({
+    shopId: params.shopId,
+    costingMethod: params.method,
+  });
+  if (params.method !== "weighted_average") {
+    return;
+  }
+
+  const revaluationId = `costing_revaluation_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  try {
+    const productIds = await getProductIdsWithStock(params.shopId);
+    await runTransaction(
+      {
+        transactionType: "inventory_adjustment",
+        transactionId: revaluationId,
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+      },
+      async (tx) => {
+        const valueChange = await tx.revalueLots(productIds, params.shopId);
+        await tx.postLedgerEntry(revaluationId, () =>
+          createInventoryAdjustmentEntry(
+            revaluationId,
+            createMoney(Math.max(-valueChange, 0), baseCurrency),
+            createMoney(Math.max(valueChange, 0), baseCurrency),
+            "Stock revalued at weighted average cost",
+            timestamp,
+            params.shopId,
+            params.createdBy,
+            { costingMethod: params.method, previousMethod }
+          )
+        );
+      }
+    );
+  } catch (err) {
+    // Lots were put back, so the old method still matches them
+    await saveShopSettings({
+      shopId: params.shopId,
+      costingMethod: previousMethod,
+    });
+    throw err;
+  }
+}
+
+/**
+ * Get the adjustments made in a date range, newest first
+ */
+export async function getInventoryAdjustments(
+  startDate: string,
+  endDate: string,
+  shopId?: string
+): Promise<InventoryAdjustmentDoc[]> {
+  const adjustmentsDB = await getInventoryAdjustmentsDB();
+
+  const result = await adjustmentsDB.find({
+    selector: addShopIdFilter(
+      {
+        type: "inventory_adjustment",
+        timestamp: { $gte: startDate, $lte: endDate },
+      },
+      shopId
+    ),
+  });
+
+  return (result.docs as InventoryAdjustmentDoc[]).sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp)
+  );
+}
+
+/**
+ * Stock lost in a date range, by reason and by product, at cost. Includes
+ * write-offs and the shortages found by approved stock takes.
+ */
+export async function getShrinkageReport(
+  startDate: string,
+  endDate: string,
+  shopId?: string
+): Promise<ShrinkageReport> {
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+
+  const byReason = new Map<string, ShrinkageRow>();
+  const byProduct = new Map<string, ShrinkageRow>();
+  const add = (
+    reason: { key: string; label: string },
+    product: { productId: string; productName: string },
+    quantity: number,
+    value: number
+  ) => {
+    const reasonRow = byReason.get(reason.key) || {
+      ...reason,
+      quantity: 0,
+      value: 0,
+    };
+    reasonRow.quantity += quantity;
+    reasonRow.value += value;
+    byReason.set(reason.key, reasonRow);
+
+    const productRow = byProduct.get(product.productId) || {
+      key: product.productId,
+      label: product.productName,
+      quantity: 0,
+      value: 0,
+    };
+    productRow.quantity += quantity;
+    productRow.value += value;
+    byProduct.set(product.productId, productRow);
+  };
+
+  const adjustments = await getInventoryAdjustments(
+    startDate,
+    endDate,
+    shopId
+  );
+  for (const adjustment of adjustments) {
+    add(
+      {
+        key: adjustment.reason,
+        label: ADJUSTMENT_REASON_LABELS[adjustment.reason],
+      },
+      adjustment,
+      adjustment.quantity,
+      adjustment.value.amount
+    );
+  }
+
+  const stockTakes = await getStockTakes(shopId);
+  for (const stockTake of stockTakes) {
+    if (
+      stockTake.status !== "approved" ||
+      !stockTake.approvedAt ||
+      stockTake.approvedAt < startDate ||
+      stockTake.approvedAt > endDate
+    ) {
+      continue;
+    }
+    for (const adjustment of stockTake.adjustments || []) {
+      if (adjustment.quantityDelta < 0) {
+        add(
+          STOCK_TAKE_REASON,
+          adjustment,
+          -adjustment.quantityDelta,
+          -adjustment.value.amount
+        );
+      }
+    }
+  }
+
+  const sortByValue = (rows: Map<string, ShrinkageRow>) =>
+    Array.from(rows.values()).sort((a, b) => b.value - a.value);
+
+  return {
+    byReason: sortByValue(byReason),
+    byProduct: sortByValue(byProduct),
+    totalValue: Array.from(byReason.values()).reduce(
+      (sum, row) => sum + row.value,
+      0
+    ),
+    currency: baseCurrency,
+  };
+}
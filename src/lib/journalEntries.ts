@@ -0,0 +1,227 @@
+import { getLedgerDB } from "./databases";
+import { validateDoubleEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { getAccountMap } from "./chartOfAccounts";
+import { assertPeriodOpen } from "./periodClose";
+import { LedgerEntryDoc, LedgerEntryLine } from "@/types/accounting";
+import { CurrencyCode, createMoneyWithRates } from "@/types/money";
+
+// Used until the owner sets their own threshold
+export const DEFAULT_JOURNAL_APPROVAL_THRESHOLD = 1000;
+
+// One line of a manual entry, amounts in base currency
+export interface JournalLineInput {
+  accountCode: string;
+  description?: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * Amount a manual entry can reach before it needs a second approver
+ */
+export async function getJournalApprovalThreshold(
+  shopId?: string
+): Promise<number> {
+  const settings = await getShopSettings(shopId);
+  return (
+    settings?.journalApprovalThreshold ?? DEFAULT_JOURNAL_APPROVAL_THRESHOLD
+  );
+}
+
+/**
+ * Record a manual journal entry, e.g. to correct a misposting or record a
+ * loan. The entry must balance. Entries above the approval threshold are
+ * saved as pending and only reach the books once someone else approves
+ * them; the rest post straight away.
+ */
+export async function createJournalEntry(params: {
+  lines: JournalLineInput[];
+  memo: string;
+  reference?: string;
+  timestamp: string; // Date the entry belongs to
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<LedgerEntryDoc> {
+  const memo = params.memo.trim();
+  if (!memo) {
+    throw new Error("Add a memo explaining the entry");
+  }
+
+  const lines = params.lines.filter((line) => line.debit || line.credit);
+  if (lines.length < 2) {
+    throw new Error("A journal entry needs at least two lines");
+  }
+  const chart = await getAccountMap(params.shopId);
+  for (const line of lines) {
+    const account = chart.get(line.accountCode);
+    if (!account) {
+      throw new Error(`Unknown account ${line.accountCode}`);
+    }
+    if (!account.active) {
+      throw new Error(`${account.name} is inactive`);
+    }
+    if (line.debit < 0 || line.credit < 0) {
+      throw new Error("Amounts can't be negative");
+    }
+    if (line.debit && line.credit) {
+      throw new Error("Each line is either a debit or a credit, not both");
+    }
+  }
+
+  const settings = await getShopSettings(params.shopId);
+  if (!settings) {
+    throw new Error("Shop settings not found");
+  }
+  const baseCurrency = settings.baseCurrency as CurrencyCode;
+  const exchangeRates = { [baseCurrency]: 1 };
+
+  const ledgerLines: LedgerEntryLine[] = lines.map((line) => ({
+    accountCode: line.accountCode,
+    description:
+      line.description?.trim() || chart.get(line.accountCode)?.name || "",
+    debit: createMoneyWithRates(line.debit, baseCurrency, 1),
+    credit: createMoneyWithRates(line.credit, baseCurrency, 1),
+  }));
+
+  if (!validateDoubleEntry(ledgerLines, baseCurrency, exchangeRates)) {
+    throw new Error("Invalid ledger entry: Debits do not equal credits");
+  }
+
+  const totalAmount = lines.reduce((sum, line) => sum + line.debit, 0);
+  const threshold =
+    settings.journalApprovalThreshold ?? DEFAULT_JOURNAL_APPROVAL_THRESHOLD;
+  const journalId = `journal_${Date.now()}`;
+
+  const entry: LedgerEntryDoc = {
+    _id: `${params.timestamp}_${journalId}`,
+    type: "ledger_entry",
+    transactionId: journalId,
+    transactionType: "journal",
+    timestamp: params.timestamp,
+    postingDate: new Date().toISOString(),
+    description: memo,
+    lines: ledgerLines,
+    status: totalAmount > threshold ? "pending" : "posted",
+    shopId: params.shopId,
+    createdBy: params.createdBy,
+    createdByName: params.createdByName,
+    memo,
+    reference: params.reference?.trim() || undefined,
+    metadata: {
+      totalAmount,
+    },
+  };
+
+  await assertPeriodOpen(entry.timestamp, entry.shopId);
+  const ledgerDB = await getLedgerDB();
+  const result = await ledgerDB.put(entry);
+  return { ...entry, _rev: result.rev };
+}
+
+async function getPendingEntry(entryId: string): Promise<LedgerEntryDoc> {
+  const ledgerDB = await getLedgerDB();
+  const entry = (await ledgerDB.get(entryId)) as LedgerEntryDoc;
+  if (entry.transactionType !== "journal" || entry.status !== "pending") {
+    throw new Error("Only pending journal entries can be approved or rejected");
+  }
+  return entry;
+}
+
+/**
+ * Approve a pending journal entry so it posts. The person who made the
+ * entry can't approve it themselves.
+ */
+export async function approveJournalEntry(
+  entryId: string,
+  approvedBy: string,
+  approvedByName?: string
+): Promise<LedgerEntryDoc> {
+  const entry = await getPendingEntry(entryId);
+  if (entry.createdBy === approvedBy) {
+    throw new Error("A journal entry must be approved by someone else");
+  }
+  // Approving posts it on its original date
+  await assertPeriodOpen(entry.timestamp, entry.shopId);
+
+  const now = new Date().toISOString();
+  const approved: LedgerEntryDoc = {
+    ...entry,
+    status: "posted",
+    postingDate: now,
+    approvedBy,
+    approvedByName,
+    approvedAt: now,
+  };
+  const ledgerDB = await getLedgerDB();
+  const result = await ledgerDB.put(approved);
+  return { ...approved, _rev: result.rev };
+}
+
+/**
+ * Reject a pending journal entry; it stays on record but never posts
+ */
+export async function rejectJournalEntry(
+  entryId: string,
+  rejectedBy: string,
+  rejectedByName?: string
+): Promise<LedgerEntryDoc> {
+  const entry = await getPendingEntry(entryId);
+
+  const rejected: LedgerEntryDoc = {
+    ...entry,
+    status: "rejected",
+    approvedBy: rejectedBy,
+    approvedByName: rejectedByName,
+    approvedAt: new Date().toISOString(),
+  };
+  const ledgerDB = await getLedgerDB();
+  const result = await ledgerDB.put(rejected);
+  return { ...rejected, _rev: result.rev };
+}
+
+/**
+ * Get the manual journal entries dated in a range, newest first
+ */
+export async function getJournalEntries(
+  startDate: string,
+  endDate: string,
+  shopId?: string
+): Promise<LedgerEntryDoc[]> {
+  const ledgerDB = await getLedgerDB();
+  const result = await ledgerDB.find({
+    selector: addShopIdFilter(
+      {
+        type: "ledger_entry",
+        transactionType: "journal",
+        timestamp: { $gte: startDate, $lte: endDate },
+      },
+      shopId
+    ),
+  });
+
+  return (result.docs as LedgerEntryDoc[]).sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp)
+  );
+}
+
+/**
+ * Get every journal entry still waiting for approval
+ */
+export async function getPendingJournalEntries(
+  shopId?: string
+): Promise<LedgerEntryDoc[]> {
+  const ledgerDB = await getLedgerDB();
+  const result = await ledgerDB.find({
+    selector: addShopIdFilter(
+      { type: "ledger_entry", transactionType: "journal", status: "pending" },
+      shopId
+    ),
+  });
+
+  return (result.docs as LedgerEntryDoc[]).sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp)
+  );
+}
@@ -0,0 +1,82 @@
+import { LandedCostBasis, LandedCostLine, PurchaseItem } from "@/types";
+import {
+  Money,
+  CurrencyCode,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+export const LANDED_COST_BASIS_LABELS: Record<LandedCostBasis, string> = {
+  value: "By value",
+  quantity: "By quantity",
+  weight: "By weight",
+};
+
+/**
+ * Share a purchase's landed costs out between its items, in proportion to
+ * each line's value, quantity or weight. Returns the items with
+ * `landedCost` set to each unit's share, in the item's cost currency.
+ */
+export function apportionLandedCosts(
+  items: PurchaseItem[],
+  landedCosts: LandedCostLine[],
+  basis: LandedCostBasis,
+  baseCurrency: CurrencyCode
+): PurchaseItem[] {
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const totalLanded = landedCosts.reduce(
+    (sum, line) => sum + toBase(line.amount),
+    0
+  );
+  if (totalLanded <= 0) {
+    return items.map((item) => ({ ...item, landedCost: undefined }));
+  }
+
+  const shareOf = (item: PurchaseItem) => {
+    switch (basis) {
+      case "value":
+        return toBase(item.total);
+      case "quantity":
+        return item.qty;
+      case "weight":
+        return (item.weight || 0) * item.qty;
+    }
+  };
+  const totalShares = items.reduce((sum, item) => sum + shareOf(item), 0);
+  if (totalShares <= 0) {
+    throw new Error(
+      basis === "weight"
+        ? "Enter a weight for the items to share landed costs by weight"
+        : "Landed costs need items with a value and quantity to go on"
+    );
+  }
+
+  return items.map((item) => {
+    const lineLanded = (totalLanded * shareOf(item)) / totalShares;
+    const unitLanded = item.qty > 0 ? lineLanded / item.qty : 0;
+    return {
+      ...item,
+      landedCost: convertMoneyWithRates(
+        createMoney(unitLanded, baseCurrency),
+        item.costPrice.currency,
+        item.costPrice.exchangeRate,
+        baseCurrency
+      ),
+    };
+  });
+}
+
+/**
+ * What one unit of a purchase item really cost: the supplier's price plus
+ * its share of landed costs, in the item's cost currency
+ */
+export function getLandedUnitCost(item: PurchaseItem): Money {
+  return item.landedCost
+    ? {
+        ...item.costPrice,
+        amount: item.costPrice.amount + item.landedCost.amount,
+      }
+    : item.costPrice;
+}
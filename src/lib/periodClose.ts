@@ -0,0 +1,85 @@
+import { getLedgerDB } from "./databases";
+import { addShopIdFilter } from "./queryHelpers";
+import { PeriodCloseDoc, PeriodType } from "@/types/accounting";
+
+/**
+ * Label and last moment (local time) of a month or year. Months run 1-12.
+ */
+export function getPeriodEnd(
+  periodType: PeriodType,
+  year: number,
+  month = 12
+): { period: string; endDate: string } {
+  if (periodType === "year") {
+    return {
+      period: String(year),
+      endDate: new Date(year, 11, 31, 23, 59, 59, 999).toISOString(),
+    };
+  }
+  return {
+    period: `${year}-${String(month).padStart(2, "0")}`,
+    endDate: new Date(year, month, 0, 23, 59, 59, 999).toISOString(),
+  };
+}
+
+/**
+ * Get every closed period, latest first
+ */
+export async function getPeriodCloses(
+  shopId?: string
+): Promise<PeriodCloseDoc[]> {
+  const ledgerDB = await getLedgerDB();
+  const result = await ledgerDB.find({
+    selector: addShopIdFilter({ type: "period_close" }, shopId),
+  });
+
+  return (result.docs as PeriodCloseDoc[]).sort((a, b) =>
+    b.endDate.localeCompare(a.endDate)
+  );
+}
+
+/**
+ * The latest period closed for exactly this shop, optionally only those
+ * ending on or before a date. Its balances are only valid for the same
+ * shop filter, so closes for other shops are never returned.
+ */
+export async function getLatestPeriodClose(
+  shopId?: string,
+  asOf?: string
+): Promise<PeriodCloseDoc | null> {
+  const closes = await getPeriodCloses(shopId);
+  return (
+    closes.find(
+      (close) => close.shopId === shopId && (!asOf || close.endDate <= asOf)
+    ) || null
+  );
+}
+
+/**
+ * End of the last closed period, or null if the books have never been closed
+ */
+export async function getLockedUntil(shopId?: string): Promise<string | null> {
+  const [latest] = await getPeriodCloses(shopId);
+  return latest?.endDate || null;
+}
+
+/**
+ * Refuse anything dated in a closed period. Corrections to a closed period
+ * are posted in the current one instead.
+ */
+export async function assertPeriodOpen(
+  timestamp: string,
+  shopId?: string
+): Promise<void> {
+  const lockedUntil = await getLockedUntil(shopId);
+  if (
+    lockedUntil &&
+    new Date(timestamp).getTime() <= new Date(lockedUntil).getTime()
+  ) {
+    throw new Error(
+      `The books are closed up to ${new Date(
+        lockedUntil
+      ).toLocaleDateString()}. Date this after the closed period, or post a correcting entry in the current one`
+    );
+  }
+}
@@ -12,6 +12,7 @@ export enum Permission {
   CREATE_SALES = "create_sales",
   EDIT_SALES = "edit_sales",
   DELETE_SALES = "delete_sales",
+  APPROVE_BELOW_COST_SALES = "approve_below_cost_sales",
 
   // Purchases
   VIEW_PURCHASES = "view_purchases",
@@ -19,6 +20,10 @@ export enum Permission {
   EDIT_PURCHASES = "edit_purchases",
   DELETE_PURCHASES = "delete_purchases",
 
+  // Expenses
+  VIEW_EXPENSES = "view_expenses",
+  CREATE_EXPENSES = "create_expenses",
+
   // Reports
   VIEW_REPORTS = "view_reports",
   EXPORT_REPORTS = "export_reports",
@@ -32,6 +37,12 @@ export enum Permission {
   INVITE_USERS = "invite_users",
   MANAGE_USERS = "manage_users",
 
+  // Accounting
+  CREATE_JOURNAL_ENTRIES = "create_journal_entries",
+  APPROVE_JOURNAL_ENTRIES = "approve_journal_entries",
+  CLOSE_PERIODS = "close_periods",
+  MANAGE_FINANCING = "manage_financing", // Owner drawings, capital and loans
+
   // Cash Management
   VIEW_CASH = "view_cash",
   MANAGE_CASH = "manage_cash",
@@ -50,11 +61,16 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission.VIEW_SALES,
     Permission.CREATE_SALES,
     Permission.EDIT_SALES,
+    Permission.DELETE_SALES, // Void only; sales are never deleted
+    Permission.APPROVE_BELOW_COST_SALES,
     Permission.VIEW_PURCHASES,
     Permission.CREATE_PURCHASES,
     Permission.EDIT_PURCHASES,
+    Permission.VIEW_EXPENSES,
+    Permission.CREATE_EXPENSES,
     Permission.VIEW_REPORTS,
     Permission.EXPORT_REPORTS,
+    Permission.APPROVE_JOURNAL_ENTRIES,
     Permission.VIEW_SETTINGS,
     Permission.VIEW_USERS,
     Permission.VIEW_CASH,
@@ -0,0 +1,196 @@
+import { getProductsDB } from "./databases";
+import { addShopIdFilter } from "./queryHelpers";
+import { ProductDoc } from "@/types";
+import { ProductFamilyDoc, VariantAttribute } from "@/types/productFamilies";
+import { Money } from "@/types/money";
+
+/**
+ * Get all product families, by name
+ */
+export async function getProductFamilies(
+  shopId?: string
+): Promise<ProductFamilyDoc[]> {
+  const productsDB = await getProductsDB();
+  const result = await productsDB.find({
+    selector: addShopIdFilter({ type: "product_family" }, shopId),
+  });
+  return (result.docs as ProductFamilyDoc[]).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Get the variants of a product family
+ */
+export async function getFamilyVariants(
+  familyId: string,
+  shopId?: string
+): Promise<ProductDoc[]> {
+  const productsDB = await getProductsDB();
+  const result = await productsDB.find({
+    selector: addShopIdFilter({ type: "product", familyId }, shopId),
+  });
+  return result.docs as ProductDoc[];
+}
+
+/**
+ * Every combination of attribute values, e.g. Size S/M and Colour Red/Blue
+ * give S/Red, S/Blue, M/Red and M/Blue
+ */
+export function getVariantCombinations(
+  attributes: VariantAttribute[]
+): Array<Record<string, string>> {
+  return attributes.reduce<Array<Record<string, string>>>(
+    (combinations, attribute) =>
+      combinations.flatMap((combination) =>
+        attribute.values.map((value) => ({
+          ...combination,
+          [attribute.name]: value,
+        }))
+      ),
+    [{}]
+  );
+}
+
+export function getVariantName(
+  familyName: string,
+  attributes: VariantAttribute[],
+  values: Record<string, string>
+): string {
+  return `${familyName} - ${attributes
+    .map((attribute) => values[attribute.name])
+    .join(" / ")}`;
+}
+
+function getVariantCode(
+  familyCode: string,
+  attributes: VariantAttribute[],
+  values: Record<string, string>
+): string {
+  return [
+    familyCode,
+    ...attributes.map((attribute) =>
+      values[attribute.name].replace(/[^A-Za-z0-9]/g, "").toUpperCase()
+    ),
+  ].join("-");
+}
+
+const sameVariant = (
+  a: Record<string, string> | undefined,
+  b: Record<string, string>
+) => !!a && Object.keys(b).every((name) => a[name] === b[name]);
+
+/**
+ * Create a product family, or add attribute values to an existing one, and
+ * create a product for every variant that doesn't exist yet. Existing
+ * variants keep their code, stock and prices; variants whose values were
+ * removed are left alone, as they may still hold stock.
+ */
+export async function saveProductFamily(params: {
+  familyId?: string;
+  name: string;
+  description?: string;
+  attributes: VariantAttribute[];
+  price: Money; // Starting selling price for new variants
+  shopId?: string;
+  createdBy?: string;
+}): Promise<{ family: ProductFamilyDoc; created: ProductDoc[] }> {
+  const name = params.name.trim();
+  if (!name) {
+    throw new Error("Family name is required");
+  }
+
+  const attributes = params.attributes
+    .map((attribute) => ({
+      name: attribute.name.trim(),
+      values: Array.from(
+        new Set(attribute.values.map((value) => value.trim()).filter(Boolean))
+      ),
+    }))
+    .filter((attribute) => attribute.name);
+  if (attributes.length === 0) {
+    throw new Error("Add at least one attribute, e.g. Size or Colour");
+  }
+  const names = new Set<string>();
+  for (const attribute of attributes) {
+    if (attribute.values.length === 0) {
+      throw new Error(`Add at least one value for ${attribute.name}`);
+    }
+    if (names.has(attribute.name.toLowerCase())) {
+      throw new Error(`The attribute "${attribute.name}" is listed twice`);
+    }
+    names.add(attribute.name.toLowerCase());
+  }
+
+  const productsDB = await getProductsDB();
+  const now = new Date().toISOString();
+  const timestamp = Date.now();
+
+  let family: ProductFamilyDoc;
+  if (params.familyId) {
+    const existing = (await productsDB.get(
+      params.familyId
+    )) as ProductFamilyDoc;
+    // Variants are keyed by attribute name, so the names can't change
+    const existingNames = existing.attributes.map((a) => a.name).join("|");
+    if (attributes.map((a) => a.name).join("|") !== existingNames) {
+      throw new Error(
+        "Attributes can't be added, removed or renamed once variants exist. Add new values instead"
+      );
+    }
+    family = {
+      ...existing,
+      name,
+      description: params.description?.trim() || undefined,
+      attributes,
+      updatedAt: now,
+    };
+  } else {
+    const randomPart = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, "0");
+    family = {
+      _id: `family_${timestamp}`,
+      type: "product_family",
+      name,
+      code: `F${timestamp.toString().slice(-6)}${randomPart}`,
+      description: params.description?.trim() || undefined,
+      attributes,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+  const result = await productsDB.put(family);
+  family = { ...family, _rev: result.rev };
+
+  const variants = params.familyId
+    ? await getFamilyVariants(params.familyId, params.shopId)
+    : [];
+  const created: ProductDoc[] = [];
+  for (const values of getVariantCombinations(attributes)) {
+    if (variants.some((v) => sameVariant(v.variantAttributes, values))) {
+      continue;
+    }
+    const product: ProductDoc = {
+      _id: `prod_${timestamp}_${created.length}`,
+      type: "product",
+      code: getVariantCode(family.code, attributes, values),
+      name: getVariantName(name, attributes, values),
+      price: params.price,
+      costPrice: { ...params.price, amount: 0 },
+      stockQuantity: 0,
+      familyId: family._id,
+      variantAttributes: values,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await productsDB.put(product);
+    created.push(product);
+  }
+
+  return { family, created };
+}
@@ -0,0 +1,330 @@
+import { getPurchasesDB } from "./databases";
+import { createPurchaseEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { runTransaction } from "./transactions";
+import { PaymentMethod, PurchaseDoc, PurchaseItem } from "@/types";
+import {
+  PurchaseOrderDoc,
+  PurchaseOrderDiscrepancy,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+} from "@/types/purchaseOrders";
+import { Money } from "@/types/money";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<
+  PurchaseOrderStatus,
+  string
+> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially received",
+  received: "Received",
+  closed: "Closed",
+};
+
+// Sums money amounts in the currency of the first one
+function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce(
+    (sum, money) => ({ ...sum, amount: sum.amount + money.amount }),
+    { ...amounts[0], amount: 0 }
+  );
+}
+
+/**
+ * Save a new purchase order as a draft. No stock, lots or ledger entries
+ * are created until goods are received against it.
+ */
+export async function createPurchaseOrder(params: {
+  items: Array<Omit<PurchaseOrderItem, "receivedQty">>;
+  supplier?: string;
+  supplierId?: string;
+  expectedDate?: string;
+  paymentMethod: PaymentMethod;
+  notes?: string;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<PurchaseOrderDoc> {
+  if (params.items.length === 0) {
+    throw new Error("An order needs at least one item");
+  }
+  if (params.items.some((item) => item.orderedQty <= 0)) {
+    throw new Error("Ordered quantities must be greater than zero");
+  }
+
+  const purchasesDB = await getPurchasesDB();
+  const now = new Date().toISOString();
+  const order: PurchaseOrderDoc = {
+    _id: `purchase_order_${Date.now()}`,
+    type: "purchase_order",
+    status: "draft",
+    supplier: params.supplier,
+    supplierId: params.supplierId,
+    expectedDate: params.expectedDate,
+    paymentMethod: params.paymentMethod,
+    notes: params.notes,
+    items: params.items.map((item) => ({ ...item, receivedQty: 0 })),
+    totalAmount: sumMoney(
+      params.items.map((item) => ({
+        ...item.costPrice,
+        amount: item.costPrice.amount * item.orderedQty,
+      }))
+    ),
+    deliveries: [],
+    shopId: params.shopId,
+    createdBy: params.createdBy,
+    createdByName: params.createdByName,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const response = await purchasesDB.put(order);
+  return { ...order, _rev: response.rev };
+}
+
+/**
+ * Get all purchase orders for a shop, newest first
+ */
+export async function getPurchaseOrders(
+  shopId?: string
+): Promise<PurchaseOrderDoc[]> {
+  const purchasesDB = await getPurchasesDB();
+  const result = await purchasesDB.find({
+    selector: addShopIdFilter({ type: "purchase_order" }, shopId),
+  });
+
+  return (result.docs as PurchaseOrderDoc[]).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * Get a single purchase order by ID
+ */
+export async function getPurchaseOrder(
+  orderId: string
+): Promise<PurchaseOrderDoc | null> {
+  const purchasesDB = await getPurchasesDB();
+  return (await purchasesDB
+    .get(orderId)
+    .catch(() => null)) as PurchaseOrderDoc | null;
+}
+
+async function updatePurchaseOrder(
+  orderId: string,
+  allowedFrom: PurchaseOrderStatus[],
+  changes: Partial<PurchaseOrderDoc>
+): Promise<PurchaseOrderDoc> {
+  const purchasesDB = await getPurchasesDB();
+  const order = (await purchasesDB.get(orderId)) as PurchaseOrderDoc;
+  if (!allowedFrom.includes(order.status)) {
+    throw new Error(
+      `This order is ${PURCHASE_ORDER_STATUS_LABELS[
+        order.status
+      ].toLowerCase()}`
+    );
+  }
+
+  const updated: PurchaseOrderDoc = {
+    ...order,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+  const response = await purchasesDB.put(updated);
+  return { ...updated, _rev: response.rev };
+}
+
+/**
+ * Mark a draft order as sent to the supplier
+ */
+export async function markPurchaseOrderSent(
+  orderId: string
+): Promise<PurchaseOrderDoc> {
+  return updatePurchaseOrder(orderId, ["draft"], {
+    status: "sent",
+    sentAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Close an order that will not be delivered in full. Whatever has not
+ * arrived yet is no longer expected.
+ */
+export async function closePurchaseOrder(
+  orderId: string
+): Promise<PurchaseOrderDoc> {
+  return updatePurchaseOrder(orderId, ["draft", "sent", "partially_received"], {
+    status: "closed",
+    closedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Receive a delivery against an order. The delivered quantities are saved
+ * as a purchase run (stock, lots and ledger entry, exactly like a direct
+ * purchase) and added to the order's received quantities, all in one
+ * transaction. Returns the purchase run.
+ */
+export async function receivePurchaseOrder(params: {
+  orderId: string;
+  lines: Array<{
+    productId: string;
+    quantity: number;
+    costPrice?: Money; // Defaults to the agreed cost on the order
+    batchNumber?: string;
+    expiryDate?: string;
+  }>;
+  paymentMethod: PaymentMethod;
+  dueDate?: string; // ISO date a credit delivery must be paid by
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<PurchaseDoc> {
+  const order = await getPurchaseOrder(params.orderId);
+  if (!order) {
+    throw new Error("Purchase order not found");
+  }
+  if (order.status !== "sent" && order.status !== "partially_received") {
+    throw new Error("Only sent orders can be received");
+  }
+
+  const lines = params.lines.filter((line) => line.quantity > 0);
+  if (lines.length === 0) {
+    throw new Error("Enter the quantity delivered for at least one item");
+  }
+
+  const items: PurchaseItem[] = lines.map((line) => {
+    const ordered = order.items.find((i) => i.productId === line.productId);
+    if (!ordered) {
+      throw new Error("Only items on the order can be received against it");
+    }
+    const costPrice = line.costPrice || ordered.costPrice;
+    return {
+      productId: ordered.productId,
+      productName: ordered.productName,
+      productCode: ordered.productCode,
+      qty: line.quantity,
+      costPrice,
+      intendedSellingPrice: ordered.intendedSellingPrice,
+      expectedProfit: {
+        ...ordered.intendedSellingPrice,
+        amount: ordered.intendedSellingPrice.amount - costPrice.amount,
+      },
+      total: { ...costPrice, amount: costPrice.amount * line.quantity },
+      batchNumber: line.batchNumber,
+      expiryDate: line.expiryDate,
+    };
+  });
+  const totalAmount = sumMoney(items.map((item) => item.total));
+
+  const now = new Date().toISOString();
+  const purchaseRunId = `purchase_${Date.now()}`;
+
+  return runTransaction(
+    {
+      transactionType: "purchase",
+      transactionId: purchaseRunId,
+      shopId: params.shopId,
+      createdBy: params.createdBy,
+    },
+    async (tx) => {
+      for (const item of items) {
+        await tx.updateProduct(item.productId, item.qty, {
+          costPrice: item.costPrice,
+          price: item.intendedSellingPrice,
+          purchaseDate: now,
+        });
+      }
+
+      const purchase: PurchaseDoc = {
+        _id: purchaseRunId,
+        type: "purchase",
+        purchaseRunId,
+        timestamp: now,
+        supplier: order.supplier,
+        supplierId: order.supplierId,
+        dueDate: params.paymentMethod === "credit" ? params.dueDate : undefined,
+        purchaseOrderId: order._id,
+        items,
+        totalAmount,
+        paymentMethod: params.paymentMethod,
+        status: "pending",
+        shopId: params.shopId,
+        createdBy: params.createdBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await tx.putDoc("purchases", purchase);
+
+      await tx.createLots(
+        purchaseRunId,
+        now,
+        items,
+        order.supplier,
+        params.shopId,
+        order.supplierId
+      );
+
+      await tx.postLedgerEntry(purchaseRunId, () =>
+        createPurchaseEntry(
+          purchaseRunId,
+          totalAmount,
+          params.paymentMethod,
+          now,
+          params.shopId,
+          params.createdBy
+        )
+      );
+
+      await tx.updateDoc<PurchaseOrderDoc>("purchases", order._id, (doc) => {
+        const received = doc.items.map((item) => ({
+          ...item,
+          receivedQty:
+            item.receivedQty +
+            items
+              .filter((i) => i.productId === item.productId)
+              .reduce((sum, i) => sum + i.qty, 0),
+        }));
+        return {
+          ...doc,
+          items: received,
+          status: received.every((item) => item.receivedQty >= item.orderedQty)
+            ? "received"
+            : "partially_received",
+          deliveries: [
+            ...doc.deliveries,
+            {
+              purchaseRunId,
+              timestamp: now,
+              totalAmount,
+              receivedBy: params.createdBy,
+              receivedByName: params.createdByName,
+            },
+          ],
+          updatedAt: now,
+        };
+      });
+
+      return purchase;
+    }
+  );
+}
+
+/**
+ * Ordered against delivered for each line of an order. Lines that arrived
+ * exactly as ordered are left out.
+ */
+export function getPurchaseOrderDiscrepancies(
+  order: PurchaseOrderDoc
+): PurchaseOrderDiscrepancy[] {
+  return order.items
+    .filter((item) => item.receivedQty !== item.orderedQty)
+    .map((item) => ({
+      productId: item.productId,
+      productName: item.productName,
+      orderedQty: item.orderedQty,
+      receivedQty: item.receivedQty,
+      shortQty: Math.max(0, item.orderedQty - item.receivedQty),
+      overQty: Math.max(0, item.receivedQty - item.orderedQty),
+    }));
+}
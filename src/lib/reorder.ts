@@ -0,0 +1,217 @@
+import { getProductsDB, getSalesDB, getInventoryLotsDB } from "./databases";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { getSuppliers } from "./suppliersDB";
+import { isBundle } from "./bundles";
+import { InventoryLot, ProductDoc, SaleDoc } from "@/types";
+import { ReorderSuggestion, SupplierReorderGroup } from "@/types/reorder";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a product's stock has fallen to or below its reorder level.
+ * Products without a reorder level are never low.
+ */
+export function isLowStock(product: ProductDoc): boolean {
+  return (
+    product.reorderLevel !== undefined &&
+    (product.stockQuantity || 0) <= product.reorderLevel
+  );
+}
+
+/**
+ * Products at or below their reorder level, emptiest first
+ */
+export async function getLowStockProducts(
+  shopId?: string
+): Promise<ProductDoc[]> {
+  const productsDB = await getProductsDB();
+  const result = await productsDB.find({
+    selector: addShopIdFilter({ type: "product" }, shopId),
+  });
+
+  const fillRatio = (product: ProductDoc) =>
+    (product.stockQuantity || 0) / Math.max(1, product.reorderLevel || 0);
+
+  return (result.docs as ProductDoc[])
+    .filter(isLowStock)
+    .sort((a, b) => fillRatio(a) - fillRatio(b));
+}
+
+/**
+ * Set or clear a product's reorder level and reorder quantity
+ */
+export async function updateReorderSettings(
+  productId: string,
+  reorderLevel?: number,
+  reorderQuantity?: number
+): Promise<ProductDoc> {
+  if (
+    (reorderLevel !== undefined && reorderLevel < 0) ||
+    (reorderQuantity !== undefined && reorderQuantity <= 0)
+  ) {
+    throw new Error(
+      "Reorder level can't be negative and reorder quantity must be above 0"
+    );
+  }
+
+  const productsDB = await getProductsDB();
+  const product = (await productsDB.get(productId)) as ProductDoc;
+  const updated: ProductDoc = {
+    ...product,
+    reorderLevel,
+    reorderQuantity,
+    updatedAt: new Date().toISOString(),
+  };
+  const result = await productsDB.put(updated);
+  return { ...updated, _rev: result.rev };
+}
+
+/**
+ * Work out what to buy again, grouped by the supplier each product was last
+ * bought from. Sell-through is measured over the last `lookbackDays`, the
+ * same way purchase run progress measures turnoverRate and
+ * daysOfInventoryRemaining. A product is suggested when it is at its reorder
+ * level or will run out within `coverDays`; enough is suggested to cover
+ * `coverDays` of sales on top of the reorder level, and never less than the
+ * product's reorder quantity.
+ */
+export async function getReorderSuggestions(params: {
+  shopId?: string;
+  lookbackDays?: number;
+  coverDays?: number;
+}): Promise<SupplierReorderGroup[]> {
+  const lookbackDays = params.lookbackDays ?? 30;
+  const coverDays = params.coverDays ?? 14;
+
+  const settings = await getShopSettings(params.shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const productsDB = await getProductsDB();
+  const salesDB = await getSalesDB();
+  const lotsDB = await getInventoryLotsDB();
+  const since = new Date(Date.now() - lookbackDays * DAY_MS).toISOString();
+
+  const [productsResult, salesResult, lotsResult, suppliers] =
+    await Promise.all([
+      productsDB.find({
+        selector: addShopIdFilter({ type: "product" }, params.shopId),
+      }),
+      salesDB.find({
+        selector: addShopIdFilter(
+          { type: "sale", timestamp: { $gte: since } },
+          params.shopId
+        ),
+      }),
+      lotsDB.find({
+        selector: addShopIdFilter({ type: "inventory_lot" }, params.shopId),
+      }),
+      getSuppliers(params.shopId, true),
+    ]);
+
+  // Units sold per product over the look-back period. A bundle sold
+  // counts against each of its components
+  const soldMap = new Map<string, number>();
+  const addSold = (productId: string, quantity: number) =>
+    soldMap.set(productId, (soldMap.get(productId) || 0) + quantity);
+  for (const sale of salesResult.docs as SaleDoc[]) {
+    if (sale.voided) continue;
+    for (const item of sale.items) {
+      if (item.components?.length) {
+        for (const component of item.components) {
+          addSold(component.productId, component.quantity * item.qty);
+        }
+      } else {
+        addSold(item.productId, item.qty);
+      }
+    }
+  }
+
+  // The most recent lot of each product tells us who supplies it
+  const lastLotMap = new Map<string, InventoryLot>();
+  for (const lot of lotsResult.docs as InventoryLot[]) {
+    const existing = lastLotMap.get(lot.productId);
+    if (!existing || lot.purchaseTimestamp > existing.purchaseTimestamp) {
+      lastLotMap.set(lot.productId, lot);
+    }
+  }
+  const supplierNames = new Map(suppliers.map((s) => [s._id, s.name]));
+
+  const groups = new Map<string, SupplierReorderGroup>();
+  for (const product of productsResult.docs as ProductDoc[]) {
+    // Bundles hold no stock of their own; their components are reordered
+    if (isBundle(product)) continue;
+
+    const stock = product.stockQuantity || 0;
+    const soldInPeriod = soldMap.get(product._id) || 0;
+    const turnoverRate = soldInPeriod / lookbackDays;
+    const daysOfInventoryRemaining =
+      turnoverRate > 0 ? Math.ceil(stock / turnoverRate) : null;
+
+    const runningOut =
+      daysOfInventoryRemaining !== null &&
+      daysOfInventoryRemaining <= coverDays;
+    if (!isLowStock(product) && !runningOut) continue;
+
+    const needed =
+      Math.ceil(turnoverRate * coverDays) + (product.reorderLevel || 0) - stock;
+    const suggestedQty = Math.max(needed, product.reorderQuantity || 1);
+
+    const lot = lastLotMap.get(product._id);
+    const supplierName =
+      (lot?.supplierId && supplierNames.get(lot.supplierId)) || lot?.supplier;
+    const key = lot?.supplierId || supplierName || "";
+    const group = groups.get(key) || {
+      supplierId: lot?.supplierId,
+      supplierName,
+      items: [],
+      totalCost: createMoney(0, baseCurrency),
+    };
+
+    const suggestion: ReorderSuggestion = {
+      productId: product._id,
+      productName: product.name,
+      productCode: product.code,
+      stockQuantity: stock,
+      reorderLevel: product.reorderLevel,
+      soldInPeriod,
+      turnoverRate,
+      daysOfInventoryRemaining,
+      suggestedQty,
+      costPrice: lot?.costPrice || product.costPrice || createMoney(0),
+      sellingPrice: product.price,
+    };
+    group.items.push(suggestion);
+    group.totalCost = createMoney(
+      group.totalCost.amount + toBase(suggestion.costPrice) * suggestedQty,
+      baseCurrency
+    );
+    groups.set(key, group);
+  }
+
+  // Most urgent first within each supplier; unknown supplier last
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      items: group.items.sort(
+        (a, b) =>
+          (a.daysOfInventoryRemaining ?? Infinity) -
+            (b.daysOfInventoryRemaining ?? Infinity) ||
+          a.stockQuantity - b.stockQuantity
+      ),
+    }))
+    .sort((a, b) => {
+      if (!a.supplierName !== !b.supplierName) return a.supplierName ? -1 : 1;
+      return (a.supplierName || "").localeCompare(b.supplierName || "");
+    });
+}
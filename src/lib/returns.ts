@@ -0,0 +1,505 @@
+import { getSalesDB, getProductsDB } from "./databases";
+import { createSaleReturnEntry, createSaleVoidEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { runTransaction, Transaction } from "./transactions";
+import { getLineGross, getNetLineAmounts } from "./saleDiscounts";
+import { roundQuantity } from "./units";
+import { getStockToRestore } from "./bundles";
+import { getSalePayments, getSaleAmountByMethod } from "./salePayments";
+import {
+  SaleDoc,
+  SaleReturnDoc,
+  SaleReturnItem,
+  PaymentMethod,
+  ProductDoc,
+} from "@/types";
+import { Money } from "@/types/money";
+
+type LotUsage = SaleReturnItem["lotsRestocked"][number];
+
+// What a bundle took from one component, for putting it back
+interface ComponentUsage {
+  productId: string;
+  quantity: number; // Per bundle
+  lots: LotUsage[];
+}
+
+/**
+ * Take up to `quantity` out of the most recent allocations first
+ */
+function takeLatestLots(
+  lots: LotUsage[],
+  quantity: number
+): { lots: LotUsage[]; remaining: number } {
+  let remaining = quantity;
+  const taken: LotUsage[] = [];
+  for (const lot of [...lots].reverse()) {
+    if (remaining <= 0) break;
+    const fromLot = Math.min(lot.quantity, remaining);
+    taken.push({ ...lot, quantity: fromLot });
+    remaining = roundQuantity(remaining - fromLot);
+  }
+  return { lots: taken, remaining };
+}
+
+/**
+ * Payment methods a sale can be refunded through. Credit only goes back
+ * onto the account of the customer the sale was put on credit for.
+ */
+export function getRefundMethods(sale: SaleDoc): PaymentMethod[] {
+  const methods: PaymentMethod[] = ["cash", "bank", "mobile_money"];
+  if (sale.customerId && getSaleAmountByMethod(sale, "credit") > 0) {
+    methods.push("credit");
+  }
+  return methods;
+}
+
+/**
+ * Refund through the sale's own payment method (the first tender of a
+ * split sale) where that's allowed, otherwise cash
+ */
+export function getDefaultRefundMethod(sale: SaleDoc): PaymentMethod {
+  const method = getSalePayments(sale)[0].method;
+  return getRefundMethods(sale).includes(method) ? method : "cash";
+}
+
+/**
+ * Get all returns recorded against a sale
+ */
+export async function getReturnsForSale(
+  saleId: string,
+  shopId?: string
+): Promise<SaleReturnDoc[]> {
+  const salesDB = await getSalesDB();
+
+  const result = await salesDB.find({
+    selector: addShopIdFilter({ type: "sale_return", saleId }, shopId),
+  });
+
+  return (result.docs as SaleReturnDoc[]).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+}
+
+/**
+ * Work out, per product, how much of a sale can still be returned and which
+ * lots the remaining quantity came from
+ */
+export function getReturnableItems(
+  sale: SaleDoc,
+  previousReturns: SaleReturnDoc[]
+): Array<{
+  productId: string;
+  productName: string;
+  productCode: string;
+  soldQty: number;
+  returnedQty: number;
+  returnableQty: number;
+  unitPrice: Money; // Net of line and basket discounts
+  unitDiscount: Money;
+  unitCost: Money;
+  lots: LotUsage[]; // Lots with the quantity still returnable into each
+  components?: ComponentUsage[]; // For bundles, the same per component
+}> {
+  // Quantities already put back, per lot and per product
+  const restockedPerLot = new Map<string, number>();
+  const returnedPerProduct = new Map<string, number>();
+  for (const saleReturn of previousReturns) {
+    for (const item of saleReturn.items) {
+      returnedPerProduct.set(
+        item.productId,
+        (returnedPerProduct.get(item.productId) || 0) + item.qty
+      );
+      for (const lot of item.lotsRestocked) {
+        restockedPerLot.set(
+          lot.lotId,
+          (restockedPerLot.get(lot.lotId) || 0) + lot.quantity
+        );
+      }
+    }
+  }
+
+  // The same product can appear on several cart lines, so group by product
+  const grouped = new Map<
+    string,
+    {
+      productId: string;
+      productName: string;
+      productCode: string;
+      soldQty: number;
+      totalPrice: number;
+      totalDiscount: number;
+      totalCost: number;
+      price: Money;
+      costPrice: Money;
+      lots: LotUsage[];
+      components?: ComponentUsage[];
+    }
+  >();
+
+  // Refunds are at what the customer actually paid for each line
+  const netAmounts = getNetLineAmounts(sale.items, sale.discount?.amount);
+
+  sale.items.forEach((item, index) => {
+    const existing = grouped.get(item.productId);
+    const lots = (item.lotsUsed || []).map((lot) => ({ ...lot }));
+    const components = item.components?.map((component) => ({
+      productId: component.productId,
+      quantity: component.quantity,
+      lots: component.lotsUsed.map((lot) => ({ ...lot })),
+    }));
+    const netAmount = netAmounts[index];
+    const discount = getLineGross(item) - netAmount;
+    if (existing) {
+      existing.soldQty += item.qty;
+      existing.totalPrice += netAmount;
+      existing.totalDiscount += discount;
+      existing.totalCost += item.costPrice.amount * item.qty;
+      existing.lots.push(...lots);
+      for (const component of components || []) {
+        const match = existing.components?.find(
+          (c) => c.productId === component.productId
+        );
+        if (match) {
+          match.lots.push(...component.lots);
+        } else {
+          existing.components = [...(existing.components || []), component];
+        }
+      }
+    } else {
+      grouped.set(item.productId, {
+        productId: item.productId,
+        productName: item.productName,
+        productCode: item.productCode,
+        soldQty: item.qty,
+        totalPrice: netAmount,
+        totalDiscount: discount,
+        totalCost: item.costPrice.amount * item.qty,
+        price: item.price,
+        costPrice: item.costPrice,
+        lots,
+        components,
+      });
+    }
+  });
+
+  // Remaining returnable quantity per lot
+  const remainingLots = (lots: LotUsage[]) =>
+    lots
+      .map((lot) => {
+        const alreadyRestocked = restockedPerLot.get(lot.lotId) || 0;
+        const quantity = roundQuantity(
+          Math.max(0, lot.quantity - alreadyRestocked)
+        );
+        restockedPerLot.set(
+          lot.lotId,
+          Math.max(0, alreadyRestocked - lot.quantity)
+        );
+        return { ...lot, quantity };
+      })
+      .filter((lot) => lot.quantity > 0);
+
+  return Array.from(grouped.values()).map((product) => {
+    const returnedQty = returnedPerProduct.get(product.productId) || 0;
+
+    const lots = remainingLots(product.lots);
+    const components = product.components?.map((component) => ({
+      ...component,
+      lots: remainingLots(component.lots),
+    }));
+
+    return {
+      productId: product.productId,
+      productName: product.productName,
+      productCode: product.productCode,
+      soldQty: product.soldQty,
+      returnedQty,
+      returnableQty: roundQuantity(Math.max(0, product.soldQty - returnedQty)),
+      unitPrice: {
+        ...product.price,
+        amount: product.totalPrice / product.soldQty,
+      },
+      unitDiscount: {
+        ...product.price,
+        amount: product.totalDiscount / product.soldQty,
+      },
+      unitCost: {
+        ...product.costPrice,
+        amount: product.totalCost / product.soldQty,
+      },
+      lots,
+      components,
+    };
+  });
+}
+
+// Add quantities back onto product stock levels, skipping products deleted
+// since the sale
+async function restoreStock(
+  tx: Transaction,
+  quantities: Map<string, number>
+): Promise<void> {
+  const productsDB = await getProductsDB();
+  for (const [productId, quantity] of quantities) {
+    const product = (await productsDB
+      .get(productId)
+      .catch(() => null)) as ProductDoc | null;
+    if (product) {
+      await tx.updateProduct(productId, quantity);
+    }
+  }
+}
+
+/**
+ * Record a full or partial return against a sale.
+ * Restocks the exact lots the goods were sold from (most recent allocation first),
+ * restores product stock and posts a reversing ledger entry, all as one
+ * transaction.
+ */
+export async function processSaleReturn(params: {
+  sale: SaleDoc;
+  items: Array<{ productId: string; qty: number }>;
+  refundMethod: PaymentMethod;
+  reason?: string;
+  shopId?: string;
+  createdBy?: string;
+}): Promise<SaleReturnDoc> {
+  const { sale, refundMethod, reason, shopId, createdBy } = params;
+  const items = params.items.filter((item) => item.qty > 0);
+
+  if (sale.voided) {
+    throw new Error("Cannot return items from a voided sale");
+  }
+  if (items.length === 0) {
+    throw new Error("Select at least one item to return");
+  }
+  if (!getRefundMethods(sale).includes(refundMethod)) {
+    throw new Error(
+      "Only a customer's credit sale can be refunded to their account"
+    );
+  }
+
+  const previousReturns = await getReturnsForSale(sale._id, shopId);
+  const returnable = getReturnableItems(sale, previousReturns);
+
+  const returnItems: SaleReturnItem[] = [];
+  let totalAmount = 0;
+  let totalCost = 0;
+  let totalDiscount = 0;
+
+  for (const requested of items) {
+    const product = returnable.find((p) => p.productId === requested.productId);
+    if (!product) {
+      throw new Error(`Product ${requested.productId} is not on this sale`);
+    }
+    if (requested.qty > product.returnableQty) {
+      throw new Error(
+        `Cannot return ${requested.qty} of ${product.productName}. Returnable: ${product.returnableQty}`
+      );
+    }
+
+    // Undo the most recent allocations first. A bundle goes back into
+    // each of its components' lots
+    let remainingToRestock = requested.qty;
+    const lotsRestocked: LotUsage[] = [];
+    let componentsRestocked: SaleReturnItem["componentsRestocked"];
+    if (product.components?.length) {
+      componentsRestocked = product.components.map((component) => {
+        const quantity = roundQuantity(component.quantity * requested.qty);
+        lotsRestocked.push(...takeLatestLots(component.lots, quantity).lots);
+        return { productId: component.productId, quantity };
+      });
+      remainingToRestock = 0;
+    } else {
+      const taken = takeLatestLots(product.lots, requested.qty);
+      lotsRestocked.push(...taken.lots);
+      remainingToRestock = taken.remaining;
+    }
+
+    // Sales recorded before lot tracking have nothing to restock into,
+    // so fall back to the average unit cost recorded on the sale
+    const itemCost =
+      lotsRestocked.reduce(
+        (sum, lot) => sum + lot.costPrice.amount * lot.quantity,
+        0
+      ) +
+      remainingToRestock * product.unitCost.amount;
+    const itemTotal = product.unitPrice.amount * requested.qty;
+    const itemDiscount = product.unitDiscount.amount * requested.qty;
+
+    totalAmount += itemTotal;
+    totalCost += itemCost;
+    totalDiscount += itemDiscount;
+
+    returnItems.push({
+      productId: product.productId,
+      productName: product.productName,
+      productCode: product.productCode,
+      qty: requested.qty,
+      price: product.unitPrice,
+      costPrice: { ...product.unitCost, amount: itemCost / requested.qty },
+      total: { ...product.unitPrice, amount: itemTotal },
+      discount:
+        itemDiscount > 0
+          ? { ...product.unitDiscount, amount: itemDiscount }
+          : undefined,
+      lotsRestocked,
+      componentsRestocked,
+    });
+  }
+
+  const now = new Date();
+  const returnId = `sale_return_${now.getTime()}`;
+
+  // Restore stock levels (for backward compatibility)
+  const stockToRestore = new Map<string, number>();
+  for (const item of returnItems) {
+    const restocked = item.componentsRestocked || [
+      { productId: item.productId, quantity: item.qty },
+    ];
+    for (const { productId, quantity } of restocked) {
+      stockToRestore.set(
+        productId,
+        (stockToRestore.get(productId) || 0) + quantity
+      );
+    }
+  }
+
+  const refundTotal: Money = { ...sale.totalAmount, amount: totalAmount };
+  const costTotal: Money = { ...sale.totalAmount, amount: totalCost };
+  const discountTotal: Money = { ...sale.totalAmount, amount: totalDiscount };
+
+  return runTransaction(
+    {
+      transactionType: "sale_return",
+      transactionId: returnId,
+      shopId,
+      createdBy,
+    },
+    async (tx) => {
+      // Put the goods back into the lots they came from
+      await tx.restockLots(returnItems.flatMap((item) => item.lotsRestocked));
+
+      await restoreStock(tx, stockToRestore);
+
+      const ledgerEntry = await tx.postLedgerEntry(returnId, () =>
+        createSaleReturnEntry(
+          returnId,
+          sale._id,
+          refundTotal,
+          costTotal,
+          refundMethod,
+          now.toISOString(),
+          shopId,
+          createdBy,
+          discountTotal
+        )
+      );
+
+      const returnDoc: SaleReturnDoc = {
+        _id: returnId,
+        type: "sale_return",
+        saleId: sale._id,
+        timestamp: now.toISOString(),
+        reason: reason || undefined,
+        items: returnItems,
+        totalAmount: refundTotal,
+        totalCost: costTotal,
+        refundMethod,
+        ledgerEntryId: ledgerEntry?._id,
+        status: "pending",
+        shopId,
+        createdBy,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      await tx.putDoc("sales", returnDoc);
+
+      return returnDoc;
+    }
+  );
+}
+
+/**
+ * Void a sale. Releases its FIFO allocations back to the lots, restores
+ * product stock and posts a compensating ledger entry, all as one
+ * transaction. The sale document is kept, only marked as voided with who,
+ * when and why.
+ */
+export async function voidSale(params: {
+  sale: SaleDoc;
+  reason: string;
+  shopId?: string;
+  voidedBy?: string;
+  voidedByName?: string;
+}): Promise<SaleDoc> {
+  const { sale, shopId, voidedBy, voidedByName } = params;
+  const reason = params.reason.trim();
+
+  if (sale.voided) {
+    throw new Error("This sale has already been voided");
+  }
+  if (!reason) {
+    throw new Error("A reason is required to void a sale");
+  }
+
+  // Returns already reversed part of the sale; voiding on top would double count
+  const previousReturns = await getReturnsForSale(sale._id, shopId);
+  if (previousReturns.length > 0) {
+    throw new Error(
+      "This sale has returns recorded against it. Return the remaining items instead"
+    );
+  }
+
+  const now = new Date();
+
+  return runTransaction(
+    {
+      transactionType: "sale_void",
+      // Each attempt gets its own journal; a failed one is kept after rollback
+      transactionId: `void_${sale._id}_${now.getTime()}`,
+      shopId,
+      createdBy: voidedBy,
+    },
+    async (tx) => {
+      // Release the FIFO allocations, including bundles' component lots
+      await tx.restockLots(
+        sale.items.flatMap((item) => [
+          ...(item.lotsUsed || []),
+          ...(item.components || []).flatMap((c) => c.lotsUsed),
+        ])
+      );
+
+      // Restore stock levels (for backward compatibility)
+      await restoreStock(tx, getStockToRestore(sale.items));
+
+      const ledgerEntry = await tx.postLedgerEntry(`void_${sale._id}`, () =>
+        createSaleVoidEntry(
+          sale._id,
+          reason,
+          now.toISOString(),
+          shopId,
+          voidedBy
+        )
+      );
+
+      return tx.updateDoc<SaleDoc>("sales", sale._id, (latest) => {
+        // Someone else voided it since we looked
+        if (latest.voided) {
+          throw new Error("This sale has already been voided");
+        }
+        return {
+          ...latest,
+          voided: {
+            voidedAt: now.toISOString(),
+            voidedBy,
+            voidedByName,
+            reason,
+            ledgerEntryId: ledgerEntry?._id,
+          },
+          updatedAt: now.toISOString(),
+        };
+      });
+    }
+  );
+}
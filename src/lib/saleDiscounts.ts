@@ -0,0 +1,68 @@
+import { SaleDoc, SaleItem } from "@/types";
+
+/**
+ * Value of a line at its selling price, before any discount
+ */
+export function getLineGross(item: SaleItem): number {
+  return item.price.amount * item.qty;
+}
+
+/**
+ * Spread a basket discount over the lines in proportion to what each line
+ * sells for after its own discount. The last line takes any rounding.
+ */
+export function apportionBasketDiscount(
+  items: SaleItem[],
+  basketDiscount = 0
+): number[] {
+  const lineTotal = items.reduce((sum, item) => sum + item.total.amount, 0);
+  if (basketDiscount <= 0 || lineTotal <= 0) {
+    return items.map(() => 0);
+  }
+
+  let allocated = 0;
+  return items.map((item, index) => {
+    if (index === items.length - 1) {
+      return basketDiscount - allocated;
+    }
+    const share = (basketDiscount * item.total.amount) / lineTotal;
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * What each line actually sold for, after line and basket discounts
+ */
+export function getNetLineAmounts(
+  items: SaleItem[],
+  basketDiscount = 0
+): number[] {
+  const shares = apportionBasketDiscount(items, basketDiscount);
+  return items.map((item, index) => item.total.amount - shares[index]);
+}
+
+/**
+ * Total discount given on a sale, line and basket discounts together
+ */
+export function getSaleDiscountTotal(
+  sale: Pick<SaleDoc, "items" | "discount">
+): number {
+  return (
+    sale.items.reduce((sum, item) => sum + (item.discount?.amount || 0), 0) +
+    (sale.discount?.amount || 0)
+  );
+}
+
+/**
+ * Lines that would sell at or below cost once discounts are taken off
+ */
+export function getBelowCostItems(
+  items: SaleItem[],
+  basketDiscount = 0
+): SaleItem[] {
+  const netAmounts = getNetLineAmounts(items, basketDiscount);
+  return items.filter(
+    (item, index) => netAmounts[index] / item.qty <= item.costPrice.amount
+  );
+}
@@ -0,0 +1,119 @@
+import { PaymentMethod, SaleDoc, SalePayment } from "@/types";
+import { Money, CurrencyCode, BASE_CURRENCY } from "@/types/money";
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  bank: "Bank",
+  mobile_money: "Mobile Money",
+  credit: "Credit",
+};
+
+/**
+ * Value of money in the base currency, at the rate it was captured with
+ */
+function toBase(money: Money, baseCurrency: CurrencyCode): number {
+  return money.currency === baseCurrency
+    ? money.amount
+    : money.amount / money.exchangeRate;
+}
+
+/**
+ * Display label for a payment method
+ */
+export function getPaymentMethodLabel(method: PaymentMethod | "split"): string {
+  return method === "split" ? "Split" : PAYMENT_METHOD_LABELS[method];
+}
+
+/**
+ * Apply tenders to a sale total in the order they were given. Each tender
+ * settles what is still due; a cash tender that goes over the amount due
+ * gets change back in its own currency. Other tenders cannot overpay.
+ * Returns the payment lines, what is still outstanding in base currency,
+ * and an error message when a tender is invalid.
+ */
+export function allocateSalePayments(
+  total: Money,
+  tenders: Array<{ method: PaymentMethod; amount: Money }>,
+  baseCurrency: CurrencyCode = BASE_CURRENCY
+): { payments: SalePayment[]; outstanding: number; error: string | null } {
+  let remaining = toBase(total, baseCurrency);
+  const payments: SalePayment[] = [];
+  let error: string | null = null;
+
+  for (const tender of tenders) {
+    if (tender.amount.amount <= 0) continue;
+
+    const tenderedInBase = toBase(tender.amount, baseCurrency);
+    const excessInBase = tenderedInBase - Math.max(0, remaining);
+
+    if (excessInBase > 0.0001 && tender.method !== "cash") {
+      error = `${getPaymentMethodLabel(
+        tender.method
+      )} payment is more than the amount still due`;
+    }
+
+    payments.push({
+      method: tender.method,
+      amount: tender.amount,
+      change:
+        tender.method === "cash"
+          ? {
+              ...tender.amount,
+              amount:
+                Math.max(0, excessInBase) *
+                (tender.amount.currency === baseCurrency
+                  ? 1
+                  : tender.amount.exchangeRate),
+            }
+          : undefined,
+    });
+    remaining -= tenderedInBase;
+  }
+
+  return { payments, outstanding: Math.max(0, remaining), error };
+}
+
+/**
+ * Amount a payment line actually put towards the sale, net of change
+ */
+export function getAppliedAmount(
+  payment: SalePayment,
+  baseCurrency: CurrencyCode = BASE_CURRENCY
+): number {
+  return (
+    toBase(payment.amount, baseCurrency) -
+    (payment.change ? toBase(payment.change, baseCurrency) : 0)
+  );
+}
+
+/**
+ * Payment lines for a sale. Sales recorded before split tender carry a
+ * single method, which is read back as one line covering the total.
+ */
+export function getSalePayments(sale: SaleDoc): SalePayment[] {
+  if (sale.payments && sale.payments.length > 0) {
+    return sale.payments;
+  }
+
+  const method = sale.paymentMethod === "split" ? "cash" : sale.paymentMethod;
+  if (method === "cash" && sale.cashReceived && sale.cashReceived.amount > 0) {
+    return [{ method, amount: sale.cashReceived, change: sale.change }];
+  }
+  return [{ method, amount: sale.totalAmount }];
+}
+
+/**
+ * How much of a sale was settled with a given payment method, in base currency
+ */
+export function getSaleAmountByMethod(
+  sale: SaleDoc,
+  method: PaymentMethod,
+  baseCurrency: CurrencyCode = BASE_CURRENCY
+): number {
+  return getSalePayments(sale)
+    .filter((payment) => payment.method === method)
+    .reduce(
+      (sum, payment) => sum + getAppliedAmount(payment, baseCurrency),
+      0
+    );
+}
@@ -1,5 +1,7 @@
 "use client"; // Mark as client-only code
 
+import { CostingMethod } from "@/types";
+
 // Don't import PouchDB at the top level to avoid server-side issues
 export let settingsDB: PouchDB.Database;
 let settingsDBPromise: Promise<PouchDB.Database> | null = null;
@@ -25,6 +27,10 @@ export interface ShopSettings {
     currency: string;
   }[];
   hasCompletedOnboarding: boolean;
+  costingMethod?: CostingMethod; // Defaults to FIFO
+  // Manual journal entries above this, in base currency, need a second
+  // approver before they post
+  journalApprovalThreshold?: number;
   shopId?: string; // Shop identifier for multi-user support
   createdAt: string;
   updatedAt: string;
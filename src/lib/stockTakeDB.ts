@@ -0,0 +1,430 @@
+import {
+  getStockTakesDB,
+  getProductsDB,
+  getInventoryLotsDB,
+} from "./databases";
+import { createInventoryAdjustmentEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { runTransaction } from "./transactions";
+import { isBundle } from "./bundles";
+import { InventoryLot, ProductDoc, PurchaseItem } from "@/types";
+import {
+  StockTakeDoc,
+  StockTakeLine,
+  StockCountDoc,
+  StockTakeVariance,
+  StockTakeAdjustment,
+} from "@/types/stockTake";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+/**
+ * Remaining quantity and cost value of every product's open lots
+ */
+async function getLotTotals(
+  shopId?: string
+): Promise<Map<string, { quantity: number; value: number }>> {
+  const lotsDB = await getInventoryLotsDB();
+  const result = await lotsDB.find({
+    selector: addShopIdFilter(
+      { type: "inventory_lot", remainingQuantity: { $gt: 0 } },
+      shopId
+    ),
+  });
+
+  const totals = new Map<string, { quantity: number; value: number }>();
+  for (const lot of result.docs as InventoryLot[]) {
+    const total = totals.get(lot.productId) || { quantity: 0, value: 0 };
+    total.quantity += lot.remainingQuantity;
+    total.value += lot.remainingQuantity * lot.costPrice.amount;
+    totals.set(lot.productId, total);
+  }
+  return totals;
+}
+
+/**
+ * Freeze what the system holds and open a stock take for counting. Pass
+ * productIds for a cycle count of just those products; otherwise every
+ * product is included.
+ */
+export async function startStockTake(params: {
+  name: string;
+  notes?: string;
+  productIds?: string[];
+  shopId?: string;
+  startedBy?: string;
+  startedByName?: string;
+}): Promise<StockTakeDoc> {
+  const productsDB = await getProductsDB();
+  const stockTakesDB = await getStockTakesDB();
+
+  const productsResult = await productsDB.find({
+    selector: addShopIdFilter({ type: "product" }, params.shopId),
+  });
+  // Bundles hold no stock of their own; their components are counted
+  let products = (productsResult.docs as ProductDoc[]).filter(
+    (product) => !isBundle(product)
+  );
+  if (params.productIds && params.productIds.length > 0) {
+    const wanted = new Set(params.productIds);
+    products = products.filter((product) => wanted.has(product._id));
+  }
+  if (products.length === 0) {
+    throw new Error("There are no products to count");
+  }
+
+  const lotTotals = await getLotTotals(params.shopId);
+
+  const lines: StockTakeLine[] = products
+    .map((product) => {
+      const total = lotTotals.get(product._id);
+      const lastCost =
+        product.costPrice || product.price || createMoney(0, BASE_CURRENCY);
+      return {
+        productId: product._id,
+        productName: product.name,
+        productCode: product.code,
+        barcode: product.barcode,
+        expectedQty: total?.quantity || 0,
+        unitCost:
+          total && total.quantity > 0
+            ? { ...lastCost, amount: total.value / total.quantity }
+            : lastCost,
+      };
+    })
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+
+  const now = new Date().toISOString();
+  const doc: StockTakeDoc = {
+    _id: `stock_take_${Date.now()}`,
+    type: "stock_take",
+    name: params.name,
+    notes: params.notes,
+    status: "counting",
+    snapshotAt: now,
+    lines,
+    startedBy: params.startedBy,
+    startedByName: params.startedByName,
+    shopId: params.shopId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const response = await stockTakesDB.put(doc);
+  return { ...doc, _rev: response.rev };
+}
+
+/**
+ * Get stock takes for a shop, newest first
+ */
+export async function getStockTakes(shopId?: string): Promise<StockTakeDoc[]> {
+  const stockTakesDB = await getStockTakesDB();
+
+  const result = await stockTakesDB.find({
+    selector: addShopIdFilter({ type: "stock_take" }, shopId),
+  });
+
+  return (result.docs as StockTakeDoc[]).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * Get a single stock take by ID
+ */
+export async function getStockTake(
+  stockTakeId: string
+): Promise<StockTakeDoc | null> {
+  const stockTakesDB = await getStockTakesDB();
+  return (await stockTakesDB
+    .get(stockTakeId)
+    .catch(() => null)) as StockTakeDoc | null;
+}
+
+/**
+ * Record a quantity counted for a product. Each entry is its own document,
+ * so counters working side by side never overwrite each other.
+ */
+export async function addStockCount(
+  count: Omit<StockCountDoc, "_id" | "type" | "timestamp">
+): Promise<StockCountDoc> {
+  const stockTakesDB = await getStockTakesDB();
+
+  const stockTake = await getStockTake(count.stockTakeId);
+  if (!stockTake || stockTake.status !== "counting") {
+    throw new Error("This stock take is no longer open for counting");
+  }
+  if (!stockTake.lines.some((line) => line.productId === count.productId)) {
+    throw new Error("This product is not part of the stock take");
+  }
+  // A zero count records that the product was looked for and not found
+  if (count.quantity < 0) {
+    throw new Error("Counted quantity cannot be negative");
+  }
+
+  const doc: StockCountDoc = {
+    ...count,
+    _id: `stock_count_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`,
+    type: "stock_count",
+    timestamp: new Date().toISOString(),
+  };
+
+  const response = await stockTakesDB.put(doc);
+  return { ...doc, _rev: response.rev };
+}
+
+/**
+ * Get every count entered for a stock take, newest first
+ */
+export async function getStockCounts(
+  stockTakeId: string
+): Promise<StockCountDoc[]> {
+  const stockTakesDB = await getStockTakesDB();
+  const result = await stockTakesDB.find({
+    selector: { type: "stock_count", stockTakeId },
+  });
+  return (result.docs as StockCountDoc[]).sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp)
+  );
+}
+
+/**
+ * Remove a count entered by mistake, while the stock take is still open
+ */
+export async function removeStockCount(countId: string): Promise<void> {
+  const stockTakesDB = await getStockTakesDB();
+  const count = (await stockTakesDB
+    .get(countId)
+    .catch(() => null)) as StockCountDoc | null;
+  if (!count) return;
+
+  const stockTake = await getStockTake(count.stockTakeId);
+  if (!stockTake || stockTake.status !== "counting") {
+    throw new Error("Counts cannot be changed once a stock take is closed");
+  }
+  await stockTakesDB.remove(count as PouchDB.Core.RemoveDocument);
+}
+
+/**
+ * Expected vs counted quantity for every product in a stock take
+ */
+export function getStockTakeVariances(
+  stockTake: StockTakeDoc,
+  counts: StockCountDoc[]
+): StockTakeVariance[] {
+  const counted = new Map<string, number>();
+  for (const count of counts) {
+    counted.set(
+      count.productId,
+      (counted.get(count.productId) || 0) + count.quantity
+    );
+  }
+
+  return stockTake.lines.map((line) => {
+    const countedQty = counted.has(line.productId)
+      ? (counted.get(line.productId) as number)
+      : null;
+    const variance = countedQty === null ? 0 : countedQty - line.expectedQty;
+    return {
+      line,
+      countedQty,
+      variance,
+      varianceValue: variance * line.unitCost.amount,
+    };
+  });
+}
+
+/**
+ * Cancel a stock take without changing any stock
+ */
+export async function cancelStockTake(
+  stockTakeId: string
+): Promise<StockTakeDoc> {
+  const stockTakesDB = await getStockTakesDB();
+  const stockTake = await getStockTake(stockTakeId);
+  if (!stockTake || stockTake.status !== "counting") {
+    throw new Error("Only an open stock take can be cancelled");
+  }
+
+  const now = new Date().toISOString();
+  const updated: StockTakeDoc = {
+    ...stockTake,
+    status: "cancelled",
+    cancelledAt: now,
+    updatedAt: now,
+  };
+  const response = await stockTakesDB.put(updated);
+  return { ...updated, _rev: response.rev };
+}
+
+/**
+ * Approve a stock take: bring each counted product's lots in line with the
+ * count and post the value difference to Inventory Adjustment. Sales and
+ * purchases made since the snapshot are carried over, so counting can go
+ * on while the shop trades. Shortages come out of the oldest lots first
+ * (valued at those lots' cost); surpluses go into a new lot at the
+ * product's snapshot unit cost. Products nobody counted are left alone.
+ */
+export async function approveStockTake(
+  stockTakeId: string,
+  approvedBy?: string,
+  approvedByName?: string
+): Promise<StockTakeDoc> {
+  const productsDB = await getProductsDB();
+
+  const stockTake = await getStockTake(stockTakeId);
+  if (!stockTake || stockTake.status !== "counting") {
+    throw new Error("Only an open stock take can be approved");
+  }
+
+  const settings = await getShopSettings(stockTake.shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const counts = await getStockCounts(stockTakeId);
+  const variances = getStockTakeVariances(stockTake, counts).filter(
+    (variance) => variance.countedQty !== null
+  );
+  if (variances.length === 0) {
+    throw new Error("Nothing has been counted yet");
+  }
+
+  const lotTotals = await getLotTotals(stockTake.shopId);
+  const adjustmentId = `stock_adjustment_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  return runTransaction(
+    {
+      transactionType: "stock_take",
+      transactionId: adjustmentId,
+      shopId: stockTake.shopId,
+      createdBy: approvedBy,
+    },
+    async (tx) => {
+      const adjustments: StockTakeAdjustment[] = [];
+      const surplusItems: PurchaseItem[] = [];
+      let shrinkage = 0;
+      let surplus = 0;
+
+      for (const { line, countedQty } of variances) {
+        const currentQty = lotTotals.get(line.productId)?.quantity || 0;
+        const movedSinceSnapshot = currentQty - line.expectedQty;
+        const targetQty = Math.max(
+          0,
+          (countedQty as number) + movedSinceSnapshot
+        );
+        const quantityDelta = targetQty - currentQty;
+        const product = (await productsDB
+          .get(line.productId)
+          .catch(() => null)) as ProductDoc | null;
+
+        let value = 0;
+        if (quantityDelta < 0) {
+          const { unitCost } = await tx.allocateLots(
+            line.productId,
+            -quantityDelta,
+            stockTake.shopId
+          );
+          value = quantityDelta * toBase(unitCost);
+          shrinkage -= value;
+        } else if (quantityDelta > 0) {
+          const sellingPrice = product?.price || line.unitCost;
+          surplusItems.push({
+            productId: line.productId,
+            productName: line.productName,
+            productCode: line.productCode,
+            qty: quantityDelta,
+            costPrice: line.unitCost,
+            intendedSellingPrice: sellingPrice,
+            expectedProfit: createMoney(
+              (toBase(sellingPrice) - toBase(line.unitCost)) * quantityDelta,
+              baseCurrency
+            ),
+            total: {
+              ...line.unitCost,
+              amount: line.unitCost.amount * quantityDelta,
+            },
+          });
+          value = quantityDelta * toBase(line.unitCost);
+          surplus += value;
+        }
+
+        // Keep the product's running stock level in step with its lots
+        if (product && (product.stockQuantity || 0) !== targetQty) {
+          await tx.updateProduct(
+            line.productId,
+            targetQty - (product.stockQuantity || 0)
+          );
+        }
+
+        adjustments.push({
+          productId: line.productId,
+          productName: line.productName,
+          expectedQty: line.expectedQty,
+          countedQty: countedQty as number,
+          quantityDelta,
+          value: createMoney(value, baseCurrency),
+        });
+      }
+
+      if (surplusItems.length > 0) {
+        await tx.createLots(
+          adjustmentId,
+          timestamp,
+          surplusItems,
+          undefined,
+          stockTake.shopId
+        );
+      }
+
+      const entry = await tx.postLedgerEntry(adjustmentId, () =>
+        createInventoryAdjustmentEntry(
+          adjustmentId,
+          createMoney(shrinkage, baseCurrency),
+          createMoney(surplus, baseCurrency),
+          `Stock take: ${stockTake.name}`,
+          timestamp,
+          stockTake.shopId,
+          approvedBy,
+          { stockTakeId }
+        )
+      );
+
+      const varianceValue = adjustments.reduce(
+        (sum, adjustment) => sum + adjustment.value.amount,
+        0
+      );
+      return tx.updateDoc<StockTakeDoc>(
+        "stock_takes",
+        stockTakeId,
+        (current) => {
+          // Someone else approved or cancelled it since we looked
+          if (current.status !== "counting") {
+            throw new Error("Only an open stock take can be approved");
+          }
+          return {
+            ...current,
+            status: "approved",
+            approvedBy,
+            approvedByName,
+            approvedAt: timestamp,
+            adjustments,
+            varianceValue: createMoney(varianceValue, baseCurrency),
+            ledgerEntryId: entry?._id,
+            updatedAt: timestamp,
+          };
+        }
+      );
+    }
+  );
+}
@@ -0,0 +1,185 @@
+import { getPurchasesDB } from "./databases";
+import { createSupplierReturnEntry } from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { getLotsByPurchaseRun } from "./inventory";
+import { getPurchaseCreditNotes, getPurchasePayments } from "./suppliersDB";
+import { runTransaction } from "./transactions";
+import { PaymentMethod, PurchaseDoc } from "@/types";
+import {
+  SupplierReturnDoc,
+  SupplierReturnLine,
+} from "@/types/supplierReturns";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  createMoney,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+/**
+ * Get the returns made against a purchase run, oldest first
+ */
+export async function getSupplierReturns(
+  purchaseRunId: string,
+  shopId?: string
+): Promise<SupplierReturnDoc[]> {
+  const purchasesDB = await getPurchasesDB();
+  const result = await purchasesDB.find({
+    selector: addShopIdFilter(
+      { type: "supplier_return", purchaseRunId },
+      shopId
+    ),
+  });
+  return (result.docs as SupplierReturnDoc[]).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+}
+
+/**
+ * Send goods back to the supplier out of specific lots of a purchase run.
+ * The lots and product stock go down, and the cost comes off Inventory
+ * against either a credit note on what is owed or a refund.
+ */
+export async function recordSupplierReturn(params: {
+  purchaseRunId: string;
+  lots: Array<{ lotId: string; quantity: number }>;
+  refundMethod: PaymentMethod;
+  reason?: string;
+  shopId?: string;
+  createdBy?: string;
+  createdByName?: string;
+}): Promise<SupplierReturnDoc> {
+  const { purchaseRunId, refundMethod, shopId, createdBy } = params;
+  const requested = params.lots.filter((lot) => lot.quantity > 0);
+  if (requested.length === 0) {
+    throw new Error("Select at least one item to return");
+  }
+
+  const purchasesDB = await getPurchasesDB();
+  const purchase = (await purchasesDB
+    .get(purchaseRunId)
+    .catch(() => null)) as PurchaseDoc | null;
+  if (!purchase) {
+    throw new Error("Purchase not found");
+  }
+
+  // Only this run's own lots, and no more than is still on hand
+  const runLots = await getLotsByPurchaseRun(purchaseRunId, shopId);
+  const items: SupplierReturnLine[] = requested.map((entry) => {
+    const lot = runLots.find((l) => l._id === entry.lotId);
+    if (!lot) {
+      throw new Error("Goods can only be returned from this purchase's lots");
+    }
+    if (entry.quantity > lot.remainingQuantity) {
+      throw new Error(
+        `Cannot return ${entry.quantity} of ${lot.productName}: only ${lot.remainingQuantity} left from this purchase`
+      );
+    }
+    return {
+      lotId: lot._id,
+      productId: lot.productId,
+      productName: lot.productName,
+      productCode: lot.productCode,
+      quantity: entry.quantity,
+      costPrice: lot.costPrice,
+    };
+  });
+
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const totalValue = createMoney(
+    items.reduce(
+      (sum, item) => sum + item.quantity * toBase(item.costPrice),
+      0
+    ),
+    baseCurrency
+  );
+
+  // A credit note can only come off money that is still owed
+  if (refundMethod === "credit") {
+    if (purchase.paymentMethod !== "credit") {
+      throw new Error(
+        "This purchase was paid for, so the supplier has to refund it"
+      );
+    }
+    const payments = await getPurchasePayments(purchaseRunId);
+    const creditNotes = await getPurchaseCreditNotes(purchaseRunId);
+    const outstanding =
+      toBase(purchase.totalAmount) -
+      payments.reduce((sum, payment) => sum + toBase(payment.amount), 0) -
+      creditNotes.reduce((sum, note) => sum + toBase(note.totalValue), 0);
+    if (totalValue.amount > outstanding + 0.0001) {
+      throw new Error(
+        `The return is worth more than the ${outstanding.toFixed(
+          2
+        )} ${baseCurrency} still owed. Ask the supplier for a refund instead`
+      );
+    }
+  }
+
+  const returnId = `supplier_return_${Date.now()}`;
+  const timestamp = new Date().toISOString();
+
+  return runTransaction(
+    {
+      transactionType: "supplier_return",
+      transactionId: returnId,
+      shopId,
+      createdBy,
+    },
+    async (tx) => {
+      await tx.takeFromLots(requested);
+
+      // The same product can come from more than one lot
+      const byProduct = new Map<string, number>();
+      for (const item of items) {
+        byProduct.set(
+          item.productId,
+          (byProduct.get(item.productId) || 0) + item.quantity
+        );
+      }
+      for (const [productId, quantity] of byProduct) {
+        await tx.updateProduct(productId, -quantity);
+      }
+
+      const entry = await tx.postLedgerEntry(returnId, () =>
+        createSupplierReturnEntry(
+          returnId,
+          purchaseRunId,
+          totalValue,
+          refundMethod,
+          timestamp,
+          shopId,
+          createdBy
+        )
+      );
+
+      const doc: SupplierReturnDoc = {
+        _id: returnId,
+        type: "supplier_return",
+        purchaseRunId,
+        supplierId: purchase.supplierId,
+        supplier: purchase.supplier,
+        items,
+        totalValue,
+        refundMethod,
+        reason: params.reason?.trim() || undefined,
+        timestamp,
+        ledgerEntryId: entry?._id,
+        shopId,
+        createdBy,
+        createdByName: params.createdByName,
+        createdAt: timestamp,
+      };
+      await tx.putDoc("purchases", doc);
+
+      return doc;
+    }
+  );
+}
@@ -0,0 +1,337 @@
+import { getSuppliersDB, getPurchasesDB } from "./databases";
+import {
+  createSupplierPaymentEntry,
+  getSettlementBalances,
+} from "./accounting";
+import { addShopIdFilter } from "./queryHelpers";
+import { getShopSettings } from "./settingsDB";
+import { runTransaction } from "./transactions";
+import { PurchaseDoc } from "@/types";
+import {
+  SupplierDoc,
+  SupplierPaymentDoc,
+  PayableBill,
+  PayablesAging,
+} from "@/types/suppliers";
+import { SupplierReturnDoc } from "@/types/supplierReturns";
+import {
+  Money,
+  CurrencyCode,
+  BASE_CURRENCY,
+  convertMoneyWithRates,
+} from "@/types/money";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get all suppliers for a shop, sorted by name
+ */
+export async function getSuppliers(
+  shopId?: string,
+  includeInactive = false
+): Promise<SupplierDoc[]> {
+  const suppliersDB = await getSuppliersDB();
+
+  const result = await suppliersDB.find({
+    selector: addShopIdFilter({ type: "supplier" }, shopId),
+  });
+
+  return (result.docs as SupplierDoc[])
+    .filter((supplier) => includeInactive || supplier.active)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a single supplier by ID
+ */
+export async function getSupplier(
+  supplierId: string
+): Promise<SupplierDoc | null> {
+  const suppliersDB = await getSuppliersDB();
+  return (await suppliersDB
+    .get(supplierId)
+    .catch(() => null)) as SupplierDoc | null;
+}
+
+/**
+ * Create or update a supplier
+ */
+export async function saveSupplier(
+  supplier: Omit<SupplierDoc, "_id" | "type" | "createdAt" | "updatedAt"> &
+    Partial<Pick<SupplierDoc, "_id" | "createdAt">>
+): Promise<SupplierDoc> {
+  const suppliersDB = await getSuppliersDB();
+  const now = new Date().toISOString();
+
+  const doc: SupplierDoc = {
+    ...supplier,
+    _id: supplier._id || `supplier_${Date.now()}`,
+    type: "supplier",
+    createdAt: supplier.createdAt || now,
+    updatedAt: now,
+  };
+
+  const response = await suppliersDB.put(doc);
+  return { ...doc, _rev: response.rev };
+}
+
+/**
+ * Due date for a purchase made on the given terms
+ */
+export function calculateDueDate(
+  timestamp: string,
+  paymentTermsDays: number
+): string {
+  return new Date(
+    new Date(timestamp).getTime() + paymentTermsDays * DAY_MS
+  ).toISOString();
+}
+
+/**
+ * Get the payments made against a purchase, oldest first
+ */
+export async function getPurchasePayments(
+  purchaseId: string
+): Promise<SupplierPaymentDoc[]> {
+  const suppliersDB = await getSuppliersDB();
+  const result = await suppliersDB.find({
+    selector: { type: "supplier_payment", purchaseId },
+  });
+  return (result.docs as SupplierPaymentDoc[]).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+}
+
+/**
+ * Get the credit notes a supplier gave against a purchase for goods sent
+ * back to them
+ */
+export async function getPurchaseCreditNotes(
+  purchaseId: string
+): Promise<SupplierReturnDoc[]> {
+  const purchasesDB = await getPurchasesDB();
+  const result = await purchasesDB.find({
+    selector: {
+      type: "supplier_return",
+      purchaseRunId: purchaseId,
+      refundMethod: "credit",
+    },
+  });
+  return (result.docs as SupplierReturnDoc[]).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+}
+
+/**
+ * Get every credit purchase that still has money owing on it, in base
+ * currency. Purchases recorded before due dates existed fall due on the
+ * day they were made.
+ */
+export async function getPayableBills(
+  shopId?: string,
+  asOf: Date = new Date()
+): Promise<{ bills: PayableBill[]; currency: CurrencyCode }> {
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const purchasesDB = await getPurchasesDB();
+  const suppliersDB = await getSuppliersDB();
+
+  const purchasesResult = await purchasesDB.find({
+    selector: addShopIdFilter(
+      { type: "purchase", paymentMethod: "credit" },
+      shopId
+    ),
+  });
+  const paymentsResult = await suppliersDB.find({
+    selector: addShopIdFilter({ type: "supplier_payment" }, shopId),
+  });
+  const creditNotesResult = await purchasesDB.find({
+    selector: addShopIdFilter(
+      { type: "supplier_return", refundMethod: "credit" },
+      shopId
+    ),
+  });
+  const suppliers = await getSuppliers(shopId, true);
+
+  // Credit notes for returned goods settle a bill just like a payment
+  const paidByPurchase = new Map<string, number>();
+  for (const payment of paymentsResult.docs as SupplierPaymentDoc[]) {
+    paidByPurchase.set(
+      payment.purchaseId,
+      (paidByPurchase.get(payment.purchaseId) || 0) + toBase(payment.amount)
+    );
+  }
+  for (const creditNote of creditNotesResult.docs as SupplierReturnDoc[]) {
+    paidByPurchase.set(
+      creditNote.purchaseRunId,
+      (paidByPurchase.get(creditNote.purchaseRunId) || 0) +
+        toBase(creditNote.totalValue)
+    );
+  }
+
+  const bills = (purchasesResult.docs as PurchaseDoc[])
+    .map((purchase) => {
+      const total = toBase(purchase.totalAmount);
+      const paid = paidByPurchase.get(purchase._id) || 0;
+      const dueDate = purchase.dueDate || purchase.timestamp;
+      const supplier = suppliers.find((s) => s._id === purchase.supplierId);
+      return {
+        purchaseId: purchase._id,
+        supplierId: purchase.supplierId,
+        supplierName: supplier?.name || purchase.supplier || "Unknown supplier",
+        timestamp: purchase.timestamp,
+        dueDate,
+        total,
+        paid,
+        outstanding: total - paid,
+        daysOverdue: Math.floor(
+          (asOf.getTime() - new Date(dueDate).getTime()) / DAY_MS
+        ),
+      };
+    })
+    .filter((bill) => bill.outstanding > 0.0001)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  return { bills, currency: baseCurrency };
+}
+
+/**
+ * Bucket outstanding bills by how far past their due date they are
+ */
+export function getPayablesAging(bills: PayableBill[]): PayablesAging {
+  const aging: PayablesAging = {
+    current: 0,
+    days1to30: 0,
+    days31to60: 0,
+    days61to90: 0,
+    over90: 0,
+    total: 0,
+  };
+
+  for (const bill of bills) {
+    if (bill.daysOverdue <= 0) {
+      aging.current += bill.outstanding;
+    } else if (bill.daysOverdue <= 30) {
+      aging.days1to30 += bill.outstanding;
+    } else if (bill.daysOverdue <= 60) {
+      aging.days31to60 += bill.outstanding;
+    } else if (bill.daysOverdue <= 90) {
+      aging.days61to90 += bill.outstanding;
+    } else {
+      aging.over90 += bill.outstanding;
+    }
+    aging.total += bill.outstanding;
+  }
+
+  return aging;
+}
+
+/**
+ * Record money paid to a supplier against a credit purchase
+ */
+export async function recordSupplierPayment(params: {
+  purchaseId: string;
+  amount: Money;
+  paymentMethod: SupplierPaymentDoc["paymentMethod"];
+  reference?: string;
+  notes?: string;
+  shopId?: string;
+  createdBy?: string;
+}): Promise<SupplierPaymentDoc> {
+  const { purchaseId, amount, paymentMethod, shopId, createdBy } = params;
+
+  if (amount.amount <= 0) {
+    throw new Error("Payment amount must be greater than 0");
+  }
+
+  const purchasesDB = await getPurchasesDB();
+  const purchase = (await purchasesDB
+    .get(purchaseId)
+    .catch(() => null)) as PurchaseDoc | null;
+  if (!purchase) {
+    throw new Error("Purchase not found");
+  }
+  if (purchase.paymentMethod !== "credit") {
+    throw new Error("Only credit purchases can be paid off");
+  }
+
+  const settings = await getShopSettings(shopId);
+  const baseCurrency = (settings?.baseCurrency ||
+    BASE_CURRENCY) as CurrencyCode;
+  const toBase = (money: Money) =>
+    convertMoneyWithRates(money, baseCurrency, 1, baseCurrency).amount;
+
+  const payments = await getPurchasePayments(purchaseId);
+  const creditNotes = await getPurchaseCreditNotes(purchaseId);
+  const outstanding =
+    toBase(purchase.totalAmount) -
+    payments.reduce((sum, payment) => sum + toBase(payment.amount), 0) -
+    creditNotes.reduce((sum, note) => sum + toBase(note.totalValue), 0);
+  const amountBase = toBase(amount);
+  if (amountBase > outstanding + 0.0001) {
+    throw new Error(
+      `Payment exceeds the outstanding balance of ${outstanding.toFixed(
+        2
+      )} ${baseCurrency}`
+    );
+  }
+
+  const now = new Date();
+  const balances = await getSettlementBalances(now.toISOString(), shopId);
+  if (balances[paymentMethod].amount < amountBase) {
+    throw new Error(
+      `Insufficient ${
+        paymentMethod === "mobile_money" ? "mobile money" : paymentMethod
+      } balance for this payment`
+    );
+  }
+
+  const paymentId = `supplier_payment_${now.getTime()}`;
+
+  return runTransaction(
+    {
+      transactionType: "supplier_payment",
+      transactionId: paymentId,
+      shopId,
+      createdBy,
+    },
+    async (tx) => {
+      const ledgerEntry = await tx.postLedgerEntry(paymentId, () =>
+        createSupplierPaymentEntry(
+          paymentId,
+          purchaseId,
+          purchase.supplierId,
+          amount,
+          paymentMethod,
+          now.toISOString(),
+          shopId,
+          createdBy
+        )
+      );
+
+      const paymentDoc: SupplierPaymentDoc = {
+        _id: paymentId,
+        type: "supplier_payment",
+        purchaseId,
+        supplierId: purchase.supplierId,
+        timestamp: now.toISOString(),
+        amount,
+        paymentMethod,
+        reference: params.reference || undefined,
+        notes: params.notes || undefined,
+        ledgerEntryId: ledgerEntry?._id,
+        shopId,
+        createdBy,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      await tx.putDoc("suppliers", paymentDoc);
+
+      return paymentDoc;
+    }
+  );
+}
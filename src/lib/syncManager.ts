@@ -191,6 +191,12 @@ export class SyncManager {
       "inventory_lots",
       "cash_in_hand",
       "eod_cash_records",
+      "customers",
+      "suppliers",
+      "stock_takes",
+      "inventory_adjustments",
+      "expenses",
+      "financing",
       "settings",
       "users",
     ];
@@ -0,0 +1,456 @@
+import {
+  getTransactionsDB,
+  getProductsDB,
+  getSalesDB,
+  getPurchasesDB,
+  getInventoryLotsDB,
+  getLedgerDB,
+  getInventoryAdjustmentsDB,
+  getExpensesDB,
+  getFinancingDB,
+  getCustomersDB,
+  getSuppliersDB,
+  getStockTakesDB,
+} from "./databases";
+import {
+  allocateInventory,
+  createInventoryLots,
+  restockInventoryLots,
+  revalueLotsAtAverage,
+  takeFromInventoryLots,
+} from "./inventory";
+import { roundQuantity } from "./units";
+import { InventoryLot, ProductDoc, PurchaseItem } from "@/types";
+import { LedgerEntryDoc } from "@/types/accounting";
+import { CostAllocation } from "@/types/costing";
+import {
+  CompensationStep,
+  TransactionDatabase,
+  TransactionJournalDoc,
+} from "@/types/transactions";
+import { Money } from "@/types/money";
+
+// Transactions untouched for this long are assumed abandoned (e.g. the tab
+// was closed mid-write) rather than still running in another tab
+const STALE_TRANSACTION_MS = 60 * 1000;
+
+/**
+ * Writes available inside runTransaction. Each one journals how to undo
+ * itself so a failure (or a reload) never leaves a half-written sale,
+ * purchase or stock adjustment behind.
+ */
+export interface Transaction {
+  allocateLots(
+    productId: string,
+    quantity: number,
+    shopId?: string,
+    preferredLotId?: string
+  ): Promise<CostAllocation>;
+  takeFromLots(
+    lots: Array<{ lotId: string; quantity: number }>
+  ): Promise<
+    Array<{
+      lotId: string;
+      purchaseRunId: string;
+      quantity: number;
+      costPrice: Money;
+    }>
+  >;
+  restockLots(lots: Array<{ lotId: string; quantity: number }>): Promise<void>;
+  updateProduct(
+    productId: string,
+    stockDelta: number,
+    changes?: Partial<Pick<ProductDoc, "price" | "costPrice" | "purchaseDate">>
+  ): Promise<void>;
+  putDoc(db: TransactionDatabase, doc: { _id: string }): Promise<void>;
+  updateDoc<T extends { _id: string; _rev?: string }>(
+    db: TransactionDatabase,
+    docId: string,
+    update: (doc: T) => T
+  ): Promise<T>;
+  createLots(
+    purchaseRunId: string,
+    purchaseTimestamp: string,
+    items: PurchaseItem[],
+    supplier?: string,
+    shopId?: string,
+    supplierId?: string
+  ): Promise<InventoryLot[]>;
+  revalueLots(productIds: string[], shopId?: string): Promise<number>;
+  postLedgerEntry(
+    transactionId: string,
+    post: () => Promise<LedgerEntryDoc | null>
+  ): Promise<LedgerEntryDoc | null>;
+}
+
+async function getDocDB(db: TransactionDatabase): Promise<PouchDB.Database> {
+  switch (db) {
+    case "sales":
+      return getSalesDB();
+    case "purchases":
+      return getPurchasesDB();
+    case "inventory_adjustments":
+      return getInventoryAdjustmentsDB();
+    case "expenses":
+      return getExpensesDB();
+    case "financing":
+      return getFinancingDB();
+    case "customers":
+      return getCustomersDB();
+    case "suppliers":
+      return getSuppliersDB();
+    case "stock_takes":
+      return getStockTakesDB();
+  }
+}
+
+async function saveJournal(journal: TransactionJournalDoc): Promise<void> {
+  const transactionsDB = await getTransactionsDB();
+  journal.updatedAt = new Date().toISOString();
+  const response = await transactionsDB.put(journal);
+  journal._rev = response.rev;
+}
+
+/**
+ * Apply a single compensation. Every step is safe to replay: removals and
+ * restores are absolute, and quantity changes are skipped when the lot or
+ * product is still at the quantity it had before the write.
+ */
+async function compensate(step: CompensationStep): Promise<void> {
+  switch (step.kind) {
+    case "restock_lots": {
+      const lotsDB = await getInventoryLotsDB();
+      const toRestock: Array<{ lotId: string; quantity: number }> = [];
+      for (const entry of step.lots) {
+        if (entry.remainingBefore !== undefined) {
+          const lot = (await lotsDB
+            .get(entry.lotId)
+            .catch(() => null)) as InventoryLot | null;
+          if (!lot || lot.remainingQuantity === entry.remainingBefore) {
+            continue;
+          }
+        }
+        toRestock.push(entry);
+      }
+      await restockInventoryLots(toRestock);
+      break;
+    }
+
+    case "take_lots": {
+      const lotsDB = await getInventoryLotsDB();
+      const toTake: Array<{ lotId: string; quantity: number }> = [];
+      for (const entry of step.lots) {
+        const lot = (await lotsDB
+          .get(entry.lotId)
+          .catch(() => null)) as InventoryLot | null;
+        if (lot && lot.remainingQuantity !== entry.remainingBefore) {
+          toTake.push(entry);
+        }
+      }
+      await takeFromInventoryLots(toTake);
+      break;
+    }
+
+    case "update_product": {
+      const productsDB = await getProductsDB();
+      const product = (await productsDB
+        .get(step.productId)
+        .catch(() => null)) as ProductDoc | null;
+      if (product) {
+        const unchanged =
+          step.previousStock !== undefined &&
+          (product.stockQuantity || 0) === step.previousStock;
+        await productsDB.put({
+          ...product,
+          ...step.previousFields,
+          stockQuantity: unchanged
+            ? product.stockQuantity
+            : roundQuantity((product.stockQuantity || 0) - step.stockDelta),
+          updatedAt: new Date().toISOString(),
+        });
+      }
+      break;
+    }
+
+    case "remove_doc": {
+      const db = await getDocDB(step.db);
+      const doc = await db.get(step.docId).catch(() => null);
+      if (doc) {
+        await db.remove(doc);
+      }
+      break;
+    }
+
+    case "restore_doc": {
+      const db = await getDocDB(step.db);
+      const current = await db.get(step.previous._id).catch(() => null);
+      if (current) {
+        await db.put({ ...step.previous, _rev: current._rev });
+      }
+      break;
+    }
+
+    case "restore_lot_costs": {
+      const lotsDB = await getInventoryLotsDB();
+      for (const { lotId, costPrice } of step.lots) {
+        const lot = (await lotsDB
+          .get(lotId)
+          .catch(() => null)) as InventoryLot | null;
+        if (lot) {
+          await lotsDB.put({
+            ...lot,
+            costPrice,
+            updatedAt: new Date().toISOString(),
+          });
+        }
+      }
+      break;
+    }
+
+    case "remove_lots": {
+      const lotsDB = await getInventoryLotsDB();
+      const result = await lotsDB.find({
+        selector: { type: "inventory_lot", purchaseRunId: step.purchaseRunId },
+      });
+      for (const lot of result.docs) {
+        await lotsDB.remove(lot);
+      }
+      break;
+    }
+
+    case "remove_ledger_entries": {
+      const ledgerDB = await getLedgerDB();
+      const result = await ledgerDB.find({
+        selector: { type: "ledger_entry", transactionId: step.transactionId },
+      });
+      for (const entry of result.docs) {
+        await ledgerDB.remove(entry);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Undo the journalled steps newest first. Each step is dropped from the
+ * journal as soon as it has been undone, so an interrupted rollback resumes
+ * where it stopped; a step undone just before a crash is replayed safely.
+ */
+async function rollback(journal: TransactionJournalDoc): Promise<void> {
+  try {
+    while (journal.steps.length > 0) {
+      await compensate(journal.steps[journal.steps.length - 1]);
+      journal.steps.pop();
+      await saveJournal(journal);
+    }
+    journal.status = "rolled_back";
+    await saveJournal(journal);
+  } catch (err) {
+    console.error(
+      `Rollback of ${journal.transactionType} ${journal.transactionId} failed:`,
+      err
+    );
+    journal.status = "failed";
+    journal.error = err instanceof Error ? err.message : String(err);
+    await saveJournal(journal).catch(() => undefined);
+  }
+}
+
+/**
+ * Run the writes for a sale or purchase as one unit. If work throws, every
+ * write already made through the transaction is compensated before the
+ * error is rethrown.
+ */
+export async function runTransaction<T>(
+  params: {
+    transactionType: TransactionJournalDoc["transactionType"];
+    transactionId: string;
+    shopId?: string;
+    createdBy?: string;
+  },
+  work: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  const now = new Date().toISOString();
+  const journal: TransactionJournalDoc = {
+    _id: `transaction_${params.transactionId}`,
+    type: "transaction_journal",
+    transactionType: params.transactionType,
+    transactionId: params.transactionId,
+    status: "in_progress",
+    steps: [],
+    shopId: params.shopId,
+    createdBy: params.createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveJournal(journal);
+
+  const record = async (step: CompensationStep) => {
+    journal.steps.push(step);
+    await saveJournal(journal);
+  };
+
+  // Every write is journalled before it is made, so a crash in between
+  // leaves a step whose undo is a no-op rather than a write with no undo
+  const tx: Transaction = {
+    allocateLots: (productId, quantity, shopId, preferredLotId) =>
+      allocateInventory(
+        productId,
+        quantity,
+        shopId,
+        (lot) => record({ kind: "restock_lots", lots: [lot] }),
+        preferredLotId
+      ),
+
+    takeFromLots: (lots) =>
+      takeFromInventoryLots(lots, (lot) =>
+        record({ kind: "restock_lots", lots: [lot] })
+      ),
+
+    restockLots: async (lots) => {
+      const lotsDB = await getInventoryLotsDB();
+      for (const { lotId, quantity } of lots) {
+        if (quantity <= 0) continue;
+        const lot = (await lotsDB.get(lotId)) as InventoryLot;
+        await record({
+          kind: "take_lots",
+          lots: [{ lotId, quantity, remainingBefore: lot.remainingQuantity }],
+        });
+        await restockInventoryLots([{ lotId, quantity }]);
+      }
+    },
+
+    updateProduct: async (productId, stockDelta, changes) => {
+      const productsDB = await getProductsDB();
+      const product = (await productsDB.get(productId)) as ProductDoc;
+      await record({
+        kind: "update_product",
+        productId,
+        stockDelta,
+        previousStock: product.stockQuantity || 0,
+        previousFields: changes
+          ? {
+              price: product.price,
+              costPrice: product.costPrice,
+              purchaseDate: product.purchaseDate,
+            }
+          : undefined,
+      });
+      await productsDB.put({
+        ...product,
+        ...changes,
+        stockQuantity: roundQuantity((product.stockQuantity || 0) + stockDelta),
+        updatedAt: new Date().toISOString(),
+      });
+    },
+
+    putDoc: async (db, doc) => {
+      await record({ kind: "remove_doc", db, docId: doc._id });
+      await (await getDocDB(db)).put(doc);
+    },
+
+    updateDoc: async <T extends { _id: string; _rev?: string }>(
+      db: TransactionDatabase,
+      docId: string,
+      update: (doc: T) => T
+    ) => {
+      const docDB = await getDocDB(db);
+      const previous = (await docDB.get(docId)) as unknown as T;
+      // Updaters may change nested fields in place, so keep our own copy
+      const updated = update(structuredClone(previous));
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { _rev, ...previousFields } = previous;
+      await record({ kind: "restore_doc", db, previous: previousFields });
+      const response = await docDB.put(updated);
+      return { ...updated, _rev: response.rev };
+    },
+
+    createLots: async (
+      purchaseRunId,
+      purchaseTimestamp,
+      items,
+      supplier,
+      shopId,
+      supplierId
+    ) => {
+      await record({ kind: "remove_lots", purchaseRunId });
+      const lots = await createInventoryLots(
+        purchaseRunId,
+        purchaseTimestamp,
+        items,
+        supplier,
+        shopId,
+        supplierId
+      );
+      await revalueLotsAtAverage(
+        items.map((item) => item.productId),
+        shopId,
+        (lot) => record({ kind: "restore_lot_costs", lots: [lot] })
+      );
+      return lots;
+    },
+
+    revalueLots: (productIds, shopId) =>
+      revalueLotsAtAverage(productIds, shopId, (lot) =>
+        record({ kind: "restore_lot_costs", lots: [lot] })
+      ),
+
+    postLedgerEntry: async (transactionId, post) => {
+      await record({ kind: "remove_ledger_entries", transactionId });
+      return post();
+    },
+  };
+
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (err) {
+    journal.error = err instanceof Error ? err.message : String(err);
+    await rollback(journal);
+    throw err;
+  }
+
+  // Committed transactions need no journal. Failing to delete it must not
+  // undo the writes, so mark it committed and leave it for recovery to skip.
+  try {
+    const transactionsDB = await getTransactionsDB();
+    await transactionsDB.remove(journal._id, journal._rev as string);
+  } catch (err) {
+    console.error(
+      `Couldn't clear the journal of ${journal.transactionType} ${journal.transactionId}:`,
+      err
+    );
+    journal.status = "committed";
+    await saveJournal(journal).catch(() => undefined);
+  }
+
+  return result;
+}
+
+/**
+ * Roll back transactions left half-finished by a crash or closed tab.
+ * Called once when the app starts.
+ */
+export async function recoverPendingTransactions(): Promise<number> {
+  const transactionsDB = await getTransactionsDB();
+  const result = await transactionsDB.find({
+    selector: {
+      type: "transaction_journal",
+      status: { $in: ["in_progress", "failed"] },
+    },
+  });
+
+  const cutoff = Date.now() - STALE_TRANSACTION_MS;
+  const pending = (result.docs as TransactionJournalDoc[]).filter(
+    (journal) => new Date(journal.updatedAt).getTime() < cutoff
+  );
+
+  for (const journal of pending) {
+    console.warn(
+      `Recovering interrupted ${journal.transactionType} ${journal.transactionId}`
+    );
+    await rollback(journal);
+  }
+
+  return pending.length;
+}
@@ -0,0 +1,149 @@
+import { getProductsDB } from "./databases";
+import { PackUnit, ProductDoc, PurchaseItem } from "@/types";
+import { Money } from "@/types/money";
+
+// Products without a unit are counted in whole units
+export const DEFAULT_UNIT = "unit";
+
+// Weighed goods are tracked to the gram / millilitre
+const QUANTITY_DECIMALS = 3;
+
+/**
+ * Round a quantity to the precision stock is tracked at, so repeated
+ * fractional sales don't leave lots with 0.000000001 left in them
+ */
+export function roundQuantity(quantity: number): number {
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round(quantity * factor) / factor;
+}
+
+export function getBaseUnit(product?: Pick<ProductDoc, "unit">): string {
+  return product?.unit?.trim() || DEFAULT_UNIT;
+}
+
+/**
+ * Quantity with its unit, e.g. "2.5 kg" or "3 units"
+ */
+export function formatQuantity(quantity: number, unit?: string): string {
+  const name = unit || DEFAULT_UNIT;
+  const rounded = roundQuantity(quantity);
+  const label = name === DEFAULT_UNIT && rounded !== 1 ? "units" : name;
+  return `${rounded} ${label}`;
+}
+
+/**
+ * Quantity bought, with the packs it came in, e.g. "100 kg (2 bag)"
+ */
+export function formatPurchaseQuantity(item: PurchaseItem): string {
+  const base = formatQuantity(item.qty, item.unit);
+  return item.packUnit && item.packQty !== undefined
+    ? `${base} (${roundQuantity(item.packQty)} ${item.packUnit})`
+    : base;
+}
+
+/**
+ * Smallest quantity that can be sold or bought in the base unit
+ */
+export function getMinQuantity(product?: Pick<ProductDoc, "fractional">) {
+  return product?.fractional ? 10 ** -QUANTITY_DECIMALS : 1;
+}
+
+/**
+ * Check a base unit quantity suits the product: above zero, and whole
+ * unless the product is weighed or measured
+ */
+export function validateQuantity(
+  product: Pick<ProductDoc, "name" | "fractional">,
+  quantity: number
+): string | null {
+  if (!(quantity > 0)) {
+    return `Quantity of ${product.name} must be greater than 0`;
+  }
+  if (!product.fractional && !Number.isInteger(quantity)) {
+    return `${product.name} is sold in whole units only`;
+  }
+  return null;
+}
+
+/**
+ * Convert a quantity and price in a pack unit to the product's base unit.
+ * The total stays the same: 2 bags of 50kg at 40 a bag is 100kg at 0.80.
+ */
+export function toBaseUnits(
+  quantity: number,
+  unitPrice: Money,
+  pack?: PackUnit
+): { quantity: number; unitPrice: Money } {
+  if (!pack || pack.factor === 1) {
+    return { quantity, unitPrice };
+  }
+  return {
+    quantity: roundQuantity(quantity * pack.factor),
+    unitPrice: { ...unitPrice, amount: unitPrice.amount / pack.factor },
+  };
+}
+
+/**
+ * Price of a whole pack from a base unit price
+ */
+export function toPackPrice(unitPrice: Money, pack?: PackUnit): Money {
+  return pack
+    ? { ...unitPrice, amount: unitPrice.amount * pack.factor }
+    : unitPrice;
+}
+
+/**
+ * Set a product's base unit, whether it sells in part units and the packs
+ * it is bought in. Stock is kept in the base unit, so the base unit can only
+ * change while none is held.
+ */
+export async function updateProductUnits(
+  productId: string,
+  units: Pick<ProductDoc, "unit" | "fractional" | "packUnits">
+): Promise<ProductDoc> {
+  const packUnits = (units.packUnits || [])
+    .map((pack) => ({ name: pack.name.trim(), factor: pack.factor }))
+    .filter((pack) => pack.name);
+  const unit = units.unit?.trim() || undefined;
+
+  const names = new Set<string>([unit || DEFAULT_UNIT]);
+  for (const pack of packUnits) {
+    if (!(pack.factor > 0)) {
+      throw new Error(
+        `A ${pack.name} must hold more than 0 ${unit || "units"}`
+      );
+    }
+    if (names.has(pack.name)) {
+      throw new Error(`The unit "${pack.name}" is listed more than once`);
+    }
+    names.add(pack.name);
+  }
+
+  const productsDB = await getProductsDB();
+  const product = (await productsDB.get(productId)) as ProductDoc;
+  if (getBaseUnit(product) !== (unit || DEFAULT_UNIT)) {
+    if ((product.stockQuantity || 0) !== 0) {
+      throw new Error(
+        "The base unit can't change while there is stock. Sell, write off or count it to zero first"
+      );
+    }
+  }
+  if (
+    !units.fractional &&
+    !Number.isInteger(roundQuantity(product.stockQuantity || 0))
+  ) {
+    throw new Error(
+      `${product.name} has part units in stock, so it must stay sold by weight or measure`
+    );
+  }
+
+  const updated: ProductDoc = {
+    ...product,
+    unit,
+    fractional: units.fractional || undefined,
+    packUnits: packUnits.length > 0 ? packUnits : undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  const result = await productsDB.put(updated);
+  return { ...updated, _rev: result.rev };
+}
@@ -10,19 +10,24 @@ export type AccountType =
   | "expense" // Costs incurred
   | "contra"; // Contra accounts that offset other accounts
 
-// Standard chart of accounts
+// Standard chart of accounts. These are the system accounts the posting
+// functions use; shops can add their own alongside them (ChartAccountDoc).
 export enum AccountCode {
   // Asset accounts (1xxx)
   CASH = "1000",
+  BANK = "1010",
+  MOBILE_MONEY = "1020",
   INVENTORY = "1100",
   ACCOUNTS_RECEIVABLE = "1200",
 
   // Liability accounts (2xxx)
   ACCOUNTS_PAYABLE = "2000",
+  LOANS_PAYABLE = "2100",
 
   // Equity accounts (3xxx)
   OWNERS_EQUITY = "3000",
   RETAINED_EARNINGS = "3100",
+  OWNER_DRAWINGS = "3200",
 
   // Revenue accounts (4xxx)
   SALES_REVENUE = "4000",
@@ -30,8 +35,16 @@ export enum AccountCode {
   // Expense accounts (5xxx)
   COST_OF_GOODS_SOLD = "5000",
   OPERATING_EXPENSES = "5100",
+  RENT = "5110",
+  UTILITIES = "5120",
+  COMMUNICATION = "5130",
+  WAGES = "5140",
+  TRANSPORT = "5150",
+  REPAIRS = "5160",
+  INTEREST_EXPENSE = "5200",
 
   // Contra accounts (9xxx)
+  SALES_DISCOUNTS = "9000", // Offsets sales revenue
   INVENTORY_ADJUSTMENT = "9100",
 }
 
@@ -49,7 +62,19 @@ export const CHART_OF_ACCOUNTS: Record<AccountCode, Account> = {
     code: AccountCode.CASH,
     name: "Cash",
     type: "asset",
-    description: "Physical and digital cash holdings",
+    description: "Physical cash in the till",
+  },
+  [AccountCode.BANK]: {
+    code: AccountCode.BANK,
+    name: "Bank",
+    type: "asset",
+    description: "Balances held in bank accounts",
+  },
+  [AccountCode.MOBILE_MONEY]: {
+    code: AccountCode.MOBILE_MONEY,
+    name: "Mobile Money",
+    type: "asset",
+    description: "Balances held in mobile money wallets (e.g. EcoCash)",
   },
   [AccountCode.INVENTORY]: {
     code: AccountCode.INVENTORY,
@@ -69,6 +94,12 @@ export const CHART_OF_ACCOUNTS: Record<AccountCode, Account> = {
     type: "liability",
     description: "Money owed to suppliers",
   },
+  [AccountCode.LOANS_PAYABLE]: {
+    code: AccountCode.LOANS_PAYABLE,
+    name: "Loans Payable",
+    type: "liability",
+    description: "Money borrowed that is still to be repaid",
+  },
   [AccountCode.OWNERS_EQUITY]: {
     code: AccountCode.OWNERS_EQUITY,
     name: "Owner's Equity",
@@ -81,12 +112,24 @@ export const CHART_OF_ACCOUNTS: Record<AccountCode, Account> = {
     type: "equity",
     description: "Accumulated profits reinvested in the business",
   },
+  [AccountCode.OWNER_DRAWINGS]: {
+    code: AccountCode.OWNER_DRAWINGS,
+    name: "Owner's Drawings",
+    type: "equity",
+    description: "Cash and stock the owner has taken out of the business",
+  },
   [AccountCode.SALES_REVENUE]: {
     code: AccountCode.SALES_REVENUE,
     name: "Sales Revenue",
     type: "revenue",
     description: "Income from sales of goods",
   },
+  [AccountCode.SALES_DISCOUNTS]: {
+    code: AccountCode.SALES_DISCOUNTS,
+    name: "Sales Discounts",
+    type: "contra",
+    description: "Discounts given off the selling price, offsetting revenue",
+  },
   [AccountCode.COST_OF_GOODS_SOLD]: {
     code: AccountCode.COST_OF_GOODS_SOLD,
     name: "Cost of Goods Sold",
@@ -99,6 +142,48 @@ export const CHART_OF_ACCOUNTS: Record<AccountCode, Account> = {
     type: "expense",
     description: "Day-to-day business operation costs",
   },
+  [AccountCode.RENT]: {
+    code: AccountCode.RENT,
+    name: "Rent",
+    type: "expense",
+    description: "Rent for the shop and storage space",
+  },
+  [AccountCode.UTILITIES]: {
+    code: AccountCode.UTILITIES,
+    name: "Utilities",
+    type: "expense",
+    description: "Electricity, water and fuel for generators",
+  },
+  [AccountCode.COMMUNICATION]: {
+    code: AccountCode.COMMUNICATION,
+    name: "Airtime & Data",
+    type: "expense",
+    description: "Airtime, data bundles and internet",
+  },
+  [AccountCode.WAGES]: {
+    code: AccountCode.WAGES,
+    name: "Wages",
+    type: "expense",
+    description: "Wages and allowances paid to staff",
+  },
+  [AccountCode.TRANSPORT]: {
+    code: AccountCode.TRANSPORT,
+    name: "Transport",
+    type: "expense",
+    description: "Fares, fuel and delivery costs",
+  },
+  [AccountCode.REPAIRS]: {
+    code: AccountCode.REPAIRS,
+    name: "Repairs & Maintenance",
+    type: "expense",
+    description: "Repairs to the shop, fittings and equipment",
+  },
+  [AccountCode.INTEREST_EXPENSE]: {
+    code: AccountCode.INTEREST_EXPENSE,
+    name: "Interest Expense",
+    type: "expense",
+    description: "Interest paid on loans",
+  },
   [AccountCode.INVENTORY_ADJUSTMENT]: {
     code: AccountCode.INVENTORY_ADJUSTMENT,
     name: "Inventory Adjustment",
@@ -107,9 +192,30 @@ export const CHART_OF_ACCOUNTS: Record<AccountCode, Account> = {
   },
 };
 
+// Account as kept in the settings database. System accounts are seeded
+// from CHART_OF_ACCOUNTS and can't be changed; the rest are added by the
+// shop. Codes are four digits, starting with the digit for the account
+// type, and a child's code starts with its parent's (5100 > 5170).
+export interface ChartAccountDoc {
+  _id: string; // account_{code}, or account_{shopId}_{code}
+  _rev?: string;
+  type: "account";
+  code: string;
+  name: string;
+  accountType: AccountType;
+  description?: string;
+  parentCode?: string; // Account this one is grouped under
+  system: boolean;
+  active: boolean;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
+
 // A single line in a journal entry
 export interface LedgerEntryLine {
-  accountCode: AccountCode;
+  accountCode: AccountCode | string; // Custom accounts use their own code
   description: string;
   debit: Money;
   credit: Money;
@@ -126,9 +232,16 @@ export interface LedgerEntryDoc extends PouchDB.Core.Document<object> {
   postingDate: string; // When the entry was posted to the ledger
   description: string; // General description of the entry
   lines: LedgerEntryLine[]; // Individual debit/credit lines
-  status: "pending" | "posted" | "failed";
+  status: "pending" | "posted" | "failed" | "rejected";
   shopId?: string; // Shop identifier
   createdBy?: string; // userId of creator
+  // Manual journal entries
+  memo?: string; // Why the entry was made
+  reference?: string; // Supporting document, e.g. loan agreement number
+  createdByName?: string;
+  approvedBy?: string; // userId of whoever approved or rejected it
+  approvedByName?: string;
+  approvedAt?: string;
   metadata?: {
     // Additional contextual information
     [key: string]: string | number | boolean | Money | null;
@@ -150,9 +263,31 @@ export interface TrialBalance extends FinancialPeriod {
   totalCredits: Money;
 }
 
+export type PeriodType = "month" | "year";
+
+// A closed accounting period. Revenue and expenses up to endDate have been
+// moved into retained earnings and nothing can be posted on or before it.
+export interface PeriodCloseDoc extends PouchDB.Core.Document<object> {
+  _id: string; // period_close_{period} or period_close_{shopId}_{period}
+  _rev?: string;
+  type: "period_close";
+  periodType: PeriodType;
+  period: string; // 2026-09 for a month, 2026 for a year
+  startDate: string; // Just after the previous close
+  endDate: string;
+  closingEntryId?: string; // Unset when nothing had been earned or spent
+  netIncome: Money;
+  // Running balance of every account at endDate, after the closing entry
+  balances: TrialBalance["accounts"];
+  shopId?: string;
+  closedBy?: string; // userId
+  closedByName?: string;
+  closedAt: string;
+}
+
 // General ledger account history
 export interface AccountHistory extends FinancialPeriod {
-  accountCode: AccountCode;
+  accountCode: AccountCode | string;
   accountName: string;
   accountType: AccountType;
   entries: Array<{
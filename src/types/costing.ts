@@ -0,0 +1,41 @@
+import { Money, CurrencyCode } from "./money";
+import { CostingMethod } from "./index";
+
+// Quantity taken out of one lot, at that lot's own unit cost
+export interface LotAllocation {
+  lotId: string;
+  purchaseRunId: string;
+  quantity: number;
+  costPrice: Money;
+}
+
+// What a sale or write-off took out of stock and what it cost
+export interface CostAllocation {
+  lots: LotAllocation[];
+  unitCost: Money; // Cost per unit booked under the shop's costing method
+  averageCost: Money; // Weighted average cost of stock on hand beforehand
+}
+
+// One product's stock on hand and cost of sales, in base currency
+export interface InventoryValuationRow {
+  productId: string;
+  productName: string;
+  productCode: string;
+  onHand: number;
+  value: number; // Remaining lots at their own cost
+  averageUnitCost: number;
+  unitsSold: number;
+  cogsBooked: number; // As booked under the method in force at each sale
+  cogsAtLotCost: number; // Cost of the actual lots sold (FIFO)
+  cogsAtAverage: number; // Weighted average of stock on hand at each sale
+}
+
+export interface InventoryValuationReport {
+  method: CostingMethod;
+  rows: InventoryValuationRow[];
+  totalValue: number;
+  totalCogsBooked: number;
+  totalCogsAtLotCost: number;
+  totalCogsAtAverage: number;
+  currency: CurrencyCode;
+}
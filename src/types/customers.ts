@@ -0,0 +1,55 @@
+import { Money } from "./money";
+import { PaymentMethod } from "./index";
+
+export interface CustomerDoc {
+  _id: string; // customer_{timestamp}
+  _rev?: string;
+  type: "customer";
+  name: string;
+  phoneNumber?: string;
+  email?: string;
+  address?: string;
+  creditLimit?: Money; // No limit when not set
+  notes?: string;
+  active: boolean;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Money received from a customer against their account balance
+export interface CustomerPaymentDoc {
+  _id: string; // customer_payment_{timestamp}
+  _rev?: string;
+  type: "customer_payment";
+  customerId: string;
+  timestamp: string;
+  amount: Money;
+  paymentMethod: Exclude<PaymentMethod, "credit">;
+  reference?: string;
+  notes?: string;
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerStatementLine {
+  timestamp: string;
+  kind: "sale" | "return" | "payment";
+  reference: string; // Sale, return or payment document ID
+  description: string;
+  debit: number; // Increases what the customer owes (base currency)
+  credit: number; // Reduces what the customer owes (base currency)
+  balance: number; // Running balance after this line
+}
+
+export interface CustomerAging {
+  current: number; // 0-30 days
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
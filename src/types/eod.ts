@@ -27,7 +27,7 @@ export type VarianceExplanationType =
   | "petty_cash_expense"
   | "operating_expense"
   | "employee_reimbursement"
-  | "loan_given"
+  | "loan_given" // Older records; loans are now recorded as financing
   | "loan_received"
   // Operational
   | "till_float_adjustment"
@@ -131,6 +131,9 @@ export interface EODCashRecord {
   varianceLedgerEntryId?: string;
   surrenderLedgerEntryId?: string;
 
+  // Carts still parked from before this trading day, on the closing device
+  staleHeldSaleIds?: string[];
+
   // Metadata
   completedBy: string; // userId (should match userId)
   completedAt: string;
@@ -0,0 +1,48 @@
+import { Money } from "./money";
+import { PaymentMethod } from "./index";
+
+// What the money was spent on; each category posts to its own expense
+// account
+export type ExpenseCategory =
+  | "rent"
+  | "utilities" // Electricity, water, generator fuel
+  | "communication" // Airtime and data
+  | "wages"
+  | "transport"
+  | "repairs"
+  | "other";
+
+// Money spent running the shop, paid out of the till, the bank or a mobile
+// money wallet. A photo of the receipt can be kept with it.
+export interface ExpenseDoc {
+  _id: string; // expense_{timestamp}
+  _rev?: string;
+  type: "expense";
+  category: ExpenseCategory;
+  description: string;
+  payee?: string;
+  amount: Money;
+  paymentMethod: Exclude<PaymentMethod, "credit">;
+  reference?: string;
+  timestamp: string;
+  ledgerEntryId?: string;
+  hasReceipt?: boolean;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+}
+
+// Receipt photo for an expense. Kept in its own document, as base64 rather
+// than an attachment, so it is encrypted like the rest of the database and
+// only loaded when someone opens it.
+export interface ExpenseReceiptDoc {
+  _id: string; // expense_receipt_{expenseId}
+  _rev?: string;
+  type: "expense_receipt";
+  expenseId: string;
+  contentType: string;
+  data: string; // Base64 image data
+  shopId?: string; // Shop identifier
+  createdAt: string;
+}
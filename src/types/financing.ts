@@ -0,0 +1,88 @@
+import { Money } from "./money";
+import { PaymentMethod } from "./index";
+
+// How money moves in or out for financing; never on credit
+export type FinancingPaymentMethod = Exclude<PaymentMethod, "credit">;
+
+export type OwnerTransactionKind = "drawing" | "capital_injection";
+
+// Cash or stock the owner takes out of the shop for personal use, or money
+// they put in from their own pocket. Drawings post to Owner's Drawings and
+// capital to Owner's Equity.
+export interface OwnerTransactionDoc {
+  _id: string; // owner_transaction_{timestamp}
+  _rev?: string;
+  type: "owner_transaction";
+  kind: OwnerTransactionKind;
+  description: string;
+  amount: Money; // Cash moved, or the cost of the stock taken
+  paymentMethod: FinancingPaymentMethod | "stock"; // Stock only for drawings
+  // Stock drawings only
+  productId?: string;
+  productName?: string;
+  quantity?: number;
+  lots?: Array<{
+    lotId: string;
+    purchaseRunId: string;
+    quantity: number;
+    costPrice: Money;
+  }>;
+  timestamp: string;
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+}
+
+// One scheduled repayment. Interest is on the balance still owed.
+export interface LoanInstallment {
+  dueDate: string; // YYYY-MM-DD
+  principal: Money;
+  interest: Money;
+  repaymentId?: string; // Set once paid
+  paidAt?: string;
+}
+
+// Money the shop has borrowed, posted to Loans Payable, with the schedule
+// it is paid back on
+export interface LoanDoc {
+  _id: string; // loan_{timestamp}
+  _rev?: string;
+  type: "loan";
+  lender: string;
+  description?: string;
+  principal: Money;
+  monthlyInterestRate: number; // Percent a month on the balance owed
+  paymentMethod: FinancingPaymentMethod; // How the money was received
+  reference?: string; // Loan agreement number
+  timestamp: string;
+  schedule: LoanInstallment[];
+  status: "active" | "repaid";
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Payment of one installment of a loan
+export interface LoanRepaymentDoc {
+  _id: string; // loan_repayment_{timestamp}
+  _rev?: string;
+  type: "loan_repayment";
+  loanId: string;
+  lender: string;
+  installment: number; // Index into the loan's schedule
+  principal: Money;
+  interest: Money;
+  amount: Money; // Principal plus interest
+  paymentMethod: FinancingPaymentMethod;
+  timestamp: string;
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+}
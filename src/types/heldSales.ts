@@ -0,0 +1,26 @@
+import { Money } from "./money";
+import { PaymentMethod, SaleItem } from "./index";
+
+// A cart parked mid-checkout so the till can serve someone else. Held
+// sales live only on the device they were parked on and are never synced.
+export interface HeldSaleDoc {
+  _id: string; // held_sale_{timestamp}
+  _rev?: string;
+  type: "held_sale";
+  label?: string; // e.g. customer description, to pick the right cart later
+  items: SaleItem[];
+  discount?: Money; // Basket discount
+  customerId?: string;
+  customerName?: string;
+  // Payment entered so far
+  paymentMethod: PaymentMethod;
+  splitPayment: boolean;
+  tenders?: Array<{ method: PaymentMethod; amount: Money }>;
+  cashReceived?: Money;
+  totalAmount: Money; // Cart total when it was held
+  heldBy?: string; // userId of the cashier who held it
+  heldByName?: string;
+  shopId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
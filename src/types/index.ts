@@ -32,6 +32,10 @@ export interface ShopSettings {
   }>;
   type: "settings";
   hasCompletedOnboarding: boolean;
+  costingMethod?: CostingMethod; // Defaults to FIFO
+  // Manual journal entries above this, in base currency, need a second
+  // approver before they post
+  journalApprovalThreshold?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,9 +48,17 @@ export interface ProductDoc {
   name: string;
   description?: string;
   barcode?: string;
-  price: Money; // Current selling price
-  costPrice: Money; // Last purchase cost
-  stockQuantity: number;
+  price: Money; // Current selling price, per base unit
+  costPrice: Money; // Last purchase cost, per base unit
+  stockQuantity: number; // In the base unit
+  unit?: string; // Base unit stock is kept and sold in, e.g. "kg" or "loaf"
+  fractional?: boolean; // Weighed or measured, so can be sold in part units
+  packUnits?: PackUnit[]; // Larger units it is bought in, e.g. a 50kg bag
+  familyId?: string; // Product family this is a variant of
+  variantAttributes?: Record<string, string>; // e.g. { Size: "L" }
+  bundleComponents?: BundleComponent[]; // Bundles hold no stock of their own
+  reorderLevel?: number; // Warn when stock falls to or below this
+  reorderQuantity?: number; // Usual quantity to buy when reordering
   purchaseDate?: string;
   shopId?: string; // Shop identifier
   createdBy?: string; // userId of creator
@@ -54,15 +66,63 @@ export interface ProductDoc {
   updatedAt: string;
 }
 
+// A unit a product is bought in, holding a fixed number of base units
+export interface PackUnit {
+  name: string; // e.g. "bag", "crate"
+  factor: number; // Base units in one pack
+}
+
+// One product a bundle or kit is made up of
+export interface BundleComponent {
+  productId: string;
+  productName: string;
+  productCode: string;
+  quantity: number; // Per bundle, in the component's base unit
+}
+
+// What selling a bundle took out of one component's lots
+export interface SaleBundleComponent extends BundleComponent {
+  costPrice: Money; // Unit cost of the component, in base currency
+  lotsUsed: Array<{
+    lotId: string;
+    purchaseRunId: string;
+    quantity: number;
+    costPrice: Money;
+  }>;
+}
+
 export interface PurchaseItem {
   productId: string;
   productName: string;
   productCode: string;
-  qty: number;
-  costPrice: Money;
+  qty: number; // In the product's base unit
+  costPrice: Money; // Per base unit
   intendedSellingPrice: Money;
   expectedProfit: Money;
   total: Money;
+  batchNumber?: string; // Supplier's batch / lot number
+  expiryDate?: string; // YYYY-MM-DD, for perishables and medicines
+  weight?: number; // Per-unit weight, for apportioning landed costs by weight
+  landedCost?: Money; // Per-unit share of landed costs, in costPrice's currency
+  unit?: string; // Product's base unit when bought
+  packUnit?: string; // Pack it was bought in, when not the base unit
+  packQty?: number; // Number of packs bought
+  unitsPerPack?: number; // Base units in each pack
+}
+
+// How a purchase's landed costs are shared out between its items
+export type LandedCostBasis = "value" | "quantity" | "weight";
+
+// How a landed cost was paid. Never on credit: the cost has no supplier
+// bill for the amount owed to be settled against.
+export type LandedCostPaymentMethod = Exclude<PaymentMethod, "credit">;
+
+// A cost of getting goods into the shop on top of the supplier's price,
+// e.g. transport, duty or border fees
+export interface LandedCostLine {
+  description: string;
+  amount: Money;
+  paymentMethod: LandedCostPaymentMethod;
 }
 
 export interface InventoryLot {
@@ -77,7 +137,10 @@ export interface InventoryLot {
   quantity: number; // Original quantity purchased
   remainingQuantity: number; // How much is left (for FIFO tracking)
   costPrice: Money;
+  batchNumber?: string; // Supplier's batch / lot number
+  expiryDate?: string; // YYYY-MM-DD; dated lots sell first-expired-first-out
   supplier?: string;
+  supplierId?: string; // Linked supplier from the directory
   shopId?: string; // Shop identifier
   createdAt: string;
   updatedAt: string;
@@ -90,9 +153,14 @@ export interface PurchaseDoc {
   purchaseRunId: string;
   timestamp: string;
   supplier?: string;
+  supplierId?: string; // Linked supplier from the directory
+  dueDate?: string; // When a credit purchase must be paid
+  purchaseOrderId?: string; // Order this delivery was received against
   notes?: string;
   items: PurchaseItem[];
-  totalAmount: Money;
+  totalAmount: Money; // Owed to the supplier, excluding landed costs
+  landedCosts?: LandedCostLine[];
+  landedCostBasis?: LandedCostBasis;
   paymentMethod: PaymentMethod;
   status: "pending" | "synced" | "failed";
   shopId?: string; // Shop identifier
@@ -105,10 +173,12 @@ export interface SaleItem {
   productId: string;
   productName: string;
   productCode: string;
-  qty: number;
+  qty: number; // In the product's base unit; may be fractional
+  unit?: string; // Product's base unit when sold
   price: Money;
   costPrice: Money;
-  total: Money;
+  total: Money; // qty x price, less any line discount
+  discount?: Money; // Discount taken off this line
   purchaseDate?: string;
   // FIFO lot tracking
   lotsUsed?: Array<{
@@ -117,6 +187,16 @@ export interface SaleItem {
     quantity: number;
     costPrice: Money;
   }>;
+  lotId?: string; // Lot picked at the till (specific identification)
+  averageCost?: Money; // Weighted average unit cost of stock on hand when sold
+  components?: SaleBundleComponent[]; // Set when a bundle was sold
+}
+
+// One tender on a sale. A sale may be settled by several of these
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: Money; // Amount tendered, in the currency it was paid in
+  change?: Money; // Change handed back from this tender (cash only)
 }
 
 export interface SaleDoc {
@@ -125,15 +205,72 @@ export interface SaleDoc {
   type: "sale";
   timestamp: string;
   customer?: string;
+  customerId?: string; // Linked customer account (required for credit sales)
   notes?: string;
   items: SaleItem[];
-  totalAmount: Money;
+  discount?: Money; // Discount taken off the whole basket
+  totalAmount: Money; // Net of line and basket discounts
   totalCost: Money;
   profit: Money;
-  paymentMethod: PaymentMethod;
+  // Set when a manager or owner let items go at or below cost
+  belowCostApproval?: {
+    approvedBy: string; // userId of the approver
+    approvedByName?: string;
+    approvedAt: string;
+    reason: string;
+  };
+  paymentMethod: PaymentMethod | "split"; // "split" for mixed tenders
+  payments?: SalePayment[]; // Tender lines (missing on older sales)
   cashReceived?: Money;
   change?: Money;
   status: "pending" | "synced" | "failed";
+  // Set when the sale is voided. The sale itself is never deleted or edited
+  voided?: {
+    voidedAt: string;
+    voidedBy?: string; // userId of the manager who voided it
+    voidedByName?: string;
+    reason: string;
+    ledgerEntryId?: string; // Compensating ledger entry
+  };
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaleReturnItem {
+  productId: string;
+  productName: string;
+  productCode: string;
+  qty: number;
+  price: Money; // Unit price refunded (from the sale, net of discounts)
+  costPrice: Money; // Average unit cost of the lots restocked
+  total: Money;
+  discount?: Money; // Discount the customer got on the returned quantity
+  // Lots the returned quantity was put back into
+  lotsRestocked: Array<{
+    lotId: string;
+    purchaseRunId: string;
+    quantity: number;
+    costPrice: Money;
+  }>;
+  // For bundles: component stock put back, since the bundle holds none
+  componentsRestocked?: Array<{ productId: string; quantity: number }>;
+}
+
+export interface SaleReturnDoc {
+  _id: string;
+  _rev?: string;
+  type: "sale_return";
+  saleId: string; // Original sale this return is against
+  timestamp: string;
+  reason?: string;
+  items: SaleReturnItem[];
+  totalAmount: Money; // Amount refunded to the customer
+  totalCost: Money; // Cost value restocked into inventory
+  refundMethod: PaymentMethod;
+  ledgerEntryId?: string;
+  status: "pending" | "synced" | "failed";
   shopId?: string; // Shop identifier
   createdBy?: string; // userId of creator
   createdAt: string;
@@ -151,6 +288,9 @@ export interface OnboardingWizardProps {
 
 export type PaymentMethod = "cash" | "bank" | "mobile_money" | "credit";
 
+// How the cost of goods sold is worked out
+export type CostingMethod = "fifo" | "weighted_average" | "specific";
+
 // User and Shop types
 export type UserRole = "owner" | "manager" | "employee";
 export type UserStatus = "active" | "invited" | "suspended";
@@ -171,6 +311,7 @@ export interface UserDoc {
   invitedAt?: string;
   lastLoginAt?: string;
   keySignature?: string; // Signature derived from key (for zero-storage key auth)
+  approvalPinHash?: string; // Hashed PIN for approving at another user's till
   createdAt: string;
   updatedAt: string;
 }
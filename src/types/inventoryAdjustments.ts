@@ -0,0 +1,50 @@
+import { Money, CurrencyCode } from "./money";
+
+// Why stock was written off outside of a sale
+export type AdjustmentReason =
+  | "damaged"
+  | "expired"
+  | "stolen"
+  | "own_use" // Taken for the owner's or staff's own use
+  | "sample"; // Given away as a sample or tester
+
+// Stock written off for one product, taken out of specific lots
+export interface InventoryAdjustmentDoc {
+  _id: string; // inventory_adjustment_{timestamp}
+  _rev?: string;
+  type: "inventory_adjustment";
+  productId: string;
+  productName: string;
+  productCode: string;
+  reason: AdjustmentReason;
+  quantity: number;
+  lots: Array<{
+    lotId: string;
+    purchaseRunId: string;
+    quantity: number;
+    costPrice: Money;
+  }>;
+  value: Money; // Cost of the stock written off, in base currency
+  notes?: string;
+  timestamp: string;
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+}
+
+// Stock lost over a period, grouped one way or another, in base currency
+export interface ShrinkageRow {
+  key: string;
+  label: string;
+  quantity: number;
+  value: number;
+}
+
+export interface ShrinkageReport {
+  byReason: ShrinkageRow[];
+  byProduct: ShrinkageRow[];
+  totalValue: number;
+  currency: CurrencyCode;
+}
@@ -0,0 +1,21 @@
+// An attribute the variants of a family differ by, e.g. Size: S, M, L
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// A group of products that are the same item in different sizes, colours
+// etc. Each variant is its own ProductDoc so it keeps its own stock and lots.
+export interface ProductFamilyDoc {
+  _id: string;
+  _rev?: string;
+  type: "product_family";
+  name: string;
+  code: string; // Variant codes are this plus their attribute values
+  description?: string;
+  attributes: VariantAttribute[];
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,63 @@
+import { Money } from "./money";
+import { PaymentMethod } from "./index";
+
+// Where an order is in its life: drafted, sent to the supplier, then
+// received in one or more deliveries. "closed" ends an order that will
+// never be fully delivered.
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially_received"
+  | "received"
+  | "closed";
+
+export interface PurchaseOrderItem {
+  productId: string;
+  productName: string;
+  productCode: string;
+  orderedQty: number;
+  receivedQty: number; // Sum over all deliveries so far
+  costPrice: Money; // Agreed unit cost
+  intendedSellingPrice: Money;
+}
+
+// Goods ordered from a supplier. Nothing reaches stock or the ledger until
+// a delivery is received against the order; each delivery is saved as an
+// ordinary purchase run with its own lots and ledger entry.
+export interface PurchaseOrderDoc {
+  _id: string; // purchase_order_{timestamp}
+  _rev?: string;
+  type: "purchase_order";
+  status: PurchaseOrderStatus;
+  supplier?: string;
+  supplierId?: string; // Linked supplier from the directory
+  expectedDate?: string; // YYYY-MM-DD the supplier promised delivery
+  paymentMethod: PaymentMethod; // How deliveries are usually paid for
+  notes?: string;
+  items: PurchaseOrderItem[];
+  totalAmount: Money; // Ordered quantities at the agreed costs
+  deliveries: Array<{
+    purchaseRunId: string;
+    timestamp: string;
+    totalAmount: Money;
+    receivedBy?: string;
+    receivedByName?: string;
+  }>;
+  sentAt?: string;
+  closedAt?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Ordered against delivered for one line of an order
+export interface PurchaseOrderDiscrepancy {
+  productId: string;
+  productName: string;
+  orderedQty: number;
+  receivedQty: number;
+  shortQty: number; // Still to come (or never coming, once closed)
+  overQty: number; // Delivered beyond what was ordered
+}
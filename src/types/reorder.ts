@@ -0,0 +1,24 @@
+import { Money } from "./money";
+
+// A product that should be bought again, with its recent sell-through
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  productCode: string;
+  stockQuantity: number;
+  reorderLevel?: number;
+  soldInPeriod: number; // Units sold over the look-back period
+  turnoverRate: number; // Units sold per day
+  daysOfInventoryRemaining: number | null; // Based on the turnover rate
+  suggestedQty: number;
+  costPrice: Money; // Last purchase cost
+  sellingPrice: Money;
+}
+
+// Suggestions grouped by the supplier each product was last bought from
+export interface SupplierReorderGroup {
+  supplierId?: string;
+  supplierName?: string; // Empty when the product was never bought from anyone
+  items: ReorderSuggestion[];
+  totalCost: Money; // suggestedQty × costPrice, in base currency
+}
@@ -0,0 +1,70 @@
+import { Money } from "./money";
+
+// What the system held for one product when the stock take was frozen
+export interface StockTakeLine {
+  productId: string;
+  productName: string;
+  productCode: string;
+  barcode?: string;
+  expectedQty: number; // Remaining lot quantity at the snapshot
+  unitCost: Money; // Average cost of the remaining lots (or last cost)
+}
+
+// Stock actually added or written off for one product on approval
+export interface StockTakeAdjustment {
+  productId: string;
+  productName: string;
+  expectedQty: number;
+  countedQty: number;
+  quantityDelta: number; // Positive = surplus found, negative = shrinkage
+  value: Money; // Cost value of the delta, in base currency (signed)
+}
+
+// A stock take (full or cycle count). The snapshot is frozen when it
+// starts; counts are recorded as separate documents so several people can
+// count at once without conflicting writes.
+export interface StockTakeDoc {
+  _id: string; // stock_take_{timestamp}
+  _rev?: string;
+  type: "stock_take";
+  name: string; // e.g. "Month-end count" or "Aisle 3 cycle count"
+  notes?: string;
+  status: "counting" | "approved" | "cancelled";
+  snapshotAt: string;
+  lines: StockTakeLine[];
+  startedBy?: string; // userId
+  startedByName?: string;
+  approvedBy?: string; // userId
+  approvedByName?: string;
+  approvedAt?: string;
+  cancelledAt?: string;
+  adjustments?: StockTakeAdjustment[];
+  varianceValue?: Money; // Net value posted, in base currency (signed)
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One scan or entry by one counter. A product's counted quantity is the
+// sum of its counts, so the same shelf can be counted in several passes.
+export interface StockCountDoc {
+  _id: string; // stock_count_{timestamp}_{random}
+  _rev?: string;
+  type: "stock_count";
+  stockTakeId: string;
+  productId: string;
+  quantity: number;
+  countedBy?: string; // userId
+  countedByName?: string;
+  timestamp: string;
+  shopId?: string; // Shop identifier
+}
+
+// Expected vs counted for one product, for review before approval
+export interface StockTakeVariance {
+  line: StockTakeLine;
+  countedQty: number | null; // null = not counted yet
+  variance: number; // counted - expected (0 while uncounted)
+  varianceValue: number; // variance × unit cost, in the cost currency
+}
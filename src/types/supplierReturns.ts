@@ -0,0 +1,35 @@
+import { Money } from "./money";
+import { PaymentMethod } from "./index";
+
+// Quantity sent back out of one lot of a purchase run
+export interface SupplierReturnLine {
+  lotId: string;
+  productId: string;
+  productName: string;
+  productCode: string;
+  quantity: number;
+  costPrice: Money; // Lot's unit cost, landed costs included
+}
+
+// Goods sent back to the supplier (damaged, wrong or excess stock), taken
+// out of specific lots of the purchase run they arrived in. The supplier
+// either gives a credit note against what is owed ("credit") or refunds
+// the money through cash, bank or mobile money.
+export interface SupplierReturnDoc {
+  _id: string; // supplier_return_{timestamp}
+  _rev?: string;
+  type: "supplier_return";
+  purchaseRunId: string;
+  supplierId?: string;
+  supplier?: string;
+  items: SupplierReturnLine[];
+  totalValue: Money; // At cost, in base currency
+  refundMethod: PaymentMethod;
+  reason?: string;
+  timestamp: string;
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdByName?: string;
+  createdAt: string;
+}
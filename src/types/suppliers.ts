@@ -0,0 +1,61 @@
+import { Money } from "./money";
+import { PaymentMethod } from "./index";
+
+export interface SupplierDoc {
+  _id: string; // supplier_{timestamp}
+  _rev?: string;
+  type: "supplier";
+  name: string;
+  contactName?: string;
+  phoneNumber?: string;
+  email?: string;
+  address?: string;
+  paymentTermsDays: number; // Days until a credit purchase falls due (0 = on receipt)
+  notes?: string;
+  active: boolean;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Money paid to a supplier against a credit purchase
+export interface SupplierPaymentDoc {
+  _id: string; // supplier_payment_{timestamp}
+  _rev?: string;
+  type: "supplier_payment";
+  purchaseId: string;
+  supplierId?: string;
+  timestamp: string;
+  amount: Money;
+  paymentMethod: Exclude<PaymentMethod, "credit">;
+  reference?: string;
+  notes?: string;
+  ledgerEntryId?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A credit purchase with what is still owed on it, in base currency
+export interface PayableBill {
+  purchaseId: string;
+  supplierId?: string;
+  supplierName: string;
+  timestamp: string;
+  dueDate: string;
+  total: number;
+  paid: number;
+  outstanding: number;
+  daysOverdue: number; // Negative while the bill is not yet due
+}
+
+export interface PayablesAging {
+  current: number; // Not yet due
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
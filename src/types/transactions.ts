@@ -0,0 +1,106 @@
+import { ProductDoc } from "./index";
+import { Money } from "./money";
+
+// Databases a transaction can write documents into
+export type TransactionDatabase =
+  | "sales"
+  | "purchases"
+  | "inventory_adjustments"
+  | "expenses"
+  | "financing"
+  | "customers"
+  | "suppliers"
+  | "stock_takes";
+
+// How to undo one completed write. Steps are plain data so a transaction
+// interrupted by a reload can still be rolled back on the next start.
+export type CompensationStep =
+  | {
+      // Undo a FIFO allocation by putting the quantities back. A lot still
+      // at remainingBefore was never drawn down (or is already restocked).
+      kind: "restock_lots";
+      lots: Array<{
+        lotId: string;
+        quantity: number;
+        remainingBefore?: number;
+      }>;
+    }
+  | {
+      // Undo a restock (e.g. from a return) by taking the quantities back
+      // out. A lot still at remainingBefore was never restocked.
+      kind: "take_lots";
+      lots: Array<{ lotId: string; quantity: number; remainingBefore: number }>;
+    }
+  | {
+      // Undo a product update: reverse the stock change and put back any
+      // fields (e.g. prices) the transaction overwrote. Stock still at
+      // previousStock was never changed (or is already reversed).
+      kind: "update_product";
+      productId: string;
+      stockDelta: number;
+      previousStock?: number;
+      previousFields?: Partial<
+        Pick<ProductDoc, "price" | "costPrice" | "purchaseDate">
+      >;
+    }
+  | {
+      // Undo a document creation by removing it (if it was written at all)
+      kind: "remove_doc";
+      db: TransactionDatabase;
+      docId: string;
+    }
+  | {
+      // Undo a document update by putting back its previous contents
+      kind: "restore_doc";
+      db: TransactionDatabase;
+      previous: { _id: string; [field: string]: unknown };
+    }
+  | {
+      // Undo a weighted average revaluation by putting back each lot's cost
+      kind: "restore_lot_costs";
+      lots: Array<{ lotId: string; costPrice: Money }>;
+    }
+  | {
+      // Undo lot creation for a purchase run
+      kind: "remove_lots";
+      purchaseRunId: string;
+    }
+  | {
+      // Undo ledger postings for a transaction
+      kind: "remove_ledger_entries";
+      transactionId: string;
+    };
+
+export type TransactionStatus =
+  | "in_progress"
+  | "rolled_back"
+  | "committed" // Writes succeeded but the journal couldn't be deleted
+  | "failed"; // Rollback itself failed, needs attention
+
+export interface TransactionJournalDoc {
+  _id: string;
+  _rev?: string;
+  type: "transaction_journal";
+  transactionType:
+    | "sale"
+    | "sale_return"
+    | "sale_void"
+    | "purchase"
+    | "stock_take"
+    | "inventory_adjustment"
+    | "supplier_return"
+    | "expense"
+    | "customer_payment"
+    | "supplier_payment"
+    | "owner_transaction"
+    | "loan"
+    | "loan_repayment";
+  transactionId: string; // ID of the sale, purchase or adjustment being written
+  status: TransactionStatus;
+  steps: CompensationStep[]; // Compensations for completed writes, oldest first
+  error?: string;
+  shopId?: string; // Shop identifier
+  createdBy?: string; // userId of creator
+  createdAt: string;
+  updatedAt: string;
+}